@@ -3,7 +3,14 @@ import { View, ActivityIndicator, StyleSheet } from 'react-native';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { setupPlayer } from './src/services/trackPlayerService';
+import { streamFileCacheManager } from './src/services/streamFileCacheManager';
+import { downloadManager } from './src/services/downloadManager';
+import { scrobbler } from './src/services/scrobbler';
+import { autoplayManager } from './src/services/autoplayManager';
+import { streamQuality } from './src/services/streamQuality';
 import usePlayerStore from './src/store/playerStore';
+import useResumeStore from './src/store/resumeStore';
+import useSearchHistoryStore from './src/store/searchHistoryStore';
 import AppNavigator from './src/navigation/AppNavigator';
 import { Colors } from './src/theme';
 
@@ -11,6 +18,11 @@ export default function App() {
   const [isReady, setIsReady] = useState(false);
   const loadRecentlyPlayed = usePlayerStore((s) => s.loadRecentlyPlayed);
   const loadLikedSongs = usePlayerStore((s) => s.loadLikedSongs);
+  const loadPlaylists = usePlayerStore((s) => s.loadPlaylists);
+  const loadPlaybackSession = usePlayerStore((s) => s.loadPlaybackSession);
+  const loadAutoplaySetting = usePlayerStore((s) => s.loadAutoplaySetting);
+  const loadResumePositions = useResumeStore((s) => s.loadPositions);
+  const loadSearchHistory = useSearchHistoryStore((s) => s.loadSearchHistory);
 
   useEffect(() => {
     async function init() {
@@ -18,6 +30,21 @@ export default function App() {
         await setupPlayer();
         loadRecentlyPlayed();
         loadLikedSongs();
+        loadPlaylists();
+        loadPlaybackSession();
+        loadAutoplaySetting();
+        loadResumePositions();
+        loadSearchHistory();
+        autoplayManager.init();
+        // Learn the connection type before the first stream is resolved
+        streamQuality.init();
+        // Load the stream cache index and clean up orphaned files
+        void streamFileCacheManager.init();
+        // Restore the download queue and continue unfinished downloads
+        void downloadManager.init();
+        // Send scrobbles that couldn't be submitted last session, and retry
+        // them when connectivity returns
+        scrobbler.init();
       } catch (error) {
         console.warn('Failed to setup player:', error);
       } finally {
@@ -25,7 +52,15 @@ export default function App() {
       }
     }
     init();
-  }, [loadRecentlyPlayed, loadLikedSongs]);
+  }, [
+    loadRecentlyPlayed,
+    loadLikedSongs,
+    loadPlaylists,
+    loadPlaybackSession,
+    loadAutoplaySetting,
+    loadResumePositions,
+    loadSearchHistory,
+  ]);
 
   if (!isReady) {
     return (
@@ -3,6 +3,16 @@ const { default: Innertube } = require('youtubei.js');
 const VIDEO_ID_REGEX = /^[A-Za-z0-9_-]{11}$/;
 const RESOLVE_CACHE_TTL_MS = 5 * 60 * 1000;
 
+// Highest audio bitrate (bps) each app quality setting allows
+const QUALITY_MAX_BITRATE = {
+  low: 96000,
+  normal: 160000,
+  high: 320000,
+  max: Infinity,
+};
+// Reported bitrates are peaks; allow some slack over the ceiling
+const BITRATE_TOLERANCE = 1.1;
+
 const CLIENT_USER_AGENTS = {
   IOS: 'com.google.ios.youtube/20.11.6 (iPhone10,4; U; CPU iOS 16_7_7 like Mac OS X)',
   ANDROID: 'com.google.android.youtube/19.35.36(Linux; U; Android 13; en_US; SM-S908E Build/TP1A.220624.014) gzip',
@@ -91,6 +101,21 @@ function asClientList(input) {
   return output;
 }
 
+function asQuality(input) {
+  const quality = String(input || '').trim().toLowerCase();
+  return quality in QUALITY_MAX_BITRATE ? quality : 'max';
+}
+
+// Best candidates under the quality's ceiling first, then the rest from lowest up
+function orderByQuality(items, getBitrate, quality) {
+  const ceiling = QUALITY_MAX_BITRATE[quality] * BITRATE_TOLERANCE;
+  const within = items.filter((item) => getBitrate(item) <= ceiling);
+  const above = items.filter((item) => getBitrate(item) > ceiling);
+  within.sort((a, b) => getBitrate(b) - getBitrate(a));
+  above.sort((a, b) => getBitrate(a) - getBitrate(b));
+  return [...within, ...above];
+}
+
 function getClientOrder(excludeClients) {
   const envOverride = process.env.YT_CLIENT_ORDER
     ? process.env.YT_CLIENT_ORDER.split(',').map((c) => c.trim().toUpperCase())
@@ -164,7 +189,7 @@ function resolveHlsUrl(uri, baseUrl) {
   }
 }
 
-function pickBestAudioRendition(manifest, baseUrl) {
+function pickBestAudioRendition(manifest, baseUrl, quality) {
   const lines = manifest.split('\n');
 
   const mediaAudioLines = lines.filter(
@@ -172,10 +197,15 @@ function pickBestAudioRendition(manifest, baseUrl) {
   );
 
   if (mediaAudioLines.length > 0) {
-    const lastMedia = mediaAudioLines[mediaAudioLines.length - 1];
-    const uriMatch = lastMedia.match(/URI="([^"]+)"/);
+    // Listed in ascending quality, without bandwidth
+    const pickLowest = quality === 'low' && mediaAudioLines.length > 1;
+    const media = pickLowest ? mediaAudioLines[0] : mediaAudioLines[mediaAudioLines.length - 1];
+    const uriMatch = media.match(/URI="([^"]+)"/);
     if (uriMatch && uriMatch[1]) {
-      return resolveHlsUrl(uriMatch[1], baseUrl);
+      return {
+        url: resolveHlsUrl(uriMatch[1], baseUrl),
+        bandwidth: pickLowest ? 64000 : 256000,
+      };
     }
   }
 
@@ -208,11 +238,10 @@ function pickBestAudioRendition(manifest, baseUrl) {
 
   if (audioOnlyVariants.length === 0) return null;
 
-  audioOnlyVariants.sort((a, b) => b.bandwidth - a.bandwidth);
-  return audioOnlyVariants[0].url;
+  return orderByQuality(audioOnlyVariants, (variant) => variant.bandwidth, quality)[0];
 }
 
-async function tryHls(streamingData, client) {
+async function tryHls(streamingData, client, quality) {
   if (!streamingData || !streamingData.hls_manifest_url) return null;
 
   const hlsUrl = streamingData.hls_manifest_url;
@@ -231,13 +260,13 @@ async function tryHls(streamingData, client) {
 
     if (response.ok) {
       const manifest = await response.text();
-      const audioOnlyUrl = pickBestAudioRendition(manifest, hlsUrl);
+      const rendition = pickBestAudioRendition(manifest, hlsUrl, quality);
 
-      if (audioOnlyUrl) {
+      if (rendition) {
         return buildStreamInfo(client, {
-          url: audioOnlyUrl,
+          url: rendition.url,
           mimeType: 'application/x-mpegURL',
-          bitrate: 256000,
+          bitrate: rendition.bandwidth,
           durationMs: 0,
           headers: {
             'User-Agent': ua,
@@ -262,14 +291,14 @@ async function tryHls(streamingData, client) {
   });
 }
 
-function sortAdaptiveAudioFormats(adaptiveFormats) {
+function sortAdaptiveAudioFormats(adaptiveFormats, quality) {
   const qualityRank = {
     AUDIO_QUALITY_HIGH: 3,
     AUDIO_QUALITY_MEDIUM: 2,
     AUDIO_QUALITY_LOW: 1,
   };
 
-  return adaptiveFormats
+  const sorted = adaptiveFormats
     .filter((format) => format.has_audio && !format.has_video)
     .sort((a, b) => {
       const bitrateDiff = (b.bitrate || 0) - (a.bitrate || 0);
@@ -278,15 +307,21 @@ function sortAdaptiveAudioFormats(adaptiveFormats) {
       const bRank = qualityRank[b.audio_quality] || 0;
       return bRank - aRank;
     });
+
+  return orderByQuality(
+    sorted,
+    (format) => format.average_bitrate || format.bitrate || 0,
+    quality,
+  );
 }
 
-async function tryDirectAudio(yt, streamingData, client) {
+async function tryDirectAudio(yt, streamingData, client, quality) {
   if (!streamingData || !Array.isArray(streamingData.adaptive_formats)) {
     return null;
   }
 
   const ua = CLIENT_USER_AGENTS[client] || CLIENT_USER_AGENTS.WEB;
-  const formats = sortAdaptiveAudioFormats(streamingData.adaptive_formats);
+  const formats = sortAdaptiveAudioFormats(streamingData.adaptive_formats, quality);
 
   for (const format of formats) {
     try {
@@ -318,7 +353,7 @@ async function tryDirectAudio(yt, streamingData, client) {
   return null;
 }
 
-async function tryClientForStream(yt, videoId, client) {
+async function tryClientForStream(yt, videoId, client, quality) {
   const info = await withTimeout(
     yt.getBasicInfo(videoId, { client }),
     10000,
@@ -331,26 +366,27 @@ async function tryClientForStream(yt, videoId, client) {
   }
 
   if (client === 'IOS') {
-    const hls = await tryHls(streamingData, client);
+    const hls = await tryHls(streamingData, client, quality);
     if (hls) return hls;
 
-    const direct = await tryDirectAudio(yt, streamingData, client);
+    const direct = await tryDirectAudio(yt, streamingData, client, quality);
     if (direct) return direct;
 
     return null;
   }
 
-  const direct = await tryDirectAudio(yt, streamingData, client);
+  const direct = await tryDirectAudio(yt, streamingData, client, quality);
   if (direct) return direct;
 
-  const hls = await tryHls(streamingData, client);
+  const hls = await tryHls(streamingData, client, quality);
   if (hls) return hls;
 
   return null;
 }
 
-async function resolveStream(videoId, excludeClients) {
-  const cached = resolvedCache.get(videoId);
+async function resolveStream(videoId, excludeClients, quality) {
+  const cacheKey = `${videoId}:${quality}`;
+  const cached = resolvedCache.get(cacheKey);
   if (cached && Date.now() - cached.resolvedAt < RESOLVE_CACHE_TTL_MS) {
     if (!excludeClients.includes(String(cached.stream.clientUsed || '').toUpperCase())) {
       return cached.stream;
@@ -367,13 +403,13 @@ async function resolveStream(videoId, excludeClients) {
 
   for (const client of clients) {
     try {
-      const stream = await tryClientForStream(yt, videoId, client);
+      const stream = await tryClientForStream(yt, videoId, client, quality);
       if (!stream) {
         failures.push({ client, error: 'No playable stream returned' });
         continue;
       }
 
-      resolvedCache.set(videoId, {
+      resolvedCache.set(cacheKey, {
         stream,
         resolvedAt: Date.now(),
       });
@@ -411,6 +447,7 @@ module.exports = async function handler(req, res) {
   const body = req.method === 'POST' ? readRequestBody(req) : {};
   const videoId = String((req.query.videoId || body.videoId || '')).trim();
   const excludeClients = asClientList(req.query.excludeClients || body.excludeClients);
+  const quality = asQuality(req.query.quality || body.quality);
 
   if (!VIDEO_ID_REGEX.test(videoId)) {
     res.status(400).json({ ok: false, error: 'Invalid or missing videoId' });
@@ -419,7 +456,7 @@ module.exports = async function handler(req, res) {
 
   try {
     const stream = await withTimeout(
-      resolveStream(videoId, excludeClients),
+      resolveStream(videoId, excludeClients, quality),
       45000,
       `resolving ${videoId}`,
     );
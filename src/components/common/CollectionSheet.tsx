@@ -0,0 +1,332 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  Modal,
+  Dimensions,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Image } from 'expo-image';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors, Spacing, FontSize, FontWeight, BorderRadius } from '../../theme';
+import DownloadButton from './DownloadButton';
+import type { Track } from '../../types';
+
+const { height: SCREEN_HEIGHT } = Dimensions.get('window');
+
+export interface CollectionSheetInfo {
+  entityType: 'album' | 'playlist';
+  title: string;
+  artist: string;
+  subtitle: string;
+  artwork: string;
+}
+
+interface CollectionSheetProps {
+  visible: boolean;
+  loading: boolean;
+  error: string;
+  collection: CollectionSheetInfo | null;
+  tracks: Track[];
+  onClose: () => void;
+  onPlay: (index: number) => void;
+  onStartRadio?: () => void;
+  onTrackLongPress?: (track: Track) => void;
+}
+
+/**
+ * Bottom sheet listing the songs of an album or playlist, with Play, Radio
+ * and Download actions. Used by Home, Search and the genre pages, with its
+ * state from useCollectionSheet.
+ */
+const CollectionSheet: React.FC<CollectionSheetProps> = ({
+  visible,
+  loading,
+  error,
+  collection,
+  tracks,
+  onClose,
+  onPlay,
+  onStartRadio,
+  onTrackLongPress,
+}) => {
+  const insets = useSafeAreaInsets();
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      statusBarTranslucent
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View
+          style={[
+            styles.sheet,
+            {
+              paddingTop: insets.top + Spacing.lg,
+              paddingBottom: Math.max(insets.bottom, Spacing.lg),
+            },
+          ]}
+        >
+          <View style={styles.topBar}>
+            <TouchableOpacity
+              style={styles.closeBtn}
+              onPress={onClose}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            >
+              <Ionicons name="chevron-down" size={24} color={Colors.textPrimary} />
+            </TouchableOpacity>
+            <Text style={styles.topBarTitle}>
+              {collection?.entityType === 'playlist' ? 'Playlist' : 'Album'}
+            </Text>
+            <View style={styles.topBarSpacer} />
+          </View>
+
+          {loading ? (
+            <View style={styles.centerState}>
+              <ActivityIndicator size="small" color={Colors.textMuted} />
+              <Text style={styles.stateText}>Loading songs...</Text>
+            </View>
+          ) : error && !collection ? (
+            <View style={styles.centerState}>
+              <Text style={styles.stateText}>{error}</Text>
+            </View>
+          ) : collection ? (
+            <ScrollView
+              style={styles.body}
+              contentContainerStyle={styles.bodyContent}
+              showsVerticalScrollIndicator={false}
+            >
+              <View style={styles.hero}>
+                <Image
+                  source={{ uri: collection.artwork }}
+                  style={styles.heroArtwork}
+                  contentFit="cover"
+                  transition={200}
+                />
+                <Text style={styles.title}>{collection.title}</Text>
+                <Text style={styles.subtitle} numberOfLines={2}>
+                  {collection.artist || collection.subtitle}
+                </Text>
+
+                <View style={styles.actions}>
+                  <TouchableOpacity
+                    style={[
+                      styles.playButton,
+                      tracks.length === 0 && styles.playButtonDisabled,
+                    ]}
+                    activeOpacity={0.7}
+                    onPress={() => onPlay(0)}
+                    disabled={tracks.length === 0}
+                  >
+                    <Ionicons name="play" size={18} color={Colors.black} />
+                    <Text style={styles.playText}>Play</Text>
+                  </TouchableOpacity>
+                  {onStartRadio && (
+                    <TouchableOpacity
+                      style={styles.iconButton}
+                      activeOpacity={0.7}
+                      onPress={onStartRadio}
+                      disabled={tracks.length === 0}
+                      hitSlop={8}
+                    >
+                      <Ionicons name="radio-outline" size={24} color={Colors.textPrimary} />
+                    </TouchableOpacity>
+                  )}
+                  <DownloadButton tracks={tracks} />
+                </View>
+                {error ? (
+                  <Text style={styles.inlineError}>{error}</Text>
+                ) : null}
+              </View>
+
+              <View style={styles.trackList}>
+                {tracks.map((track, index) => (
+                  <TouchableOpacity
+                    key={`${track.id}-${index}`}
+                    style={styles.trackRow}
+                    activeOpacity={0.7}
+                    onPress={() => onPlay(index)}
+                    onLongPress={onTrackLongPress ? () => onTrackLongPress(track) : undefined}
+                  >
+                    <Text style={styles.trackIndex}>{index + 1}</Text>
+                    <View style={styles.trackMeta}>
+                      <Text style={styles.trackTitle} numberOfLines={1}>
+                        {track.title}
+                      </Text>
+                      <Text style={styles.trackArtist} numberOfLines={1}>
+                        {track.artist}
+                      </Text>
+                    </View>
+                    <Ionicons name="play" size={16} color={Colors.textSecondary} />
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </ScrollView>
+          ) : (
+            <View style={styles.centerState}>
+              <Text style={styles.stateText}>No collection selected.</Text>
+            </View>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+export default React.memo(CollectionSheet);
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: Colors.overlay,
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    maxHeight: SCREEN_HEIGHT * 0.9,
+    backgroundColor: Colors.surface,
+    borderTopLeftRadius: BorderRadius.xl,
+    borderTopRightRadius: BorderRadius.xl,
+  },
+  topBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: Spacing.lg,
+    paddingBottom: Spacing.sm,
+  },
+  closeBtn: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: Colors.glass,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  topBarTitle: {
+    fontSize: FontSize.sm,
+    fontWeight: FontWeight.medium,
+    color: Colors.textSecondary,
+  },
+  topBarSpacer: {
+    width: 32,
+  },
+  centerState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: Spacing.xxxl,
+    paddingHorizontal: Spacing.xl,
+  },
+  stateText: {
+    fontSize: FontSize.md,
+    color: Colors.textSecondary,
+    marginTop: Spacing.sm,
+    textAlign: 'center',
+  },
+  body: {
+    flex: 1,
+  },
+  bodyContent: {
+    paddingBottom: Spacing.xl,
+  },
+  hero: {
+    alignItems: 'center',
+    paddingHorizontal: Spacing.xl,
+    paddingVertical: Spacing.md,
+  },
+  heroArtwork: {
+    width: 180,
+    height: 180,
+    borderRadius: BorderRadius.lg,
+    backgroundColor: Colors.surfaceLight,
+    marginBottom: Spacing.md,
+  },
+  title: {
+    fontSize: FontSize.xxl,
+    fontWeight: FontWeight.heavy,
+    color: Colors.textPrimary,
+    textAlign: 'center',
+  },
+  subtitle: {
+    marginTop: Spacing.xs,
+    fontSize: FontSize.sm,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+  },
+  actions: {
+    marginTop: Spacing.lg,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.md,
+  },
+  playButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: Colors.primary,
+    borderRadius: BorderRadius.round,
+    minWidth: 120,
+    paddingHorizontal: Spacing.xl,
+    paddingVertical: Spacing.sm,
+    gap: 6,
+  },
+  playButtonDisabled: {
+    opacity: 0.45,
+  },
+  iconButton: {
+    width: 40,
+    height: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  playText: {
+    fontSize: FontSize.md,
+    fontWeight: FontWeight.bold,
+    color: Colors.black,
+  },
+  inlineError: {
+    marginTop: Spacing.sm,
+    fontSize: FontSize.sm,
+    color: Colors.error,
+    textAlign: 'center',
+  },
+  trackList: {
+    marginTop: Spacing.md,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: Colors.glassBorder,
+  },
+  trackRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: Spacing.sm,
+    paddingHorizontal: Spacing.lg,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: Colors.glassBorder,
+  },
+  trackIndex: {
+    width: 24,
+    fontSize: FontSize.sm,
+    color: Colors.textMuted,
+    textAlign: 'center',
+  },
+  trackMeta: {
+    flex: 1,
+    marginHorizontal: Spacing.sm,
+  },
+  trackTitle: {
+    fontSize: FontSize.md,
+    color: Colors.textPrimary,
+    fontWeight: FontWeight.medium,
+  },
+  trackArtist: {
+    marginTop: 2,
+    fontSize: FontSize.sm,
+    color: Colors.textSecondary,
+  },
+});
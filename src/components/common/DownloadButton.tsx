@@ -0,0 +1,94 @@
+import React, { useCallback } from 'react';
+import {
+  TouchableOpacity,
+  ActivityIndicator,
+  StyleSheet,
+  Alert,
+  StyleProp,
+  ViewStyle,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '../../theme';
+import { downloadManager } from '../../services/downloadManager';
+import useDownloadStore from '../../store/downloadStore';
+import type { Track } from '../../types';
+
+interface DownloadButtonProps {
+  tracks: Track[];
+  size?: number;
+  style?: StyleProp<ViewStyle>;
+}
+
+/**
+ * Round icon button that downloads a whole album / playlist. Turns green once
+ * every track is on disk; pressing it again offers to remove the downloads.
+ */
+const DownloadButton: React.FC<DownloadButtonProps> = ({ tracks, size = 40, style }) => {
+  // Primitive selectors so progress ticks don't re-render every button
+  const completedCount = useDownloadStore((s) => {
+    const ids = new Set(tracks.map((t) => t.id));
+    return s.downloads.filter((d) => ids.has(d.track.id) && d.status === 'completed').length;
+  });
+  const activeCount = useDownloadStore((s) => {
+    const ids = new Set(tracks.map((t) => t.id));
+    return s.downloads.filter(
+      (d) => ids.has(d.track.id) && (d.status === 'queued' || d.status === 'downloading'),
+    ).length;
+  });
+
+  const isComplete = tracks.length > 0 && completedCount === tracks.length;
+  const isActive = activeCount > 0;
+
+  const handlePress = useCallback(() => {
+    if (!isComplete) {
+      downloadManager.enqueue(tracks);
+      return;
+    }
+
+    Alert.alert(
+      'Remove downloads?',
+      `${tracks.length} ${tracks.length === 1 ? 'song' : 'songs'} will no longer be available offline.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: () => {
+            for (const track of tracks) {
+              void downloadManager.remove(track.id);
+            }
+          },
+        },
+      ],
+    );
+  }, [isComplete, tracks]);
+
+  return (
+    <TouchableOpacity
+      style={[styles.button, { width: size, height: size, borderRadius: size / 2 }, style]}
+      activeOpacity={0.7}
+      onPress={handlePress}
+      disabled={tracks.length === 0 || isActive}
+      hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+    >
+      {isActive ? (
+        <ActivityIndicator size="small" color={Colors.primary} />
+      ) : (
+        <Ionicons
+          name={isComplete ? 'arrow-down-circle' : 'arrow-down-circle-outline'}
+          size={size * 0.6}
+          color={isComplete ? Colors.primary : Colors.textPrimary}
+        />
+      )}
+    </TouchableOpacity>
+  );
+};
+
+export default React.memo(DownloadButton);
+
+const styles = StyleSheet.create({
+  button: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+});
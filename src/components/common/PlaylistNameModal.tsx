@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Modal,
+  StyleSheet,
+  Pressable,
+} from 'react-native';
+import { Colors, Spacing, FontSize, FontWeight, BorderRadius } from '../../theme';
+
+interface PlaylistNameModalProps {
+  visible: boolean;
+  title: string;
+  initialName?: string;
+  confirmText?: string;
+  onSubmit: (name: string) => void;
+  onClose: () => void;
+}
+
+/** Centered dialog with a single text field, used to create / rename playlists. */
+const PlaylistNameModal: React.FC<PlaylistNameModalProps> = ({
+  visible,
+  title,
+  initialName = '',
+  confirmText = 'Save',
+  onSubmit,
+  onClose,
+}) => {
+  const [name, setName] = useState(initialName);
+
+  // Reset the field every time the dialog is opened
+  useEffect(() => {
+    if (visible) setName(initialName);
+  }, [visible, initialName]);
+
+  const canSubmit = name.trim().length > 0;
+
+  const handleSubmit = () => {
+    if (!canSubmit) return;
+    onSubmit(name.trim());
+    onClose();
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      statusBarTranslucent
+      onRequestClose={onClose}
+    >
+      <Pressable style={styles.overlay} onPress={onClose}>
+        <Pressable style={styles.dialog} onPress={() => {}}>
+          <Text style={styles.title}>{title}</Text>
+          <TextInput
+            style={styles.input}
+            value={name}
+            onChangeText={setName}
+            placeholder="Playlist name"
+            placeholderTextColor={Colors.textMuted}
+            autoFocus
+            returnKeyType="done"
+            onSubmitEditing={handleSubmit}
+            maxLength={80}
+          />
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={styles.actionButton}
+              activeOpacity={0.7}
+              onPress={onClose}
+            >
+              <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.actionButton}
+              activeOpacity={0.7}
+              onPress={handleSubmit}
+              disabled={!canSubmit}
+            >
+              <Text style={[styles.confirmText, !canSubmit && styles.disabledText]}>
+                {confirmText}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+};
+
+export default React.memo(PlaylistNameModal);
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: Colors.overlay,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: Spacing.xxl,
+  },
+  dialog: {
+    width: '100%',
+    backgroundColor: Colors.surfaceElevated,
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.xl,
+  },
+  title: {
+    fontSize: FontSize.xl,
+    fontWeight: FontWeight.bold,
+    color: Colors.textPrimary,
+    marginBottom: Spacing.lg,
+  },
+  input: {
+    height: 44,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    borderColor: Colors.glassBorder,
+    backgroundColor: Colors.surfaceLight,
+    paddingHorizontal: Spacing.md,
+    fontSize: FontSize.md,
+    color: Colors.textPrimary,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: Spacing.lg,
+  },
+  actionButton: {
+    paddingVertical: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    marginLeft: Spacing.sm,
+  },
+  cancelText: {
+    fontSize: FontSize.md,
+    fontWeight: FontWeight.semibold,
+    color: Colors.textSecondary,
+  },
+  confirmText: {
+    fontSize: FontSize.md,
+    fontWeight: FontWeight.bold,
+    color: Colors.primary,
+  },
+  disabledText: {
+    color: Colors.textDisabled,
+  },
+});
@@ -0,0 +1,110 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, FlatList } from 'react-native';
+import { Image } from 'expo-image';
+import { Colors, Spacing, FontWeight, BorderRadius } from '../../theme';
+import SectionHeader from './SectionHeader';
+import type { YTSearchResult } from '../../services/youtube';
+
+const DEFAULT_CARD_SIZE = 145;
+
+interface SectionCardProps {
+  item: YTSearchResult;
+  onPress: () => void;
+  onLongPress: () => void;
+  size: number;
+}
+
+const SectionCard: React.FC<SectionCardProps> = React.memo(
+  ({ item, onPress, onLongPress, size }) => (
+    <TouchableOpacity
+      style={{ width: size, marginRight: Spacing.md }}
+      onPress={onPress}
+      onLongPress={onLongPress}
+      activeOpacity={0.7}
+    >
+      <View style={styles.artContainer}>
+        <Image
+          source={{ uri: item.artwork }}
+          style={{
+            width: size,
+            height: size,
+            borderRadius: BorderRadius.md,
+            backgroundColor: Colors.surfaceLight,
+          }}
+          contentFit="cover"
+          transition={200}
+        />
+      </View>
+      <Text style={styles.title} numberOfLines={2} ellipsizeMode="tail">
+        {item.title}
+      </Text>
+      <Text style={styles.subtitle} numberOfLines={1} ellipsizeMode="tail">
+        {item.artist}
+      </Text>
+    </TouchableOpacity>
+  ),
+);
+
+interface SectionCarouselProps {
+  title: string;
+  items: YTSearchResult[];
+  onItemPress: (item: YTSearchResult, index: number) => void;
+  onItemLongPress: (item: YTSearchResult) => void;
+  cardSize?: number;
+}
+
+/**
+ * A titled, horizontally scrolling row of YT Music cards (songs, albums,
+ * playlists). Used by the Home feed and the genre pages.
+ */
+const SectionCarousel: React.FC<SectionCarouselProps> = ({
+  title,
+  items,
+  onItemPress,
+  onItemLongPress,
+  cardSize = DEFAULT_CARD_SIZE,
+}) => (
+  <>
+    <SectionHeader title={title} />
+    <FlatList
+      data={items}
+      keyExtractor={(item) => item.videoId}
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={styles.list}
+      renderItem={({ item, index }) => (
+        <SectionCard
+          item={item}
+          onPress={() => onItemPress(item, index)}
+          onLongPress={() => onItemLongPress(item)}
+          size={cardSize}
+        />
+      )}
+    />
+  </>
+);
+
+export default React.memo(SectionCarousel);
+
+const styles = StyleSheet.create({
+  list: {
+    paddingHorizontal: Spacing.lg,
+  },
+  artContainer: {
+    borderRadius: BorderRadius.md,
+    overflow: 'hidden',
+  },
+  title: {
+    fontSize: 13,
+    fontWeight: FontWeight.semibold,
+    color: Colors.textPrimary,
+    marginTop: Spacing.sm,
+    lineHeight: 18,
+  },
+  subtitle: {
+    fontSize: 11,
+    fontWeight: FontWeight.regular,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+});
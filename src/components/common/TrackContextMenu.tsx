@@ -1,11 +1,14 @@
-import React, { useCallback } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import {
   View,
   Text,
+  TextInput,
   TouchableOpacity,
   Modal,
+  ScrollView,
   StyleSheet,
   Pressable,
+  Alert,
 } from 'react-native';
 import { Image } from 'expo-image';
 import { Ionicons } from '@expo/vector-icons';
@@ -13,6 +16,9 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Colors, Spacing, FontSize, FontWeight, BorderRadius } from '../../theme';
 import { usePlayer } from '../../hooks';
 import usePlayerStore from '../../store/playerStore';
+import useDownloadStore from '../../store/downloadStore';
+import useResumeStore from '../../store/resumeStore';
+import { downloadManager } from '../../services/downloadManager';
 import type { Track } from '../../types';
 
 interface TrackContextMenuProps {
@@ -27,16 +33,78 @@ const TrackContextMenu: React.FC<TrackContextMenuProps> = ({
   onClose,
 }) => {
   const insets = useSafeAreaInsets();
-  const { playNext, addToQueue } = usePlayer();
+  const { playNext, addToQueue, startRadio } = usePlayer();
   const toggleLike = usePlayerStore((s) => s.toggleLike);
   const likedSongs = usePlayerStore((s) => s.likedSongs);
+  const playlists = usePlayerStore((s) => s.playlists);
+  const addToPlaylist = usePlayerStore((s) => s.addToPlaylist);
+  const createPlaylist = usePlayerStore((s) => s.createPlaylist);
   const isLiked = track ? likedSongs.some((t) => t.id === track.id) : false;
+  const downloadStatus = useDownloadStore((s) =>
+    track ? s.downloads.find((d) => d.track.id === track.id)?.status : undefined,
+  );
+
+  const isResumable = useResumeStore((s) => (track ? s.isResumable(track) : false));
+  const hasPosition = useResumeStore((s) => (track ? !!s.positions[track.id] : false));
+  const isPlayed = useResumeStore((s) => (track ? !!s.played[track.id] : false));
+  const markPlayed = useResumeStore((s) => s.markPlayed);
+  const clearPosition = useResumeStore((s) => s.clearPosition);
+
+  // "Add to Playlist" picker replaces the menu content while open
+  const [showPlaylists, setShowPlaylists] = useState(false);
+  const [newPlaylistName, setNewPlaylistName] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+
+  useEffect(() => {
+    if (!visible) {
+      setShowPlaylists(false);
+      setIsCreating(false);
+      setNewPlaylistName('');
+    }
+  }, [visible]);
+
+  const handleAddToPlaylist = useCallback(
+    (playlistId: string) => {
+      if (!track) return;
+      addToPlaylist(playlistId, track);
+      onClose();
+    },
+    [track, addToPlaylist, onClose],
+  );
+
+  const handleCreatePlaylist = useCallback(() => {
+    if (!track || !newPlaylistName.trim()) return;
+    createPlaylist(newPlaylistName, [track]);
+    onClose();
+  }, [track, newPlaylistName, createPlaylist, onClose]);
 
   const handleToggleLike = useCallback(() => {
     if (!track) return;
     toggleLike(track);
   }, [track, toggleLike]);
 
+  const handleDownload = useCallback(() => {
+    if (!track) return;
+    onClose();
+    if (downloadStatus && downloadStatus !== 'failed') {
+      void downloadManager.remove(track.id);
+    } else {
+      downloadManager.enqueue([track]);
+    }
+  }, [track, downloadStatus, onClose]);
+
+  const handleMarkPlayed = useCallback(() => {
+    if (!track) return;
+    onClose();
+    markPlayed(track.id);
+  }, [track, markPlayed, onClose]);
+
+  const handleClearPosition = useCallback(() => {
+    if (!track) return;
+    onClose();
+    clearPosition(track.id);
+  }, [track, clearPosition, onClose]);
+
   const handlePlayNext = useCallback(async () => {
     if (!track) return;
     onClose();
@@ -49,6 +117,20 @@ const TrackContextMenu: React.FC<TrackContextMenuProps> = ({
     await addToQueue(track);
   }, [track, addToQueue, onClose]);
 
+  const handleStartRadio = useCallback(
+    (artistRadio: boolean) => {
+      if (!track) return;
+      onClose();
+      startRadio(
+        artistRadio ? { type: 'artist', name: track.artist } : { type: 'track', track },
+      ).catch((err) => {
+        console.warn('[TrackContextMenu] Failed to start radio:', err);
+        Alert.alert('Couldn\'t start radio', 'Please try again in a moment.');
+      });
+    },
+    [track, startRadio, onClose],
+  );
+
   if (!track) return null;
 
   return (
@@ -88,45 +170,218 @@ const TrackContextMenu: React.FC<TrackContextMenuProps> = ({
 
           <View style={styles.divider} />
 
-          {/* Menu options */}
-          <TouchableOpacity
-            style={styles.menuItem}
-            activeOpacity={0.6}
-            onPress={handleToggleLike}
-          >
-            <View style={styles.menuIconContainer}>
-              <Ionicons
-                name={isLiked ? 'heart' : 'heart-outline'}
-                size={22}
-                color={isLiked ? Colors.primary : Colors.textPrimary}
-              />
-            </View>
-            <Text style={styles.menuItemText}>
-              {isLiked ? 'Remove from Liked Songs' : 'Like Song'}
-            </Text>
-          </TouchableOpacity>
+          {showPlaylists ? (
+            <>
+              <View style={styles.pickerHeader}>
+                <TouchableOpacity
+                  onPress={() => setShowPlaylists(false)}
+                  hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                >
+                  <Ionicons name="chevron-back" size={22} color={Colors.textPrimary} />
+                </TouchableOpacity>
+                <Text style={styles.pickerTitle}>Add to Playlist</Text>
+              </View>
 
-          <TouchableOpacity
-            style={styles.menuItem}
-            activeOpacity={0.6}
-            onPress={handlePlayNext}
-          >
-            <View style={styles.menuIconContainer}>
-              <Ionicons name="play-forward" size={22} color={Colors.textPrimary} />
-            </View>
-            <Text style={styles.menuItemText}>Play Next</Text>
-          </TouchableOpacity>
+              {isCreating ? (
+                <View style={styles.newPlaylistRow}>
+                  <TextInput
+                    style={styles.newPlaylistInput}
+                    value={newPlaylistName}
+                    onChangeText={setNewPlaylistName}
+                    placeholder="Playlist name"
+                    placeholderTextColor={Colors.textMuted}
+                    autoFocus
+                    returnKeyType="done"
+                    onSubmitEditing={handleCreatePlaylist}
+                    maxLength={80}
+                  />
+                  <TouchableOpacity
+                    onPress={handleCreatePlaylist}
+                    disabled={!newPlaylistName.trim()}
+                    style={styles.newPlaylistButton}
+                  >
+                    <Text
+                      style={[
+                        styles.newPlaylistButtonText,
+                        !newPlaylistName.trim() && styles.disabledText,
+                      ]}
+                    >
+                      Create
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+              ) : (
+                <TouchableOpacity
+                  style={styles.menuItem}
+                  activeOpacity={0.6}
+                  onPress={() => setIsCreating(true)}
+                >
+                  <View style={styles.menuIconContainer}>
+                    <Ionicons name="add" size={22} color={Colors.textPrimary} />
+                  </View>
+                  <Text style={styles.menuItemText}>New Playlist</Text>
+                </TouchableOpacity>
+              )}
 
-          <TouchableOpacity
-            style={styles.menuItem}
-            activeOpacity={0.6}
-            onPress={handleAddToQueue}
-          >
-            <View style={styles.menuIconContainer}>
-              <Ionicons name="list" size={22} color={Colors.textPrimary} />
-            </View>
-            <Text style={styles.menuItemText}>Add to Queue</Text>
-          </TouchableOpacity>
+              <ScrollView style={styles.pickerList}>
+                {playlists.map((playlist) => {
+                  const alreadyAdded = playlist.tracks.some((t) => t.id === track.id);
+                  return (
+                    <TouchableOpacity
+                      key={playlist.id}
+                      style={styles.menuItem}
+                      activeOpacity={0.6}
+                      onPress={() => handleAddToPlaylist(playlist.id)}
+                      disabled={alreadyAdded}
+                    >
+                      <View style={styles.menuIconContainer}>
+                        <Ionicons
+                          name={alreadyAdded ? 'checkmark' : 'musical-notes'}
+                          size={20}
+                          color={alreadyAdded ? Colors.primary : Colors.textPrimary}
+                        />
+                      </View>
+                      <View style={styles.pickerItemInfo}>
+                        <Text style={styles.menuItemText} numberOfLines={1}>
+                          {playlist.name}
+                        </Text>
+                        <Text style={styles.pickerItemCount}>
+                          {playlist.tracks.length}{' '}
+                          {playlist.tracks.length === 1 ? 'song' : 'songs'}
+                        </Text>
+                      </View>
+                    </TouchableOpacity>
+                  );
+                })}
+              </ScrollView>
+            </>
+          ) : (
+            <>
+              {/* Menu options */}
+              <TouchableOpacity
+                style={styles.menuItem}
+                activeOpacity={0.6}
+                onPress={handleToggleLike}
+              >
+                <View style={styles.menuIconContainer}>
+                  <Ionicons
+                    name={isLiked ? 'heart' : 'heart-outline'}
+                    size={22}
+                    color={isLiked ? Colors.primary : Colors.textPrimary}
+                  />
+                </View>
+                <Text style={styles.menuItemText}>
+                  {isLiked ? 'Remove from Liked Songs' : 'Like Song'}
+                </Text>
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={styles.menuItem}
+                activeOpacity={0.6}
+                onPress={handlePlayNext}
+              >
+                <View style={styles.menuIconContainer}>
+                  <Ionicons name="play-forward" size={22} color={Colors.textPrimary} />
+                </View>
+                <Text style={styles.menuItemText}>Play Next</Text>
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={styles.menuItem}
+                activeOpacity={0.6}
+                onPress={handleAddToQueue}
+              >
+                <View style={styles.menuIconContainer}>
+                  <Ionicons name="list" size={22} color={Colors.textPrimary} />
+                </View>
+                <Text style={styles.menuItemText}>Add to Queue</Text>
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={styles.menuItem}
+                activeOpacity={0.6}
+                onPress={() => handleStartRadio(false)}
+              >
+                <View style={styles.menuIconContainer}>
+                  <Ionicons name="radio-outline" size={22} color={Colors.textPrimary} />
+                </View>
+                <Text style={styles.menuItemText}>Start Radio</Text>
+              </TouchableOpacity>
+
+              {!!track.artist && (
+                <TouchableOpacity
+                  style={styles.menuItem}
+                  activeOpacity={0.6}
+                  onPress={() => handleStartRadio(true)}
+                >
+                  <View style={styles.menuIconContainer}>
+                    <Ionicons name="person-outline" size={22} color={Colors.textPrimary} />
+                  </View>
+                  <Text style={styles.menuItemText} numberOfLines={1}>
+                    Artist Radio
+                  </Text>
+                </TouchableOpacity>
+              )}
+
+              <TouchableOpacity
+                style={styles.menuItem}
+                activeOpacity={0.6}
+                onPress={() => setShowPlaylists(true)}
+              >
+                <View style={styles.menuIconContainer}>
+                  <Ionicons name="add-circle-outline" size={22} color={Colors.textPrimary} />
+                </View>
+                <Text style={styles.menuItemText}>Add to Playlist</Text>
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={styles.menuItem}
+                activeOpacity={0.6}
+                onPress={handleDownload}
+              >
+                <View style={styles.menuIconContainer}>
+                  <Ionicons
+                    name={downloadStatus === 'completed' ? 'arrow-down-circle' : 'arrow-down-circle-outline'}
+                    size={22}
+                    color={downloadStatus === 'completed' ? Colors.primary : Colors.textPrimary}
+                  />
+                </View>
+                <Text style={styles.menuItemText}>
+                  {downloadStatus === 'completed'
+                    ? 'Remove Download'
+                    : downloadStatus && downloadStatus !== 'failed'
+                      ? 'Cancel Download'
+                      : 'Download'}
+                </Text>
+              </TouchableOpacity>
+
+              {isResumable && (hasPosition || !isPlayed) && (
+                <TouchableOpacity
+                  style={styles.menuItem}
+                  activeOpacity={0.6}
+                  onPress={handleMarkPlayed}
+                >
+                  <View style={styles.menuIconContainer}>
+                    <Ionicons name="checkmark-done-outline" size={22} color={Colors.textPrimary} />
+                  </View>
+                  <Text style={styles.menuItemText}>Mark as Played</Text>
+                </TouchableOpacity>
+              )}
+
+              {isResumable && (hasPosition || isPlayed) && (
+                <TouchableOpacity
+                  style={styles.menuItem}
+                  activeOpacity={0.6}
+                  onPress={handleClearPosition}
+                >
+                  <View style={styles.menuIconContainer}>
+                    <Ionicons name="refresh-outline" size={22} color={Colors.textPrimary} />
+                  </View>
+                  <Text style={styles.menuItemText}>Clear Position</Text>
+                </TouchableOpacity>
+              )}
+            </>
+          )}
 
           {/* Cancel */}
           <TouchableOpacity
@@ -207,6 +462,56 @@ const styles = StyleSheet.create({
     fontWeight: FontWeight.medium,
     color: Colors.textPrimary,
   },
+  pickerHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: Spacing.sm,
+  },
+  pickerTitle: {
+    fontSize: FontSize.lg,
+    fontWeight: FontWeight.bold,
+    color: Colors.textPrimary,
+    marginLeft: Spacing.sm,
+  },
+  pickerList: {
+    maxHeight: 280,
+  },
+  pickerItemInfo: {
+    flex: 1,
+  },
+  pickerItemCount: {
+    fontSize: FontSize.sm,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  newPlaylistRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: Spacing.md,
+  },
+  newPlaylistInput: {
+    flex: 1,
+    height: 40,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    borderColor: Colors.glassBorder,
+    backgroundColor: Colors.surfaceLight,
+    paddingHorizontal: Spacing.md,
+    fontSize: FontSize.md,
+    color: Colors.textPrimary,
+  },
+  newPlaylistButton: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+  },
+  newPlaylistButtonText: {
+    fontSize: FontSize.md,
+    fontWeight: FontWeight.bold,
+    color: Colors.primary,
+  },
+  disabledText: {
+    color: Colors.textDisabled,
+  },
   cancelItem: {
     justifyContent: 'center',
     marginTop: Spacing.sm,
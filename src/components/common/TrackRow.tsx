@@ -10,6 +10,9 @@ import { Ionicons } from '@expo/vector-icons';
 import { Colors, Spacing, FontSize, FontWeight, BorderRadius } from '../../theme';
 import { Track } from '../../types';
 import usePlayerStore from '../../store/playerStore';
+import useDownloadStore from '../../store/downloadStore';
+import useResumeStore from '../../store/resumeStore';
+import { STREAM_ERROR_TEXT } from '../../services/streamErrors';
 import TrackContextMenu from './TrackContextMenu';
 
 interface TrackRowProps {
@@ -19,6 +22,7 @@ interface TrackRowProps {
   onLongPress?: () => void;
   showArtwork?: boolean;
   showIndex?: boolean;
+  accessory?: React.ReactNode; // shown before the menu button
 }
 
 const TrackRow: React.FC<TrackRowProps> = ({
@@ -28,9 +32,21 @@ const TrackRow: React.FC<TrackRowProps> = ({
   onLongPress,
   showArtwork = true,
   showIndex = false,
+  accessory,
 }) => {
   const currentTrackId = usePlayerStore((s) => s.currentTrack?.id);
   const isPlaying = currentTrackId === track.id;
+  const isDownloaded = useDownloadStore((s) =>
+    s.downloads.some((d) => d.track.id === track.id && d.status === 'completed'),
+  );
+  // Partially played long tracks (mixes, podcasts) show how far in they are
+  const resumeProgress = useResumeStore((s) => {
+    const saved = s.positions[track.id];
+    return saved && saved.duration > 0 ? Math.min(saved.position / saved.duration, 1) : 0;
+  });
+  const isPlayed = useResumeStore((s) => !!s.played[track.id] && !s.positions[track.id]);
+  // Set while the track's stream fails to resolve
+  const errorKind = usePlayerStore((s) => s.trackErrors[track.id]?.kind);
   const [menuVisible, setMenuVisible] = useState(false);
 
   const openMenu = useCallback(() => {
@@ -90,11 +106,44 @@ const TrackRow: React.FC<TrackRowProps> = ({
           >
             {track.title}
           </Text>
-          <Text style={styles.artist} numberOfLines={1}>
-            {track.artist}
-          </Text>
+          <View style={styles.subtitleRow}>
+            {errorKind && (
+              <View style={styles.errorBadge}>
+                <Ionicons name="alert-circle" size={12} color={Colors.error} />
+                <Text style={styles.errorText} numberOfLines={1}>
+                  {STREAM_ERROR_TEXT[errorKind].label}
+                </Text>
+              </View>
+            )}
+            {isDownloaded && (
+              <Ionicons
+                name="arrow-down-circle"
+                size={13}
+                color={Colors.primary}
+                style={styles.downloadedIcon}
+              />
+            )}
+            {isPlayed && (
+              <Ionicons
+                name="checkmark-circle"
+                size={13}
+                color={Colors.textMuted}
+                style={styles.downloadedIcon}
+              />
+            )}
+            <Text style={styles.artist} numberOfLines={1}>
+              {track.artist}
+            </Text>
+          </View>
+          {resumeProgress > 0 && (
+            <View style={styles.resumeTrack}>
+              <View style={[styles.resumeFill, { width: `${resumeProgress * 100}%` }]} />
+            </View>
+          )}
         </View>
 
+        {accessory}
+
         <TouchableOpacity
           style={styles.menuButton}
           onPress={openMenu}
@@ -157,11 +206,42 @@ const styles = StyleSheet.create({
     color: Colors.textPrimary,
     marginBottom: 2,
   },
+  subtitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  downloadedIcon: {
+    marginRight: 4,
+  },
+  errorBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+    marginRight: Spacing.sm,
+  },
+  errorText: {
+    fontSize: FontSize.xs,
+    fontWeight: FontWeight.medium,
+    color: Colors.error,
+  },
   artist: {
+    flexShrink: 1,
     fontSize: FontSize.sm,
     fontWeight: FontWeight.regular,
     color: Colors.textSecondary,
   },
+  resumeTrack: {
+    height: 3,
+    marginTop: 4,
+    width: '60%',
+    borderRadius: 1.5,
+    backgroundColor: Colors.surfaceHighlight,
+    overflow: 'hidden',
+  },
+  resumeFill: {
+    height: '100%',
+    backgroundColor: Colors.primary,
+  },
   activeText: {
     color: Colors.primary,
   },
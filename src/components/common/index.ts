@@ -1,3 +1,8 @@
 export { default as TrackRow } from './TrackRow';
 export { default as TrackContextMenu } from './TrackContextMenu';
 export { default as SectionHeader } from './SectionHeader';
+export { default as PlaylistNameModal } from './PlaylistNameModal';
+export { default as DownloadButton } from './DownloadButton';
+export { default as CollectionSheet } from './CollectionSheet';
+export { default as SectionCarousel } from './SectionCarousel';
+export type { CollectionSheetInfo } from './CollectionSheet';
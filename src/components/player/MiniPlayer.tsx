@@ -26,11 +26,18 @@ const PROGRESS_HEIGHT = 2;
 const SCREEN_WIDTH = Dimensions.get('window').width;
 const DISMISS_THRESHOLD = SCREEN_WIDTH * 0.35;
 
+function formatRemaining(seconds: number): string {
+  const m = Math.floor(seconds / 60);
+  const s = seconds % 60;
+  return `${m}:${s.toString().padStart(2, '0')}`;
+}
+
 const MiniPlayer: React.FC<MiniPlayerProps> = ({ onPress, onDismiss }) => {
   const currentTrack = usePlayerStore((s) => s.currentTrack);
   const playbackState = usePlayerStore((s) => s.playbackState);
   const position = usePlayerStore((s) => s.position);
   const duration = usePlayerStore((s) => s.duration);
+  const sleepTimer = usePlayerStore((s) => s.sleepTimer);
 
   const { togglePlayPause, dismissPlayer } = usePlayer();
 
@@ -99,6 +106,18 @@ const MiniPlayer: React.FC<MiniPlayerProps> = ({ onPress, onDismiss }) => {
               </Text>
             </View>
 
+            {/* Sleep timer countdown */}
+            {sleepTimer && (
+              <View style={styles.sleepTimer}>
+                <Ionicons name="moon" size={12} color={Colors.primary} />
+                {sleepTimer.remainingSeconds != null && (
+                  <Text style={styles.sleepTimerText}>
+                    {formatRemaining(sleepTimer.remainingSeconds)}
+                  </Text>
+                )}
+              </View>
+            )}
+
             {/* Right controls */}
             <TouchableOpacity hitSlop={12} style={styles.iconButton}>
               <Ionicons
@@ -184,6 +203,18 @@ const styles = StyleSheet.create({
     lineHeight: 15,
     marginTop: 1,
   },
+  sleepTimer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 3,
+    marginRight: Spacing.xs,
+  },
+  sleepTimerText: {
+    color: Colors.primary,
+    fontSize: 11,
+    fontWeight: FontWeight.semibold,
+    fontVariant: ['tabular-nums'],
+  },
   iconButton: {
     padding: Spacing.sm,
   },
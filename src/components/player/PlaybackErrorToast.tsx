@@ -0,0 +1,164 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import Animated, { FadeInUp, FadeOutUp } from 'react-native-reanimated';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors, Spacing, FontSize, FontWeight, BorderRadius, Shadows } from '../../theme';
+import usePlayerStore from '../../store/playerStore';
+import { usePlayer } from '../../hooks';
+import { isRetryableKind, STREAM_ERROR_TEXT } from '../../services/streamErrors';
+
+// The toast hides itself after this long unless an action is running
+const AUTO_DISMISS_MS = 8000;
+
+/**
+ * Explains why a queued track was skipped, with Retry for passing problems
+ * (offline, timeouts) and "Find alternative" to swap in another version.
+ */
+const PlaybackErrorToast: React.FC = () => {
+  const insets = useSafeAreaInsets();
+  const notice = usePlayerStore((s) => s.errorNotice);
+  const dismiss = usePlayerStore((s) => s.dismissErrorNotice);
+  const { retryTrack, findAlternative } = usePlayer();
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    setMessage(null);
+  }, [notice]);
+
+  useEffect(() => {
+    if (!notice || busy) return;
+    const timer = setTimeout(dismiss, AUTO_DISMISS_MS);
+    return () => clearTimeout(timer);
+  }, [notice, busy, message, dismiss]);
+
+  const handleRetry = useCallback(async () => {
+    if (!notice) return;
+    dismiss();
+    await retryTrack(notice.track);
+  }, [notice, dismiss, retryTrack]);
+
+  const handleFindAlternative = useCallback(async () => {
+    if (!notice) return;
+    setBusy(true);
+    try {
+      const alternative = await findAlternative(notice.track, true);
+      if (alternative) {
+        dismiss();
+      } else {
+        setMessage('No other version of this song was found.');
+      }
+    } catch (err) {
+      console.warn('[PlaybackErrorToast] Failed to find an alternative:', err);
+      setMessage("Couldn't search for another version.");
+    } finally {
+      setBusy(false);
+    }
+  }, [notice, dismiss, findAlternative]);
+
+  if (!notice) return null;
+
+  const { label, description } = STREAM_ERROR_TEXT[notice.error.kind];
+  const canRetry = isRetryableKind(notice.error.kind);
+
+  return (
+    <Animated.View
+      entering={FadeInUp}
+      exiting={FadeOutUp}
+      style={[styles.wrapper, { top: insets.top + Spacing.sm }]}
+    >
+      <View style={styles.toast}>
+        <View style={styles.header}>
+          <Ionicons name="alert-circle" size={20} color={Colors.error} />
+          <View style={styles.info}>
+            <Text style={styles.title} numberOfLines={1}>
+              Skipped “{notice.track.title}”
+            </Text>
+            <Text style={styles.description}>
+              {label}: {message ?? description}
+            </Text>
+          </View>
+          <TouchableOpacity
+            onPress={dismiss}
+            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+          >
+            <Ionicons name="close" size={18} color={Colors.textMuted} />
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.actions}>
+          {busy ? (
+            <ActivityIndicator size="small" color={Colors.primary} />
+          ) : (
+            <>
+              {canRetry && (
+                <TouchableOpacity style={styles.action} onPress={handleRetry}>
+                  <Text style={styles.actionText}>Retry</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity style={styles.action} onPress={handleFindAlternative}>
+                <Text style={styles.actionText}>Find alternative</Text>
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+      </View>
+    </Animated.View>
+  );
+};
+
+export default React.memo(PlaybackErrorToast);
+
+const styles = StyleSheet.create({
+  wrapper: {
+    position: 'absolute',
+    left: Spacing.md,
+    right: Spacing.md,
+  },
+  toast: {
+    padding: Spacing.md,
+    borderRadius: BorderRadius.lg,
+    backgroundColor: Colors.surfaceElevated,
+    borderWidth: 1,
+    borderColor: Colors.glassBorder,
+    ...Shadows.medium,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: Spacing.sm,
+  },
+  info: {
+    flex: 1,
+  },
+  title: {
+    color: Colors.textPrimary,
+    fontSize: FontSize.md,
+    fontWeight: FontWeight.semibold,
+  },
+  description: {
+    marginTop: 2,
+    color: Colors.textSecondary,
+    fontSize: FontSize.sm,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: Spacing.sm,
+    marginTop: Spacing.sm,
+    minHeight: 28,
+    alignItems: 'center',
+  },
+  action: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.round,
+    backgroundColor: Colors.glass,
+  },
+  actionText: {
+    color: Colors.primary,
+    fontSize: FontSize.sm,
+    fontWeight: FontWeight.semibold,
+  },
+});
@@ -0,0 +1,256 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  Modal,
+  StyleSheet,
+  Pressable,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Colors, Spacing, FontSize, FontWeight, BorderRadius } from '../../theme';
+import { usePlayer } from '../../hooks';
+import usePlayerStore from '../../store/playerStore';
+import useResumeStore from '../../store/resumeStore';
+import {
+  MAX_PLAYBACK_RATE,
+  MIN_PLAYBACK_RATE,
+  isLongForm,
+  playbackRates,
+} from '../../services/playbackRate';
+
+interface PlaybackRateSheetProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const PRESET_RATES = [0.5, 0.75, 1, 1.25, 1.5, 1.75, 2, 2.5, 3];
+const FINE_STEP = 0.05;
+const RESUME_THRESHOLDS = [10, 20, 30, 60]; // minutes
+
+export function formatRate(rate: number): string {
+  return `${Number(rate.toFixed(2))}x`;
+}
+
+const PlaybackRateSheet: React.FC<PlaybackRateSheetProps> = ({ visible, onClose }) => {
+  const insets = useSafeAreaInsets();
+  const currentTrack = usePlayerStore((s) => s.currentTrack);
+  const rate = usePlayerStore((s) => s.playbackRate);
+  const { setRate } = usePlayer();
+  const resumeThreshold = useResumeStore((s) => s.thresholdMinutes);
+  const setResumeThreshold = useResumeStore((s) => s.setThresholdMinutes);
+
+  if (!currentTrack) return null;
+
+  const longForm = isLongForm(currentTrack);
+  const defaultRate = playbackRates.getDefaultRate(longForm);
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      statusBarTranslucent
+      onRequestClose={onClose}
+    >
+      <Pressable style={styles.overlay} onPress={onClose}>
+        <Pressable
+          style={[styles.sheet, { paddingBottom: insets.bottom + Spacing.lg }]}
+          onPress={() => {}}
+        >
+          <Text style={styles.title}>Playback speed</Text>
+          <Text style={styles.subtitle}>
+            Saved for this {longForm ? 'episode' : 'song'}
+          </Text>
+
+          {/* Fine adjustment */}
+          <View style={styles.stepper}>
+            <TouchableOpacity
+              style={styles.stepButton}
+              onPress={() => setRate(rate - FINE_STEP)}
+              disabled={rate <= MIN_PLAYBACK_RATE}
+              hitSlop={8}
+            >
+              <Ionicons
+                name="remove"
+                size={22}
+                color={rate <= MIN_PLAYBACK_RATE ? Colors.textMuted : Colors.textPrimary}
+              />
+            </TouchableOpacity>
+            <Text style={styles.rateValue}>{formatRate(rate)}</Text>
+            <TouchableOpacity
+              style={styles.stepButton}
+              onPress={() => setRate(rate + FINE_STEP)}
+              disabled={rate >= MAX_PLAYBACK_RATE}
+              hitSlop={8}
+            >
+              <Ionicons
+                name="add"
+                size={22}
+                color={rate >= MAX_PLAYBACK_RATE ? Colors.textMuted : Colors.textPrimary}
+              />
+            </TouchableOpacity>
+          </View>
+
+          {/* Presets */}
+          <View style={styles.presets}>
+            {PRESET_RATES.map((preset) => {
+              const isActive = Math.abs(preset - rate) < 0.001;
+              return (
+                <TouchableOpacity
+                  key={preset}
+                  style={[styles.presetChip, isActive && styles.presetChipActive]}
+                  activeOpacity={0.7}
+                  onPress={() => setRate(preset)}
+                >
+                  <Text style={[styles.presetText, isActive && styles.presetTextActive]}>
+                    {formatRate(preset)}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <TouchableOpacity
+            style={[styles.defaultButton, rate === defaultRate && styles.defaultButtonDisabled]}
+            activeOpacity={0.7}
+            onPress={() => setRate(rate, true)}
+            disabled={rate === defaultRate}
+          >
+            <Text style={styles.defaultButtonText}>
+              {rate === defaultRate
+                ? `Default for ${longForm ? 'podcasts and mixes' : 'music'}`
+                : `Use ${formatRate(rate)} for all ${longForm ? 'podcasts and mixes' : 'music'}`}
+            </Text>
+          </TouchableOpacity>
+
+          {/* Resume positions */}
+          <View style={styles.divider} />
+          <Text style={styles.sectionTitle}>Remember position for tracks over</Text>
+          <View style={styles.presets}>
+            {RESUME_THRESHOLDS.map((minutes) => {
+              const isActive = minutes === resumeThreshold;
+              return (
+                <TouchableOpacity
+                  key={minutes}
+                  style={[styles.presetChip, isActive && styles.presetChipActive]}
+                  activeOpacity={0.7}
+                  onPress={() => setResumeThreshold(minutes)}
+                >
+                  <Text style={[styles.presetText, isActive && styles.presetTextActive]}>
+                    {minutes} min
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: Colors.overlay,
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: Colors.surfaceElevated,
+    borderTopLeftRadius: BorderRadius.xl,
+    borderTopRightRadius: BorderRadius.xl,
+    paddingTop: Spacing.lg,
+    paddingHorizontal: Spacing.lg,
+  },
+  title: {
+    fontSize: FontSize.lg,
+    fontWeight: FontWeight.bold,
+    color: Colors.textPrimary,
+  },
+  subtitle: {
+    marginTop: 2,
+    fontSize: FontSize.sm,
+    color: Colors.textSecondary,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginVertical: Spacing.xl,
+    gap: Spacing.xxl,
+  },
+  stepButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: Colors.glass,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  rateValue: {
+    minWidth: 80,
+    textAlign: 'center',
+    fontSize: FontSize.xxl,
+    fontWeight: FontWeight.bold,
+    color: Colors.textPrimary,
+    fontVariant: ['tabular-nums'],
+  },
+  presets: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: Spacing.sm,
+  },
+  presetChip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.round,
+    backgroundColor: Colors.glass,
+    borderWidth: 1,
+    borderColor: Colors.glassBorder,
+  },
+  presetChipActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  presetText: {
+    color: Colors.textSecondary,
+    fontSize: FontSize.sm,
+    fontWeight: FontWeight.semibold,
+  },
+  presetTextActive: {
+    color: Colors.white,
+  },
+  defaultButton: {
+    marginTop: Spacing.xl,
+    alignSelf: 'center',
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.round,
+    backgroundColor: Colors.glass,
+  },
+  defaultButtonDisabled: {
+    opacity: 0.6,
+  },
+  divider: {
+    height: StyleSheet.hairlineWidth,
+    backgroundColor: Colors.glassBorder,
+    marginVertical: Spacing.lg,
+  },
+  sectionTitle: {
+    marginBottom: Spacing.md,
+    fontSize: FontSize.md,
+    fontWeight: FontWeight.semibold,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+  },
+  defaultButtonText: {
+    color: Colors.textPrimary,
+    fontSize: FontSize.md,
+    fontWeight: FontWeight.semibold,
+  },
+});
+
+export default React.memo(PlaybackRateSheet);
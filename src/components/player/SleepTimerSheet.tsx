@@ -0,0 +1,168 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  Modal,
+  StyleSheet,
+  Pressable,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Colors, Spacing, FontSize, FontWeight, BorderRadius } from '../../theme';
+import { usePlayer } from '../../hooks';
+import usePlayerStore from '../../store/playerStore';
+import type { SleepTimerOption } from '../../types';
+
+interface SleepTimerSheetProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const OPTIONS: { option: SleepTimerOption; label: string }[] = [
+  { option: { type: 'duration', minutes: 5 }, label: '5 minutes' },
+  { option: { type: 'duration', minutes: 15 }, label: '15 minutes' },
+  { option: { type: 'duration', minutes: 30 }, label: '30 minutes' },
+  { option: { type: 'duration', minutes: 45 }, label: '45 minutes' },
+  { option: { type: 'duration', minutes: 60 }, label: '1 hour' },
+  { option: { type: 'endOfTrack' }, label: 'End of track' },
+  { option: { type: 'endOfQueue' }, label: 'End of queue' },
+];
+
+function isSameOption(a: SleepTimerOption, b: SleepTimerOption): boolean {
+  if (a.type === 'duration' && b.type === 'duration') return a.minutes === b.minutes;
+  return a.type === b.type;
+}
+
+function formatRemaining(seconds: number): string {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  if (h > 0) return `${h}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
+  return `${m}:${s.toString().padStart(2, '0')}`;
+}
+
+const SleepTimerSheet: React.FC<SleepTimerSheetProps> = ({ visible, onClose }) => {
+  const insets = useSafeAreaInsets();
+  const activeTimer = usePlayerStore((s) => s.sleepTimer);
+  const { startSleepTimer, cancelSleepTimer } = usePlayer();
+
+  const handleSelect = (option: SleepTimerOption) => {
+    startSleepTimer(option);
+    onClose();
+  };
+
+  const handleCancel = () => {
+    cancelSleepTimer();
+    onClose();
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      statusBarTranslucent
+      onRequestClose={onClose}
+    >
+      <Pressable style={styles.overlay} onPress={onClose}>
+        <Pressable
+          style={[styles.sheet, { paddingBottom: insets.bottom + Spacing.lg }]}
+          onPress={() => {}}
+        >
+          <View style={styles.header}>
+            <Text style={styles.title}>Sleep timer</Text>
+            {activeTimer?.remainingSeconds != null && (
+              <Text style={styles.remaining}>
+                {formatRemaining(activeTimer.remainingSeconds)} left
+              </Text>
+            )}
+          </View>
+          <View style={styles.divider} />
+
+          {OPTIONS.map(({ option, label }) => {
+            const isActive = !!activeTimer && isSameOption(activeTimer.option, option);
+            return (
+              <TouchableOpacity
+                key={label}
+                style={styles.optionItem}
+                activeOpacity={0.6}
+                onPress={() => handleSelect(option)}
+              >
+                <Text style={[styles.optionText, isActive && styles.optionTextActive]}>
+                  {label}
+                </Text>
+                {isActive && <Ionicons name="checkmark" size={20} color={Colors.primary} />}
+              </TouchableOpacity>
+            );
+          })}
+
+          {activeTimer && (
+            <TouchableOpacity
+              style={styles.optionItem}
+              activeOpacity={0.6}
+              onPress={handleCancel}
+            >
+              <Text style={[styles.optionText, styles.cancelTimerText]}>Turn off timer</Text>
+            </TouchableOpacity>
+          )}
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: Colors.overlay,
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: Colors.surfaceElevated,
+    borderTopLeftRadius: BorderRadius.xl,
+    borderTopRightRadius: BorderRadius.xl,
+    paddingTop: Spacing.lg,
+    paddingHorizontal: Spacing.lg,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    justifyContent: 'space-between',
+    paddingBottom: Spacing.md,
+  },
+  title: {
+    fontSize: FontSize.lg,
+    fontWeight: FontWeight.bold,
+    color: Colors.textPrimary,
+  },
+  remaining: {
+    fontSize: FontSize.sm,
+    color: Colors.primary,
+    fontWeight: FontWeight.semibold,
+  },
+  divider: {
+    height: StyleSheet.hairlineWidth,
+    backgroundColor: Colors.glassBorder,
+    marginBottom: Spacing.sm,
+  },
+  optionItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: Spacing.md,
+  },
+  optionText: {
+    fontSize: FontSize.lg,
+    fontWeight: FontWeight.medium,
+    color: Colors.textPrimary,
+  },
+  optionTextActive: {
+    color: Colors.primary,
+  },
+  cancelTimerText: {
+    color: Colors.error,
+  },
+});
+
+export default React.memo(SleepTimerSheet);
@@ -1,2 +1,3 @@
 export { useTrackProgress } from './useTrackProgress';
 export { usePlayer } from './usePlayer';
+export { useCollectionSheet } from './useCollectionSheet';
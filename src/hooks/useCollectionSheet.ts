@@ -0,0 +1,113 @@
+import { useCallback, useRef, useState } from 'react';
+import { Alert } from 'react-native';
+import { usePlayer } from './usePlayer';
+import { getCollectionDetails, ytResultToTrack } from '../services/youtube';
+import { getJioSaavnCollectionDetails, jioSaavnResultToTrack } from '../services/jiosaavn';
+import type { CollectionSheetInfo } from '../components/common';
+import type { SearchCollection, Track } from '../types';
+
+type CollectionRef = Pick<SearchCollection, 'source' | 'id' | 'kind'>;
+
+interface ActiveCollection extends CollectionSheetInfo {
+  id: string;
+  source: SearchCollection['source'];
+}
+
+function loadCollection(
+  ref: CollectionRef,
+): Promise<{ details: CollectionSheetInfo & { id: string }; tracks: Track[] }> {
+  return ref.source === 'youtube'
+    ? getCollectionDetails(ref.id, ref.kind).then((details) => ({
+      details,
+      tracks: details.tracks.map(ytResultToTrack),
+    }))
+    : getJioSaavnCollectionDetails(ref.id, ref.kind).then((details) => ({
+      details,
+      tracks: details.tracks.map(jioSaavnResultToTrack),
+    }));
+}
+
+/**
+ * State for a CollectionSheet: loads an album or playlist when opened and
+ * plays it or starts its radio. Only the latest opened collection is shown;
+ * closing the sheet drops a load still in flight.
+ */
+export function useCollectionSheet() {
+  const { playTrack, startRadio } = usePlayer();
+
+  const [visible, setVisible] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [collection, setCollection] = useState<ActiveCollection | null>(null);
+  const [tracks, setTracks] = useState<Track[]>([]);
+  const requestRef = useRef(0);
+
+  const openCollection = useCallback((ref: CollectionRef) => {
+    const requestId = ++requestRef.current;
+    setVisible(true);
+    setLoading(true);
+    setError('');
+    setCollection(null);
+    setTracks([]);
+
+    loadCollection(ref)
+      .then(({ details, tracks: loaded }) => {
+        if (requestId !== requestRef.current) return;
+        setCollection({ ...details, source: ref.source });
+        setTracks(loaded);
+        if (loaded.length === 0) {
+          setError('No playable songs were found in this collection.');
+        }
+      })
+      .catch(() => {
+        if (requestId !== requestRef.current) return;
+        setError('Failed to load this collection.');
+      })
+      .finally(() => {
+        if (requestId !== requestRef.current) return;
+        setLoading(false);
+      });
+  }, []);
+
+  const closeCollection = useCallback(() => {
+    requestRef.current += 1;
+    setVisible(false);
+    setLoading(false);
+  }, []);
+
+  const playCollection = useCallback(
+    (startIndex: number) => {
+      if (tracks.length === 0) return;
+      playTrack(tracks, startIndex);
+      setVisible(false);
+    },
+    [tracks, playTrack],
+  );
+
+  const startCollectionRadio = useCallback(() => {
+    if (!collection || tracks.length === 0) return;
+    setVisible(false);
+    startRadio({
+      type: collection.entityType,
+      id: collection.id,
+      title: collection.title,
+      tracks,
+    }).catch((err) => {
+      console.warn('[CollectionSheet] Failed to start radio:', err);
+      Alert.alert('Couldn\'t start radio', 'Please try again in a moment.');
+    });
+  }, [collection, tracks, startRadio]);
+
+  return {
+    visible,
+    loading,
+    error,
+    collection,
+    tracks,
+    openCollection,
+    closeCollection,
+    playCollection,
+    // Radio stations are built from YouTube Music ids only
+    startCollectionRadio: collection?.source === 'youtube' ? startCollectionRadio : undefined,
+  };
+}
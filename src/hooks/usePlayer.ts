@@ -1,19 +1,107 @@
 import { useCallback } from 'react';
-import TrackPlayer, { TrackType } from 'react-native-track-player';
+import TrackPlayer from 'react-native-track-player';
 import usePlayerStore from '../store/playerStore';
 import {
   addTracksToPlayer,
   playTrack as playTrackService,
   pauseTrack as pauseTrackService,
   seekTo as seekToService,
+  replaceTrackInPlayer,
+  insertTrackInPlayer,
+  reorderPlayerQueue,
   setRepeatMode,
 } from '../services/trackPlayerService';
 import { prefetchManager } from '../services/prefetchManager';
-import { getUpNext, ytResultToTrack } from '../services/youtube';
-import type { Track } from '../types';
+import { autoplayManager } from '../services/autoplayManager';
+import { sleepTimer } from '../services/sleepTimer';
+import { clampRate, isLongForm, playbackRates } from '../services/playbackRate';
+import {
+  findChapterIndex,
+  getRadio,
+  getUpNext,
+  isPlayableResult,
+  searchYTMusic,
+  ytResultToTrack,
+  type YTRadioPage,
+  type YTRadioSeed,
+} from '../services/youtube';
+import { findJioSaavnMatch, jioSaavnResultToTrack } from '../services/jiosaavn';
+import type { QueueContext, RadioSeed, SleepTimerOption, Track } from '../types';
+
+// "Previous chapter" restarts the current one after this many seconds
+const CHAPTER_RESTART_THRESHOLD_SECONDS = 3;
+// Another upload of a song may be this much longer or shorter (intros, outros)
+const ALTERNATIVE_MAX_DURATION_DIFF_SECONDS = 20;
+
+/** Find the YouTube Music equivalent of a JioSaavn/local track. */
+async function findYTMatch(track: Track): Promise<Track | null> {
+  if (track.isYT) return track;
+  const results = await searchYTMusic(`${track.title} ${track.artist}`);
+  const match = results.find(isPlayableResult);
+  return match ? ytResultToTrack(match) : null;
+}
+
+/**
+ * Another version of a track that won't play: a different YouTube upload of
+ * the song, else its JioSaavn match.
+ */
+async function findAlternativeTrack(track: Track): Promise<Track | null> {
+  const { trackErrors } = usePlayerStore.getState();
+  const results = await searchYTMusic(`${track.title} ${track.artist}`);
+  const match = results.find(
+    (r) =>
+      isPlayableResult(r) &&
+      r.videoId !== track.id &&
+      !trackErrors[r.videoId] &&
+      (!track.duration ||
+        !r.duration ||
+        Math.abs(r.duration - track.duration) <= ALTERNATIVE_MAX_DURATION_DIFF_SECONDS),
+  );
+  if (match) return ytResultToTrack(match);
+
+  const saavn = await findJioSaavnMatch({
+    title: track.title,
+    artist: track.artist,
+    durationSeconds: track.duration,
+  });
+  return saavn ? jioSaavnResultToTrack(saavn) : null;
+}
+
+/**
+ * First page of a radio station. Albums, playlists and artists fall back to
+ * a track radio from their first song if they have no radio of their own.
+ */
+async function fetchRadioPage(seed: RadioSeed): Promise<{ page: YTRadioPage; first?: Track }> {
+  if (seed.type === 'track') {
+    const match = await findYTMatch(seed.track);
+    if (!match) throw new Error('No radio found for this song');
+    return { page: await getRadio({ type: 'track', videoId: match.id }), first: seed.track };
+  }
+
+  const ytSeed: YTRadioSeed = seed.type === 'artist'
+    ? { type: 'artist', name: seed.name.split(/,|&/)[0].trim() }
+    : { type: seed.type, id: seed.id };
+  try {
+    return { page: await getRadio(ytSeed) };
+  } catch (err) {
+    console.warn('[usePlayer] Radio not available, seeding from a song:', err);
+    const firstTrack = seed.type === 'artist'
+      ? (await searchYTMusic(seed.name)).filter(isPlayableResult).map(ytResultToTrack)[0]
+      : seed.tracks[0];
+    if (!firstTrack) throw err;
+    return fetchRadioPage({ type: 'track', track: firstTrack });
+  }
+}
+
+function radioLabel(seed: RadioSeed): string {
+  if (seed.type === 'track') return `${seed.track.title} Radio`;
+  if (seed.type === 'artist') return `${seed.name} Radio`;
+  return `${seed.title} Radio`;
+}
 
 export function usePlayer() {
   const setQueue = usePlayerStore((s) => s.setQueue);
+  const setShuffledQueue = usePlayerStore((s) => s.setShuffledQueue);
   const playbackState = usePlayerStore((s) => s.playbackState);
   const position = usePlayerStore((s) => s.position);
   const repeatMode = usePlayerStore((s) => s.repeatMode);
@@ -32,10 +120,12 @@ export function usePlayer() {
   const storeClearQueue = usePlayerStore((s) => s.clearQueue);
 
   const setPlaybackState = usePlayerStore((s) => s.setPlaybackState);
+  const setProgress = usePlayerStore((s) => s.setProgress);
+  const markSessionRestored = usePlayerStore((s) => s.markSessionRestored);
 
   const playTrack = useCallback(
-    async (tracks: Track[], startIndex: number) => {
-      setQueue(tracks, startIndex);
+    async (tracks: Track[], startIndex: number, context?: QueueContext) => {
+      setQueue(tracks, startIndex, context);
       // Show loading spinner immediately while stream URL resolves
       const startTrack = tracks[startIndex];
       if (startTrack?.isYT) {
@@ -51,9 +141,56 @@ export function usePlayer() {
     [setQueue, setPlaybackState],
   );
 
+  /**
+   * Play a list of tracks in shuffled order, starting from a random track.
+   * The original order is preserved so shuffle can be toggled off later.
+   */
+  const shufflePlay = useCallback(
+    async (tracks: Track[]) => {
+      if (tracks.length === 0) return;
+      const shuffled = setShuffledQueue(tracks);
+      if (shuffled[0]?.isYT) {
+        setPlaybackState('loading');
+      }
+      try {
+        await addTracksToPlayer(shuffled, 0);
+      } catch (err) {
+        console.warn('[usePlayer] shufflePlay failed:', err);
+        setPlaybackState('idle');
+      }
+    },
+    [setShuffledQueue, setPlaybackState],
+  );
+
+  /**
+   * Rebuild TrackPlayer's queue from a session restored on cold start.
+   * The saved track is resolved first and starts at the saved position.
+   */
+  const resumeRestoredSession = useCallback(async () => {
+    const state = usePlayerStore.getState();
+    const startTrack = state.queue[state.currentIndex];
+    markSessionRestored();
+    if (!startTrack) return;
+
+    if (startTrack.isYT) {
+      setPlaybackState('loading');
+    }
+    try {
+      await setRepeatMode(state.repeatMode);
+      await addTracksToPlayer(state.queue, state.currentIndex, state.position);
+    } catch (err) {
+      console.warn('[usePlayer] Failed to resume restored session:', err);
+      setPlaybackState('idle');
+    }
+  }, [markSessionRestored, setPlaybackState]);
+
   const play = useCallback(async () => {
+    if (usePlayerStore.getState().hasPendingRestore) {
+      await resumeRestoredSession();
+      return;
+    }
     await playTrackService();
-  }, []);
+  }, [resumeRestoredSession]);
 
   const pause = useCallback(async () => {
     await pauseTrackService();
@@ -65,19 +202,50 @@ export function usePlayer() {
 
     if (playbackState === 'playing') {
       await pauseTrackService();
+    } else if (usePlayerStore.getState().hasPendingRestore) {
+      await resumeRestoredSession();
     } else {
       await playTrackService();
     }
-  }, [playbackState]);
+  }, [playbackState, resumeRestoredSession]);
 
   const seekTo = useCallback(async (pos: number) => {
+    // Nothing is loaded yet — just move the restored position
+    const state = usePlayerStore.getState();
+    if (state.hasPendingRestore) {
+      setProgress(pos, state.duration, 0);
+      return;
+    }
     await seekToService(pos);
-  }, []);
+  }, [setProgress]);
+
+  const skipToNextChapter = useCallback(async () => {
+    const { currentTrack, position } = usePlayerStore.getState();
+    const chapters = currentTrack?.chapters ?? [];
+    const next = chapters[findChapterIndex(chapters, position) + 1];
+    if (next) await seekTo(next.start);
+  }, [seekTo]);
+
+  /** Restart the current chapter, or go to the previous one near its start. */
+  const skipToPreviousChapter = useCallback(async () => {
+    const { currentTrack, position } = usePlayerStore.getState();
+    const chapters = currentTrack?.chapters ?? [];
+    const index = findChapterIndex(chapters, position);
+    if (index < 0) return;
+    const restart = position - chapters[index].start > CHAPTER_RESTART_THRESHOLD_SECONDS;
+    const target = restart ? chapters[index] : chapters[Math.max(0, index - 1)];
+    await seekTo(target.start);
+  }, [seekTo]);
 
   const skipToNext = useCallback(async () => {
     // Simply tell TrackPlayer to advance. The PlaybackActiveTrackChanged
     // handler in PlaybackService resolves any placeholder URLs automatically.
     // Zustand's currentIndex is synced via useTrackProgress when activeTrack changes.
+    const state = usePlayerStore.getState();
+    if (state.currentIndex >= state.queue.length - 1 && state.repeatMode === 'off') {
+      // Out of tracks — let Autoplay append recommendations first
+      await autoplayManager.extendNow();
+    }
     storeSkipToNext();
     try {
       await TrackPlayer.skipToNext();
@@ -88,7 +256,7 @@ export function usePlayer() {
 
   const skipToPrevious = useCallback(async () => {
     if (position > 3) {
-      await seekToService(0);
+      await seekTo(0);
     } else {
       storeSkipToPrevious();
       try {
@@ -97,7 +265,7 @@ export function usePlayer() {
         // Already at first track
       }
     }
-  }, [position, storeSkipToPrevious]);
+  }, [position, seekTo, storeSkipToPrevious]);
 
   const toggleRepeatMode = useCallback(async () => {
     storeToggleRepeatMode();
@@ -111,122 +279,22 @@ export function usePlayer() {
 
     storeToggleShuffle();
     const state = usePlayerStore.getState();
-    const newQueue = state.queue;
-    const newIndex = state.currentIndex;
-
-    // Rebuild TrackPlayer queue — resolve URLs for nearby YT tracks
-    const mappedQueue = await Promise.all(
-      newQueue.map(async (t, i) => {
-        let url = t.url;
-        let trackHeaders: Record<string, string> | undefined;
-        let trackUA: string | undefined;
-        let trackIsHLS = false;
-        if (t.isYT) {
-          // For the current track and next 2, try to get resolved URLs
-          if (
-            i === newIndex ||
-            i === newIndex + 1 ||
-            i === newIndex + 2
-          ) {
-            const cached = prefetchManager.getCached(t.id);
-            if (cached) {
-              url = cached.url;
-              trackHeaders = cached.headers;
-              trackUA = cached.headers?.['User-Agent'];
-              trackIsHLS = !!cached.isHLS;
-            } else if (i === newIndex) {
-              // Must resolve current track
-              try {
-                const info = await prefetchManager.ensureResolved(t.id);
-                url = info.url;
-                trackHeaders = info.headers;
-                trackUA = info.headers?.['User-Agent'];
-                trackIsHLS = !!info.isHLS;
-              } catch {
-                url = 'https://placeholder.invalid/pending';
-              }
-            } else {
-              url = 'https://placeholder.invalid/pending';
-            }
-          } else {
-            url = 'https://placeholder.invalid/pending';
-          }
-        }
-        return {
-          id: t.id,
-          url,
-          title: t.title,
-          artist: t.artist,
-          album: t.album,
-          artwork: t.artwork,
-          duration: t.duration,
-          ...(trackIsHLS ? { type: TrackType.HLS } : {}),
-          ...(trackHeaders ? { headers: trackHeaders } : {}),
-          ...(trackUA ? { userAgent: trackUA } : {}),
-        };
-      }),
-    );
-
-    await TrackPlayer.setQueue(mappedQueue);
-    if (newIndex >= 0) {
-      await TrackPlayer.skip(newIndex);
-      await TrackPlayer.seekTo(savedPosition);
-      await TrackPlayer.play();
-    }
 
-    // Prefetch ahead
-    const videoIds = newQueue.filter((t) => t.isYT).map((t) => t.id);
-    const currentYtIdx = videoIds.indexOf(newQueue[newIndex]?.id ?? '');
-    if (currentYtIdx >= 0) {
-      prefetchManager.prefetchAhead(videoIds, currentYtIdx);
-    }
+    // Rebuild TrackPlayer queue in the new order
+    await reorderPlayerQueue(state.queue, state.currentIndex, savedPosition);
   }, [storeToggleShuffle]);
 
   const addToQueue = useCallback(
     async (track: Track) => {
       storeAddToQueue(track);
 
-      let url = track.url;
-      let trackHeaders: Record<string, string> | undefined;
-      let trackUA: string | undefined;
-      let trackIsHLS = false;
-      if (track.isYT) {
-        const cached = prefetchManager.getCached(track.id);
-        if (cached) {
-          url = cached.url;
-          trackHeaders = cached.headers;
-          trackUA = cached.headers?.['User-Agent'];
-          trackIsHLS = !!cached.isHLS;
-        } else {
-          url = 'https://placeholder.invalid/pending';
-          // Start resolving in background
-          prefetchManager.ensureResolved(track.id).catch(() => {});
-        }
-      }
-
       // Insert at the correct position in TrackPlayer (end of user queue).
       // Store's addToQueue already inserted at currentIndex + 1 + userQueueCount
       // (before incrementing userQueueCount), so we read the updated state
       // where userQueueCount is already incremented — the insert position is
       // currentIndex + userQueueCount (which equals old currentIndex + 1 + old userQueueCount).
       const state = usePlayerStore.getState();
-      const insertIndex = state.currentIndex + state.userQueueCount;
-
-      await TrackPlayer.add(
-        {
-          id: track.id,
-          url,
-          title: track.title,
-          artist: track.artist,
-          album: track.album,
-          artwork: track.artwork,
-          duration: track.duration,
-          ...(trackIsHLS ? { type: TrackType.HLS } : {}),
-          ...(trackHeaders ? { headers: trackHeaders } : {}),
-          ...(trackUA ? { userAgent: trackUA } : {}),
-        },
-        insertIndex,
-      );
+      await insertTrackInPlayer(track, state.currentIndex + state.userQueueCount);
     },
     [storeAddToQueue],
   );
@@ -234,36 +302,7 @@ export function usePlayer() {
   const addToUpNext = useCallback(
     async (track: Track) => {
       storeAddToUpNext(track);
-
-      let url = track.url;
-      let trackHeaders: Record<string, string> | undefined;
-      let trackUA: string | undefined;
-      let trackIsHLS = false;
-      if (track.isYT) {
-        const cached = prefetchManager.getCached(track.id);
-        if (cached) {
-          url = cached.url;
-          trackHeaders = cached.headers;
-          trackUA = cached.headers?.['User-Agent'];
-          trackIsHLS = !!cached.isHLS;
-        } else {
-          url = 'https://placeholder.invalid/pending';
-          prefetchManager.ensureResolved(track.id).catch(() => {});
-        }
-      }
-
-      await TrackPlayer.add({
-        id: track.id,
-        url,
-        title: track.title,
-        artist: track.artist,
-        album: track.album,
-        artwork: track.artwork,
-        duration: track.duration,
-        ...(trackIsHLS ? { type: TrackType.HLS } : {}),
-        ...(trackHeaders ? { headers: trackHeaders } : {}),
-        ...(trackUA ? { userAgent: trackUA } : {}),
-      });
+      await insertTrackInPlayer(track);
     },
     [storeAddToUpNext],
   );
@@ -272,38 +311,8 @@ export function usePlayer() {
     async (track: Track) => {
       storePlayNext(track);
       const insertIndex = usePlayerStore.getState().currentIndex + 1;
-
-      let url = track.url;
-      let trackHeaders: Record<string, string> | undefined;
-      let trackUA: string | undefined;
-      let trackIsHLS = false;
-      if (track.isYT) {
-        try {
-          const info = await prefetchManager.ensureResolved(track.id);
-          url = info.url;
-          trackHeaders = info.headers;
-          trackUA = info.headers?.['User-Agent'];
-          trackIsHLS = !!info.isHLS;
-        } catch {
-          url = 'https://placeholder.invalid/pending';
-        }
-      }
-
-      await TrackPlayer.add(
-        {
-          id: track.id,
-          url,
-          title: track.title,
-          artist: track.artist,
-          album: track.album,
-          artwork: track.artwork,
-          duration: track.duration,
-          ...(trackIsHLS ? { type: TrackType.HLS } : {}),
-          ...(trackHeaders ? { headers: trackHeaders } : {}),
-          ...(trackUA ? { userAgent: trackUA } : {}),
-        },
-        insertIndex,
-      );
+      // Resolved up front: it plays next, possibly within seconds
+      await insertTrackInPlayer(track, insertIndex, true);
     },
     [storePlayNext],
   );
@@ -329,10 +338,76 @@ export function usePlayer() {
   );
 
   const dismissPlayer = useCallback(async () => {
+    sleepTimer.cancel();
     await TrackPlayer.reset();
     storeClearQueue();
   }, [storeClearQueue]);
 
+  /**
+   * Try a track that failed to resolve again from scratch, forgetting its
+   * blacklisting and failed clients. Plays it if it's in the queue.
+   */
+  const retryTrack = useCallback(
+    async (track: Track) => {
+      prefetchManager.forgetFailures(track.id);
+      const state = usePlayerStore.getState();
+      const index = state.queue.findIndex((t) => t.id === track.id);
+      if (index < 0) return;
+      await playTrack(state.queue, index, state.queueContext ?? undefined);
+    },
+    [playTrack],
+  );
+
+  /**
+   * Replace a queued track that won't play with another version of the
+   * song, playing it if `play` is set or it's the current track. Returns the
+   * replacement, or null if none was found.
+   */
+  const findAlternative = useCallback(
+    async (track: Track, play = false): Promise<Track | null> => {
+      const alternative = await findAlternativeTrack(track);
+      if (!alternative) return null;
+
+      const state = usePlayerStore.getState();
+      const index = state.queue.findIndex((t) => t.id === track.id);
+      if (index < 0) return alternative;
+
+      state.replaceInQueue(index, alternative);
+      try {
+        await replaceTrackInPlayer(index, alternative, play || index === state.currentIndex);
+      } catch (err) {
+        console.warn('[usePlayer] Failed to swap in alternative track:', err);
+      }
+      return alternative;
+    },
+    [],
+  );
+
+  /** Pause playback later, fading out over the last 30 seconds. */
+  const startSleepTimer = useCallback((option: SleepTimerOption) => {
+    sleepTimer.start(option);
+  }, []);
+
+  const cancelSleepTimer = useCallback(() => {
+    sleepTimer.cancel();
+  }, []);
+
+  /**
+   * Change the playback rate and remember it for the current track. With
+   * `asDefault`, it also becomes the default for every track of the same
+   * kind (music or long-form).
+   */
+  const setRate = useCallback(async (rate: number, asDefault = false) => {
+    const track = usePlayerStore.getState().currentTrack;
+    if (!track) return;
+    const next = clampRate(rate);
+    if (asDefault) {
+      playbackRates.setDefaultRate(isLongForm(track), next);
+    }
+    playbackRates.setTrackRate(track, next);
+    await playbackRates.apply(track);
+  }, []);
+
   /**
    * Play a single track and fill the "Up Next" queue with YouTube Music
    * recommendations for that track. Used when tapping a search result or
@@ -348,7 +423,9 @@ export function usePlayer() {
         try {
           const recs = await getUpNext(track.id);
           if (recs.length > 0) {
-            const recTracks = recs.map(ytResultToTrack);
+            // Autoplay may have filled the queue already
+            const queued = new Set(usePlayerStore.getState().queue.map((t) => t.id));
+            const recTracks = recs.map(ytResultToTrack).filter((t) => !queued.has(t.id));
             // Append each recommended track to Up Next (not user queue)
             for (const recTrack of recTracks) {
               await addToUpNext(recTrack);
@@ -372,13 +449,47 @@ export function usePlayer() {
     [playTrack, addToUpNext],
   );
 
+  /**
+   * Replace the queue with an endless radio station seeded from a track,
+   * artist, album or playlist. autoplayManager keeps appending the
+   * station's next pages as the queue drains. Throws if no station could
+   * be built.
+   */
+  const startRadio = useCallback(
+    async (seed: RadioSeed) => {
+      const { page, first } = await fetchRadioPage(seed);
+
+      const seen = new Set<string>(first ? [first.id] : []);
+      const tracks: Track[] = first ? [first] : [];
+      for (const result of page.tracks) {
+        if (!isPlayableResult(result) || seen.has(result.videoId)) continue;
+        seen.add(result.videoId);
+        tracks.push(ytResultToTrack(result));
+      }
+      if (tracks.length === 0) {
+        throw new Error('This radio station is empty');
+      }
+
+      await playTrack(tracks, 0, {
+        type: 'radio',
+        label: radioLabel(seed),
+        continuation: page.continuation,
+      });
+    },
+    [playTrack],
+  );
+
   return {
     playTrack,
     playTrackWithRecommendations,
+    startRadio,
+    shufflePlay,
     play,
     pause,
     togglePlayPause,
     seekTo,
+    skipToNextChapter,
+    skipToPreviousChapter,
     skipToNext,
     skipToPrevious,
     toggleRepeatMode,
@@ -389,5 +500,10 @@ export function usePlayer() {
     removeFromQueue,
     reorderQueue,
     dismissPlayer,
+    retryTrack,
+    findAlternative,
+    startSleepTimer,
+    cancelSleepTimer,
+    setRate,
   };
 }
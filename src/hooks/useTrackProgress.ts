@@ -1,4 +1,4 @@
-import { useEffect } from 'react';
+import { useEffect, useRef } from 'react';
 import {
   useProgress,
   usePlaybackState,
@@ -6,10 +6,17 @@ import {
   State,
 } from 'react-native-track-player';
 import usePlayerStore from '../store/playerStore';
+import useResumeStore from '../store/resumeStore';
 import { prefetchManager } from '../services/prefetchManager';
+import { streamFileCacheManager } from '../services/streamFileCacheManager';
+import { lyricsService } from '../services/lyrics';
+import { getChapters, MIN_CHAPTERED_DURATION_SECONDS } from '../services/youtube';
 
 type PlaybackStatus = 'playing' | 'paused' | 'loading' | 'idle' | 'stopped';
 
+// Resume positions of long tracks are saved at most this often while playing
+const RESUME_SAVE_INTERVAL_SECONDS = 10;
+
 function mapPlaybackState(state: State | undefined): PlaybackStatus {
   switch (state) {
     case State.Playing:
@@ -39,19 +46,77 @@ export function useTrackProgress() {
   const syncCurrentIndex = usePlayerStore((s) => s.syncCurrentIndex);
   const addToRecentlyPlayed = usePlayerStore((s) => s.addToRecentlyPlayed);
   const queue = usePlayerStore((s) => s.queue);
+  const setTrackLyrics = usePlayerStore((s) => s.setTrackLyrics);
+  const currentTrack = usePlayerStore((s) => s.currentTrack);
+  const needsLyrics = !!currentTrack && currentTrack.lyrics === undefined;
+  const setTrackChapters = usePlayerStore((s) => s.setTrackChapters);
+  const needsChapters =
+    !!currentTrack?.isYT &&
+    currentTrack.chapters === undefined &&
+    Math.max(currentTrack.duration, duration) >= MIN_CHAPTERED_DURATION_SECONDS;
 
-  // Sync position, duration, and buffered to store
+  // Sync position, duration, and buffered to store.
+  // A restored session keeps its saved position until TrackPlayer is rebuilt.
   useEffect(() => {
+    if (usePlayerStore.getState().hasPendingRestore) return;
     setProgress(position, duration, buffered);
   }, [position, duration, buffered, setProgress]);
 
+  // Remember where long tracks were left off. Saved every few seconds while
+  // playing and once more on pause; PlaybackService resumes from it.
+  const lastResumeSaveRef = useRef<{ trackId: string; position: number } | null>(null);
+  // Progress sampled when the active track changed. useProgress still reports
+  // the previous track until its next tick, so nothing is saved until it moves.
+  const switchSampleRef = useRef<{
+    trackId: string;
+    position: number;
+    duration: number;
+    stale: boolean;
+  } | null>(null);
+  const mappedState = mapPlaybackState(playbackState);
+  useEffect(() => {
+    const track = usePlayerStore.getState().currentTrack;
+    if (!track || activeTrack?.id !== track.id) return;
+    if (usePlayerStore.getState().hasPendingRestore) return;
+
+    const sample = switchSampleRef.current;
+    if (!sample || sample.trackId !== track.id) {
+      switchSampleRef.current = { trackId: track.id, position, duration, stale: true };
+      return;
+    }
+    if (sample.stale) {
+      if (sample.position === position && sample.duration === duration) return;
+      sample.stale = false;
+    }
+    if (mappedState !== 'playing' && mappedState !== 'paused') return;
+
+    const trackDuration = duration > 0 ? duration : track.duration;
+    const { isResumable, savePosition } = useResumeStore.getState();
+    if (!isResumable({ duration: trackDuration })) return;
+
+    const last = lastResumeSaveRef.current;
+    const isDue =
+      !last ||
+      last.trackId !== track.id ||
+      mappedState === 'paused' ||
+      Math.abs(position - last.position) >= RESUME_SAVE_INTERVAL_SECONDS;
+    if (!isDue || (last?.trackId === track.id && last.position === position)) return;
+
+    lastResumeSaveRef.current = { trackId: track.id, position };
+    savePosition({ id: track.id, duration: trackDuration }, position);
+  }, [position, duration, mappedState, activeTrack?.id]);
+
   // Sync mapped playback state to store.
   // IMPORTANT: Don't overwrite a manual 'loading' state with 'idle'.
   // When we set 'loading' (e.g. while resolving a YT stream URL),
   // TrackPlayer reports State.None after reset() — we must ignore that.
   useEffect(() => {
     const mapped = mapPlaybackState(playbackState);
-    const currentStoreState = usePlayerStore.getState().playbackState;
+    const { playbackState: currentStoreState, hasPendingRestore } =
+      usePlayerStore.getState();
+
+    // Keep a restored session 'paused' while TrackPlayer's queue is empty
+    if (hasPendingRestore) return;
 
     if (
       currentStoreState === 'loading' &&
@@ -82,10 +147,10 @@ export function useTrackProgress() {
         setCurrentTrack(matchedTrack);
         addToRecentlyPlayed(matchedTrack);
 
-        // Trigger prefetch for upcoming tracks
+        // Trigger prefetch for upcoming tracks (downloads play from disk)
         if (matchedTrack.isYT) {
           const videoIds = queue
-            .filter((t) => t.isYT)
+            .filter((t) => t.isYT && (t.id === matchedTrack.id || !streamFileCacheManager.isPinned(t.id)))
             .map((t) => t.id);
           const currentYtIdx = videoIds.indexOf(matchedTrack.id);
           if (currentYtIdx >= 0) {
@@ -96,6 +161,43 @@ export function useTrackProgress() {
     }
   }, [activeTrack?.id, queue, setCurrentTrack, syncCurrentIndex, addToRecentlyPlayed]);
 
+  // Load lyrics for the current track in the background. Cached lyrics are
+  // applied synchronously so the lyrics sheet is filled on replay.
+  useEffect(() => {
+    const track = usePlayerStore.getState().currentTrack;
+    if (!track || !needsLyrics) return;
+
+    const cached = lyricsService.getCached(track.id);
+    if (cached !== undefined) {
+      setTrackLyrics(track.id, cached?.lines ?? [], cached?.synced ?? false);
+      return;
+    }
+
+    lyricsService
+      .getLyrics(track)
+      .then((result) => {
+        setTrackLyrics(track.id, result?.lines ?? [], result?.synced ?? false);
+      })
+      .catch((err) => {
+        console.warn('[useTrackProgress] Failed to load lyrics:', err);
+      });
+  }, [currentTrack?.id, needsLyrics, setTrackLyrics]);
+
+  // Load chapters of long videos (DJ sets, full albums) in the background
+  useEffect(() => {
+    const track = usePlayerStore.getState().currentTrack;
+    if (!track || !needsChapters) return;
+
+    getChapters(track.id)
+      .then((chapters) => {
+        setTrackChapters(track.id, chapters);
+      })
+      .catch((err) => {
+        console.warn('[useTrackProgress] Failed to load chapters:', err);
+        setTrackChapters(track.id, []);
+      });
+  }, [currentTrack?.id, needsChapters, setTrackChapters]);
+
   return {
     position,
     duration,
@@ -11,6 +11,7 @@ import {
 import { BlurView } from 'expo-blur';
 import { NavigationContainer, DefaultTheme } from '@react-navigation/native';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
+import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import type { BottomTabBarProps } from '@react-navigation/bottom-tabs';
 import { Ionicons } from '@expo/vector-icons';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
@@ -27,17 +28,28 @@ import { Gesture, GestureDetector } from 'react-native-gesture-handler';
 import { Colors, Spacing, Layout, BorderRadius, FontWeight, Shadows } from '../theme';
 import HomeScreen from '../screens/Home/HomeScreen';
 import SearchScreen from '../screens/Search/SearchScreen';
+import GenreScreen from '../screens/Search/GenreScreen';
 import LibraryScreen from '../screens/Library/LibraryScreen';
+import PlaylistScreen from '../screens/Library/PlaylistScreen';
+import DownloadsScreen from '../screens/Library/DownloadsScreen';
+import StatsScreen from '../screens/Library/StatsScreen';
+import ScrobblingScreen from '../screens/Library/ScrobblingScreen';
+import PlaybackSettingsScreen from '../screens/Library/PlaybackSettingsScreen';
+import StreamDiagnosticsScreen from '../screens/Library/StreamDiagnosticsScreen';
 import NowPlayingScreen from '../screens/NowPlaying/NowPlayingScreen';
 import QueueScreen from '../screens/Queue/QueueScreen';
 import LyricsSheet from '../screens/NowPlaying/LyricsSheet';
 import MiniPlayer from '../components/player/MiniPlayer';
+import PlaybackErrorToast from '../components/player/PlaybackErrorToast';
 import usePlayerStore from '../store/playerStore';
 import { useTrackProgress } from '../hooks';
+import type { LibraryStackParamList, SearchStackParamList } from './types';
 
 const { height: SCREEN_HEIGHT } = Dimensions.get('window');
 
 const Tab = createBottomTabNavigator();
+const LibraryStack = createNativeStackNavigator<LibraryStackParamList>();
+const SearchStack = createNativeStackNavigator<SearchStackParamList>();
 
 const DarkTheme = {
   ...DefaultTheme,
@@ -227,6 +239,43 @@ const floatingStyles = StyleSheet.create({
   },
 });
 
+// ── Search Stack ─────────────────────────────────────────────────────────────
+
+function SearchNavigator() {
+  return (
+    <SearchStack.Navigator
+      screenOptions={{
+        headerShown: false,
+        contentStyle: { backgroundColor: Colors.background },
+      }}
+    >
+      <SearchStack.Screen name="SearchHome" component={SearchScreen} />
+      <SearchStack.Screen name="Genre" component={GenreScreen} />
+    </SearchStack.Navigator>
+  );
+}
+
+// ── Library Stack ────────────────────────────────────────────────────────────
+
+function LibraryNavigator() {
+  return (
+    <LibraryStack.Navigator
+      screenOptions={{
+        headerShown: false,
+        contentStyle: { backgroundColor: Colors.background },
+      }}
+    >
+      <LibraryStack.Screen name="Library" component={LibraryScreen} />
+      <LibraryStack.Screen name="Playlist" component={PlaylistScreen} />
+      <LibraryStack.Screen name="Downloads" component={DownloadsScreen} />
+      <LibraryStack.Screen name="Stats" component={StatsScreen} />
+      <LibraryStack.Screen name="Scrobbling" component={ScrobblingScreen} />
+      <LibraryStack.Screen name="PlaybackSettings" component={PlaybackSettingsScreen} />
+      <LibraryStack.Screen name="StreamDiagnostics" component={StreamDiagnosticsScreen} />
+    </LibraryStack.Navigator>
+  );
+}
+
 // ── Main Navigator ───────────────────────────────────────────────────────────
 
 export default function AppNavigator() {
@@ -341,8 +390,8 @@ export default function AppNavigator() {
           }}
         >
           <Tab.Screen name="Home" component={HomeScreen} />
-          <Tab.Screen name="Search" component={SearchScreen} />
-          <Tab.Screen name="Your Library" component={LibraryScreen} />
+          <Tab.Screen name="Search" component={SearchNavigator} />
+          <Tab.Screen name="Your Library" component={LibraryNavigator} />
         </Tab.Navigator>
       </NavigationContainer>
 
@@ -368,6 +417,9 @@ export default function AppNavigator() {
         </GestureDetector>
       )}
 
+      {/* Why a track was skipped, above everything but the modals */}
+      <PlaybackErrorToast />
+
       {/* Queue Modal */}
       <Modal
         visible={showQueue}
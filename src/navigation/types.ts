@@ -0,0 +1,16 @@
+/** Route params for the stack nested inside the "Your Library" tab. */
+export type LibraryStackParamList = {
+  Library: undefined;
+  Playlist: { playlistId: string };
+  Downloads: undefined;
+  Stats: undefined;
+  Scrobbling: undefined;
+  PlaybackSettings: undefined;
+  StreamDiagnostics: undefined;
+};
+
+/** Route params for the stack nested inside the "Search" tab. */
+export type SearchStackParamList = {
+  SearchHome: undefined;
+  Genre: { title: string; params: string; colors: [string, string] };
+};
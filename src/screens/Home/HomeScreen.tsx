@@ -1,4 +1,4 @@
-import React, { useMemo, useCallback, useState, useEffect, useRef } from 'react';
+import React, { useMemo, useCallback, useState, useEffect } from 'react';
 import {
   View,
   Text,
@@ -8,7 +8,6 @@ import {
   FlatList,
   Dimensions,
   ActivityIndicator,
-  Modal,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Image } from 'expo-image';
@@ -21,24 +20,27 @@ import {
   FontWeight,
   BorderRadius,
 } from '../../theme';
-import { SectionHeader, TrackContextMenu } from '../../components/common';
-import { usePlayer } from '../../hooks';
+import {
+  SectionHeader,
+  SectionCarousel,
+  TrackContextMenu,
+  CollectionSheet,
+} from '../../components/common';
+import { useCollectionSheet, usePlayer } from '../../hooks';
 import usePlayerStore from '../../store/playerStore';
 import {
-  getCollectionDetails,
   getHomeFeed,
   isPlayableResult,
   isLikelyVideoId,
   searchYTMusic,
   ytResultToTrack,
-  type YTCollectionDetails,
   type YTHomeSection,
   type YTSearchResult,
 } from '../../services/youtube';
 import type { Track } from '../../types';
 import { useNavigation } from '@react-navigation/native';
 
-const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
+const { width: SCREEN_WIDTH } = Dimensions.get('window');
 
 // ---------------------------------------------------------------------------
 // MMKV cache for home feed (stale-while-revalidate)
@@ -114,56 +116,6 @@ function sanitizeSections(sections: YTHomeSection[]): YTHomeSection[] {
     .filter((section) => section.items.length > 0);
 }
 
-// ---------------------------------------------------------------------------
-// Trending Track Card (for YT Music home sections)
-// ---------------------------------------------------------------------------
-
-interface TrendingCardProps {
-  item: YTSearchResult;
-  onPress: () => void;
-  onLongPress: () => void;
-  size: number;
-}
-
-const TrendingCard: React.FC<TrendingCardProps> = React.memo(
-  ({ item, onPress, onLongPress, size }) => (
-    <TouchableOpacity
-      style={{ width: size, marginRight: Spacing.md }}
-      onPress={onPress}
-      onLongPress={onLongPress}
-      activeOpacity={0.7}
-    >
-      <View style={styles.recentCardArtContainer}>
-        <Image
-          source={{ uri: item.artwork }}
-          style={{
-            width: size,
-            height: size,
-            borderRadius: BorderRadius.md,
-            backgroundColor: Colors.surfaceLight,
-          }}
-          contentFit="cover"
-          transition={200}
-        />
-      </View>
-      <Text
-        style={styles.recentCardTitle}
-        numberOfLines={2}
-        ellipsizeMode="tail"
-      >
-        {item.title}
-      </Text>
-      <Text
-        style={styles.recentCardSubtitle}
-        numberOfLines={1}
-        ellipsizeMode="tail"
-      >
-        {item.artist}
-      </Text>
-    </TouchableOpacity>
-  ),
-);
-
 // ---------------------------------------------------------------------------
 // Quick-Play Card (glassmorphism 2-column grid)
 // ---------------------------------------------------------------------------
@@ -277,11 +229,8 @@ const HomeScreen: React.FC = () => {
   const [quickPlayTracks, setQuickPlayTracks] = useState<YTSearchResult[]>([]);
   const [trendingTracks, setTrendingTracks] = useState<YTSearchResult[]>([]);
   const [isLoadingHome, setIsLoadingHome] = useState(true);
-  const [collectionVisible, setCollectionVisible] = useState(false);
-  const [collectionLoading, setCollectionLoading] = useState(false);
-  const [collectionError, setCollectionError] = useState('');
-  const [activeCollection, setActiveCollection] = useState<YTCollectionDetails | null>(null);
-  const collectionRequestRef = useRef(0);
+  const collectionSheet = useCollectionSheet();
+  const { openCollection: openCollectionSheet } = collectionSheet;
 
   // Fetch home feed on mount — stale-while-revalidate via MMKV
   useEffect(() => {
@@ -342,30 +291,12 @@ const HomeScreen: React.FC = () => {
   const openCollection = useCallback((item: YTSearchResult) => {
     const id = item.browseId || item.videoId;
     if (!id) return;
-
-    const requestId = ++collectionRequestRef.current;
-    setCollectionVisible(true);
-    setCollectionLoading(true);
-    setCollectionError('');
-    setActiveCollection(null);
-
-    getCollectionDetails(id, item.entityType === 'playlist' ? 'playlist' : 'album')
-      .then((details) => {
-        if (requestId !== collectionRequestRef.current) return;
-        setActiveCollection(details);
-        if (details.tracks.length === 0) {
-          setCollectionError('No playable songs were found in this collection.');
-        }
-      })
-      .catch(() => {
-        if (requestId !== collectionRequestRef.current) return;
-        setCollectionError('Failed to load this collection.');
-      })
-      .finally(() => {
-        if (requestId !== collectionRequestRef.current) return;
-        setCollectionLoading(false);
-      });
-  }, []);
+    openCollectionSheet({
+      source: 'youtube',
+      id,
+      kind: item.entityType === 'playlist' ? 'playlist' : 'album',
+    });
+  }, [openCollectionSheet]);
 
   const openTrackContextMenu = useCallback(
     (item: YTSearchResult) => {
@@ -388,9 +319,13 @@ const HomeScreen: React.FC = () => {
   );
 
   const handleTrendingPlay = useCallback(
-    (items: YTSearchResult[], index: number) => {
-      const playable = items
-        .map((item, idx) => ({ item, idx }))
+    (item: YTSearchResult, index: number) => {
+      if (!isPlayableResult(item)) {
+        openCollection(item);
+        return;
+      }
+      const playable = trendingTracks
+        .map((entry, idx) => ({ item: entry, idx }))
         .filter((entry) => isPlayableResult(entry.item));
       if (playable.length === 0) return;
 
@@ -398,7 +333,7 @@ const HomeScreen: React.FC = () => {
       const mappedIndex = playable.findIndex((entry) => entry.idx === index);
       playTrack(tracks, mappedIndex >= 0 ? mappedIndex : 0);
     },
-    [playTrack],
+    [openCollection, playTrack, trendingTracks],
   );
 
   const handleRecentTrackPlay = useCallback(
@@ -423,22 +358,6 @@ const HomeScreen: React.FC = () => {
     [openCollection, playTrackWithRecommendations],
   );
 
-  const closeCollectionModal = useCallback(() => {
-    collectionRequestRef.current += 1;
-    setCollectionVisible(false);
-    setCollectionLoading(false);
-  }, []);
-
-  const playCollectionFromIndex = useCallback(
-    (startIndex: number) => {
-      if (!activeCollection || activeCollection.tracks.length === 0) return;
-      const tracks = activeCollection.tracks.map(ytResultToTrack);
-      playTrack(tracks, startIndex);
-      setCollectionVisible(false);
-    },
-    [activeCollection, playTrack],
-  );
-
   const renderQuickGrid = () => {
     if (quickPlayTracks.length === 0) return null;
 
@@ -562,52 +481,25 @@ const HomeScreen: React.FC = () => {
 
         {/* ---- Trending ---- */}
         {trendingTracks.length > 0 && (
-          <>
-            <SectionHeader title="Trending Now" />
-            <FlatList
-              data={trendingTracks}
-              keyExtractor={(item) => item.videoId}
-              horizontal
-              showsHorizontalScrollIndicator={false}
-              contentContainerStyle={styles.horizontalList}
-              renderItem={({ item, index }) => (
-                <TrendingCard
-                  item={item}
-                  onPress={() => {
-                    if (!isPlayableResult(item)) {
-                      openCollection(item);
-                      return;
-                    }
-                    handleTrendingPlay(trendingTracks, index);
-                  }}
-                  onLongPress={() => openTrackContextMenu(item)}
-                  size={CARD_SIZE}
-                />
-              )}
-            />
-          </>
+          <SectionCarousel
+            title="Trending Now"
+            items={trendingTracks}
+            onItemPress={handleTrendingPlay}
+            onItemLongPress={openTrackContextMenu}
+            cardSize={CARD_SIZE}
+          />
         )}
 
         {/* ---- YT Music Home Sections ---- */}
         {homeSections.map((section, sectionIdx) => (
-          <React.Fragment key={`section-${sectionIdx}`}>
-            <SectionHeader title={section.title} />
-            <FlatList
-              data={section.items.slice(0, 10)}
-              keyExtractor={(item) => item.videoId}
-              horizontal
-              showsHorizontalScrollIndicator={false}
-              contentContainerStyle={styles.horizontalList}
-              renderItem={({ item, index }) => (
-                <TrendingCard
-                  item={item}
-                  onPress={() => handleSectionPlay(item)}
-                  onLongPress={() => openTrackContextMenu(item)}
-                  size={CARD_SIZE}
-                />
-              )}
-            />
-          </React.Fragment>
+          <SectionCarousel
+            key={`section-${sectionIdx}`}
+            title={section.title}
+            items={section.items.slice(0, 10)}
+            onItemPress={handleSectionPlay}
+            onItemLongPress={openTrackContextMenu}
+            cardSize={CARD_SIZE}
+          />
         ))}
 
         {/* ---- Loading indicator at bottom while fetching ---- */}
@@ -626,112 +518,17 @@ const HomeScreen: React.FC = () => {
         onClose={closeContextMenu}
       />
 
-      <Modal
-        visible={collectionVisible}
-        transparent
-        animationType="slide"
-        statusBarTranslucent
-        onRequestClose={closeCollectionModal}
-      >
-        <View style={styles.collectionModalOverlay}>
-          <View
-            style={[
-              styles.collectionModalSheet,
-              {
-                paddingTop: insets.top + Spacing.lg,
-                paddingBottom: Math.max(insets.bottom, Spacing.lg),
-              },
-            ]}
-          >
-            <View style={styles.collectionModalTopBar}>
-              <TouchableOpacity
-                style={styles.collectionCloseBtn}
-                onPress={closeCollectionModal}
-                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
-              >
-                <Ionicons name="chevron-down" size={24} color={Colors.textPrimary} />
-              </TouchableOpacity>
-              <Text style={styles.collectionTopBarTitle}>
-                {activeCollection?.entityType === 'playlist' ? 'Playlist' : 'Album'}
-              </Text>
-              <View style={styles.collectionTopBarSpacer} />
-            </View>
-
-            {collectionLoading ? (
-              <View style={styles.collectionCenterState}>
-                <ActivityIndicator size="small" color={Colors.textMuted} />
-                <Text style={styles.collectionStateText}>Loading songs...</Text>
-              </View>
-            ) : collectionError && !activeCollection ? (
-              <View style={styles.collectionCenterState}>
-                <Text style={styles.collectionStateText}>{collectionError}</Text>
-              </View>
-            ) : activeCollection ? (
-              <ScrollView
-                style={styles.collectionBody}
-                contentContainerStyle={styles.collectionBodyContent}
-                showsVerticalScrollIndicator={false}
-              >
-                <View style={styles.collectionHero}>
-                  <Image
-                    source={{ uri: activeCollection.artwork }}
-                    style={styles.collectionHeroArtwork}
-                    contentFit="cover"
-                    transition={200}
-                  />
-                  <Text style={styles.collectionTitle}>{activeCollection.title}</Text>
-                  <Text style={styles.collectionSubtitle} numberOfLines={2}>
-                    {activeCollection.artist || activeCollection.subtitle}
-                  </Text>
-
-                  <TouchableOpacity
-                    style={[
-                      styles.collectionPlayButton,
-                      activeCollection.tracks.length === 0 && styles.collectionPlayButtonDisabled,
-                    ]}
-                    activeOpacity={0.7}
-                    onPress={() => playCollectionFromIndex(0)}
-                    disabled={activeCollection.tracks.length === 0}
-                  >
-                    <Ionicons name="play" size={18} color={Colors.black} />
-                    <Text style={styles.collectionPlayText}>Play</Text>
-                  </TouchableOpacity>
-                  {collectionError ? (
-                    <Text style={styles.collectionInlineError}>{collectionError}</Text>
-                  ) : null}
-                </View>
-
-                <View style={styles.collectionTrackList}>
-                  {activeCollection.tracks.map((track, index) => (
-                    <TouchableOpacity
-                      key={`${track.videoId}-${index}`}
-                      style={styles.collectionTrackRow}
-                      activeOpacity={0.7}
-                      onPress={() => playCollectionFromIndex(index)}
-                      onLongPress={() => openTrackContextMenu(track)}
-                    >
-                      <Text style={styles.collectionTrackIndex}>{index + 1}</Text>
-                      <View style={styles.collectionTrackMeta}>
-                        <Text style={styles.collectionTrackTitle} numberOfLines={1}>
-                          {track.title}
-                        </Text>
-                        <Text style={styles.collectionTrackArtist} numberOfLines={1}>
-                          {track.artist}
-                        </Text>
-                      </View>
-                      <Ionicons name="play" size={16} color={Colors.textSecondary} />
-                    </TouchableOpacity>
-                  ))}
-                </View>
-              </ScrollView>
-            ) : (
-              <View style={styles.collectionCenterState}>
-                <Text style={styles.collectionStateText}>No collection selected.</Text>
-              </View>
-            )}
-          </View>
-        </View>
-      </Modal>
+      <CollectionSheet
+        visible={collectionSheet.visible}
+        loading={collectionSheet.loading}
+        error={collectionSheet.error}
+        collection={collectionSheet.collection}
+        tracks={collectionSheet.tracks}
+        onClose={collectionSheet.closeCollection}
+        onPlay={collectionSheet.playCollection}
+        onStartRadio={collectionSheet.startCollectionRadio}
+        onTrackLongPress={openContextMenu}
+      />
     </View>
   );
 };
@@ -827,7 +624,7 @@ const styles = StyleSheet.create({
     paddingHorizontal: Spacing.lg,
   },
 
-  // ---- Recent / Trending track card ----
+  // ---- Recently played card ----
   recentCardArtContainer: {
     borderRadius: BorderRadius.md,
     overflow: 'hidden',
@@ -846,143 +643,6 @@ const styles = StyleSheet.create({
     marginTop: 2,
   },
 
-  // ---- Collection modal ----
-  collectionModalOverlay: {
-    flex: 1,
-    backgroundColor: Colors.overlay,
-    justifyContent: 'flex-end',
-  },
-  collectionModalSheet: {
-    maxHeight: SCREEN_HEIGHT * 0.9,
-    backgroundColor: Colors.surface,
-    borderTopLeftRadius: BorderRadius.xl,
-    borderTopRightRadius: BorderRadius.xl,
-  },
-  collectionModalTopBar: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    justifyContent: 'space-between',
-    paddingHorizontal: Spacing.lg,
-    paddingBottom: Spacing.sm,
-  },
-  collectionCloseBtn: {
-    width: 32,
-    height: 32,
-    borderRadius: 16,
-    backgroundColor: Colors.glass,
-    alignItems: 'center',
-    justifyContent: 'center',
-  },
-  collectionTopBarTitle: {
-    fontSize: FontSize.sm,
-    fontWeight: FontWeight.medium,
-    color: Colors.textSecondary,
-  },
-  collectionTopBarSpacer: {
-    width: 32,
-  },
-  collectionCenterState: {
-    alignItems: 'center',
-    justifyContent: 'center',
-    paddingVertical: Spacing.xxxl,
-    paddingHorizontal: Spacing.xl,
-  },
-  collectionStateText: {
-    fontSize: FontSize.md,
-    color: Colors.textSecondary,
-    marginTop: Spacing.sm,
-    textAlign: 'center',
-  },
-  collectionBody: {
-    flex: 1,
-  },
-  collectionBodyContent: {
-    paddingBottom: Spacing.xl,
-  },
-  collectionHero: {
-    alignItems: 'center',
-    paddingHorizontal: Spacing.xl,
-    paddingVertical: Spacing.md,
-  },
-  collectionHeroArtwork: {
-    width: 180,
-    height: 180,
-    borderRadius: BorderRadius.lg,
-    backgroundColor: Colors.surfaceLight,
-    marginBottom: Spacing.md,
-  },
-  collectionTitle: {
-    fontSize: FontSize.xxl,
-    fontWeight: FontWeight.heavy,
-    color: Colors.textPrimary,
-    textAlign: 'center',
-  },
-  collectionSubtitle: {
-    marginTop: Spacing.xs,
-    fontSize: FontSize.sm,
-    color: Colors.textSecondary,
-    textAlign: 'center',
-  },
-  collectionPlayButton: {
-    marginTop: Spacing.lg,
-    flexDirection: 'row',
-    alignItems: 'center',
-    justifyContent: 'center',
-    backgroundColor: Colors.primary,
-    borderRadius: BorderRadius.round,
-    minWidth: 120,
-    paddingHorizontal: Spacing.xl,
-    paddingVertical: Spacing.sm,
-    gap: 6,
-  },
-  collectionPlayButtonDisabled: {
-    opacity: 0.45,
-  },
-  collectionPlayText: {
-    fontSize: FontSize.md,
-    fontWeight: FontWeight.bold,
-    color: Colors.black,
-  },
-  collectionInlineError: {
-    marginTop: Spacing.sm,
-    fontSize: FontSize.sm,
-    color: Colors.error,
-    textAlign: 'center',
-  },
-  collectionTrackList: {
-    marginTop: Spacing.md,
-    borderTopWidth: StyleSheet.hairlineWidth,
-    borderTopColor: Colors.glassBorder,
-  },
-  collectionTrackRow: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    paddingVertical: Spacing.sm,
-    paddingHorizontal: Spacing.lg,
-    borderBottomWidth: StyleSheet.hairlineWidth,
-    borderBottomColor: Colors.glassBorder,
-  },
-  collectionTrackIndex: {
-    width: 24,
-    fontSize: FontSize.sm,
-    color: Colors.textMuted,
-    textAlign: 'center',
-  },
-  collectionTrackMeta: {
-    flex: 1,
-    marginHorizontal: Spacing.sm,
-  },
-  collectionTrackTitle: {
-    fontSize: FontSize.md,
-    color: Colors.textPrimary,
-    fontWeight: FontWeight.medium,
-  },
-  collectionTrackArtist: {
-    marginTop: 2,
-    fontSize: FontSize.sm,
-    color: Colors.textSecondary,
-  },
-
   // ---- Loading ----
   sectionLoading: {
     alignItems: 'center',
@@ -0,0 +1,331 @@
+import React, { useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ListRenderItemInfo,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { Image } from 'expo-image';
+import type { NativeStackScreenProps } from '@react-navigation/native-stack';
+import {
+  Colors,
+  Spacing,
+  FontSize,
+  FontWeight,
+  BorderRadius,
+} from '../../theme';
+import { usePlayer } from '../../hooks';
+import useDownloadStore from '../../store/downloadStore';
+import { downloadManager } from '../../services/downloadManager';
+import type { LibraryStackParamList } from '../../navigation/types';
+import type { DownloadItem } from '../../types';
+
+type DownloadsScreenProps = NativeStackScreenProps<LibraryStackParamList, 'Downloads'>;
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${bytes} B`;
+}
+
+function describeStatus(item: DownloadItem): string {
+  switch (item.status) {
+    case 'queued':
+      return item.attempts > 0 ? `Waiting to retry (${item.attempts})` : 'Waiting…';
+    case 'downloading':
+      return item.totalBytes > 0
+        ? `${Math.round(item.progress * 100)}% · ${formatBytes(item.bytesWritten)} of ${formatBytes(item.totalBytes)}`
+        : 'Starting…';
+    case 'paused':
+      return `Paused · ${Math.round(item.progress * 100)}%`;
+    case 'failed':
+      return item.error ? `Failed · ${item.error}` : 'Failed';
+    case 'completed':
+    default:
+      return item.totalBytes > 0 ? `Downloaded · ${formatBytes(item.totalBytes)}` : 'Downloaded';
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Sub-components
+// ---------------------------------------------------------------------------
+
+interface DownloadRowProps {
+  item: DownloadItem;
+  onPress: () => void;
+}
+
+const DownloadRow = React.memo<DownloadRowProps>(({ item, onPress }) => {
+  const { track, status } = item;
+  const trackId = track.id;
+
+  // Primary action depends on where the download is in its lifecycle
+  let action: { icon: keyof typeof Ionicons.glyphMap; onPress: () => void } | null = null;
+  if (status === 'queued' || status === 'downloading') {
+    action = { icon: 'pause', onPress: () => void downloadManager.pause(trackId) };
+  } else if (status === 'paused') {
+    action = { icon: 'play', onPress: () => downloadManager.resume(trackId) };
+  } else if (status === 'failed') {
+    action = { icon: 'refresh', onPress: () => downloadManager.retry(trackId) };
+  }
+
+  return (
+    <TouchableOpacity
+      style={styles.row}
+      activeOpacity={0.6}
+      onPress={onPress}
+      disabled={status !== 'completed'}
+    >
+      <Image
+        source={typeof track.artwork === 'string' ? { uri: track.artwork } : track.artwork}
+        style={styles.artwork}
+        contentFit="cover"
+        recyclingKey={trackId}
+      />
+      <View style={styles.info}>
+        <Text style={styles.title} numberOfLines={1}>
+          {track.title}
+        </Text>
+        <Text
+          style={[styles.status, status === 'failed' && styles.statusError]}
+          numberOfLines={1}
+        >
+          {describeStatus(item)}
+        </Text>
+        {(status === 'downloading' || status === 'paused') && (
+          <View style={styles.progressTrack}>
+            <View style={[styles.progressFill, { width: `${item.progress * 100}%` }]} />
+          </View>
+        )}
+      </View>
+
+      {action && (
+        <TouchableOpacity
+          style={styles.actionButton}
+          onPress={action.onPress}
+          hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+        >
+          <Ionicons name={action.icon} size={18} color={Colors.textPrimary} />
+        </TouchableOpacity>
+      )}
+      <TouchableOpacity
+        style={styles.actionButton}
+        onPress={() => void downloadManager.remove(trackId)}
+        hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+      >
+        <Ionicons name="close" size={18} color={Colors.textMuted} />
+      </TouchableOpacity>
+    </TouchableOpacity>
+  );
+});
+
+// ---------------------------------------------------------------------------
+// Main screen
+// ---------------------------------------------------------------------------
+
+function DownloadsScreen({ navigation }: DownloadsScreenProps) {
+  const insets = useSafeAreaInsets();
+  const downloads = useDownloadStore((s) => s.downloads);
+  const { playTrack } = usePlayer();
+
+  const completedTracks = useMemo(
+    () => downloads.filter((d) => d.status === 'completed').map((d) => d.track),
+    [downloads],
+  );
+
+  const handlePlay = useCallback(
+    (trackId?: string) => {
+      if (completedTracks.length === 0) return;
+      const startIndex = trackId
+        ? Math.max(0, completedTracks.findIndex((t) => t.id === trackId))
+        : 0;
+      playTrack(completedTracks, startIndex);
+    },
+    [completedTracks, playTrack],
+  );
+
+  const renderItem = useCallback(
+    ({ item }: ListRenderItemInfo<DownloadItem>) => (
+      <DownloadRow item={item} onPress={() => handlePlay(item.track.id)} />
+    ),
+    [handlePlay],
+  );
+
+  const pendingCount = downloads.length - completedTracks.length;
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      {/* Top bar */}
+      <View style={styles.topBar}>
+        <TouchableOpacity
+          style={styles.iconButton}
+          onPress={() => navigation.goBack()}
+          hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+        >
+          <Ionicons name="chevron-back" size={24} color={Colors.textPrimary} />
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.header}>
+        <View style={styles.headerText}>
+          <Text style={styles.headerTitle}>Downloads</Text>
+          <Text style={styles.headerSubtitle}>
+            {completedTracks.length} downloaded
+            {pendingCount > 0 ? ` · ${pendingCount} in progress` : ''}
+          </Text>
+        </View>
+        <TouchableOpacity
+          style={[styles.playButton, completedTracks.length === 0 && styles.buttonDisabled]}
+          activeOpacity={0.7}
+          onPress={() => handlePlay()}
+          disabled={completedTracks.length === 0}
+        >
+          <Ionicons name="play" size={22} color={Colors.black} />
+        </TouchableOpacity>
+      </View>
+
+      <FlatList
+        data={downloads}
+        keyExtractor={(item) => item.track.id}
+        renderItem={renderItem}
+        contentContainerStyle={styles.listContent}
+        showsVerticalScrollIndicator={false}
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Text style={styles.emptyText}>
+              Download songs, albums and playlists to listen offline.
+            </Text>
+          </View>
+        }
+      />
+    </View>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Styles
+// ---------------------------------------------------------------------------
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+
+  // Top bar
+  topBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.sm,
+  },
+  iconButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: Colors.glass,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+
+  // Header
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: Spacing.xl,
+    paddingBottom: Spacing.lg,
+  },
+  headerText: {
+    flex: 1,
+  },
+  headerTitle: {
+    color: Colors.textPrimary,
+    fontSize: FontSize.xxxl,
+    fontWeight: FontWeight.heavy,
+    letterSpacing: -0.5,
+  },
+  headerSubtitle: {
+    marginTop: Spacing.xs,
+    fontSize: FontSize.sm,
+    color: Colors.textSecondary,
+  },
+  playButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    backgroundColor: Colors.primary,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.45,
+  },
+
+  // List
+  listContent: {
+    paddingBottom: 130,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    height: 64,
+    paddingHorizontal: Spacing.lg,
+  },
+  artwork: {
+    width: 48,
+    height: 48,
+    borderRadius: BorderRadius.sm,
+    backgroundColor: Colors.surfaceLight,
+  },
+  info: {
+    flex: 1,
+    marginLeft: Spacing.md,
+    justifyContent: 'center',
+  },
+  title: {
+    fontSize: FontSize.md,
+    fontWeight: FontWeight.medium,
+    color: Colors.textPrimary,
+    marginBottom: 2,
+  },
+  status: {
+    fontSize: FontSize.sm,
+    color: Colors.textSecondary,
+  },
+  statusError: {
+    color: Colors.error,
+  },
+  progressTrack: {
+    height: 3,
+    borderRadius: 1.5,
+    backgroundColor: Colors.surfaceLight,
+    marginTop: Spacing.xs,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: Colors.primary,
+  },
+  actionButton: {
+    padding: Spacing.sm,
+    marginLeft: Spacing.xs,
+  },
+
+  // Empty state
+  emptyContainer: {
+    paddingTop: 80,
+    alignItems: 'center',
+  },
+  emptyText: {
+    color: Colors.textMuted,
+    fontSize: FontSize.md,
+    textAlign: 'center',
+    paddingHorizontal: Spacing.xl * 2,
+  },
+});
+
+export default React.memo(DownloadsScreen);
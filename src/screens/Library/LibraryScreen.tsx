@@ -1,4 +1,4 @@
-import React, { useCallback, useMemo } from 'react';
+import React, { useCallback, useMemo, useState } from 'react';
 import {
   View,
   Text,
@@ -10,6 +10,9 @@ import {
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
+import { Image } from 'expo-image';
+import { useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import {
   Colors,
   Spacing,
@@ -17,10 +20,12 @@ import {
   FontWeight,
   BorderRadius,
 } from '../../theme';
-import { TrackRow } from '../../components/common';
+import { TrackRow, PlaylistNameModal, DownloadButton } from '../../components/common';
 import { usePlayer } from '../../hooks';
 import usePlayerStore from '../../store/playerStore';
-import type { Track } from '../../types';
+import useDownloadStore from '../../store/downloadStore';
+import type { LibraryStackParamList } from '../../navigation/types';
+import type { Playlist, Track } from '../../types';
 
 // ---------------------------------------------------------------------------
 // Sub-components
@@ -36,15 +41,60 @@ const SectionLabel = React.memo<SectionLabelProps>(({ title }) => (
   </View>
 ));
 
+interface PlaylistRowProps {
+  playlist: Playlist;
+  onPress: () => void;
+}
+
+const PlaylistRow = React.memo<PlaylistRowProps>(({ playlist, onPress }) => {
+  const artwork = playlist.tracks.find((t) => !!t.artwork)?.artwork;
+  return (
+    <TouchableOpacity
+      style={styles.playlistRow}
+      activeOpacity={0.6}
+      onPress={onPress}
+    >
+      {artwork ? (
+        <Image
+          source={typeof artwork === 'string' ? { uri: artwork } : artwork}
+          style={styles.playlistArtwork}
+          contentFit="cover"
+          transition={200}
+        />
+      ) : (
+        <View style={[styles.playlistArtwork, styles.playlistArtworkPlaceholder]}>
+          <Ionicons name="musical-notes" size={22} color={Colors.textMuted} />
+        </View>
+      )}
+      <View style={styles.playlistInfo}>
+        <Text style={styles.playlistName} numberOfLines={1}>
+          {playlist.name}
+        </Text>
+        <Text style={styles.playlistCount}>
+          Playlist · {playlist.tracks.length}{' '}
+          {playlist.tracks.length === 1 ? 'song' : 'songs'}
+        </Text>
+      </View>
+      <Ionicons name="chevron-forward" size={18} color={Colors.textMuted} />
+    </TouchableOpacity>
+  );
+});
+
 // ---------------------------------------------------------------------------
 // Main screen
 // ---------------------------------------------------------------------------
 
 function LibraryScreen() {
   const insets = useSafeAreaInsets();
+  const navigation =
+    useNavigation<NativeStackNavigationProp<LibraryStackParamList, 'Library'>>();
   const { playTrackWithRecommendations } = usePlayer();
   const recentlyPlayed = usePlayerStore((s) => s.recentlyPlayed);
   const likedSongs = usePlayerStore((s) => s.likedSongs);
+  const playlists = usePlayerStore((s) => s.playlists);
+  const createPlaylist = usePlayerStore((s) => s.createPlaylist);
+  const downloadCount = useDownloadStore((s) => s.downloads.length);
+  const [createVisible, setCreateVisible] = useState(false);
 
   const handleTrackPress = useCallback(
     (track: Track) => {
@@ -53,10 +103,29 @@ function LibraryScreen() {
     [playTrackWithRecommendations],
   );
 
-  // Build flat list data: Liked Songs banner → liked tracks → Recently Played header → recent tracks
+  const openPlaylist = useCallback(
+    (playlistId: string) => {
+      navigation.navigate('Playlist', { playlistId });
+    },
+    [navigation],
+  );
+
+  const handleCreatePlaylist = useCallback(
+    (name: string) => {
+      const playlist = createPlaylist(name);
+      openPlaylist(playlist.id);
+    },
+    [createPlaylist, openPlaylist],
+  );
+
+  // Build flat list data: Liked Songs banner → Downloads → Playlists →
+  // liked tracks → Recently Played header → recent tracks
   type ListItem =
     | { type: 'liked-banner' }
+    | { type: 'downloads' }
     | { type: 'section'; title: string }
+    | { type: 'create-playlist' }
+    | { type: 'playlist'; data: Playlist }
     | { type: 'track'; data: Track; section: 'liked' | 'recent' };
 
   const listData: ListItem[] = useMemo(() => {
@@ -65,9 +134,24 @@ function LibraryScreen() {
     // Liked Songs banner card
     items.push({ type: 'liked-banner' as const });
 
+    // Downloads entry, once anything has been downloaded
+    if (downloadCount > 0) {
+      items.push({ type: 'downloads' as const });
+    }
+
+    // User playlists
+    items.push({ type: 'section' as const, title: 'Playlists' });
+    items.push({ type: 'create-playlist' as const });
+    for (const p of playlists) {
+      items.push({ type: 'playlist' as const, data: p });
+    }
+
     // Liked songs tracks
-    for (const t of likedSongs) {
-      items.push({ type: 'track' as const, data: t, section: 'liked' });
+    if (likedSongs.length > 0) {
+      items.push({ type: 'section' as const, title: 'Liked Songs' });
+      for (const t of likedSongs) {
+        items.push({ type: 'track' as const, data: t, section: 'liked' });
+      }
     }
 
     // Recently Played section
@@ -79,12 +163,15 @@ function LibraryScreen() {
     }
 
     return items;
-  }, [likedSongs, recentlyPlayed]);
+  }, [likedSongs, playlists, recentlyPlayed, downloadCount]);
 
   const keyExtractor = useCallback(
     (item: ListItem, index: number) => {
       if (item.type === 'liked-banner') return 'liked-banner';
+      if (item.type === 'downloads') return 'downloads';
       if (item.type === 'section') return `section-${item.title}`;
+      if (item.type === 'create-playlist') return 'create-playlist';
+      if (item.type === 'playlist') return `playlist-${item.data.id}`;
       return `${item.section}-${item.data.id}-${index}`;
     },
     [],
@@ -112,16 +199,66 @@ function LibraryScreen() {
                     {likedSongs.length === 1 ? 'song' : 'songs'}
                   </Text>
                 </View>
+                {likedSongs.length > 0 && (
+                  <DownloadButton tracks={likedSongs} style={styles.likedBannerDownload} />
+                )}
               </View>
             </LinearGradient>
           </View>
         );
       }
 
+      if (item.type === 'downloads') {
+        return (
+          <TouchableOpacity
+            style={styles.playlistRow}
+            activeOpacity={0.6}
+            onPress={() => navigation.navigate('Downloads')}
+          >
+            <View style={[styles.playlistArtwork, styles.playlistArtworkPlaceholder]}>
+              <Ionicons name="arrow-down-circle" size={26} color={Colors.primary} />
+            </View>
+            <View style={styles.playlistInfo}>
+              <Text style={styles.playlistName}>Downloads</Text>
+              <Text style={styles.playlistCount}>
+                {downloadCount} {downloadCount === 1 ? 'song' : 'songs'}
+              </Text>
+            </View>
+            <Ionicons name="chevron-forward" size={18} color={Colors.textMuted} />
+          </TouchableOpacity>
+        );
+      }
+
       if (item.type === 'section') {
         return <SectionLabel title={item.title} />;
       }
 
+      if (item.type === 'create-playlist') {
+        return (
+          <TouchableOpacity
+            style={styles.playlistRow}
+            activeOpacity={0.6}
+            onPress={() => setCreateVisible(true)}
+          >
+            <View style={[styles.playlistArtwork, styles.playlistArtworkPlaceholder]}>
+              <Ionicons name="add" size={26} color={Colors.textPrimary} />
+            </View>
+            <View style={styles.playlistInfo}>
+              <Text style={styles.playlistName}>Create playlist</Text>
+            </View>
+          </TouchableOpacity>
+        );
+      }
+
+      if (item.type === 'playlist') {
+        return (
+          <PlaylistRow
+            playlist={item.data}
+            onPress={() => openPlaylist(item.data.id)}
+          />
+        );
+      }
+
       return (
         <TrackRow
           track={item.data}
@@ -130,7 +267,7 @@ function LibraryScreen() {
         />
       );
     },
-    [handleTrackPress, likedSongs.length],
+    [handleTrackPress, openPlaylist, likedSongs, downloadCount, navigation],
   );
 
   return (
@@ -138,6 +275,29 @@ function LibraryScreen() {
       {/* Header */}
       <View style={styles.header}>
         <Text style={styles.headerTitle}>Your Library</Text>
+        <View style={styles.headerActions}>
+          <TouchableOpacity
+            style={styles.headerButton}
+            onPress={() => navigation.navigate('Stats')}
+            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+          >
+            <Ionicons name="stats-chart-outline" size={20} color={Colors.textPrimary} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.headerButton}
+            onPress={() => navigation.navigate('Scrobbling')}
+            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+          >
+            <Ionicons name="radio-outline" size={20} color={Colors.textPrimary} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.headerButton}
+            onPress={() => navigation.navigate('PlaybackSettings')}
+            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+          >
+            <Ionicons name="options-outline" size={20} color={Colors.textPrimary} />
+          </TouchableOpacity>
+        </View>
       </View>
 
       {/* Library list */}
@@ -162,6 +322,14 @@ function LibraryScreen() {
           </View>
         }
       />
+
+      <PlaylistNameModal
+        visible={createVisible}
+        title="New playlist"
+        confirmText="Create"
+        onSubmit={handleCreatePlaylist}
+        onClose={() => setCreateVisible(false)}
+      />
     </View>
   );
 }
@@ -191,6 +359,18 @@ const styles = StyleSheet.create({
     fontWeight: FontWeight.heavy,
     letterSpacing: -0.5,
   },
+  headerActions: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+  },
+  headerButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: Colors.glass,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
 
   // Liked Songs banner
   likedBanner: {
@@ -231,6 +411,42 @@ const styles = StyleSheet.create({
     fontWeight: FontWeight.medium,
     marginTop: 2,
   },
+  likedBannerDownload: {
+    backgroundColor: 'rgba(255,255,255,0.2)',
+  },
+
+  // Playlists
+  playlistRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    height: 64,
+    paddingHorizontal: Spacing.lg,
+  },
+  playlistArtwork: {
+    width: 48,
+    height: 48,
+    borderRadius: BorderRadius.sm,
+    backgroundColor: Colors.surfaceLight,
+  },
+  playlistArtworkPlaceholder: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  playlistInfo: {
+    flex: 1,
+    marginLeft: Spacing.md,
+    justifyContent: 'center',
+  },
+  playlistName: {
+    fontSize: FontSize.md,
+    fontWeight: FontWeight.medium,
+    color: Colors.textPrimary,
+    marginBottom: 2,
+  },
+  playlistCount: {
+    fontSize: FontSize.sm,
+    color: Colors.textSecondary,
+  },
 
   // List
   listContent: {
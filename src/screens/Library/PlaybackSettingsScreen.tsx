@@ -0,0 +1,350 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import type { NativeStackScreenProps } from '@react-navigation/native-stack';
+import {
+  Colors,
+  Spacing,
+  FontSize,
+  FontWeight,
+  BorderRadius,
+} from '../../theme';
+import {
+  loudnessNormalizer,
+  TARGET_LUFS_OPTIONS,
+  type LoudnessSettings,
+  type NormalizationMode,
+} from '../../services/loudness';
+import {
+  streamQuality,
+  STREAM_QUALITIES,
+  type NetworkKind,
+  type StreamQuality,
+  type StreamQualitySettings,
+} from '../../services/streamQuality';
+import {
+  streamFileCacheManager,
+  CACHE_BUDGET_OPTIONS,
+} from '../../services/streamFileCacheManager';
+import type { LibraryStackParamList } from '../../navigation/types';
+
+type PlaybackSettingsScreenProps = NativeStackScreenProps<LibraryStackParamList, 'PlaybackSettings'>;
+
+const NORMALIZATION_MODES: { mode: NormalizationMode; label: string; description: string }[] = [
+  { mode: 'off', label: 'Off', description: 'Tracks play at their original volume.' },
+  { mode: 'track', label: 'Track', description: 'Every track is brought to the same loudness.' },
+  {
+    mode: 'album',
+    label: 'Album',
+    description: 'Tracks of an album share one level, keeping quiet and loud songs apart.',
+  },
+];
+
+const QUALITY_LABELS: Record<StreamQuality, string> = {
+  low: 'Low',
+  normal: 'Normal',
+  high: 'High',
+  max: 'Max',
+};
+
+const NETWORK_LABELS: Record<NetworkKind, string> = {
+  wifi: 'Wi-Fi',
+  cellular: 'Cellular',
+};
+
+const TARGET_LABELS: Record<number, string> = {
+  [-23]: 'Quiet',
+  [-14]: 'Normal',
+  [-11]: 'Loud',
+};
+
+function formatBudget(bytes: number): string {
+  const mb = bytes / (1024 * 1024);
+  return mb >= 1024 ? `${mb / 1024} GB` : `${mb} MB`;
+}
+
+// ---------------------------------------------------------------------------
+// Sub-components
+// ---------------------------------------------------------------------------
+
+interface ChipProps {
+  label: string;
+  active: boolean;
+  onPress: () => void;
+}
+
+const Chip: React.FC<ChipProps> = ({ label, active, onPress }) => (
+  <TouchableOpacity
+    style={[styles.chip, active && styles.chipActive]}
+    activeOpacity={0.7}
+    onPress={onPress}
+  >
+    <Text style={[styles.chipText, active && styles.chipTextActive]}>{label}</Text>
+  </TouchableOpacity>
+);
+
+// ---------------------------------------------------------------------------
+// Main screen
+// ---------------------------------------------------------------------------
+
+function PlaybackSettingsScreen({ navigation }: PlaybackSettingsScreenProps) {
+  const insets = useSafeAreaInsets();
+  const [loudness, setLoudness] = useState<LoudnessSettings>(() =>
+    loudnessNormalizer.getSettings(),
+  );
+
+  const [quality, setQuality] = useState<StreamQualitySettings>(() =>
+    streamQuality.getSettings(),
+  );
+
+  const handleQualityChange = useCallback((network: NetworkKind, value: StreamQuality) => {
+    streamQuality.setQuality(network, value);
+    setQuality(streamQuality.getSettings());
+  }, []);
+
+  const [cacheBudget, setCacheBudget] = useState(() => streamFileCacheManager.getMaxBytes());
+
+  const handleCacheBudgetChange = useCallback((bytes: number) => {
+    setCacheBudget(bytes);
+    streamFileCacheManager.setMaxBytes(bytes).catch((err) => {
+      console.warn('[PlaybackSettings] Failed to apply cache size:', err);
+    });
+  }, []);
+
+  const handleModeChange = useCallback((mode: NormalizationMode) => {
+    loudnessNormalizer.setMode(mode);
+    setLoudness(loudnessNormalizer.getSettings());
+  }, []);
+
+  const handleTargetChange = useCallback((targetLufs: number) => {
+    loudnessNormalizer.setTargetLufs(targetLufs);
+    setLoudness(loudnessNormalizer.getSettings());
+  }, []);
+
+  const activeMode = NORMALIZATION_MODES.find((m) => m.mode === loudness.mode);
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      {/* Top bar */}
+      <View style={styles.topBar}>
+        <TouchableOpacity
+          style={styles.iconButton}
+          onPress={() => navigation.goBack()}
+          hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+        >
+          <Ionicons name="chevron-back" size={24} color={Colors.textPrimary} />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+      >
+        <Text style={styles.headerTitle}>Playback</Text>
+
+        {/* Streaming quality */}
+        <View style={styles.card}>
+          <Text style={styles.sectionTitle}>Streaming quality</Text>
+          <Text style={styles.sectionSubtitle}>
+            Low uses the least data. Max always picks the best stream available.
+          </Text>
+          {(Object.keys(NETWORK_LABELS) as NetworkKind[]).map((network) => (
+            <View key={network}>
+              <Text style={styles.fieldLabel}>{NETWORK_LABELS[network]}</Text>
+              <View style={styles.chipRow}>
+                {STREAM_QUALITIES.map((value) => (
+                  <Chip
+                    key={value}
+                    label={QUALITY_LABELS[value]}
+                    active={quality[network] === value}
+                    onPress={() => handleQualityChange(network, value)}
+                  />
+                ))}
+              </View>
+            </View>
+          ))}
+        </View>
+
+        {/* Stream cache */}
+        <View style={styles.card}>
+          <Text style={styles.sectionTitle}>Cache size</Text>
+          <Text style={styles.sectionSubtitle}>
+            Recently played songs are kept for instant replays. Downloads don't count.
+          </Text>
+          <View style={styles.chipRow}>
+            {CACHE_BUDGET_OPTIONS.map((bytes) => (
+              <Chip
+                key={bytes}
+                label={formatBudget(bytes)}
+                active={cacheBudget === bytes}
+                onPress={() => handleCacheBudgetChange(bytes)}
+              />
+            ))}
+          </View>
+        </View>
+
+        {/* Loudness normalization */}
+        <View style={styles.card}>
+          <Text style={styles.sectionTitle}>Normalize volume</Text>
+          <Text style={styles.sectionSubtitle}>{activeMode?.description}</Text>
+          <View style={styles.chipRow}>
+            {NORMALIZATION_MODES.map(({ mode, label }) => (
+              <Chip
+                key={mode}
+                label={label}
+                active={loudness.mode === mode}
+                onPress={() => handleModeChange(mode)}
+              />
+            ))}
+          </View>
+
+          {loudness.mode !== 'off' && (
+            <>
+              <Text style={styles.fieldLabel}>Target loudness</Text>
+              <View style={styles.chipRow}>
+                {TARGET_LUFS_OPTIONS.map((lufs) => (
+                  <Chip
+                    key={lufs}
+                    label={TARGET_LABELS[lufs] ? `${TARGET_LABELS[lufs]} (${lufs})` : `${lufs}`}
+                    active={loudness.targetLufs === lufs}
+                    onPress={() => handleTargetChange(lufs)}
+                  />
+                ))}
+              </View>
+              <Text style={styles.hintText}>
+                In LUFS. Tracks quieter than the target play at full volume.
+              </Text>
+            </>
+          )}
+        </View>
+
+        {/* Stream diagnostics */}
+        <TouchableOpacity
+          style={[styles.card, styles.linkCard]}
+          activeOpacity={0.7}
+          onPress={() => navigation.navigate('StreamDiagnostics')}
+        >
+          <View style={styles.linkInfo}>
+            <Text style={styles.sectionTitle}>Stream diagnostics</Text>
+            <Text style={styles.sectionSubtitle}>
+              Which sources are working, and the order they're tried in.
+            </Text>
+          </View>
+          <Ionicons name="chevron-forward" size={20} color={Colors.textSecondary} />
+        </TouchableOpacity>
+      </ScrollView>
+    </View>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Styles
+// ---------------------------------------------------------------------------
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+
+  // Top bar
+  topBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.sm,
+  },
+  iconButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: Colors.glass,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+
+  scrollContent: {
+    paddingHorizontal: Spacing.xl,
+    paddingBottom: 130,
+  },
+  headerTitle: {
+    color: Colors.textPrimary,
+    fontSize: FontSize.xxxl,
+    fontWeight: FontWeight.heavy,
+    letterSpacing: -0.5,
+  },
+
+  // Cards
+  card: {
+    marginTop: Spacing.xl,
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.lg,
+    backgroundColor: Colors.surfaceLight,
+  },
+  sectionTitle: {
+    color: Colors.textPrimary,
+    fontSize: FontSize.lg,
+    fontWeight: FontWeight.bold,
+  },
+  sectionSubtitle: {
+    marginTop: 2,
+    color: Colors.textSecondary,
+    fontSize: FontSize.sm,
+  },
+  fieldLabel: {
+    marginTop: Spacing.lg,
+    color: Colors.textSecondary,
+    fontSize: FontSize.sm,
+    fontWeight: FontWeight.medium,
+  },
+  linkCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.md,
+  },
+  linkInfo: {
+    flex: 1,
+  },
+  hintText: {
+    marginTop: Spacing.sm,
+    color: Colors.textMuted,
+    fontSize: FontSize.xs,
+  },
+
+  // Chips
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+    marginTop: Spacing.md,
+  },
+  chip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.round,
+    backgroundColor: Colors.glass,
+    borderWidth: 1,
+    borderColor: Colors.glassBorder,
+  },
+  chipActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  chipText: {
+    color: Colors.textSecondary,
+    fontSize: FontSize.sm,
+    fontWeight: FontWeight.semibold,
+  },
+  chipTextActive: {
+    color: Colors.white,
+  },
+});
+
+export default React.memo(PlaybackSettingsScreen);
@@ -0,0 +1,496 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  Alert,
+  ListRenderItemInfo,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { Image } from 'expo-image';
+import { LinearGradient } from 'expo-linear-gradient';
+import type { NativeStackScreenProps } from '@react-navigation/native-stack';
+import {
+  Colors,
+  Spacing,
+  FontSize,
+  FontWeight,
+  BorderRadius,
+} from '../../theme';
+import { TrackRow, PlaylistNameModal, DownloadButton } from '../../components/common';
+import { usePlayer } from '../../hooks';
+import usePlayerStore from '../../store/playerStore';
+import type { LibraryStackParamList } from '../../navigation/types';
+import type { Track } from '../../types';
+
+type PlaylistScreenProps = NativeStackScreenProps<LibraryStackParamList, 'Playlist'>;
+
+const ARTWORK_SIZE = 180;
+
+// ---------------------------------------------------------------------------
+// Sub-components
+// ---------------------------------------------------------------------------
+
+interface EditableTrackRowProps {
+  track: Track;
+  canMoveUp: boolean;
+  canMoveDown: boolean;
+  onMoveUp: () => void;
+  onMoveDown: () => void;
+  onRemove: () => void;
+}
+
+/** Row shown in edit mode: reorder chevrons + remove button. */
+const EditableTrackRow = React.memo<EditableTrackRowProps>(
+  ({ track, canMoveUp, canMoveDown, onMoveUp, onMoveDown, onRemove }) => (
+    <View style={styles.editRow}>
+      <View style={styles.reorderButtons}>
+        <TouchableOpacity
+          onPress={onMoveUp}
+          disabled={!canMoveUp}
+          hitSlop={{ top: 4, bottom: 4, left: 8, right: 8 }}
+          style={styles.reorderBtn}
+        >
+          <Ionicons
+            name="chevron-up"
+            size={16}
+            color={canMoveUp ? Colors.textSecondary : Colors.textDisabled}
+          />
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={onMoveDown}
+          disabled={!canMoveDown}
+          hitSlop={{ top: 4, bottom: 4, left: 8, right: 8 }}
+          style={styles.reorderBtn}
+        >
+          <Ionicons
+            name="chevron-down"
+            size={16}
+            color={canMoveDown ? Colors.textSecondary : Colors.textDisabled}
+          />
+        </TouchableOpacity>
+      </View>
+
+      <Image
+        source={typeof track.artwork === 'string' ? { uri: track.artwork } : track.artwork}
+        style={styles.editArtwork}
+        contentFit="cover"
+        recyclingKey={track.id}
+      />
+      <View style={styles.editInfo}>
+        <Text style={styles.editTitle} numberOfLines={1}>
+          {track.title}
+        </Text>
+        <Text style={styles.editArtist} numberOfLines={1}>
+          {track.artist}
+        </Text>
+      </View>
+
+      <TouchableOpacity
+        style={styles.removeButton}
+        hitSlop={{ top: 12, bottom: 12, left: 12, right: 12 }}
+        onPress={onRemove}
+      >
+        <Ionicons name="remove-circle-outline" size={22} color={Colors.textMuted} />
+      </TouchableOpacity>
+    </View>
+  ),
+);
+
+// ---------------------------------------------------------------------------
+// Main screen
+// ---------------------------------------------------------------------------
+
+function PlaylistScreen({ route, navigation }: PlaylistScreenProps) {
+  const insets = useSafeAreaInsets();
+  const { playlistId } = route.params;
+  const playlist = usePlayerStore((s) =>
+    s.playlists.find((p) => p.id === playlistId),
+  );
+  const renamePlaylist = usePlayerStore((s) => s.renamePlaylist);
+  const deletePlaylist = usePlayerStore((s) => s.deletePlaylist);
+  const removeFromPlaylist = usePlayerStore((s) => s.removeFromPlaylist);
+  const reorderPlaylist = usePlayerStore((s) => s.reorderPlaylist);
+  const { playTrack, shufflePlay } = usePlayer();
+
+  const [isEditing, setIsEditing] = useState(false);
+  const [renameVisible, setRenameVisible] = useState(false);
+
+  const tracks = playlist?.tracks ?? [];
+
+  const handlePlay = useCallback(
+    (startIndex: number) => {
+      if (tracks.length === 0) return;
+      playTrack(tracks, startIndex);
+    },
+    [tracks, playTrack],
+  );
+
+  const handleShuffle = useCallback(() => {
+    shufflePlay(tracks);
+  }, [tracks, shufflePlay]);
+
+  const handleRename = useCallback(
+    (name: string) => {
+      renamePlaylist(playlistId, name);
+    },
+    [playlistId, renamePlaylist],
+  );
+
+  const handleDelete = useCallback(() => {
+    if (!playlist) return;
+    Alert.alert(
+      'Delete playlist',
+      `"${playlist.name}" will be removed from your library.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => {
+            navigation.goBack();
+            deletePlaylist(playlistId);
+          },
+        },
+      ],
+    );
+  }, [playlist, playlistId, deletePlaylist, navigation]);
+
+  const renderItem = useCallback(
+    ({ item, index }: ListRenderItemInfo<Track>) => {
+      if (isEditing) {
+        return (
+          <EditableTrackRow
+            track={item}
+            canMoveUp={index > 0}
+            canMoveDown={index < tracks.length - 1}
+            onMoveUp={() => reorderPlaylist(playlistId, index, index - 1)}
+            onMoveDown={() => reorderPlaylist(playlistId, index, index + 1)}
+            onRemove={() => removeFromPlaylist(playlistId, index)}
+          />
+        );
+      }
+
+      return (
+        <TrackRow
+          track={item}
+          onPress={() => handlePlay(index)}
+          showArtwork
+        />
+      );
+    },
+    [isEditing, tracks.length, playlistId, reorderPlaylist, removeFromPlaylist, handlePlay],
+  );
+
+  const keyExtractor = useCallback(
+    (item: Track, index: number) => `${item.id}-${index}`,
+    [],
+  );
+
+  if (!playlist) {
+    return (
+      <View style={[styles.container, { paddingTop: insets.top }]}>
+        <View style={styles.topBar}>
+          <TouchableOpacity
+            style={styles.iconButton}
+            onPress={() => navigation.goBack()}
+            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+          >
+            <Ionicons name="chevron-back" size={24} color={Colors.textPrimary} />
+          </TouchableOpacity>
+        </View>
+        <View style={styles.emptyContainer}>
+          <Text style={styles.emptyText}>This playlist no longer exists.</Text>
+        </View>
+      </View>
+    );
+  }
+
+  const coverArtwork = tracks.find((t) => !!t.artwork)?.artwork;
+
+  const ListHeader = (
+    <View style={styles.hero}>
+      {coverArtwork ? (
+        <Image
+          source={typeof coverArtwork === 'string' ? { uri: coverArtwork } : coverArtwork}
+          style={styles.heroArtwork}
+          contentFit="cover"
+          transition={200}
+        />
+      ) : (
+        <LinearGradient
+          colors={[Colors.secondary, Colors.primary]}
+          start={{ x: 0, y: 0 }}
+          end={{ x: 1, y: 1 }}
+          style={[styles.heroArtwork, styles.heroPlaceholder]}
+        >
+          <Ionicons name="musical-notes" size={56} color={Colors.white} />
+        </LinearGradient>
+      )}
+      <Text style={styles.heroTitle} numberOfLines={2}>
+        {playlist.name}
+      </Text>
+      <Text style={styles.heroSubtitle}>
+        {tracks.length} {tracks.length === 1 ? 'song' : 'songs'}
+      </Text>
+
+      <View style={styles.heroActions}>
+        <TouchableOpacity
+          style={[styles.playButton, tracks.length === 0 && styles.buttonDisabled]}
+          activeOpacity={0.7}
+          onPress={() => handlePlay(0)}
+          disabled={tracks.length === 0}
+        >
+          <Ionicons name="play" size={18} color={Colors.black} />
+          <Text style={styles.playButtonText}>Play</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.shuffleButton, tracks.length === 0 && styles.buttonDisabled]}
+          activeOpacity={0.7}
+          onPress={handleShuffle}
+          disabled={tracks.length === 0}
+        >
+          <Ionicons name="shuffle" size={18} color={Colors.textPrimary} />
+          <Text style={styles.shuffleButtonText}>Shuffle</Text>
+        </TouchableOpacity>
+        <DownloadButton tracks={tracks} />
+      </View>
+    </View>
+  );
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      {/* Top bar */}
+      <View style={styles.topBar}>
+        <TouchableOpacity
+          style={styles.iconButton}
+          onPress={() => navigation.goBack()}
+          hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+        >
+          <Ionicons name="chevron-back" size={24} color={Colors.textPrimary} />
+        </TouchableOpacity>
+        <View style={styles.topBarActions}>
+          <TouchableOpacity
+            style={styles.iconButton}
+            onPress={() => setIsEditing((v) => !v)}
+            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+            disabled={tracks.length === 0}
+          >
+            <Ionicons
+              name={isEditing ? 'checkmark' : 'swap-vertical'}
+              size={20}
+              color={isEditing ? Colors.primary : Colors.textPrimary}
+            />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.iconButton}
+            onPress={() => setRenameVisible(true)}
+            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+          >
+            <Ionicons name="create-outline" size={20} color={Colors.textPrimary} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.iconButton}
+            onPress={handleDelete}
+            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+          >
+            <Ionicons name="trash-outline" size={20} color={Colors.textPrimary} />
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <FlatList
+        data={tracks}
+        renderItem={renderItem}
+        keyExtractor={keyExtractor}
+        ListHeaderComponent={ListHeader}
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Text style={styles.emptyText}>
+              Add songs from Search, Home or the Queue with "Add to Playlist".
+            </Text>
+          </View>
+        }
+        contentContainerStyle={styles.listContent}
+        showsVerticalScrollIndicator={false}
+      />
+
+      <PlaylistNameModal
+        visible={renameVisible}
+        title="Rename playlist"
+        initialName={playlist.name}
+        onSubmit={handleRename}
+        onClose={() => setRenameVisible(false)}
+      />
+    </View>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Styles
+// ---------------------------------------------------------------------------
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+
+  // Top bar
+  topBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.sm,
+  },
+  topBarActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  iconButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: Colors.glass,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginLeft: Spacing.sm,
+  },
+
+  // Hero
+  hero: {
+    alignItems: 'center',
+    paddingHorizontal: Spacing.xl,
+    paddingTop: Spacing.md,
+    paddingBottom: Spacing.xl,
+  },
+  heroArtwork: {
+    width: ARTWORK_SIZE,
+    height: ARTWORK_SIZE,
+    borderRadius: BorderRadius.lg,
+    backgroundColor: Colors.surfaceLight,
+    marginBottom: Spacing.md,
+  },
+  heroPlaceholder: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  heroTitle: {
+    fontSize: FontSize.xxl,
+    fontWeight: FontWeight.heavy,
+    color: Colors.textPrimary,
+    textAlign: 'center',
+  },
+  heroSubtitle: {
+    marginTop: Spacing.xs,
+    fontSize: FontSize.sm,
+    color: Colors.textSecondary,
+  },
+  heroActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: Spacing.lg,
+    gap: Spacing.md,
+  },
+  playButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: Colors.primary,
+    borderRadius: BorderRadius.round,
+    minWidth: 120,
+    paddingHorizontal: Spacing.xl,
+    paddingVertical: Spacing.sm,
+    gap: 6,
+  },
+  playButtonText: {
+    fontSize: FontSize.md,
+    fontWeight: FontWeight.bold,
+    color: Colors.black,
+  },
+  shuffleButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: Colors.glass,
+    borderWidth: 1,
+    borderColor: Colors.glassBorder,
+    borderRadius: BorderRadius.round,
+    minWidth: 120,
+    paddingHorizontal: Spacing.xl,
+    paddingVertical: Spacing.sm,
+    gap: 6,
+  },
+  shuffleButtonText: {
+    fontSize: FontSize.md,
+    fontWeight: FontWeight.bold,
+    color: Colors.textPrimary,
+  },
+  buttonDisabled: {
+    opacity: 0.45,
+  },
+
+  // List
+  listContent: {
+    paddingBottom: 130,
+  },
+
+  // Edit mode rows
+  editRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    height: 60,
+    paddingHorizontal: Spacing.lg,
+  },
+  reorderButtons: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: Spacing.sm,
+    width: 24,
+  },
+  reorderBtn: {
+    paddingVertical: 2,
+  },
+  editArtwork: {
+    width: 48,
+    height: 48,
+    borderRadius: BorderRadius.sm,
+    backgroundColor: Colors.surfaceLight,
+  },
+  editInfo: {
+    flex: 1,
+    marginLeft: Spacing.md,
+    marginRight: Spacing.sm,
+  },
+  editTitle: {
+    fontSize: FontSize.md,
+    fontWeight: FontWeight.medium,
+    color: Colors.textPrimary,
+    marginBottom: 2,
+  },
+  editArtist: {
+    fontSize: FontSize.sm,
+    color: Colors.textSecondary,
+  },
+  removeButton: {
+    padding: Spacing.xs,
+  },
+
+  // Empty state
+  emptyContainer: {
+    paddingTop: Spacing.xxxl,
+    alignItems: 'center',
+  },
+  emptyText: {
+    color: Colors.textMuted,
+    fontSize: FontSize.md,
+    textAlign: 'center',
+    paddingHorizontal: Spacing.xl * 2,
+  },
+});
+
+export default React.memo(PlaylistScreen);
@@ -0,0 +1,403 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Switch,
+  ActivityIndicator,
+  Alert,
+  type TextInputProps,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import type { NativeStackScreenProps } from '@react-navigation/native-stack';
+import {
+  Colors,
+  Spacing,
+  FontSize,
+  FontWeight,
+  BorderRadius,
+} from '../../theme';
+import { scrobbler, type ScrobblerSettings } from '../../services/scrobbler';
+import type { LibraryStackParamList } from '../../navigation/types';
+
+type ScrobblingScreenProps = NativeStackScreenProps<LibraryStackParamList, 'Scrobbling'>;
+
+// ---------------------------------------------------------------------------
+// Sub-components
+// ---------------------------------------------------------------------------
+
+interface FieldProps extends TextInputProps {
+  label: string;
+}
+
+const Field: React.FC<FieldProps> = ({ label, ...inputProps }) => (
+  <View style={styles.field}>
+    <Text style={styles.fieldLabel}>{label}</Text>
+    <TextInput
+      style={styles.input}
+      placeholderTextColor={Colors.textMuted}
+      autoCapitalize="none"
+      autoCorrect={false}
+      {...inputProps}
+    />
+  </View>
+);
+
+interface SectionHeaderProps {
+  title: string;
+  enabled: boolean;
+  pending: number;
+  onToggle: (enabled: boolean) => void;
+}
+
+const SectionHeader: React.FC<SectionHeaderProps> = ({ title, enabled, pending, onToggle }) => (
+  <View style={styles.sectionHeader}>
+    <View style={styles.sectionHeaderText}>
+      <Text style={styles.sectionTitle}>{title}</Text>
+      {pending > 0 && (
+        <Text style={styles.pendingText}>
+          {pending} {pending === 1 ? 'scrobble' : 'scrobbles'} waiting to be sent
+        </Text>
+      )}
+    </View>
+    <Switch
+      value={enabled}
+      onValueChange={onToggle}
+      trackColor={{ false: Colors.surfaceHighlight, true: Colors.primary }}
+      thumbColor={Colors.white}
+    />
+  </View>
+);
+
+// ---------------------------------------------------------------------------
+// Main screen
+// ---------------------------------------------------------------------------
+
+function ScrobblingScreen({ navigation }: ScrobblingScreenProps) {
+  const insets = useSafeAreaInsets();
+  const [settings, setSettings] = useState<ScrobblerSettings>(() => scrobbler.getSettings());
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [isConnecting, setIsConnecting] = useState(false);
+
+  const { lastfm, listenbrainz } = settings;
+  const lastfmPending = scrobbler.getPendingCount('lastfm');
+  const listenBrainzPending = scrobbler.getPendingCount('listenbrainz');
+
+  const updateLastfm = useCallback((patch: Partial<ScrobblerSettings['lastfm']>) => {
+    setSettings(scrobbler.updateSettings({ lastfm: patch }));
+  }, []);
+
+  const updateListenBrainz = useCallback(
+    (patch: Partial<ScrobblerSettings['listenbrainz']>) => {
+      setSettings(scrobbler.updateSettings({ listenbrainz: patch }));
+    },
+    [],
+  );
+
+  const handleConnect = useCallback(async () => {
+    if (!username.trim() || !password) return;
+    setIsConnecting(true);
+    try {
+      await scrobbler.connectLastfm(username.trim(), password);
+      setPassword('');
+      setSettings(scrobbler.getSettings());
+    } catch (err: any) {
+      Alert.alert('Couldn\'t connect to Last.fm', err?.message ?? 'Please try again.');
+    } finally {
+      setIsConnecting(false);
+    }
+  }, [username, password]);
+
+  const handleDisconnect = useCallback(() => {
+    scrobbler.disconnectLastfm();
+    setSettings(scrobbler.getSettings());
+  }, []);
+
+  const hasPending = lastfmPending + listenBrainzPending > 0;
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      {/* Top bar */}
+      <View style={styles.topBar}>
+        <TouchableOpacity
+          style={styles.iconButton}
+          onPress={() => navigation.goBack()}
+          hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+        >
+          <Ionicons name="chevron-back" size={24} color={Colors.textPrimary} />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
+        showsVerticalScrollIndicator={false}
+      >
+        <Text style={styles.headerTitle}>Scrobbling</Text>
+        <Text style={styles.headerSubtitle}>
+          Songs are scrobbled after half their length or 4 minutes of listening.
+        </Text>
+
+        {/* Last.fm */}
+        <View style={styles.card}>
+          <SectionHeader
+            title="Last.fm"
+            enabled={lastfm.enabled}
+            pending={lastfmPending}
+            onToggle={(enabled) => updateLastfm({ enabled })}
+          />
+          {lastfm.enabled && (
+            <>
+              <Field
+                label="API endpoint"
+                value={lastfm.endpoint}
+                onChangeText={(endpoint) => updateLastfm({ endpoint: endpoint.trim() })}
+                keyboardType="url"
+              />
+              <Field
+                label="API key"
+                value={lastfm.apiKey}
+                onChangeText={(apiKey) => updateLastfm({ apiKey: apiKey.trim() })}
+              />
+              <Field
+                label="Shared secret"
+                value={lastfm.apiSecret}
+                onChangeText={(apiSecret) => updateLastfm({ apiSecret: apiSecret.trim() })}
+                secureTextEntry
+              />
+
+              {lastfm.sessionKey ? (
+                <View style={styles.connectedRow}>
+                  <Text style={styles.connectedText} numberOfLines={1}>
+                    Connected as {lastfm.username}
+                  </Text>
+                  <TouchableOpacity onPress={handleDisconnect} activeOpacity={0.7}>
+                    <Text style={styles.linkText}>Disconnect</Text>
+                  </TouchableOpacity>
+                </View>
+              ) : (
+                <>
+                  <Field
+                    label="Username"
+                    value={username}
+                    onChangeText={setUsername}
+                  />
+                  <Field
+                    label="Password"
+                    value={password}
+                    onChangeText={setPassword}
+                    secureTextEntry
+                    returnKeyType="done"
+                    onSubmitEditing={handleConnect}
+                  />
+                  <TouchableOpacity
+                    style={[
+                      styles.primaryButton,
+                      (!username.trim() || !password) && styles.buttonDisabled,
+                    ]}
+                    activeOpacity={0.7}
+                    onPress={handleConnect}
+                    disabled={isConnecting || !username.trim() || !password}
+                  >
+                    {isConnecting ? (
+                      <ActivityIndicator size="small" color={Colors.white} />
+                    ) : (
+                      <Text style={styles.primaryButtonText}>Connect</Text>
+                    )}
+                  </TouchableOpacity>
+                </>
+              )}
+            </>
+          )}
+        </View>
+
+        {/* ListenBrainz */}
+        <View style={styles.card}>
+          <SectionHeader
+            title="ListenBrainz"
+            enabled={listenbrainz.enabled}
+            pending={listenBrainzPending}
+            onToggle={(enabled) => updateListenBrainz({ enabled })}
+          />
+          {listenbrainz.enabled && (
+            <>
+              <Field
+                label="Server URL"
+                value={listenbrainz.endpoint}
+                onChangeText={(endpoint) => updateListenBrainz({ endpoint: endpoint.trim() })}
+                placeholder="https://api.listenbrainz.org"
+                keyboardType="url"
+              />
+              <Field
+                label="User token"
+                value={listenbrainz.token}
+                onChangeText={(token) => updateListenBrainz({ token: token.trim() })}
+                secureTextEntry
+              />
+            </>
+          )}
+        </View>
+
+        {hasPending && (
+          <TouchableOpacity
+            style={styles.secondaryButton}
+            activeOpacity={0.7}
+            onPress={() => scrobbler.flushAll()}
+          >
+            <Ionicons name="refresh" size={16} color={Colors.textPrimary} />
+            <Text style={styles.secondaryButtonText}>Retry now</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Styles
+// ---------------------------------------------------------------------------
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+
+  // Top bar
+  topBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.sm,
+  },
+  iconButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: Colors.glass,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+
+  scrollContent: {
+    paddingHorizontal: Spacing.xl,
+    paddingBottom: 130,
+  },
+  headerTitle: {
+    color: Colors.textPrimary,
+    fontSize: FontSize.xxxl,
+    fontWeight: FontWeight.heavy,
+    letterSpacing: -0.5,
+  },
+  headerSubtitle: {
+    marginTop: Spacing.xs,
+    fontSize: FontSize.sm,
+    color: Colors.textSecondary,
+  },
+
+  // Cards
+  card: {
+    marginTop: Spacing.xl,
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.lg,
+    backgroundColor: Colors.surfaceLight,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  sectionHeaderText: {
+    flex: 1,
+  },
+  sectionTitle: {
+    color: Colors.textPrimary,
+    fontSize: FontSize.lg,
+    fontWeight: FontWeight.bold,
+  },
+  pendingText: {
+    marginTop: 2,
+    color: Colors.tertiary,
+    fontSize: FontSize.sm,
+  },
+
+  // Fields
+  field: {
+    marginTop: Spacing.md,
+  },
+  fieldLabel: {
+    marginBottom: Spacing.xs,
+    color: Colors.textSecondary,
+    fontSize: FontSize.sm,
+    fontWeight: FontWeight.medium,
+  },
+  input: {
+    height: 44,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    borderColor: Colors.glassBorder,
+    backgroundColor: Colors.surfaceElevated,
+    paddingHorizontal: Spacing.md,
+    fontSize: FontSize.md,
+    color: Colors.textPrimary,
+  },
+
+  // Connection
+  connectedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: Spacing.lg,
+  },
+  connectedText: {
+    flex: 1,
+    color: Colors.success,
+    fontSize: FontSize.md,
+    fontWeight: FontWeight.semibold,
+  },
+  linkText: {
+    color: Colors.primary,
+    fontSize: FontSize.md,
+    fontWeight: FontWeight.semibold,
+  },
+
+  // Buttons
+  primaryButton: {
+    marginTop: Spacing.lg,
+    height: 44,
+    borderRadius: BorderRadius.round,
+    backgroundColor: Colors.primary,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  primaryButtonText: {
+    color: Colors.white,
+    fontSize: FontSize.md,
+    fontWeight: FontWeight.bold,
+  },
+  buttonDisabled: {
+    opacity: 0.45,
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'center',
+    gap: Spacing.sm,
+    marginTop: Spacing.xl,
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.round,
+    backgroundColor: Colors.glass,
+  },
+  secondaryButtonText: {
+    color: Colors.textPrimary,
+    fontSize: FontSize.md,
+    fontWeight: FontWeight.semibold,
+  },
+});
+
+export default React.memo(ScrobblingScreen);
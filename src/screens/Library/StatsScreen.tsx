@@ -0,0 +1,411 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useFocusEffect } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import { Image } from 'expo-image';
+import type { NativeStackScreenProps } from '@react-navigation/native-stack';
+import {
+  Colors,
+  Spacing,
+  FontSize,
+  FontWeight,
+  BorderRadius,
+} from '../../theme';
+import { listeningHistory } from '../../services/listeningHistory';
+import type { LibraryStackParamList } from '../../navigation/types';
+import type { StatsRange } from '../../types';
+
+type StatsScreenProps = NativeStackScreenProps<LibraryStackParamList, 'Stats'>;
+
+const RANGES: { key: StatsRange; label: string }[] = [
+  { key: 'week', label: 'Week' },
+  { key: 'month', label: 'Month' },
+  { key: 'year', label: 'Year' },
+  { key: 'all', label: 'All time' },
+];
+
+const CHART_HEIGHT = 120;
+
+function formatMinutes(seconds: number): string {
+  const minutes = Math.round(seconds / 60);
+  return minutes.toLocaleString();
+}
+
+function formatHourLabel(hour: number): string {
+  if (hour === 0) return '12a';
+  if (hour === 12) return '12p';
+  return hour < 12 ? `${hour}a` : `${hour - 12}p`;
+}
+
+// ---------------------------------------------------------------------------
+// Sub-components
+// ---------------------------------------------------------------------------
+
+interface RankedRowProps {
+  rank: number;
+  title: string;
+  subtitle: string;
+  artwork: any;
+  round?: boolean;
+}
+
+const RankedRow = React.memo<RankedRowProps>(({ rank, title, subtitle, artwork, round }) => (
+  <View style={styles.row}>
+    <Text style={styles.rank}>{rank}</Text>
+    <Image
+      source={typeof artwork === 'string' ? { uri: artwork } : artwork}
+      style={[styles.artwork, round && styles.artworkRound]}
+      contentFit="cover"
+    />
+    <View style={styles.info}>
+      <Text style={styles.title} numberOfLines={1}>
+        {title}
+      </Text>
+      <Text style={styles.subtitle} numberOfLines={1}>
+        {subtitle}
+      </Text>
+    </View>
+  </View>
+));
+
+const HourChart = React.memo<{ secondsByHour: number[] }>(({ secondsByHour }) => {
+  const max = Math.max(...secondsByHour, 1);
+  return (
+    <View>
+      <View style={styles.chart}>
+        {secondsByHour.map((seconds, hour) => (
+          <View key={hour} style={styles.chartColumn}>
+            <View
+              style={[
+                styles.chartBar,
+                { height: Math.max(2, (seconds / max) * CHART_HEIGHT) },
+                seconds === 0 && styles.chartBarEmpty,
+              ]}
+            />
+          </View>
+        ))}
+      </View>
+      <View style={styles.chartLabels}>
+        {[0, 6, 12, 18].map((hour) => (
+          <Text key={hour} style={styles.chartLabel}>
+            {formatHourLabel(hour)}
+          </Text>
+        ))}
+      </View>
+    </View>
+  );
+});
+
+// ---------------------------------------------------------------------------
+// Main screen
+// ---------------------------------------------------------------------------
+
+function StatsScreen({ navigation }: StatsScreenProps) {
+  const insets = useSafeAreaInsets();
+  const [range, setRange] = useState<StatsRange>('month');
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  // Pick up plays recorded while the screen was in the background
+  useFocusEffect(
+    useCallback(() => {
+      setRefreshKey((k) => k + 1);
+    }, []),
+  );
+
+  const stats = useMemo(() => {
+    void refreshKey;
+    return listeningHistory.getStats(range);
+  }, [range, refreshKey]);
+
+  const isEmpty = stats.totalSeconds === 0;
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      {/* Top bar */}
+      <View style={styles.topBar}>
+        <TouchableOpacity
+          style={styles.iconButton}
+          onPress={() => navigation.goBack()}
+          hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+        >
+          <Ionicons name="chevron-back" size={24} color={Colors.textPrimary} />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+      >
+        <Text style={styles.headerTitle}>Listening stats</Text>
+
+        {/* Range selector */}
+        <View style={styles.rangeRow}>
+          {RANGES.map(({ key, label }) => (
+            <TouchableOpacity
+              key={key}
+              style={[styles.rangeChip, range === key && styles.rangeChipActive]}
+              activeOpacity={0.7}
+              onPress={() => setRange(key)}
+            >
+              <Text style={[styles.rangeText, range === key && styles.rangeTextActive]}>
+                {label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {isEmpty ? (
+          <View style={styles.emptyContainer}>
+            <Text style={styles.emptyText}>
+              Nothing played in this period yet.
+            </Text>
+          </View>
+        ) : (
+          <>
+            {/* Totals */}
+            <View style={styles.totals}>
+              <View style={styles.totalCard}>
+                <Text style={styles.totalValue}>{formatMinutes(stats.totalSeconds)}</Text>
+                <Text style={styles.totalLabel}>minutes listened</Text>
+              </View>
+              <View style={styles.totalCard}>
+                <Text style={styles.totalValue}>{stats.playCount.toLocaleString()}</Text>
+                <Text style={styles.totalLabel}>plays</Text>
+              </View>
+            </View>
+
+            {/* Listening by hour */}
+            <Text style={styles.sectionTitle}>When you listen</Text>
+            <HourChart secondsByHour={stats.secondsByHour} />
+
+            {stats.topTracks.length > 0 && (
+              <>
+                <Text style={styles.sectionTitle}>Top songs</Text>
+                {stats.topTracks.map((item, index) => (
+                  <RankedRow
+                    key={item.track.id}
+                    rank={index + 1}
+                    title={item.track.title}
+                    subtitle={`${item.track.artist} · ${item.plays} ${item.plays === 1 ? 'play' : 'plays'}`}
+                    artwork={item.track.artwork}
+                  />
+                ))}
+              </>
+            )}
+
+            {stats.topArtists.length > 0 && (
+              <>
+                <Text style={styles.sectionTitle}>Top artists</Text>
+                {stats.topArtists.map((item, index) => (
+                  <RankedRow
+                    key={item.name}
+                    rank={index + 1}
+                    title={item.name}
+                    subtitle={`${formatMinutes(item.seconds)} min · ${item.plays} ${item.plays === 1 ? 'play' : 'plays'}`}
+                    artwork={item.artwork}
+                    round
+                  />
+                ))}
+              </>
+            )}
+
+            {stats.topAlbums.length > 0 && (
+              <>
+                <Text style={styles.sectionTitle}>Top albums</Text>
+                {stats.topAlbums.map((item, index) => (
+                  <RankedRow
+                    key={`${item.name}|${item.artist}`}
+                    rank={index + 1}
+                    title={item.name}
+                    subtitle={`${item.artist} · ${item.plays} ${item.plays === 1 ? 'play' : 'plays'}`}
+                    artwork={item.artwork}
+                  />
+                ))}
+              </>
+            )}
+          </>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Styles
+// ---------------------------------------------------------------------------
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+
+  // Top bar
+  topBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.sm,
+  },
+  iconButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: Colors.glass,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+
+  scrollContent: {
+    paddingHorizontal: Spacing.xl,
+    paddingBottom: 130,
+  },
+  headerTitle: {
+    color: Colors.textPrimary,
+    fontSize: FontSize.xxxl,
+    fontWeight: FontWeight.heavy,
+    letterSpacing: -0.5,
+  },
+
+  // Range selector
+  rangeRow: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+    marginTop: Spacing.lg,
+  },
+  rangeChip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.round,
+    backgroundColor: Colors.glass,
+    borderWidth: 1,
+    borderColor: Colors.glassBorder,
+  },
+  rangeChipActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  rangeText: {
+    color: Colors.textSecondary,
+    fontSize: FontSize.sm,
+    fontWeight: FontWeight.semibold,
+  },
+  rangeTextActive: {
+    color: Colors.white,
+  },
+
+  // Totals
+  totals: {
+    flexDirection: 'row',
+    gap: Spacing.md,
+    marginTop: Spacing.xl,
+  },
+  totalCard: {
+    flex: 1,
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.lg,
+    backgroundColor: Colors.surfaceLight,
+  },
+  totalValue: {
+    color: Colors.textPrimary,
+    fontSize: FontSize.xxl,
+    fontWeight: FontWeight.bold,
+  },
+  totalLabel: {
+    marginTop: Spacing.xs,
+    color: Colors.textSecondary,
+    fontSize: FontSize.sm,
+  },
+
+  sectionTitle: {
+    marginTop: Spacing.xxl,
+    marginBottom: Spacing.md,
+    color: Colors.textPrimary,
+    fontSize: FontSize.xl,
+    fontWeight: FontWeight.bold,
+  },
+
+  // Hour chart
+  chart: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    height: CHART_HEIGHT,
+    gap: 2,
+  },
+  chartColumn: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  chartBar: {
+    borderRadius: 2,
+    backgroundColor: Colors.primary,
+  },
+  chartBarEmpty: {
+    backgroundColor: Colors.surfaceLight,
+  },
+  chartLabels: {
+    flexDirection: 'row',
+    marginTop: Spacing.xs,
+  },
+  chartLabel: {
+    flex: 1,
+    color: Colors.textMuted,
+    fontSize: FontSize.xs,
+  },
+
+  // Ranked rows
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    height: 60,
+  },
+  rank: {
+    width: 24,
+    color: Colors.textMuted,
+    fontSize: FontSize.md,
+    fontWeight: FontWeight.semibold,
+  },
+  artwork: {
+    width: 44,
+    height: 44,
+    borderRadius: BorderRadius.sm,
+    backgroundColor: Colors.surfaceLight,
+  },
+  artworkRound: {
+    borderRadius: 22,
+  },
+  info: {
+    flex: 1,
+    marginLeft: Spacing.md,
+  },
+  title: {
+    fontSize: FontSize.md,
+    fontWeight: FontWeight.medium,
+    color: Colors.textPrimary,
+    marginBottom: 2,
+  },
+  subtitle: {
+    fontSize: FontSize.sm,
+    color: Colors.textSecondary,
+  },
+
+  // Empty state
+  emptyContainer: {
+    paddingTop: 80,
+    alignItems: 'center',
+  },
+  emptyText: {
+    color: Colors.textMuted,
+    fontSize: FontSize.md,
+    textAlign: 'center',
+  },
+});
+
+export default React.memo(StatsScreen);
@@ -0,0 +1,300 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useFocusEffect } from '@react-navigation/native';
+import type { NativeStackScreenProps } from '@react-navigation/native-stack';
+import {
+  Colors,
+  Spacing,
+  FontSize,
+  FontWeight,
+  BorderRadius,
+} from '../../theme';
+import { clientStats, type ClientStat, type RankedClient } from '../../services/clientStats';
+import { getStreamSourceRanking } from '../../services/youtube';
+import type { LibraryStackParamList } from '../../navigation/types';
+
+type StreamDiagnosticsScreenProps = NativeStackScreenProps<LibraryStackParamList, 'StreamDiagnostics'>;
+
+function formatAgo(timestamp: number | null): string {
+  if (!timestamp) return 'never';
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return `${Math.floor(hours / 24)}d ago`;
+}
+
+function formatCount(value: number): string {
+  return value >= 10 ? Math.round(value).toString() : value.toFixed(1);
+}
+
+function formatLatency(ms: number | null): string {
+  if (ms === null) return '–';
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.round(ms)}ms`;
+}
+
+// ---------------------------------------------------------------------------
+// Sub-components
+// ---------------------------------------------------------------------------
+
+interface SourceRowProps {
+  rank?: number;
+  client: string;
+  stat: ClientStat | null;
+  successRate?: number;
+}
+
+const SourceRow: React.FC<SourceRowProps> = ({ rank, client, stat, successRate }) => (
+  <View style={styles.sourceRow}>
+    <Text style={styles.rankText}>{rank ?? '·'}</Text>
+    <View style={styles.sourceInfo}>
+      <View style={styles.sourceHeader}>
+        <Text style={styles.sourceName}>{client}</Text>
+        {successRate !== undefined && (
+          <Text style={styles.successText}>{Math.round(successRate * 100)}%</Text>
+        )}
+      </View>
+      {stat ? (
+        <>
+          <Text style={styles.sourceMeta}>
+            {formatCount(stat.successes)} ok · {formatCount(stat.failures)} failed ·{' '}
+            {formatCount(stat.playbackFailures)} playback errors · avg{' '}
+            {formatLatency(stat.avgLatencyMs)}
+          </Text>
+          <Text style={styles.sourceMeta}>
+            Last success {formatAgo(stat.lastSuccessAt)}
+          </Text>
+          {stat.lastFailureReason && (
+            <Text style={styles.failureText} numberOfLines={2}>
+              {formatAgo(stat.lastFailureAt)}: {stat.lastFailureReason}
+            </Text>
+          )}
+        </>
+      ) : (
+        <Text style={styles.sourceMeta}>Not tried yet</Text>
+      )}
+    </View>
+  </View>
+);
+
+// ---------------------------------------------------------------------------
+// Main screen
+// ---------------------------------------------------------------------------
+
+function StreamDiagnosticsScreen({ navigation }: StreamDiagnosticsScreenProps) {
+  const insets = useSafeAreaInsets();
+  const [ranking, setRanking] = useState<RankedClient[]>([]);
+  const [others, setOthers] = useState<[string, ClientStat][]>([]);
+
+  const refresh = useCallback(() => {
+    const ranked = getStreamSourceRanking();
+    const rankedClients = new Set(ranked.map((r) => r.client));
+    setRanking(ranked);
+    setOthers(
+      Object.entries(clientStats.getAll())
+        .filter(([client]) => !rankedClients.has(client))
+        .sort(([, a], [, b]) => b.updatedAt - a.updatedAt),
+    );
+  }, []);
+
+  useFocusEffect(refresh);
+
+  const handleReset = useCallback(() => {
+    Alert.alert(
+      'Reset stats?',
+      'Sources go back to their default order.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Reset',
+          style: 'destructive',
+          onPress: () => {
+            clientStats.reset();
+            refresh();
+          },
+        },
+      ],
+    );
+  }, [refresh]);
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      {/* Top bar */}
+      <View style={styles.topBar}>
+        <TouchableOpacity
+          style={styles.iconButton}
+          onPress={() => navigation.goBack()}
+          hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+        >
+          <Ionicons name="chevron-back" size={24} color={Colors.textPrimary} />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+      >
+        <Text style={styles.headerTitle}>Stream diagnostics</Text>
+
+        {/* Source ranking */}
+        <View style={styles.card}>
+          <Text style={styles.sectionTitle}>Source order</Text>
+          <Text style={styles.sectionSubtitle}>
+            Streams are resolved from the top down. Recent results count the most.
+          </Text>
+          {ranking.map((r, index) => (
+            <SourceRow
+              key={r.client}
+              rank={index + 1}
+              client={r.client}
+              stat={r.stat}
+              successRate={r.successRate}
+            />
+          ))}
+        </View>
+
+        {/* Everything else with recorded stats (backend, local files) */}
+        {others.length > 0 && (
+          <View style={styles.card}>
+            <Text style={styles.sectionTitle}>Other sources</Text>
+            {others.map(([client, stat]) => (
+              <SourceRow key={client} client={client} stat={stat} />
+            ))}
+          </View>
+        )}
+
+        <TouchableOpacity style={styles.resetButton} activeOpacity={0.7} onPress={handleReset}>
+          <Ionicons name="refresh" size={18} color={Colors.textPrimary} />
+          <Text style={styles.resetText}>Reset stats</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </View>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Styles
+// ---------------------------------------------------------------------------
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+
+  // Top bar
+  topBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.sm,
+  },
+  iconButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: Colors.glass,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+
+  scrollContent: {
+    paddingHorizontal: Spacing.xl,
+    paddingBottom: 130,
+  },
+  headerTitle: {
+    color: Colors.textPrimary,
+    fontSize: FontSize.xxxl,
+    fontWeight: FontWeight.heavy,
+    letterSpacing: -0.5,
+  },
+
+  // Cards
+  card: {
+    marginTop: Spacing.xl,
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.lg,
+    backgroundColor: Colors.surfaceLight,
+  },
+  sectionTitle: {
+    color: Colors.textPrimary,
+    fontSize: FontSize.lg,
+    fontWeight: FontWeight.bold,
+  },
+  sectionSubtitle: {
+    marginTop: 2,
+    color: Colors.textSecondary,
+    fontSize: FontSize.sm,
+  },
+
+  // Source rows
+  sourceRow: {
+    flexDirection: 'row',
+    marginTop: Spacing.lg,
+  },
+  rankText: {
+    width: 24,
+    color: Colors.textMuted,
+    fontSize: FontSize.md,
+    fontWeight: FontWeight.bold,
+  },
+  sourceInfo: {
+    flex: 1,
+  },
+  sourceHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sourceName: {
+    color: Colors.textPrimary,
+    fontSize: FontSize.md,
+    fontWeight: FontWeight.semibold,
+  },
+  successText: {
+    color: Colors.primary,
+    fontSize: FontSize.sm,
+    fontWeight: FontWeight.bold,
+  },
+  sourceMeta: {
+    marginTop: 2,
+    color: Colors.textSecondary,
+    fontSize: FontSize.xs,
+  },
+  failureText: {
+    marginTop: 2,
+    color: Colors.textMuted,
+    fontSize: FontSize.xs,
+  },
+
+  // Reset
+  resetButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: Spacing.sm,
+    marginTop: Spacing.xl,
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.round,
+    backgroundColor: Colors.glass,
+    borderWidth: 1,
+    borderColor: Colors.glassBorder,
+  },
+  resetText: {
+    color: Colors.textPrimary,
+    fontSize: FontSize.md,
+    fontWeight: FontWeight.semibold,
+  },
+});
+
+export default React.memo(StreamDiagnosticsScreen);
@@ -1,4 +1,4 @@
-import React, { useEffect, useRef, useMemo } from 'react';
+import React, { useCallback, useEffect, useRef, useMemo, useState } from 'react';
 import {
   View,
   Text,
@@ -6,13 +6,17 @@ import {
   ScrollView,
   TouchableOpacity,
   Dimensions,
+  Alert,
 } from 'react-native';
+import * as DocumentPicker from 'expo-document-picker';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Ionicons } from '@expo/vector-icons';
 import { Colors, Spacing, FontSize, FontWeight, BorderRadius } from '../../theme';
 import usePlayerStore from '../../store/playerStore';
-import type { LyricLine } from '../../types';
+import { usePlayer } from '../../hooks';
+import { lyricsService } from '../../services/lyrics';
+import type { LyricLine, LyricWord } from '../../types';
 
 const { height: SCREEN_HEIGHT } = Dimensions.get('window');
 
@@ -20,6 +24,13 @@ const { height: SCREEN_HEIGHT } = Dimensions.get('window');
 const SCROLL_OFFSET = SCREEN_HEIGHT * 0.35;
 /** Estimated height per lyric line (px). */
 const LINE_HEIGHT_ESTIMATE = 48;
+/** Step for the per-track timing offset (ms). */
+const OFFSET_STEP_MS = 100;
+
+function formatOffset(offsetMs: number): string {
+  const seconds = (offsetMs / 1000).toFixed(1);
+  return offsetMs > 0 ? `+${seconds}s` : `${seconds}s`;
+}
 
 interface LyricsSheetProps {
   onClose: () => void;
@@ -44,6 +55,19 @@ function getActiveLyricIndex(
   return active;
 }
 
+/** Index of the word being sung (the last word whose time <= position). */
+function getActiveWordIndex(words: LyricWord[], position: number): number {
+  let active = -1;
+  for (let i = 0; i < words.length; i++) {
+    if (words[i].time <= position) {
+      active = i;
+    } else {
+      break;
+    }
+  }
+  return active;
+}
+
 const LyricsSheet: React.FC<LyricsSheetProps> = ({ onClose }) => {
   const insets = useSafeAreaInsets();
   const scrollRef = useRef<ScrollView>(null);
@@ -53,15 +77,80 @@ const LyricsSheet: React.FC<LyricsSheetProps> = ({ onClose }) => {
 
   const currentTrack = usePlayerStore((s) => s.currentTrack);
   const position = usePlayerStore((s) => s.position);
+  const setTrackLyrics = usePlayerStore((s) => s.setTrackLyrics);
+  const { seekTo } = usePlayer();
+  const trackId = currentTrack?.id;
 
   const lyrics: LyricLine[] = currentTrack?.lyrics ?? [];
   const hasLyrics = lyrics.length > 0;
+  const isLoading = !!currentTrack && currentTrack.lyrics === undefined;
+  // Plain-text lyrics have no timing, so nothing is highlighted or followed
+  const isSynced = currentTrack?.lyricsSynced !== false;
+
+  // Per-track timing offset; positive shows lyrics earlier
+  const [offsetMs, setOffsetMs] = useState(0);
+  useEffect(() => {
+    setOffsetMs(trackId ? lyricsService.getOffset(trackId) : 0);
+  }, [trackId]);
+  const lyricPosition = position + offsetMs / 1000;
 
   const activeIndex = useMemo(
-    () => (hasLyrics ? getActiveLyricIndex(lyrics, position) : -1),
-    [lyrics, position, hasLyrics],
+    () => (hasLyrics && isSynced ? getActiveLyricIndex(lyrics, lyricPosition) : -1),
+    [lyrics, lyricPosition, hasLyrics, isSynced],
+  );
+
+  const adjustOffset = useCallback(
+    (deltaMs: number) => {
+      if (!trackId) return;
+      const next = deltaMs === 0 ? 0 : offsetMs + deltaMs;
+      setOffsetMs(next);
+      lyricsService.setOffset(trackId, next);
+    },
+    [trackId, offsetMs],
   );
 
+  const pickLrcFile = useCallback(async () => {
+    if (!trackId) return;
+    try {
+      const picked = await DocumentPicker.getDocumentAsync({
+        type: '*/*',
+        copyToCacheDirectory: true,
+      });
+      if (picked.canceled || !picked.assets?.[0]) return;
+
+      const result = await lyricsService.importLrcFile(trackId, picked.assets[0].uri);
+      setTrackLyrics(trackId, result.lines, true);
+    } catch (err: any) {
+      Alert.alert('Couldn\'t import lyrics', err?.message ?? 'The file could not be read.');
+    }
+  }, [trackId, setTrackLyrics]);
+
+  const handleImport = useCallback(() => {
+    if (!trackId) return;
+    if (!lyricsService.hasManualLyrics(trackId)) {
+      void pickLrcFile();
+      return;
+    }
+
+    Alert.alert('Imported lyrics', 'This song uses lyrics from an .lrc file.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: () => {
+          lyricsService.removeManualLyrics(trackId);
+          // Clear the lyrics so the background loader fetches them again
+          usePlayerStore.setState((state) =>
+            state.currentTrack?.id === trackId
+              ? { currentTrack: { ...state.currentTrack, lyrics: undefined, lyricsSynced: undefined } }
+              : {},
+          );
+        },
+      },
+      { text: 'Replace', onPress: () => void pickLrcFile() },
+    ]);
+  }, [trackId, pickLrcFile]);
+
   // Auto-scroll to active line
   useEffect(() => {
     if (!hasLyrics || activeIndex < 0 || isUserScrolling.current) return;
@@ -87,6 +176,16 @@ const LyricsSheet: React.FC<LyricsSheetProps> = ({ onClose }) => {
     }, 4000);
   };
 
+  // Tap a line to jump there; auto-scroll follows again immediately
+  const handleLinePress = useCallback(
+    (line: LyricLine) => {
+      if (scrollTimeout.current) clearTimeout(scrollTimeout.current);
+      isUserScrolling.current = false;
+      seekTo(Math.max(0, line.time - offsetMs / 1000));
+    },
+    [seekTo, offsetMs],
+  );
+
   // Cleanup timeout on unmount
   useEffect(() => {
     return () => {
@@ -105,7 +204,17 @@ const LyricsSheet: React.FC<LyricsSheetProps> = ({ onClose }) => {
     >
       {/* Header */}
       <View style={styles.header}>
-        <View style={styles.headerSpacer} />
+        <TouchableOpacity
+          style={styles.closeButton}
+          hitSlop={{ top: 12, bottom: 12, left: 12, right: 12 }}
+          onPress={handleImport}
+        >
+          <Ionicons
+            name="document-text-outline"
+            size={20}
+            color={Colors.textPrimary}
+          />
+        </TouchableOpacity>
         <Text style={styles.headerTitle}>Lyrics</Text>
         <TouchableOpacity
           style={styles.closeButton}
@@ -136,7 +245,7 @@ const LyricsSheet: React.FC<LyricsSheetProps> = ({ onClose }) => {
 
           {lyrics.map((line, index) => {
             let opacity: number;
-            if (index === activeIndex) {
+            if (!isSynced || index === activeIndex) {
               opacity = 1;
             } else if (index < activeIndex) {
               opacity = 0.35;
@@ -144,16 +253,37 @@ const LyricsSheet: React.FC<LyricsSheetProps> = ({ onClose }) => {
               opacity = 0.45;
             }
 
+            const isActive = index === activeIndex;
+            const activeWord =
+              isActive && line.words ? getActiveWordIndex(line.words, lyricPosition) : -1;
+
             return (
               <Text
                 key={`${index}-${line.time}`}
                 style={[
                   styles.lyricLine,
                   { opacity },
-                  index === activeIndex && styles.lyricLineActive,
+                  isActive && styles.lyricLineActive,
                 ]}
+                onPress={isSynced ? () => handleLinePress(line) : undefined}
+                suppressHighlighting
               >
-                {line.text}
+                {isActive && line.words
+                  ? line.words.map((word, wordIndex) => (
+                    <Text
+                      key={`${wordIndex}-${word.time}`}
+                      style={
+                        wordIndex === activeWord
+                          ? styles.lyricWordCurrent
+                          : wordIndex < activeWord
+                            ? styles.lyricWordSung
+                            : styles.lyricWordUpcoming
+                      }
+                    >
+                      {word.text}
+                    </Text>
+                  ))
+                  : line.text}
               </Text>
             );
           })}
@@ -170,7 +300,39 @@ const LyricsSheet: React.FC<LyricsSheetProps> = ({ onClose }) => {
               color="rgba(255,255,255,0.3)"
             />
           </View>
-          <Text style={styles.emptyText}>No lyrics available</Text>
+          <Text style={styles.emptyText}>
+            {isLoading ? 'Loading lyrics…' : 'No lyrics available'}
+          </Text>
+        </View>
+      )}
+
+      {/* Timing offset */}
+      {hasLyrics && isSynced && (
+        <View style={styles.offsetBar}>
+          <TouchableOpacity
+            style={styles.offsetButton}
+            onPress={() => adjustOffset(-OFFSET_STEP_MS)}
+            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+          >
+            <Ionicons name="remove" size={18} color={Colors.textPrimary} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            onLongPress={() => adjustOffset(0)}
+            disabled={offsetMs === 0}
+            style={styles.offsetLabelContainer}
+          >
+            <Text style={styles.offsetLabel}>
+              {offsetMs === 0 ? 'Lyrics in sync' : `Offset ${formatOffset(offsetMs)}`}
+            </Text>
+            {offsetMs !== 0 && <Text style={styles.offsetHint}>Hold to reset</Text>}
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.offsetButton}
+            onPress={() => adjustOffset(OFFSET_STEP_MS)}
+            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+          >
+            <Ionicons name="add" size={18} color={Colors.textPrimary} />
+          </TouchableOpacity>
         </View>
       )}
     </LinearGradient>
@@ -188,9 +350,6 @@ const styles = StyleSheet.create({
     paddingHorizontal: Spacing.lg,
     paddingVertical: Spacing.md,
   },
-  headerSpacer: {
-    width: 36,
-  },
   headerTitle: {
     color: Colors.textPrimary,
     fontSize: FontSize.lg,
@@ -221,6 +380,48 @@ const styles = StyleSheet.create({
     color: Colors.primaryLight,
     transform: [{ scale: 1 }],
   },
+  // Word-level karaoke inside the active line
+  lyricWordSung: {
+    color: Colors.primaryLight,
+  },
+  lyricWordCurrent: {
+    color: Colors.white,
+    textShadowColor: Colors.primaryLight,
+    textShadowOffset: { width: 0, height: 0 },
+    textShadowRadius: 12,
+  },
+  lyricWordUpcoming: {
+    color: 'rgba(255,255,255,0.45)',
+  },
+  offsetBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: Spacing.md,
+    gap: Spacing.lg,
+  },
+  offsetButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: Colors.glass,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  offsetLabelContainer: {
+    minWidth: 120,
+    alignItems: 'center',
+  },
+  offsetLabel: {
+    color: Colors.textSecondary,
+    fontSize: FontSize.sm,
+    fontWeight: FontWeight.semibold,
+  },
+  offsetHint: {
+    color: Colors.textMuted,
+    fontSize: FontSize.xs,
+    marginTop: 2,
+  },
   emptyContainer: {
     flex: 1,
     alignItems: 'center',
@@ -17,9 +17,14 @@ import Animated, {
   runOnJS,
 } from 'react-native-reanimated';
 import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+import { useActiveTrack } from 'react-native-track-player';
 import { Colors, FontSize, FontWeight, Spacing, BorderRadius, Shadows } from '../../theme';
 import usePlayerStore from '../../store/playerStore';
 import { usePlayer } from '../../hooks';
+import { findChapterIndex } from '../../services/youtube';
+import { TrackContextMenu } from '../../components/common';
+import SleepTimerSheet from '../../components/player/SleepTimerSheet';
+import PlaybackRateSheet, { formatRate } from '../../components/player/PlaybackRateSheet';
 
 interface NowPlayingScreenProps {
   onClose: () => void;
@@ -59,6 +64,13 @@ const NowPlayingScreen: React.FC<NowPlayingScreenProps> = ({
     ? likedSongs.some((t) => t.id === currentTrack.id)
     : false;
 
+  // Bitrate of the stream actually playing, set by buildPlayerTrack
+  const activeTrack = useActiveTrack();
+  const streamBitrate =
+    activeTrack?.id === currentTrack?.id && typeof activeTrack?.bitrate === 'number'
+      ? activeTrack.bitrate
+      : null;
+
   const {
     togglePlayPause,
     skipToNext,
@@ -66,6 +78,8 @@ const NowPlayingScreen: React.FC<NowPlayingScreenProps> = ({
     toggleRepeatMode,
     toggleShuffle,
     seekTo,
+    skipToNextChapter,
+    skipToPreviousChapter,
   } = usePlayer();
 
   const isPlaying = playbackState === 'playing';
@@ -78,6 +92,11 @@ const NowPlayingScreen: React.FC<NowPlayingScreenProps> = ({
   const [isSeeking, setIsSeeking] = useState(false);
   const [seekDisplayPosition, setSeekDisplayPosition] = useState(0);
   const seekProgress = useSharedValue(0);
+  const [menuVisible, setMenuVisible] = useState(false);
+  const [sleepTimerVisible, setSleepTimerVisible] = useState(false);
+  const hasSleepTimer = usePlayerStore((s) => s.sleepTimer !== null);
+  const [rateSheetVisible, setRateSheetVisible] = useState(false);
+  const playbackRate = usePlayerStore((s) => s.playbackRate);
 
   const commitSeek = useCallback(
     (fraction: number) => {
@@ -131,6 +150,10 @@ const NowPlayingScreen: React.FC<NowPlayingScreenProps> = ({
   const displayPosition = isSeeking ? seekDisplayPosition : position;
   const displayRemaining = duration > 0 ? duration - displayPosition : 0;
 
+  const chapters = currentTrack?.chapters ?? [];
+  const chapterIndex = findChapterIndex(chapters, displayPosition);
+  const currentChapter = chapters[chapterIndex];
+
   // Placeholder state when no track is playing
   if (!currentTrack) {
     return (
@@ -183,7 +206,11 @@ const NowPlayingScreen: React.FC<NowPlayingScreenProps> = ({
           </Text>
         </TouchableOpacity>
 
-        <TouchableOpacity hitSlop={12} style={styles.topBarButton}>
+        <TouchableOpacity
+          onPress={() => setMenuVisible(true)}
+          hitSlop={12}
+          style={styles.topBarButton}
+        >
           <Ionicons name="ellipsis-horizontal" size={24} color={Colors.white} />
         </TouchableOpacity>
       </View>
@@ -237,6 +264,14 @@ const NowPlayingScreen: React.FC<NowPlayingScreenProps> = ({
                 { width: `${bufferProgress * 100}%` },
               ]}
             />
+            {/* Chapter ticks */}
+            {duration > 0 &&
+              chapters.slice(1).map((chapter) => (
+                <View
+                  key={chapter.start}
+                  style={[styles.chapterTick, { left: `${(chapter.start / duration) * 100}%` }]}
+                />
+              ))}
             <Animated.View style={[styles.progressFillContainer, seekFillStyle]}>
               <LinearGradient
                 colors={['#4F8EF7', Colors.secondary]}
@@ -254,11 +289,39 @@ const NowPlayingScreen: React.FC<NowPlayingScreenProps> = ({
 
       <View style={styles.timeRow}>
         <Text style={styles.timeText}>{formatTime(displayPosition)}</Text>
+        {streamBitrate !== null && (
+          <Text style={styles.bitrateText}>{Math.round(streamBitrate / 1000)} kbps</Text>
+        )}
         <Text style={styles.timeText}>
           {duration > 0 ? `-${formatTime(displayRemaining)}` : '0:00'}
         </Text>
       </View>
 
+      {/* Chapter navigation */}
+      {chapters.length > 0 && (
+        <View style={styles.chapterRow}>
+          <TouchableOpacity onPress={skipToPreviousChapter} hitSlop={12}>
+            <Ionicons name="play-back" size={18} color={Colors.textSecondary} />
+          </TouchableOpacity>
+          <Text style={styles.chapterTitle} numberOfLines={1}>
+            {currentChapter
+              ? `${chapterIndex + 1}. ${currentChapter.title}`
+              : `${chapters.length} chapters`}
+          </Text>
+          <TouchableOpacity
+            onPress={skipToNextChapter}
+            hitSlop={12}
+            disabled={chapterIndex >= chapters.length - 1}
+          >
+            <Ionicons
+              name="play-forward"
+              size={18}
+              color={chapterIndex >= chapters.length - 1 ? Colors.textMuted : Colors.textSecondary}
+            />
+          </TouchableOpacity>
+        </View>
+      )}
+
       {/* Controls Row */}
       <View style={styles.controlsRow}>
         <TouchableOpacity onPress={toggleShuffle} hitSlop={12}>
@@ -312,6 +375,28 @@ const NowPlayingScreen: React.FC<NowPlayingScreenProps> = ({
           <Ionicons name="phone-portrait-outline" size={20} color={Colors.textSecondary} />
         </TouchableOpacity>
 
+        <TouchableOpacity
+          onPress={() => setRateSheetVisible(true)}
+          hitSlop={12}
+          style={styles.bottomButton}
+        >
+          <Text style={[styles.rateText, playbackRate !== 1 && styles.rateTextActive]}>
+            {formatRate(playbackRate)}
+          </Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          onPress={() => setSleepTimerVisible(true)}
+          hitSlop={12}
+          style={styles.bottomButton}
+        >
+          <Ionicons
+            name={hasSleepTimer ? 'moon' : 'moon-outline'}
+            size={20}
+            color={hasSleepTimer ? Colors.primary : Colors.textSecondary}
+          />
+        </TouchableOpacity>
+
         <TouchableOpacity hitSlop={12} style={styles.bottomButton}>
           <Ionicons name="share-outline" size={20} color={Colors.textSecondary} />
         </TouchableOpacity>
@@ -320,6 +405,20 @@ const NowPlayingScreen: React.FC<NowPlayingScreenProps> = ({
           <Ionicons name="list" size={20} color={Colors.textSecondary} />
         </TouchableOpacity>
       </View>
+
+      <TrackContextMenu
+        track={currentTrack}
+        visible={menuVisible}
+        onClose={() => setMenuVisible(false)}
+      />
+      <SleepTimerSheet
+        visible={sleepTimerVisible}
+        onClose={() => setSleepTimerVisible(false)}
+      />
+      <PlaybackRateSheet
+        visible={rateSheetVisible}
+        onClose={() => setRateSheetVisible(false)}
+      />
     </LinearGradient>
   );
 };
@@ -458,6 +557,16 @@ const styles = StyleSheet.create({
     ...Shadows.small,
   },
 
+  chapterTick: {
+    position: 'absolute',
+    top: 0,
+    width: 2,
+    marginLeft: -1,
+    height: PROGRESS_BAR_HEIGHT,
+    backgroundColor: Colors.background,
+    zIndex: 1,
+  },
+
   // ── Time Labels ──────────────────────────────────────
   timeRow: {
     flexDirection: 'row',
@@ -469,6 +578,27 @@ const styles = StyleSheet.create({
     fontSize: FontSize.xs,
     fontWeight: FontWeight.medium,
   },
+  bitrateText: {
+    color: Colors.textMuted,
+    fontSize: FontSize.xs,
+    fontWeight: FontWeight.semibold,
+    letterSpacing: 0.5,
+  },
+
+  // ── Chapters ─────────────────────────────────────────
+  chapterRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: Spacing.sm,
+    gap: Spacing.md,
+  },
+  chapterTitle: {
+    flex: 1,
+    textAlign: 'center',
+    color: Colors.textSecondary,
+    fontSize: FontSize.sm,
+    fontWeight: FontWeight.medium,
+  },
 
   // ── Controls ─────────────────────────────────────────
   controlsRow: {
@@ -522,6 +652,14 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'center',
   },
+  rateText: {
+    color: Colors.textSecondary,
+    fontSize: FontSize.sm,
+    fontWeight: FontWeight.bold,
+  },
+  rateTextActive: {
+    color: Colors.primary,
+  },
 });
 
 export default React.memo(NowPlayingScreen);
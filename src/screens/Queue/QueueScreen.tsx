@@ -1,4 +1,4 @@
-import React, { useCallback, useMemo } from 'react';
+import React, { useCallback, useMemo, useState } from 'react';
 import {
   View,
   Text,
@@ -6,6 +6,8 @@ import {
   FlatList,
   TouchableOpacity,
   ListRenderItemInfo,
+  Switch,
+  Alert,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
@@ -20,26 +22,81 @@ import {
 } from '../../theme';
 import usePlayerStore from '../../store/playerStore';
 import { usePlayer } from '../../hooks';
-import type { Track } from '../../types';
+import { TrackContextMenu } from '../../components/common';
+import { findChapterIndex } from '../../services/youtube';
+import { isRetryableKind, STREAM_ERROR_TEXT } from '../../services/streamErrors';
+import type { Track, TrackError } from '../../types';
+
+function formatChapterStart(seconds: number): string {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = Math.floor(seconds % 60);
+  const ss = s.toString().padStart(2, '0');
+  return h > 0 ? `${h}:${m.toString().padStart(2, '0')}:${ss}` : `${m}:${ss}`;
+}
 
 interface QueueScreenProps {
   onClose: () => void;
 }
 
+/** Why a queued track won't play, with Retry / Find alternative actions. */
+const TrackErrorBadge = ({
+  error,
+  searching,
+  onRetry,
+  onFindAlternative,
+}: {
+  error: TrackError;
+  searching?: boolean;
+  onRetry: () => void;
+  onFindAlternative: () => void;
+}) => (
+  <View style={styles.errorRow}>
+    <Ionicons name="alert-circle" size={13} color={Colors.error} />
+    <Text style={styles.errorLabel} numberOfLines={1}>
+      {STREAM_ERROR_TEXT[error.kind].label}
+    </Text>
+    {searching ? (
+      <Text style={styles.errorAction}>Searching…</Text>
+    ) : (
+      <>
+        {isRetryableKind(error.kind) && (
+          <TouchableOpacity onPress={onRetry} hitSlop={{ top: 8, bottom: 8, left: 4, right: 4 }}>
+            <Text style={styles.errorAction}>Retry</Text>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity onPress={onFindAlternative} hitSlop={{ top: 8, bottom: 8, left: 4, right: 4 }}>
+          <Text style={styles.errorAction}>Find alternative</Text>
+        </TouchableOpacity>
+      </>
+    )}
+  </View>
+);
+
 /** Single track row in the upcoming queue list. */
 const QueueTrackRow = React.memo(
   ({
     track,
+    error,
+    searchingAlternative,
     onPress,
+    onLongPress,
     onRemove,
+    onRetry,
+    onFindAlternative,
     onMoveUp,
     onMoveDown,
     canMoveUp,
     canMoveDown,
   }: {
     track: Track;
+    error?: TrackError;
+    searchingAlternative?: boolean;
     onPress: () => void;
+    onLongPress?: () => void;
     onRemove: () => void;
+    onRetry: () => void;
+    onFindAlternative: () => void;
     onMoveUp?: () => void;
     onMoveDown?: () => void;
     canMoveUp?: boolean;
@@ -80,6 +137,7 @@ const QueueTrackRow = React.memo(
         style={styles.trackRowContent}
         activeOpacity={0.6}
         onPress={onPress}
+        onLongPress={onLongPress}
       >
         <View style={styles.trackArtworkContainer}>
           <Image
@@ -96,6 +154,14 @@ const QueueTrackRow = React.memo(
           <Text style={styles.trackArtist} numberOfLines={1}>
             {track.artist}
           </Text>
+          {error && (
+            <TrackErrorBadge
+              error={error}
+              searching={searchingAlternative}
+              onRetry={onRetry}
+              onFindAlternative={onFindAlternative}
+            />
+          )}
         </View>
       </TouchableOpacity>
 
@@ -120,7 +186,30 @@ const QueueScreen: React.FC<QueueScreenProps> = ({ onClose }) => {
   const queue = usePlayerStore((s) => s.queue);
   const currentIndex = usePlayerStore((s) => s.currentIndex);
   const userQueueCount = usePlayerStore((s) => s.userQueueCount);
-  const { playTrack, removeFromQueue, reorderQueue } = usePlayer();
+  const autoplayEnabled = usePlayerStore((s) => s.autoplayEnabled);
+  const queueContext = usePlayerStore((s) => s.queueContext);
+  const setAutoplayEnabled = usePlayerStore((s) => s.setAutoplayEnabled);
+  // Selecting the index (not the position) keeps the header from re-rendering every tick
+  const activeChapterIndex = usePlayerStore((s) =>
+    findChapterIndex(s.currentTrack?.chapters ?? [], s.position),
+  );
+  const trackErrors = usePlayerStore((s) => s.trackErrors);
+  const { playTrack, removeFromQueue, reorderQueue, seekTo, retryTrack, findAlternative } =
+    usePlayer();
+  const [searchingAlternativeId, setSearchingAlternativeId] = useState<string | null>(null);
+
+  // Shared long-press context menu for queue rows
+  const [menuTrack, setMenuTrack] = useState<Track | null>(null);
+  const [menuVisible, setMenuVisible] = useState(false);
+
+  const openContextMenu = useCallback((track: Track) => {
+    setMenuTrack(track);
+    setMenuVisible(true);
+  }, []);
+
+  const closeContextMenu = useCallback(() => {
+    setMenuVisible(false);
+  }, []);
 
   // Memoize derived arrays to avoid re-creating on every progress update.
   // Only recompute when queue contents, currentIndex, or userQueueCount change.
@@ -149,6 +238,31 @@ const QueueScreen: React.FC<QueueScreenProps> = ({ onClose }) => {
     [currentIndex, removeFromQueue],
   );
 
+  const handleRetry = useCallback(
+    (track: Track) => {
+      void retryTrack(track);
+    },
+    [retryTrack],
+  );
+
+  const handleFindAlternative = useCallback(
+    async (track: Track) => {
+      setSearchingAlternativeId(track.id);
+      try {
+        const alternative = await findAlternative(track);
+        if (!alternative) {
+          Alert.alert('No alternative found', 'No other version of this song was found.');
+        }
+      } catch (err) {
+        console.warn('[QueueScreen] Failed to find an alternative:', err);
+        Alert.alert('Couldn\'t find an alternative', 'Please try again in a moment.');
+      } finally {
+        setSearchingAlternativeId(null);
+      }
+    },
+    [findAlternative],
+  );
+
   const handleMoveUp = useCallback(
     async (indexInUserQueue: number) => {
       if (indexInUserQueue <= 0) return;
@@ -199,8 +313,13 @@ const QueueScreen: React.FC<QueueScreenProps> = ({ onClose }) => {
       return (
         <QueueTrackRow
           track={item}
+          error={trackErrors[item.id]}
+          searchingAlternative={searchingAlternativeId === item.id}
           onPress={() => handleSkipTo(item, upcomingIndex)}
+          onLongPress={() => openContextMenu(item)}
           onRemove={() => handleRemove(upcomingIndex)}
+          onRetry={() => handleRetry(item)}
+          onFindAlternative={() => handleFindAlternative(item)}
           onMoveUp={() => handleUpNextMoveUp(index)}
           onMoveDown={() => handleUpNextMoveDown(index)}
           canMoveUp={index > 0}
@@ -208,7 +327,7 @@ const QueueScreen: React.FC<QueueScreenProps> = ({ onClose }) => {
         />
       );
     },
-    [handleSkipTo, handleRemove, handleUpNextMoveUp, handleUpNextMoveDown, userQueueCount, queue.length, currentIndex],
+    [handleSkipTo, handleRemove, handleRetry, handleFindAlternative, handleUpNextMoveUp, handleUpNextMoveDown, openContextMenu, trackErrors, searchingAlternativeId, userQueueCount, queue.length, currentIndex],
   );
 
   const keyExtractor = useCallback(
@@ -238,12 +357,53 @@ const QueueScreen: React.FC<QueueScreenProps> = ({ onClose }) => {
               <Text style={styles.trackArtist} numberOfLines={1}>
                 {currentTrack.artist}
               </Text>
+              {trackErrors[currentTrack.id] && (
+                <TrackErrorBadge
+                  error={trackErrors[currentTrack.id]}
+                  searching={searchingAlternativeId === currentTrack.id}
+                  onRetry={() => handleRetry(currentTrack)}
+                  onFindAlternative={() => handleFindAlternative(currentTrack)}
+                />
+              )}
             </View>
           </View>
         ) : (
           <Text style={styles.emptyText}>Nothing is playing</Text>
         )}
 
+        {/* Chapters of the current video */}
+        {!!currentTrack?.chapters?.length && (
+          <>
+            <Text style={[styles.sectionLabel, styles.nextSectionLabel]}>
+              CHAPTERS
+            </Text>
+            {currentTrack.chapters.map((chapter, index) => {
+              const isActive = index === activeChapterIndex;
+              return (
+                <TouchableOpacity
+                  key={`chapter-${chapter.start}`}
+                  style={styles.chapterRow}
+                  activeOpacity={0.6}
+                  onPress={() => seekTo(chapter.start)}
+                >
+                  <Text style={[styles.chapterStart, isActive && styles.chapterActive]}>
+                    {formatChapterStart(chapter.start)}
+                  </Text>
+                  <Text
+                    style={[styles.trackTitle, styles.chapterTitle, isActive && styles.chapterActive]}
+                    numberOfLines={1}
+                  >
+                    {chapter.title}
+                  </Text>
+                  {isActive && (
+                    <Ionicons name="volume-medium" size={16} color={Colors.primary} />
+                  )}
+                </TouchableOpacity>
+              );
+            })}
+          </>
+        )}
+
         {/* My Queue Section (user-added tracks) with reorder controls */}
         {userQueueTracks.length > 0 && (
           <>
@@ -254,8 +414,13 @@ const QueueScreen: React.FC<QueueScreenProps> = ({ onClose }) => {
               <QueueTrackRow
                 key={`user-${track.id}-${index}`}
                 track={track}
+                error={trackErrors[track.id]}
+                searchingAlternative={searchingAlternativeId === track.id}
                 onPress={() => handleSkipTo(track, index)}
+                onLongPress={() => openContextMenu(track)}
                 onRemove={() => handleRemove(index)}
+                onRetry={() => handleRetry(track)}
+                onFindAlternative={() => handleFindAlternative(track)}
                 onMoveUp={() => handleMoveUp(index)}
                 onMoveDown={() => handleMoveDown(index)}
                 canMoveUp={index > 0}
@@ -271,9 +436,27 @@ const QueueScreen: React.FC<QueueScreenProps> = ({ onClose }) => {
             UP NEXT
           </Text>
         )}
+
+        {/* Autoplay toggle */}
+        {currentTrack && (
+          <View style={[styles.autoplayRow, upNextTracks.length === 0 && styles.autoplayRowSpaced]}>
+            <View style={styles.autoplayText}>
+              <Text style={styles.autoplayTitle}>Autoplay</Text>
+              <Text style={styles.autoplaySubtitle}>
+                Keep playing similar songs when your queue ends
+              </Text>
+            </View>
+            <Switch
+              value={autoplayEnabled}
+              onValueChange={setAutoplayEnabled}
+              trackColor={{ false: Colors.surfaceHighlight, true: Colors.primary }}
+              thumbColor={Colors.white}
+            />
+          </View>
+        )}
       </View>
     ),
-    [currentTrack, userQueueTracks, upNextTracks.length, handleSkipTo, handleRemove, handleMoveUp, handleMoveDown],
+    [currentTrack, activeChapterIndex, seekTo, userQueueTracks, upNextTracks.length, autoplayEnabled, setAutoplayEnabled, trackErrors, searchingAlternativeId, handleSkipTo, handleRemove, handleRetry, handleFindAlternative, handleMoveUp, handleMoveDown, openContextMenu],
   );
 
   const ListEmpty = useCallback(
@@ -311,7 +494,14 @@ const QueueScreen: React.FC<QueueScreenProps> = ({ onClose }) => {
         >
           <Ionicons name="close" size={24} color={Colors.textPrimary} />
         </TouchableOpacity>
-        <Text style={styles.headerTitle}>Queue</Text>
+        <View style={styles.headerCenter}>
+          <Text style={styles.headerTitle}>Queue</Text>
+          {queueContext?.type === 'radio' && (
+            <Text style={styles.headerSubtitle} numberOfLines={1}>
+              Playing from {queueContext.label}
+            </Text>
+          )}
+        </View>
         <View style={styles.headerSpacer} />
       </View>
 
@@ -325,6 +515,12 @@ const QueueScreen: React.FC<QueueScreenProps> = ({ onClose }) => {
         contentContainerStyle={styles.listContent}
         showsVerticalScrollIndicator={false}
       />
+
+      <TrackContextMenu
+        track={menuTrack}
+        visible={menuVisible}
+        onClose={closeContextMenu}
+      />
     </View>
   );
 };
@@ -353,11 +549,21 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'center',
   },
+  headerCenter: {
+    flex: 1,
+    alignItems: 'center',
+    marginHorizontal: Spacing.md,
+  },
   headerTitle: {
     color: Colors.textPrimary,
     fontSize: FontSize.lg,
     fontWeight: FontWeight.bold,
   },
+  headerSubtitle: {
+    marginTop: 2,
+    color: Colors.textSecondary,
+    fontSize: FontSize.xs,
+  },
   headerSpacer: {
     width: 36,
   },
@@ -376,6 +582,28 @@ const styles = StyleSheet.create({
   nextSectionLabel: {
     marginTop: Spacing.xxxl,
   },
+  autoplayRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: Spacing.md,
+  },
+  autoplayRowSpaced: {
+    marginTop: Spacing.xxxl,
+  },
+  autoplayText: {
+    flex: 1,
+    marginRight: Spacing.md,
+  },
+  autoplayTitle: {
+    color: Colors.textPrimary,
+    fontSize: FontSize.md,
+    fontWeight: FontWeight.semibold,
+  },
+  autoplaySubtitle: {
+    marginTop: 2,
+    color: Colors.textMuted,
+    fontSize: FontSize.sm,
+  },
   nowPlayingRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -434,9 +662,45 @@ const styles = StyleSheet.create({
     fontSize: FontSize.sm,
     marginTop: 2,
   },
+  errorRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    marginTop: 2,
+  },
+  errorLabel: {
+    flexShrink: 1,
+    color: Colors.error,
+    fontSize: FontSize.xs,
+    fontWeight: FontWeight.medium,
+  },
+  errorAction: {
+    marginLeft: Spacing.xs,
+    color: Colors.primary,
+    fontSize: FontSize.xs,
+    fontWeight: FontWeight.semibold,
+  },
   removeButton: {
     padding: Spacing.xs,
   },
+  chapterRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: Spacing.sm,
+  },
+  chapterStart: {
+    width: 64,
+    color: Colors.textMuted,
+    fontSize: FontSize.sm,
+    fontVariant: ['tabular-nums'],
+  },
+  chapterTitle: {
+    flex: 1,
+    marginRight: Spacing.sm,
+  },
+  chapterActive: {
+    color: Colors.primary,
+  },
   emptyContainer: {
     alignItems: 'center',
     justifyContent: 'center',
@@ -0,0 +1,243 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { LinearGradient } from 'expo-linear-gradient';
+import { Ionicons } from '@expo/vector-icons';
+import type { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { Colors, Spacing, FontSize, FontWeight, BorderRadius } from '../../theme';
+import { SectionCarousel, TrackContextMenu, CollectionSheet } from '../../components/common';
+import { useCollectionSheet, usePlayer } from '../../hooks';
+import {
+  getMoodPage,
+  isPlayableResult,
+  ytResultToTrack,
+  type YTHomeSection,
+  type YTSearchResult,
+} from '../../services/youtube';
+import type { SearchStackParamList } from '../../navigation/types';
+import type { Track } from '../../types';
+
+type GenreScreenProps = NativeStackScreenProps<SearchStackParamList, 'Genre'>;
+
+// ---------------------------------------------------------------------------
+// Genre Screen — one YT Music "Moods & genres" category page
+// ---------------------------------------------------------------------------
+
+function GenreScreen({ navigation, route }: GenreScreenProps) {
+  const { title, params, colors } = route.params;
+  const insets = useSafeAreaInsets();
+  const { playTrackWithRecommendations } = usePlayer();
+
+  const [sections, setSections] = useState<YTHomeSection[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  // Context menu state — one shared menu for all cards
+  const [menuTrack, setMenuTrack] = useState<Track | null>(null);
+  const [menuVisible, setMenuVisible] = useState(false);
+
+  const collectionSheet = useCollectionSheet();
+  const { openCollection: openCollectionSheet } = collectionSheet;
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setLoadError(false);
+
+    getMoodPage(params)
+      .then((page) => {
+        if (!cancelled) setSections(page);
+      })
+      .catch((err) => {
+        console.warn('[Genre] Failed to load category page:', err);
+        if (!cancelled) setLoadError(true);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [params, reloadKey]);
+
+  const openCollection = useCallback((item: YTSearchResult) => {
+    const id = item.browseId || item.videoId;
+    if (!id) return;
+    openCollectionSheet({
+      source: 'youtube',
+      id,
+      kind: item.entityType === 'album' ? 'album' : 'playlist',
+    });
+  }, [openCollectionSheet]);
+
+  const handleItemPress = useCallback(
+    (item: YTSearchResult) => {
+      if (!isPlayableResult(item)) {
+        openCollection(item);
+        return;
+      }
+      playTrackWithRecommendations(ytResultToTrack(item));
+    },
+    [openCollection, playTrackWithRecommendations],
+  );
+
+  const openContextMenu = useCallback((track: Track) => {
+    setMenuTrack(track);
+    setMenuVisible(true);
+  }, []);
+
+  const handleItemLongPress = useCallback(
+    (item: YTSearchResult) => {
+      if (!isPlayableResult(item)) return;
+      openContextMenu(ytResultToTrack(item));
+    },
+    [openContextMenu],
+  );
+
+  const closeContextMenu = useCallback(() => {
+    setMenuVisible(false);
+  }, []);
+
+  return (
+    <View style={styles.screen}>
+      <ScrollView
+        contentContainerStyle={{ paddingBottom: 130 }}
+        showsVerticalScrollIndicator={false}
+      >
+        <LinearGradient
+          colors={[colors[0], colors[1], Colors.background]}
+          locations={[0, 0.6, 1]}
+          style={[styles.hero, { paddingTop: insets.top + Spacing.sm }]}
+        >
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => navigation.goBack()}
+            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+          >
+            <Ionicons name="chevron-back" size={24} color={Colors.textPrimary} />
+          </TouchableOpacity>
+          <Text style={styles.title} numberOfLines={2}>
+            {title}
+          </Text>
+        </LinearGradient>
+
+        {isLoading ? (
+          <View style={styles.centerState}>
+            <ActivityIndicator size="small" color={Colors.textMuted} />
+            <Text style={styles.stateText}>Loading {title}...</Text>
+          </View>
+        ) : loadError || sections.length === 0 ? (
+          <View style={styles.centerState}>
+            <Text style={styles.stateText}>
+              {loadError
+                ? 'Couldn\'t load this page.'
+                : 'Nothing to show here right now.'}
+            </Text>
+            {loadError && (
+              <TouchableOpacity
+                style={styles.retryButton}
+                onPress={() => setReloadKey((k) => k + 1)}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.retryText}>Try again</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        ) : (
+          sections.map((section, sectionIdx) => (
+            <SectionCarousel
+              key={`section-${sectionIdx}`}
+              title={section.title}
+              items={section.items}
+              onItemPress={handleItemPress}
+              onItemLongPress={handleItemLongPress}
+            />
+          ))
+        )}
+      </ScrollView>
+
+      {/* Shared context menu for all cards */}
+      <TrackContextMenu
+        track={menuTrack}
+        visible={menuVisible}
+        onClose={closeContextMenu}
+      />
+
+      <CollectionSheet
+        visible={collectionSheet.visible}
+        loading={collectionSheet.loading}
+        error={collectionSheet.error}
+        collection={collectionSheet.collection}
+        tracks={collectionSheet.tracks}
+        onClose={collectionSheet.closeCollection}
+        onPlay={collectionSheet.playCollection}
+        onStartRadio={collectionSheet.startCollectionRadio}
+        onTrackLongPress={openContextMenu}
+      />
+    </View>
+  );
+}
+
+export default React.memo(GenreScreen);
+
+// ---------------------------------------------------------------------------
+// Styles
+// ---------------------------------------------------------------------------
+
+const styles = StyleSheet.create({
+  screen: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  hero: {
+    paddingHorizontal: Spacing.lg,
+    paddingBottom: Spacing.xl,
+  },
+  backButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: Colors.glass,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  title: {
+    marginTop: Spacing.xl,
+    fontSize: FontSize.xxxl,
+    fontWeight: FontWeight.heavy,
+    color: Colors.textPrimary,
+    letterSpacing: -0.5,
+  },
+  centerState: {
+    alignItems: 'center',
+    paddingVertical: Spacing.xl * 2,
+    paddingHorizontal: Spacing.xl,
+  },
+  stateText: {
+    fontSize: FontSize.sm,
+    color: Colors.textSecondary,
+    marginTop: Spacing.sm,
+    textAlign: 'center',
+  },
+  retryButton: {
+    marginTop: Spacing.md,
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.round,
+    backgroundColor: Colors.glass,
+  },
+  retryText: {
+    fontSize: FontSize.sm,
+    fontWeight: FontWeight.semibold,
+    color: Colors.primary,
+  },
+});
@@ -8,44 +8,269 @@ import {
   TouchableOpacity,
   Keyboard,
   ActivityIndicator,
+  ScrollView,
+  Alert,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
+import { Image } from 'expo-image';
 import { Colors, Spacing, FontSize, FontWeight, BorderRadius, Shadows } from '../../theme';
-import { TrackRow } from '../../components/common';
-import { usePlayer } from '../../hooks';
-import { searchYTMusic, getSearchSuggestions, ytResultToTrack } from '../../services/youtube';
-import { jioSaavnResultToTrack, searchJioSaavnSongs } from '../../services/jiosaavn';
-import type { Track } from '../../types';
-
-// Category type for browse tiles (local, no longer in shared types)
-interface Category {
-  id: string;
-  name: string;
-  color: string;
-}
-
-const SEARCH_CATEGORIES: Category[] = [
-  { id: 'pop', name: 'Pop', color: '#E8115B' },
-  { id: 'hiphop', name: 'Hip-Hop', color: '#BA5D07' },
-  { id: 'rock', name: 'Rock', color: '#E61E32' },
-  { id: 'indie', name: 'Indie', color: '#608108' },
-  { id: 'electronic', name: 'Electronic', color: '#7358FF' },
-  { id: 'rnb', name: 'R&B', color: '#DC148C' },
-  { id: 'jazz', name: 'Jazz', color: '#477D95' },
-  { id: 'classical', name: 'Classical', color: '#8C67AB' },
-  { id: 'ambient', name: 'Ambient', color: '#1E3264' },
-  { id: 'lofi', name: 'Lo-Fi', color: '#503750' },
-  { id: 'chill', name: 'Chill', color: '#2D46B9' },
-  { id: 'workout', name: 'Workout', color: '#E13300' },
-];
+import { TrackRow, CollectionSheet } from '../../components/common';
+import { useCollectionSheet, usePlayer } from '../../hooks';
+import { getSearchSuggestions } from '../../services/youtube';
+import {
+  appendUnique,
+  fetchSearchPage,
+  hasMorePages,
+  resultKey,
+  type ArtistResultItem,
+  type CollectionResultItem,
+  type SearchFilter,
+  type SearchPage,
+  type SearchResultItem,
+  type TrackResultItem,
+} from '../../services/searchPaging';
+import {
+  getCachedCategories,
+  refreshCategories,
+  type SearchCategory,
+} from '../../services/searchCategories';
+import useSearchHistoryStore, { type SearchHistoryResult } from '../../store/searchHistoryStore';
+import type { SearchStackParamList } from '../../navigation/types';
+import type { RecentSearchResult, SearchArtist, SearchCollection, Track } from '../../types';
 
 const COLUMN_GAP = Spacing.md;
 const NUM_COLUMNS = 2;
 
 // Debounce delay for suggestions
 const SUGGESTION_DEBOUNCE = 250;
+const MAX_SUGGESTIONS = 6;
+// Past queries listed first among the suggestions
+const MAX_HISTORY_SUGGESTIONS = 3;
+
+interface Suggestion {
+  text: string;
+  fromHistory: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Search filters and result rows
+// ---------------------------------------------------------------------------
+
+const SEARCH_FILTERS: { id: SearchFilter; label: string }[] = [
+  { id: 'song', label: 'Songs' },
+  { id: 'video', label: 'Videos' },
+  { id: 'album', label: 'Albums' },
+  { id: 'artist', label: 'Artists' },
+  { id: 'playlist', label: 'Playlists' },
+  { id: 'jiosaavn', label: 'JioSaavn' },
+];
+
+// Start loading the next page this many screen heights before the end
+const LOAD_MORE_THRESHOLD = 0.6;
+
+const SOURCE_LABELS: Record<NonNullable<Track['source']>, string> = {
+  youtube: 'YT',
+  jiosaavn: 'Saavn',
+  local: 'Local',
+};
+
+function pageKey(query: string, filter: SearchFilter): string {
+  return `${filter}:${query.trim().toLowerCase()}`;
+}
+
+function formatDuration(seconds: number): string {
+  if (!seconds) return '';
+  const minutes = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  if (minutes >= 60) {
+    const hours = Math.floor(minutes / 60);
+    return `${hours}:${String(minutes % 60).padStart(2, '0')}:${String(secs).padStart(2, '0')}`;
+  }
+  return `${minutes}:${String(secs).padStart(2, '0')}`;
+}
+
+interface VideoRowProps {
+  track: Track;
+  onPress: () => void;
+}
+
+/** 16:9 thumbnail with the duration on top, like YouTube's own video rows. */
+const VideoRow: React.FC<VideoRowProps> = React.memo(({ track, onPress }) => (
+  <TouchableOpacity style={styles.resultRow} onPress={onPress} activeOpacity={0.6}>
+    <View>
+      <Image
+        source={{ uri: track.artwork as string }}
+        style={styles.videoThumbnail}
+        contentFit="cover"
+        transition={200}
+      />
+      {track.duration > 0 && (
+        <View style={styles.videoDuration}>
+          <Text style={styles.videoDurationText}>{formatDuration(track.duration)}</Text>
+        </View>
+      )}
+    </View>
+    <View style={styles.resultInfo}>
+      <Text style={styles.resultTitle} numberOfLines={2}>
+        {track.title}
+      </Text>
+      <Text style={styles.resultSubtitle} numberOfLines={1}>
+        {track.artist}
+      </Text>
+    </View>
+  </TouchableOpacity>
+));
+
+interface SourceSwitcherProps {
+  versions: Track[];
+  selectedId: string;
+  onSelect: (track: Track) => void;
+}
+
+/** One pill per source of a merged song; the selected one plays. */
+const SourceSwitcher: React.FC<SourceSwitcherProps> = React.memo(
+  ({ versions, selectedId, onSelect }) => (
+    <View style={styles.sourceSwitcher}>
+      {versions.map((version) => {
+        const selected = version.id === selectedId;
+        return (
+          <TouchableOpacity
+            key={version.id}
+            style={[styles.sourcePill, selected && styles.sourcePillSelected]}
+            onPress={() => onSelect(version)}
+            hitSlop={{ top: 8, bottom: 8, left: 2, right: 2 }}
+          >
+            <Text style={[styles.sourcePillText, selected && styles.sourcePillTextSelected]}>
+              {SOURCE_LABELS[version.source ?? 'youtube']}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  ),
+);
+
+const RECENT_KIND_LABELS: Record<RecentSearchResult['kind'], string> = {
+  song: 'Song',
+  video: 'Video',
+  album: 'Album',
+  playlist: 'Playlist',
+  artist: 'Artist',
+};
+
+function describeRecentResult(result: RecentSearchResult): {
+  title: string;
+  subtitle: string;
+  artwork: string;
+} {
+  switch (result.kind) {
+    case 'song':
+    case 'video':
+      return {
+        title: result.track.title,
+        subtitle: result.track.artist,
+        artwork: result.track.artwork as string,
+      };
+    case 'album':
+    case 'playlist':
+      return { title: result.title, subtitle: result.subtitle, artwork: result.artwork };
+    case 'artist':
+      return { title: result.name, subtitle: result.subtitle, artwork: result.artwork };
+  }
+}
+
+interface HistoryResultRowProps {
+  entry: SearchHistoryResult;
+  onPress: () => void;
+  onRemove: () => void;
+}
+
+/** A recently opened result, in one compact layout for every kind. */
+const HistoryResultRow: React.FC<HistoryResultRowProps> = React.memo(
+  ({ entry, onPress, onRemove }) => {
+    const { title, subtitle, artwork } = describeRecentResult(entry.result);
+    return (
+      <TouchableOpacity style={styles.resultRow} onPress={onPress} activeOpacity={0.6}>
+        <Image
+          source={{ uri: artwork }}
+          style={entry.result.kind === 'artist' ? styles.historyArtistArtwork : styles.historyArtwork}
+          contentFit="cover"
+          transition={200}
+        />
+        <View style={styles.resultInfo}>
+          <Text style={styles.resultTitle} numberOfLines={1}>
+            {title}
+          </Text>
+          <Text style={styles.resultSubtitle} numberOfLines={1}>
+            {[RECENT_KIND_LABELS[entry.result.kind], subtitle].filter(Boolean).join(' • ')}
+          </Text>
+        </View>
+        <TouchableOpacity onPress={onRemove} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+          <Ionicons name="close" size={18} color={Colors.textMuted} />
+        </TouchableOpacity>
+      </TouchableOpacity>
+    );
+  },
+);
+
+interface CollectionRowProps {
+  item: CollectionResultItem;
+  onPress: () => void;
+}
+
+const CollectionRow: React.FC<CollectionRowProps> = React.memo(({ item, onPress }) => (
+  <TouchableOpacity style={styles.resultRow} onPress={onPress} activeOpacity={0.6}>
+    <Image
+      source={{ uri: item.artwork }}
+      style={item.kind === 'album' ? styles.albumArtwork : styles.playlistArtwork}
+      contentFit="cover"
+      transition={200}
+    />
+    <View style={styles.resultInfo}>
+      <Text style={styles.resultTitle} numberOfLines={1}>
+        {item.title}
+      </Text>
+      <Text style={styles.resultSubtitle} numberOfLines={1}>
+        {[
+          item.kind === 'album' ? 'Album' : 'Playlist',
+          item.source === 'jiosaavn' ? 'JioSaavn' : '',
+          item.subtitle,
+        ].filter(Boolean).join(' • ')}
+      </Text>
+    </View>
+    <Ionicons name="chevron-forward" size={18} color={Colors.textMuted} />
+  </TouchableOpacity>
+));
+
+interface ArtistRowProps {
+  item: ArtistResultItem;
+  onPress: () => void;
+}
+
+/** Round portrait; tapping an artist starts their radio. */
+const ArtistRow: React.FC<ArtistRowProps> = React.memo(({ item, onPress }) => (
+  <TouchableOpacity style={styles.resultRow} onPress={onPress} activeOpacity={0.6}>
+    <Image
+      source={{ uri: item.artwork }}
+      style={styles.artistArtwork}
+      contentFit="cover"
+      transition={200}
+    />
+    <View style={styles.resultInfo}>
+      <Text style={styles.resultTitle} numberOfLines={1}>
+        {item.name}
+      </Text>
+      <Text style={styles.resultSubtitle} numberOfLines={1}>
+        {['Artist', item.subtitle].filter(Boolean).join(' • ')}
+      </Text>
+    </View>
+    <Ionicons name="radio-outline" size={20} color={Colors.textMuted} />
+  </TouchableOpacity>
+));
 
 // Color pairs for category gradient tiles
 const CATEGORY_GRADIENTS: Record<string, [string, string]> = {
@@ -63,19 +288,66 @@ const CATEGORY_GRADIENTS: Record<string, [string, string]> = {
   workout: ['#E13300', '#A32600'],
 };
 
+function categoryGradient(category: SearchCategory): [string, string] {
+  return CATEGORY_GRADIENTS[category.id] || [category.color, Colors.surfaceLight];
+}
+
 export default function SearchScreen() {
   const insets = useSafeAreaInsets();
-  const { playTrackWithRecommendations } = usePlayer();
+  const navigation =
+    useNavigation<NativeStackNavigationProp<SearchStackParamList, 'SearchHome'>>();
+  const { playTrackWithRecommendations, startRadio } = usePlayer();
   const [query, setQuery] = useState('');
-  const [searchResults, setSearchResults] = useState<Track[]>([]);
-  const [suggestions, setSuggestions] = useState<string[]>([]);
+  const [submittedQuery, setSubmittedQuery] = useState('');
+  const [filter, setFilter] = useState<SearchFilter>('song');
+  const [resultsPage, setResultsPage] = useState<SearchPage | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  // Source picked in a merged row's switcher: row key -> track id
+  const [selectedVersions, setSelectedVersions] = useState<Record<string, string>>({});
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [hasSearched, setHasSearched] = useState(false);
   const [showSuggestions, setShowSuggestions] = useState(false);
+  const [isInputFocused, setIsInputFocused] = useState(false);
+  const [categories, setCategories] = useState<SearchCategory[]>(getCachedCategories);
+  const historyQueries = useSearchHistoryStore((s) => s.queries);
+  const historyResults = useSearchHistoryStore((s) => s.results);
+  const addHistoryQuery = useSearchHistoryStore((s) => s.addQuery);
+  const addHistoryResult = useSearchHistoryStore((s) => s.addResult);
+  const removeHistoryQuery = useSearchHistoryStore((s) => s.removeQuery);
+  const removeHistoryResult = useSearchHistoryStore((s) => s.removeResult);
+  const clearHistory = useSearchHistoryStore((s) => s.clearHistory);
+  const collectionSheet = useCollectionSheet();
+  const { openCollection } = collectionSheet;
 
   const suggestionTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const searchRequestRef = useRef(0);
+  // Loaded pages and where to continue, per query and filter
+  const pagesRef = useRef(new Map<string, SearchPage>());
+  const loadingMoreRef = useRef(false);
 
   const isSearching = query.length > 0;
+  const searchResults = resultsPage?.items ?? [];
+  // History takes the place of the categories while typing into an empty bar
+  const showHistory =
+    isInputFocused && !isSearching && (historyQueries.length > 0 || historyResults.length > 0);
+
+  // Refresh the genre tiles from YT Music; the cached or built-in ones stay
+  // up until then, and text-search tiles remain if the fetch fails
+  useEffect(() => {
+    let cancelled = false;
+    refreshCategories()
+      .then((fresh) => {
+        if (cancelled || fresh.length === 0) return;
+        setCategories(fresh);
+      })
+      .catch((err) => {
+        console.warn('[Search] Failed to load genre categories:', err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
 
   // Debounced search suggestions
   useEffect(() => {
@@ -88,13 +360,25 @@ export default function SearchScreen() {
     if (suggestionTimeout.current) clearTimeout(suggestionTimeout.current);
 
     suggestionTimeout.current = setTimeout(async () => {
+      // Past queries first, then YT Music's suggestions without repeats
+      const fromHistory = useSearchHistoryStore
+        .getState()
+        .findQueries(query, MAX_HISTORY_SUGGESTIONS);
+      let remote: string[] = [];
       try {
-        const results = await getSearchSuggestions(query);
-        setSuggestions(results.slice(0, 6));
-        setShowSuggestions(true);
+        remote = await getSearchSuggestions(query);
       } catch {
-        setSuggestions([]);
+        remote = [];
       }
+      const seen = new Set(fromHistory.map((text) => text.toLowerCase()));
+      const merged: Suggestion[] = [
+        ...fromHistory.map((text) => ({ text, fromHistory: true })),
+        ...remote
+          .filter((text) => !seen.has(text.toLowerCase()))
+          .map((text) => ({ text, fromHistory: false })),
+      ].slice(0, MAX_SUGGESTIONS);
+      setSuggestions(merged);
+      setShowSuggestions(merged.length > 0);
     }, SUGGESTION_DEBOUNCE);
 
     return () => {
@@ -103,38 +387,73 @@ export default function SearchScreen() {
   }, [query, isSearching]);
 
   // Perform actual search
-  const performSearch = useCallback(async (searchQuery: string) => {
+  const performSearch = useCallback(async (searchQuery: string, searchFilter: SearchFilter) => {
     if (!searchQuery.trim()) return;
 
+    const requestId = ++searchRequestRef.current;
+    addHistoryQuery(searchQuery);
     setIsLoading(true);
     setHasSearched(true);
+    setSubmittedQuery(searchQuery);
     setShowSuggestions(false);
     Keyboard.dismiss();
 
     try {
-      const [ytResponse, saavnResponse] = await Promise.allSettled([
-        searchYTMusic(searchQuery),
-        searchJioSaavnSongs(searchQuery, 15),
-      ]);
-
-      const ytTracks =
-        ytResponse.status === 'fulfilled'
-          ? ytResponse.value.map(ytResultToTrack)
-          : [];
-      const saavnTracks =
-        saavnResponse.status === 'fulfilled'
-          ? saavnResponse.value.map(jioSaavnResultToTrack)
-          : [];
-
-      // Keep YouTube first, then JioSaavn as secondary source.
-      setSearchResults([...ytTracks, ...saavnTracks]);
+      const page = await fetchSearchPage(searchQuery, searchFilter);
+      if (requestId !== searchRequestRef.current) return;
+      const unique = { ...page, items: appendUnique([], page.items) };
+      pagesRef.current.set(pageKey(searchQuery, searchFilter), unique);
+      setResultsPage(unique);
     } catch (err) {
+      if (requestId !== searchRequestRef.current) return;
       console.warn('[Search] Failed:', err);
-      setSearchResults([]);
+      setResultsPage(null);
     } finally {
-      setIsLoading(false);
+      if (requestId === searchRequestRef.current) setIsLoading(false);
     }
-  }, []);
+  }, [addHistoryQuery]);
+
+  const handleFilterPress = useCallback(
+    (next: SearchFilter) => {
+      if (next === filter) return;
+      setFilter(next);
+      if (!hasSearched || !submittedQuery) return;
+
+      const cached = pagesRef.current.get(pageKey(submittedQuery, next));
+      if (cached) {
+        searchRequestRef.current += 1;
+        setIsLoading(false);
+        setResultsPage(cached);
+      } else {
+        performSearch(submittedQuery, next);
+      }
+    },
+    [filter, hasSearched, submittedQuery, performSearch],
+  );
+
+  // Next page of the current query and filter, when scrolled near the end
+  const loadMore = useCallback(async () => {
+    const current = resultsPage;
+    if (!current || isLoading || loadingMoreRef.current) return;
+    if (!hasMorePages(current.cursor)) return;
+
+    const requestId = searchRequestRef.current;
+    loadingMoreRef.current = true;
+    setIsLoadingMore(true);
+    try {
+      const next = await fetchSearchPage(submittedQuery, filter, current.cursor);
+      if (requestId !== searchRequestRef.current) return;
+      const merged = { items: appendUnique(current.items, next.items), cursor: next.cursor };
+      pagesRef.current.set(pageKey(submittedQuery, filter), merged);
+      setResultsPage(merged);
+    } catch (err) {
+      // The cursor is kept, so scrolling again retries
+      console.warn('[Search] Failed to load more:', err);
+    } finally {
+      loadingMoreRef.current = false;
+      setIsLoadingMore(false);
+    }
+  }, [resultsPage, isLoading, submittedQuery, filter]);
 
   // Update query text — no auto-search, only suggestions
   const handleTextChange = useCallback(
@@ -142,7 +461,9 @@ export default function SearchScreen() {
       setQuery(text);
 
       if (!text.trim()) {
-        setSearchResults([]);
+        searchRequestRef.current += 1;
+        setIsLoading(false);
+        setResultsPage(null);
         setHasSearched(false);
         setShowSuggestions(false);
         return;
@@ -156,31 +477,113 @@ export default function SearchScreen() {
       setQuery(suggestion);
       setSuggestions([]);
       setShowSuggestions(false);
-      performSearch(suggestion);
+      performSearch(suggestion, filter);
     },
-    [performSearch],
+    [filter, performSearch],
   );
 
   const handleCategoryPress = useCallback(
-    (category: Category) => {
+    (category: SearchCategory) => {
+      if (category.params) {
+        navigation.navigate('Genre', {
+          title: category.name,
+          params: category.params,
+          colors: categoryGradient(category),
+        });
+        return;
+      }
       setQuery(category.name);
-      performSearch(category.name);
+      performSearch(category.name, filter);
     },
-    [performSearch],
+    [filter, navigation, performSearch],
   );
 
   const handleTrackPress = useCallback(
-    (track: Track, _index: number) => {
+    (track: Track, kind: TrackResultItem['kind']) => {
       Keyboard.dismiss();
       setShowSuggestions(false);
+      addHistoryResult({ kind, track });
       playTrackWithRecommendations(track);
     },
-    [playTrackWithRecommendations],
+    [addHistoryResult, playTrackWithRecommendations],
   );
 
+  const handleCollectionPress = useCallback((item: SearchCollection) => {
+    Keyboard.dismiss();
+    addHistoryResult({
+      kind: item.kind,
+      source: item.source,
+      id: item.id,
+      title: item.title,
+      subtitle: item.subtitle,
+      artwork: item.artwork,
+    });
+    openCollection(item);
+  }, [addHistoryResult, openCollection]);
+
+  const handleArtistPress = useCallback(
+    (item: SearchArtist) => {
+      Keyboard.dismiss();
+      addHistoryResult({
+        kind: 'artist',
+        name: item.name,
+        subtitle: item.subtitle,
+        artwork: item.artwork,
+      });
+      startRadio({ type: 'artist', name: item.name }).catch((err) => {
+        console.warn('[Search] Failed to start artist radio:', err);
+        Alert.alert('Couldn\'t start radio', 'Please try again in a moment.');
+      });
+    },
+    [addHistoryResult, startRadio],
+  );
+
+  const handleHistoryQueryPress = useCallback(
+    (historyQuery: string) => {
+      setQuery(historyQuery);
+      performSearch(historyQuery, filter);
+    },
+    [filter, performSearch],
+  );
+
+  const handleHistoryResultPress = useCallback(
+    (result: RecentSearchResult) => {
+      switch (result.kind) {
+        case 'song':
+        case 'video':
+          handleTrackPress(result.track, result.kind);
+          break;
+        case 'album':
+        case 'playlist':
+          handleCollectionPress(result);
+          break;
+        case 'artist':
+          handleArtistPress(result);
+          break;
+      }
+    },
+    [handleTrackPress, handleCollectionPress, handleArtistPress],
+  );
+
+  const handleClearHistory = useCallback(() => {
+    Alert.alert(
+      'Clear search history?',
+      'Recent searches and opened results will be removed.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Clear', style: 'destructive', onPress: clearHistory },
+      ],
+    );
+  }, [clearHistory]);
+
   const handleClearSearch = useCallback(() => {
+    searchRequestRef.current += 1;
+    setIsLoading(false);
+    setSubmittedQuery('');
     setQuery('');
-    setSearchResults([]);
+    setResultsPage(null);
+    setSelectedVersions({});
+    pagesRef.current.clear();
     setHasSearched(false);
     setSuggestions([]);
     setShowSuggestions(false);
@@ -189,24 +592,52 @@ export default function SearchScreen() {
 
   const handleSubmitEditing = useCallback(() => {
     if (query.trim()) {
-      performSearch(query);
+      performSearch(query, filter);
     }
-  }, [query, performSearch]);
-
-  const renderTrackItem = useCallback(
-    ({ item, index }: { item: Track; index: number }) => (
-      <TrackRow
-        track={item}
-        onPress={() => handleTrackPress(item, index)}
-        showArtwork
-      />
-    ),
-    [handleTrackPress],
+  }, [query, filter, performSearch]);
+
+  const selectVersion = useCallback((item: TrackResultItem, version: Track) => {
+    setSelectedVersions((prev) => ({ ...prev, [resultKey(item)]: version.id }));
+  }, []);
+
+  const renderResultItem = useCallback(
+    ({ item }: { item: SearchResultItem }) => {
+      switch (item.kind) {
+        case 'song': {
+          const selectedId = selectedVersions[resultKey(item)];
+          const track = item.versions.find((v) => v.id === selectedId) ?? item.track;
+          return (
+            <TrackRow
+              track={track}
+              onPress={() => handleTrackPress(track, 'song')}
+              showArtwork
+              accessory={
+                item.versions.length > 1 ? (
+                  <SourceSwitcher
+                    versions={item.versions}
+                    selectedId={track.id}
+                    onSelect={(version) => selectVersion(item, version)}
+                  />
+                ) : null
+              }
+            />
+          );
+        }
+        case 'video':
+          return <VideoRow track={item.track} onPress={() => handleTrackPress(item.track, 'video')} />;
+        case 'album':
+        case 'playlist':
+          return <CollectionRow item={item} onPress={() => handleCollectionPress(item)} />;
+        case 'artist':
+          return <ArtistRow item={item} onPress={() => handleArtistPress(item)} />;
+      }
+    },
+    [selectedVersions, handleTrackPress, selectVersion, handleCollectionPress, handleArtistPress],
   );
 
   const renderCategoryItem = useCallback(
-    ({ item }: { item: Category }) => {
-      const gradient = CATEGORY_GRADIENTS[item.id] || [item.color, Colors.surfaceLight];
+    ({ item }: { item: SearchCategory }) => {
+      const gradient = categoryGradient(item);
       return (
         <View style={styles.categoryWrapper}>
           <TouchableOpacity
@@ -236,8 +667,8 @@ export default function SearchScreen() {
     [handleCategoryPress],
   );
 
-  const trackKeyExtractor = useCallback((item: Track) => item.id, []);
-  const categoryKeyExtractor = useCallback((item: Category) => item.id, []);
+  const resultKeyExtractor = useCallback((item: SearchResultItem) => resultKey(item), []);
+  const categoryKeyExtractor = useCallback((item: SearchCategory) => item.id, []);
 
   const ListEmptyResults = useMemo(
     () =>
@@ -259,6 +690,16 @@ export default function SearchScreen() {
     [hasSearched, isLoading],
   );
 
+  const ResultsFooter = useMemo(
+    () =>
+      isLoadingMore ? (
+        <View style={styles.loadMoreFooter}>
+          <ActivityIndicator size="small" color={Colors.textMuted} />
+        </View>
+      ) : null,
+    [isLoadingMore],
+  );
+
   const CategoriesHeader = useMemo(
     () => (
       <Text style={styles.browseTitle}>Browse All</Text>
@@ -277,7 +718,7 @@ export default function SearchScreen() {
       <View style={styles.searchBarContainer}>
         <View style={styles.searchBar}>
           <TouchableOpacity
-            onPress={() => { if (query.trim()) performSearch(query); }}
+            onPress={() => { if (query.trim()) performSearch(query, filter); }}
             hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
           >
             <Ionicons
@@ -294,6 +735,8 @@ export default function SearchScreen() {
             value={query}
             onChangeText={handleTextChange}
             onSubmitEditing={handleSubmitEditing}
+            onFocus={() => setIsInputFocused(true)}
+            onBlur={() => setIsInputFocused(false)}
             returnKeyType="search"
             autoCapitalize="none"
             autoCorrect={false}
@@ -315,19 +758,19 @@ export default function SearchScreen() {
         <View style={styles.suggestionsContainer}>
           {suggestions.map((suggestion, index) => (
             <TouchableOpacity
-              key={`${suggestion}-${index}`}
+              key={`${suggestion.text}-${index}`}
               style={styles.suggestionItem}
-              onPress={() => handleSuggestionPress(suggestion)}
+              onPress={() => handleSuggestionPress(suggestion.text)}
               activeOpacity={0.6}
             >
               <Ionicons
-                name="search-outline"
+                name={suggestion.fromHistory ? 'time-outline' : 'search-outline'}
                 size={16}
-                color={Colors.textMuted}
+                color={suggestion.fromHistory ? Colors.primary : Colors.textMuted}
                 style={styles.suggestionIcon}
               />
               <Text style={styles.suggestionText} numberOfLines={1}>
-                {suggestion}
+                {suggestion.text}
               </Text>
               <Ionicons
                 name="arrow-up-outline"
@@ -340,6 +783,33 @@ export default function SearchScreen() {
         </View>
       )}
 
+      {/* Filter chips */}
+      {isSearching && hasSearched && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+          style={styles.filterBar}
+          contentContainerStyle={styles.filterBarContent}
+        >
+          {SEARCH_FILTERS.map(({ id, label }) => {
+            const selected = id === filter;
+            return (
+              <TouchableOpacity
+                key={id}
+                style={[styles.filterChip, selected && styles.filterChipSelected]}
+                onPress={() => handleFilterPress(id)}
+                activeOpacity={0.7}
+              >
+                <Text style={[styles.filterChipText, selected && styles.filterChipTextSelected]}>
+                  {label}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+      )}
+
       {/* Content */}
       {isLoading ? (
         <View style={styles.loadingContainer}>
@@ -350,18 +820,75 @@ export default function SearchScreen() {
         <FlatList
           key="search-results"
           data={searchResults}
-          renderItem={renderTrackItem}
-          keyExtractor={trackKeyExtractor}
+          renderItem={renderResultItem}
+          keyExtractor={resultKeyExtractor}
+          extraData={selectedVersions}
           keyboardShouldPersistTaps="handled"
           ListEmptyComponent={ListEmptyResults}
+          ListFooterComponent={ResultsFooter}
+          onEndReached={loadMore}
+          onEndReachedThreshold={LOAD_MORE_THRESHOLD}
           contentContainerStyle={
             searchResults.length === 0 ? styles.emptyList : styles.resultsList
           }
         />
+      ) : showHistory ? (
+        <ScrollView
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+          contentContainerStyle={styles.historyContainer}
+        >
+          <View style={styles.historyHeader}>
+            <Text style={styles.historyTitle}>
+              {historyQueries.length > 0 ? 'Recent searches' : 'Recently opened'}
+            </Text>
+            <TouchableOpacity onPress={handleClearHistory} hitSlop={8}>
+              <Text style={styles.historyClear}>Clear all</Text>
+            </TouchableOpacity>
+          </View>
+          {historyQueries.map(({ query: historyQuery }) => (
+            <TouchableOpacity
+              key={historyQuery}
+              style={styles.suggestionItem}
+              onPress={() => handleHistoryQueryPress(historyQuery)}
+              activeOpacity={0.6}
+            >
+              <Ionicons
+                name="time-outline"
+                size={16}
+                color={Colors.textMuted}
+                style={styles.suggestionIcon}
+              />
+              <Text style={styles.suggestionText} numberOfLines={1}>
+                {historyQuery}
+              </Text>
+              <TouchableOpacity
+                onPress={() => removeHistoryQuery(historyQuery)}
+                hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+              >
+                <Ionicons name="close" size={18} color={Colors.textMuted} />
+              </TouchableOpacity>
+            </TouchableOpacity>
+          ))}
+
+          {historyQueries.length > 0 && historyResults.length > 0 && (
+            <Text style={[styles.historyTitle, styles.historySectionTitle]}>
+              Recently opened
+            </Text>
+          )}
+          {historyResults.map((entry) => (
+            <HistoryResultRow
+              key={entry.key}
+              entry={entry}
+              onPress={() => handleHistoryResultPress(entry.result)}
+              onRemove={() => removeHistoryResult(entry.key)}
+            />
+          ))}
+        </ScrollView>
       ) : (
         <FlatList
           key="categories-grid"
-          data={SEARCH_CATEGORIES}
+          data={categories}
           renderItem={renderCategoryItem}
           keyExtractor={categoryKeyExtractor}
           numColumns={NUM_COLUMNS}
@@ -372,6 +899,17 @@ export default function SearchScreen() {
           showsVerticalScrollIndicator={false}
         />
       )}
+
+      <CollectionSheet
+        visible={collectionSheet.visible}
+        loading={collectionSheet.loading}
+        error={collectionSheet.error}
+        collection={collectionSheet.collection}
+        tracks={collectionSheet.tracks}
+        onClose={collectionSheet.closeCollection}
+        onPlay={collectionSheet.playCollection}
+        onStartRadio={collectionSheet.startCollectionRadio}
+      />
     </View>
   );
 }
@@ -446,6 +984,62 @@ const styles = StyleSheet.create({
     fontWeight: FontWeight.medium,
   },
 
+  // Source switcher on merged rows
+  sourceSwitcher: {
+    flexDirection: 'row',
+    gap: 4,
+    marginLeft: Spacing.sm,
+  },
+  sourcePill: {
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: BorderRadius.round,
+    borderWidth: 1,
+    borderColor: Colors.glassBorder,
+  },
+  sourcePillSelected: {
+    backgroundColor: Colors.glass,
+    borderColor: Colors.primary,
+  },
+  sourcePillText: {
+    fontSize: FontSize.xs,
+    fontWeight: FontWeight.semibold,
+    color: Colors.textMuted,
+  },
+  sourcePillTextSelected: {
+    color: Colors.primary,
+  },
+
+  // Filter chips
+  filterBar: {
+    flexGrow: 0,
+    marginBottom: Spacing.sm,
+  },
+  filterBarContent: {
+    paddingHorizontal: Spacing.lg,
+    gap: Spacing.sm,
+  },
+  filterChip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs + 2,
+    borderRadius: BorderRadius.round,
+    backgroundColor: Colors.surfaceLight,
+    borderWidth: 1,
+    borderColor: Colors.glassBorder,
+  },
+  filterChipSelected: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  filterChipText: {
+    fontSize: FontSize.sm,
+    fontWeight: FontWeight.semibold,
+    color: Colors.textPrimary,
+  },
+  filterChipTextSelected: {
+    color: Colors.black,
+  },
+
   // Loading
   loadingContainer: {
     flex: 1,
@@ -463,6 +1057,109 @@ const styles = StyleSheet.create({
   resultsList: {
     paddingBottom: 140,
   },
+  loadMoreFooter: {
+    paddingVertical: Spacing.lg,
+    alignItems: 'center',
+  },
+  resultRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.sm,
+  },
+  resultInfo: {
+    flex: 1,
+    marginHorizontal: Spacing.md,
+  },
+  resultTitle: {
+    fontSize: FontSize.md,
+    fontWeight: FontWeight.medium,
+    color: Colors.textPrimary,
+    marginBottom: 2,
+  },
+  resultSubtitle: {
+    fontSize: FontSize.sm,
+    color: Colors.textSecondary,
+  },
+  videoThumbnail: {
+    width: 96,
+    height: 54,
+    borderRadius: BorderRadius.sm,
+    backgroundColor: Colors.surfaceLight,
+  },
+  videoDuration: {
+    position: 'absolute',
+    right: 4,
+    bottom: 4,
+    paddingHorizontal: 4,
+    borderRadius: 4,
+    backgroundColor: 'rgba(0,0,0,0.75)',
+  },
+  videoDurationText: {
+    fontSize: FontSize.xs,
+    fontWeight: FontWeight.semibold,
+    color: Colors.white,
+  },
+  albumArtwork: {
+    width: 56,
+    height: 56,
+    borderRadius: BorderRadius.sm,
+    backgroundColor: Colors.surfaceLight,
+  },
+  playlistArtwork: {
+    width: 56,
+    height: 56,
+    borderRadius: BorderRadius.md,
+    backgroundColor: Colors.surfaceLight,
+    borderWidth: 1,
+    borderColor: Colors.glassBorder,
+  },
+  artistArtwork: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: Colors.surfaceLight,
+  },
+
+  // Search history
+  historyContainer: {
+    paddingBottom: 140,
+  },
+  historyHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: Spacing.lg,
+    marginTop: Spacing.md,
+    marginBottom: Spacing.xs,
+  },
+  historyTitle: {
+    fontSize: FontSize.lg,
+    fontWeight: FontWeight.bold,
+    color: Colors.textPrimary,
+  },
+  historySectionTitle: {
+    paddingHorizontal: Spacing.lg,
+    marginTop: Spacing.lg,
+    marginBottom: Spacing.xs,
+  },
+  historyClear: {
+    fontSize: FontSize.sm,
+    fontWeight: FontWeight.semibold,
+    color: Colors.primary,
+  },
+  historyArtwork: {
+    width: 44,
+    height: 44,
+    borderRadius: BorderRadius.sm,
+    backgroundColor: Colors.surfaceLight,
+  },
+  historyArtistArtwork: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: Colors.surfaceLight,
+  },
 
   // Categories — gradient tiles
   categoriesContainer: {
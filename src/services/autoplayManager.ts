@@ -0,0 +1,222 @@
+/**
+ * Autoplay Manager
+ *
+ * Keeps listening going when the queue runs out by appending YouTube Music
+ * recommendations for the last track to the "Up Next" section. Radio
+ * stations extend themselves the same way from the station's next page.
+ *
+ * Strategy:
+ *   - Watches playerStore; once fewer than MIN_UPCOMING_TRACKS remain after
+ *     the current track, more tracks are fetched: the next radio page when
+ *     the queue is a station, otherwise getUpNext() for the last YT track
+ *   - Results already in the queue or recently played are dropped
+ *   - New tracks are appended with the store's addToUpNext and added to the
+ *     end of TrackPlayer's queue
+ *   - If playback already reached the end, it continues with the first new
+ *     track
+ *   - Off when repeat is on, while a sleep timer waits for the end of the
+ *     queue, or when the user disables Autoplay outside of a radio station
+ *
+ * Usage:
+ *   autoplayManager.init()          // once, at startup
+ *   await autoplayManager.extendNow()  // e.g. when skipping past the last track
+ */
+
+import TrackPlayer, { State } from 'react-native-track-player';
+import usePlayerStore from '../store/playerStore';
+import { appendTracksToPlayer } from './trackPlayerService';
+import {
+  getRadioContinuation,
+  getUpNext,
+  isPlayableResult,
+  ytResultToTrack,
+  type YTSearchResult,
+} from './youtube';
+import type { Track } from '../types';
+
+// Fetch more once fewer than this many tracks are left after the current one
+const MIN_UPCOMING_TRACKS = 3;
+const MAX_TRACKS_PER_EXTENSION = 20;
+
+function autoplayLog(message: string) {
+  console.log(`[Autoplay] ${message}`);
+}
+
+function autoplayWarn(message: string, extra?: unknown) {
+  if (extra !== undefined) {
+    console.warn(`[Autoplay] ${message}`, extra);
+    return;
+  }
+  console.warn(`[Autoplay] ${message}`);
+}
+
+class AutoplayManager {
+  private initialized = false;
+  private inFlight: Promise<void> | null = null;
+
+  /**
+   * Seeds whose recommendations came back with nothing new, so they aren't
+   * asked again until the queue is replaced. Failed requests don't count.
+   */
+  private exhaustedSeeds = new Set<string>();
+
+  init(): void {
+    if (this.initialized) return;
+    this.initialized = true;
+
+    usePlayerStore.subscribe((state, prev) => {
+      // A replaced queue (new play, station or shuffle) gets its seeds asked again
+      if (
+        state.queueContext !== prev.queueContext ||
+        (state.queue !== prev.queue && state.queue[0]?.id !== prev.queue[0]?.id)
+      ) {
+        this.exhaustedSeeds.clear();
+      }
+      if (
+        state.queue === prev.queue &&
+        state.currentIndex === prev.currentIndex &&
+        state.autoplayEnabled === prev.autoplayEnabled &&
+        state.repeatMode === prev.repeatMode &&
+        state.hasPendingRestore === prev.hasPendingRestore &&
+        state.playbackState === prev.playbackState &&
+        state.sleepTimer?.option === prev.sleepTimer?.option
+      ) {
+        return;
+      }
+      if (this.needsMoreTracks()) {
+        void this.extendNow();
+      }
+    });
+  }
+
+  /** Append recommendations now, regardless of how many tracks are left. */
+  extendNow(): Promise<void> {
+    if (!this.inFlight) {
+      this.inFlight = this.extend().finally(() => {
+        this.inFlight = null;
+      });
+    }
+    return this.inFlight;
+  }
+
+  private isActive(): boolean {
+    const {
+      autoplayEnabled,
+      queueContext,
+      repeatMode,
+      hasPendingRestore,
+      playbackState,
+      queue,
+      currentIndex,
+      sleepTimer,
+    } = usePlayerStore.getState();
+    // While a new queue is loading TrackPlayer doesn't match the store yet
+    return (
+      (autoplayEnabled || queueContext?.type === 'radio') &&
+      repeatMode === 'off' &&
+      sleepTimer?.option.type !== 'endOfQueue' &&
+      !hasPendingRestore &&
+      playbackState !== 'loading' &&
+      queue.length > 0 &&
+      currentIndex >= 0
+    );
+  }
+
+  private needsMoreTracks(): boolean {
+    if (!this.isActive()) return false;
+    const { queue, currentIndex } = usePlayerStore.getState();
+    return queue.length - 1 - currentIndex < MIN_UPCOMING_TRACKS;
+  }
+
+  private findSeed(queue: Track[]): Track | undefined {
+    for (let i = queue.length - 1; i >= 0; i--) {
+      if (queue[i].isYT) return queue[i];
+    }
+    return undefined;
+  }
+
+  private async extend(): Promise<void> {
+    if (!this.isActive()) return;
+
+    const context = usePlayerStore.getState().queueContext;
+    let seed: Track | undefined;
+    let results: YTSearchResult[];
+
+    if (context?.type === 'radio' && context.continuation) {
+      try {
+        const page = await getRadioContinuation(context.continuation);
+        // The queue may have been replaced while we were waiting
+        if (usePlayerStore.getState().queueContext !== context) return;
+        // Once the station runs dry, fall back to recommendations
+        usePlayerStore.getState().setQueueContext({ ...context, continuation: page.continuation });
+        results = page.tracks;
+      } catch (err) {
+        autoplayWarn('Failed to fetch the next radio page', err);
+        return;
+      }
+    } else {
+      seed = this.findSeed(usePlayerStore.getState().queue);
+      if (!seed || this.exhaustedSeeds.has(seed.id)) return;
+
+      try {
+        results = await getUpNext(seed.id);
+      } catch (err) {
+        // Not exhausted: the next check asks again
+        autoplayWarn(`Failed to fetch recommendations for ${seed.id}`, err);
+        return;
+      }
+      // The queue may have been replaced while we were waiting
+      if (this.findSeed(usePlayerStore.getState().queue)?.id !== seed.id) return;
+    }
+
+    const state = usePlayerStore.getState();
+    if (!this.isActive()) return;
+
+    const seen = new Set<string>([
+      ...state.queue.map((t) => t.id),
+      ...state.recentlyPlayed.map((t) => t.id),
+    ]);
+    const tracks: Track[] = [];
+    for (const result of results) {
+      if (tracks.length >= MAX_TRACKS_PER_EXTENSION) break;
+      if (!isPlayableResult(result) || seen.has(result.videoId)) continue;
+      seen.add(result.videoId);
+      tracks.push(ytResultToTrack(result));
+    }
+
+    if (tracks.length === 0) {
+      if (seed) {
+        this.exhaustedSeeds.add(seed.id);
+        autoplayLog(`No new recommendations for ${seed.id}`);
+      }
+      return;
+    }
+
+    try {
+      // Appending only lines up if TrackPlayer holds the same queue
+      const playerQueue = await TrackPlayer.getQueue();
+      if (playerQueue.length !== usePlayerStore.getState().queue.length) return;
+
+      const wasAtEnd = state.currentIndex >= state.queue.length - 1;
+      for (const track of tracks) {
+        usePlayerStore.getState().addToUpNext(track);
+      }
+      await appendTracksToPlayer(tracks);
+      autoplayLog(`Added ${tracks.length} track(s)${seed ? ` after ${seed.id}` : ' from radio'}`);
+
+      // The last track already finished — carry on with the first new one
+      if (wasAtEnd) {
+        const { state: playerState } = await TrackPlayer.getPlaybackState();
+        if (playerState === State.Ended || playerState === State.Stopped) {
+          await TrackPlayer.skipToNext();
+          await TrackPlayer.play();
+        }
+      }
+    } catch (err) {
+      autoplayWarn('Failed to add recommendations to the player', err);
+    }
+  }
+}
+
+// Singleton instance
+export const autoplayManager = new AutoplayManager();
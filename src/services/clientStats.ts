@@ -0,0 +1,227 @@
+/**
+ * Client Stats
+ *
+ * Learns which stream sources (Innertube clients and the JioSaavn fallback)
+ * currently work, so resolveStreamUrl tries the reliable ones first and
+ * routes around whichever client YouTube breaks.
+ *
+ * Strategy:
+ *   - resolveStreamUrl records every attempt: success with its latency, or
+ *     failure with its reason
+ *   - prefetchManager records playback failures (e.g. a 403 from the player)
+ *     of the client that produced the URL; they weigh more than resolution
+ *     failures because the user actually heard them
+ *   - Counts decay exponentially with a half-life of DECAY_HALF_LIFE_MS, so
+ *     recent behaviour wins and a client that was fixed recovers
+ *   - Clients are ranked by smoothed success rate, minus a small latency
+ *     penalty. With no data the default order is kept
+ *   - Stats persist in MMKV; the Stream Diagnostics screen shows them
+ *
+ * Usage:
+ *   const order = clientStats.rankClients(['IOS', 'JIOSAAVN', 'ANDROID'])
+ *   clientStats.recordSuccess('IOS', 840)
+ *   clientStats.recordFailure('ANDROID', 'LOGIN_REQUIRED')
+ *   clientStats.recordPlaybackFailure('WEB', 'android-io-bad-http-status')
+ */
+
+const STATS_KEY = 'stats';
+const DECAY_HALF_LIFE_MS = 3 * 24 * 60 * 60 * 1000;
+// A failed playback counts as this many failed resolutions
+const PLAYBACK_FAILURE_WEIGHT = 2;
+// Weight of the latest latency in the moving average
+const LATENCY_SMOOTHING = 0.3;
+// Score lost per second of average latency, and at most
+const LATENCY_PENALTY_PER_SECOND = 0.01;
+const MAX_LATENCY_PENALTY = 0.1;
+// Keeps the default order among clients with equal scores
+const DEFAULT_ORDER_BIAS = 0.001;
+const MAX_REASON_LENGTH = 160;
+
+export interface ClientStat {
+  successes: number; // decayed counts
+  failures: number;
+  playbackFailures: number;
+  avgLatencyMs: number | null;
+  lastSuccessAt: number | null;
+  lastFailureAt: number | null;
+  lastFailureReason: string | null;
+  updatedAt: number;
+}
+
+export interface RankedClient {
+  client: string;
+  score: number;
+  successRate: number;
+  stat: ClientStat | null;
+}
+
+// Lazy-init MMKV so it doesn't crash when native module isn't loaded yet
+let _storage: any = null;
+function getStorage() {
+  if (!_storage) {
+    try {
+      const { createMMKV } = require('react-native-mmkv');
+      _storage = createMMKV({ id: 'client-stats' });
+    } catch {
+      // MMKV unavailable (e.g. Expo Go) – fall back to in-memory only
+      const memory = new Map<string, string>();
+      _storage = {
+        set: (key: string, value: string) => memory.set(key, value),
+        getString: (key: string) => memory.get(key),
+        remove: (key: string) => memory.delete(key),
+      };
+    }
+  }
+  return _storage;
+}
+
+function emptyStat(now: number): ClientStat {
+  return {
+    successes: 0,
+    failures: 0,
+    playbackFailures: 0,
+    avgLatencyMs: null,
+    lastSuccessAt: null,
+    lastFailureAt: null,
+    lastFailureReason: null,
+    updatedAt: now,
+  };
+}
+
+/** Stats as of `now`, with counts decayed since the last update. */
+function decayed(stat: ClientStat, now: number): ClientStat {
+  const factor = Math.pow(0.5, Math.max(0, now - stat.updatedAt) / DECAY_HALF_LIFE_MS);
+  return {
+    ...stat,
+    successes: stat.successes * factor,
+    failures: stat.failures * factor,
+    playbackFailures: stat.playbackFailures * factor,
+    updatedAt: now,
+  };
+}
+
+/** Stats are keyed by the upper-cased clientUsed value. */
+function normalizeClient(client: string): string {
+  return client.trim().toUpperCase();
+}
+
+class ClientStatsTracker {
+  private loaded = false;
+  private stats: Record<string, ClientStat> = {};
+
+  recordSuccess(client: string, latencyMs: number): void {
+    this.update(client, (stat, now) => ({
+      ...stat,
+      successes: stat.successes + 1,
+      avgLatencyMs:
+        stat.avgLatencyMs === null
+          ? latencyMs
+          : stat.avgLatencyMs * (1 - LATENCY_SMOOTHING) + latencyMs * LATENCY_SMOOTHING,
+      lastSuccessAt: now,
+    }));
+  }
+
+  recordFailure(client: string, reason: string): void {
+    this.update(client, (stat, now) => ({
+      ...stat,
+      failures: stat.failures + 1,
+      lastFailureAt: now,
+      lastFailureReason: reason.slice(0, MAX_REASON_LENGTH),
+    }));
+  }
+
+  /** The client's URL resolved but wouldn't play (403, bad status, …). */
+  recordPlaybackFailure(client: string, reason: string): void {
+    // A broken cached file says nothing about the client that fetched it
+    if (normalizeClient(client).endsWith(':LOCAL')) return;
+    this.update(client, (stat, now) => ({
+      ...stat,
+      playbackFailures: stat.playbackFailures + 1,
+      lastFailureAt: now,
+      lastFailureReason: `Playback: ${reason}`.slice(0, MAX_REASON_LENGTH),
+    }));
+  }
+
+  /** Decayed stats for one client, or null if it was never tried. */
+  getStat(client: string): ClientStat | null {
+    this.ensureLoaded();
+    const stat = this.stats[normalizeClient(client)];
+    return stat ? decayed(stat, Date.now()) : null;
+  }
+
+  /**
+   * Rank `defaultOrder` by recent success. Untried clients score like a
+   * 50% success rate, so a client failing more than half the time drops
+   * below them.
+   */
+  rank(defaultOrder: string[]): RankedClient[] {
+    const ranked = defaultOrder.map((client, index) => {
+      const stat = this.getStat(client);
+      const successes = stat?.successes ?? 0;
+      const failures = (stat?.failures ?? 0) + (stat?.playbackFailures ?? 0) * PLAYBACK_FAILURE_WEIGHT;
+      // Laplace smoothing: one imaginary success and failure each
+      const successRate = (successes + 1) / (successes + failures + 2);
+      const latencyPenalty = Math.min(
+        MAX_LATENCY_PENALTY,
+        ((stat?.avgLatencyMs ?? 0) / 1000) * LATENCY_PENALTY_PER_SECOND,
+      );
+      const score = successRate - latencyPenalty - index * DEFAULT_ORDER_BIAS;
+      return { client, score, successRate, stat };
+    });
+    return ranked.sort((a, b) => b.score - a.score);
+  }
+
+  rankClients<T extends string>(defaultOrder: T[]): T[] {
+    return this.rank(defaultOrder).map((r) => r.client as T);
+  }
+
+  /** Decayed stats of every client tried so far. */
+  getAll(): Record<string, ClientStat> {
+    this.ensureLoaded();
+    const now = Date.now();
+    const all: Record<string, ClientStat> = {};
+    for (const [client, stat] of Object.entries(this.stats)) {
+      all[client] = decayed(stat, now);
+    }
+    return all;
+  }
+
+  reset(): void {
+    this.stats = {};
+    this.persist();
+  }
+
+  // ── Internals ────────────────────────────────────────────────────────────
+
+  private update(client: string, apply: (stat: ClientStat, now: number) => ClientStat): void {
+    this.ensureLoaded();
+    const key = normalizeClient(client);
+    if (!key) return;
+    const now = Date.now();
+    const current = this.stats[key] ? decayed(this.stats[key], now) : emptyStat(now);
+    this.stats = { ...this.stats, [key]: apply(current, now) };
+    this.persist();
+  }
+
+  private persist(): void {
+    try {
+      getStorage().set(STATS_KEY, JSON.stringify(this.stats));
+    } catch {
+      // Silently fail on storage errors
+    }
+  }
+
+  private ensureLoaded(): void {
+    if (this.loaded) return;
+    this.loaded = true;
+    try {
+      const raw = getStorage().getString(STATS_KEY);
+      if (raw) this.stats = JSON.parse(raw);
+    } catch {
+      // Silently fail on parse/storage errors
+    }
+  }
+}
+
+// Singleton instance
+export const clientStats = new ClientStatsTracker();
@@ -0,0 +1,289 @@
+/**
+ * Download Manager
+ *
+ * Explicit offline downloads on top of streamFileCacheManager. Downloaded
+ * files are pinned in the stream cache so LRU eviction never removes them,
+ * and playback reads them straight from disk without resolving a stream.
+ *
+ * Strategy:
+ *   - Downloads run from a FIFO queue, MAX_CONCURRENT_DOWNLOADS at a time
+ *   - Progress is mirrored into useDownloadStore for the UI
+ *   - Pausing keeps the partial transfer so resume continues where it left off
+ *   - Failures are retried automatically a couple of times, then wait for a
+ *     manual retry
+ *   - HLS streams can't be saved as a file, so a direct stream is requested
+ *     when the resolver hands back HLS
+ *
+ * Usage:
+ *   downloadManager.enqueue(tracks)  // queue tracks, albums or playlists
+ *   downloadManager.pause(trackId) / resume(trackId) / retry(trackId)
+ *   await downloadManager.remove(trackId)  // unpin and forget
+ */
+
+import type * as FileSystem from 'expo-file-system/legacy';
+import { Track } from '../types';
+import useDownloadStore from '../store/downloadStore';
+import { prefetchManager } from './prefetchManager';
+import { streamFileCacheManager } from './streamFileCacheManager';
+import { resolveStreamUrl, type AudioStreamInfo } from './youtube';
+
+const MAX_CONCURRENT_DOWNLOADS = 2;
+
+// Automatic retries before a download is marked failed
+const MAX_AUTO_RETRIES = 2;
+const RETRY_DELAY_MS = 5000;
+
+function downloadLog(message: string) {
+  console.log(`[Downloads] ${message}`);
+}
+
+function downloadWarn(message: string, extra?: unknown) {
+  if (extra !== undefined) {
+    console.warn(`[Downloads] ${message}`, extra);
+    return;
+  }
+  console.warn(`[Downloads] ${message}`);
+}
+
+class DownloadManager {
+  /** Transfers currently running, keyed by track id. */
+  private active = new Map<string, FileSystem.DownloadResumable | null>();
+
+  /** Paused transfers kept around so resume doesn't start from zero. */
+  private pausedTasks = new Map<string, FileSystem.DownloadResumable>();
+
+  private retryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private initPromise: Promise<void> | null = null;
+
+  /**
+   * Restore the queue from storage and continue unfinished downloads.
+   * Completed items whose file has disappeared are queued again.
+   */
+  init(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = (async () => {
+        const store = useDownloadStore.getState();
+        store.loadDownloads();
+        await streamFileCacheManager.init();
+
+        for (const item of useDownloadStore.getState().downloads) {
+          const trackId = item.track.id;
+          if (item.status === 'completed' && !streamFileCacheManager.isPinned(trackId)) {
+            store.updateDownload(trackId, { status: 'queued', progress: 0, bytesWritten: 0 });
+          } else if (item.status === 'downloading') {
+            // The partial file didn't survive the restart
+            store.updateDownload(trackId, { status: 'queued', progress: 0, bytesWritten: 0 });
+          }
+        }
+
+        this.pump();
+      })().catch((err) => {
+        downloadWarn('Failed to restore downloads', err);
+      });
+    }
+    return this.initPromise;
+  }
+
+  isDownloaded(trackId: string): boolean {
+    return useDownloadStore
+      .getState()
+      .downloads.some((d) => d.track.id === trackId && d.status === 'completed');
+  }
+
+  enqueue(tracks: Track[]): void {
+    const downloadable = tracks.filter(
+      (t) => t.isYT || (typeof t.url === 'string' && t.url.length > 0),
+    );
+    if (downloadable.length === 0) return;
+
+    useDownloadStore.getState().enqueueDownloads(downloadable);
+    downloadLog(`Queued ${downloadable.length} track(s)`);
+    void this.init().then(() => this.pump());
+  }
+
+  async pause(trackId: string): Promise<void> {
+    const item = this.getItem(trackId);
+    if (!item || (item.status !== 'queued' && item.status !== 'downloading')) return;
+
+    this.clearRetryTimer(trackId);
+    useDownloadStore.getState().updateDownload(trackId, { status: 'paused' });
+
+    const task = this.active.get(trackId);
+    if (task) {
+      try {
+        await task.pauseAsync();
+        this.pausedTasks.set(trackId, task);
+      } catch (err) {
+        downloadWarn(`Failed to pause ${trackId}`, err);
+      }
+    }
+  }
+
+  resume(trackId: string): void {
+    const item = this.getItem(trackId);
+    if (!item || item.status !== 'paused') return;
+
+    useDownloadStore.getState().updateDownload(trackId, { status: 'queued' });
+    this.pump();
+  }
+
+  retry(trackId: string): void {
+    const item = this.getItem(trackId);
+    if (!item || item.status !== 'failed') return;
+
+    this.pausedTasks.delete(trackId);
+    useDownloadStore.getState().updateDownload(trackId, {
+      status: 'queued',
+      attempts: 0,
+      error: undefined,
+    });
+    this.pump();
+  }
+
+  /**
+   * Cancel or delete a download. A finished file falls back to the LRU
+   * cache; a partial one is deleted.
+   */
+  async remove(trackId: string): Promise<void> {
+    this.clearRetryTimer(trackId);
+    useDownloadStore.getState().removeDownload(trackId);
+
+    const task = this.active.get(trackId) ?? this.pausedTasks.get(trackId);
+    this.pausedTasks.delete(trackId);
+    if (task) {
+      try {
+        await task.cancelAsync();
+      } catch {
+        // ignore cancellation errors
+      }
+      await streamFileCacheManager.discardPartial(trackId);
+    }
+
+    await streamFileCacheManager.unpin(trackId);
+  }
+
+  // ── Queue processing ─────────────────────────────────────────────────────
+
+  private getItem(trackId: string) {
+    return useDownloadStore.getState().downloads.find((d) => d.track.id === trackId);
+  }
+
+  private clearRetryTimer(trackId: string): void {
+    const timer = this.retryTimers.get(trackId);
+    if (timer) {
+      clearTimeout(timer);
+      this.retryTimers.delete(trackId);
+    }
+  }
+
+  private pump(): void {
+    const { downloads } = useDownloadStore.getState();
+    for (const item of downloads) {
+      if (this.active.size >= MAX_CONCURRENT_DOWNLOADS) return;
+      if (item.status !== 'queued') continue;
+      if (this.active.has(item.track.id) || this.retryTimers.has(item.track.id)) continue;
+      void this.run(item.track);
+    }
+  }
+
+  private async run(track: Track): Promise<void> {
+    const trackId = track.id;
+    const store = useDownloadStore.getState();
+    this.active.set(trackId, null);
+    store.updateDownload(trackId, { status: 'downloading', error: undefined });
+
+    let lastReported = 0;
+    try {
+      const resumeTask = this.pausedTasks.get(trackId);
+      this.pausedTasks.delete(trackId);
+
+      const streamInfo = await this.resolveDownloadStream(track);
+      if (this.getItem(trackId)?.status !== 'downloading') return;
+
+      const result = await streamFileCacheManager.download(trackId, streamInfo, {
+        resumeTask,
+        onTask: (task) => {
+          if (this.active.has(trackId)) this.active.set(trackId, task);
+        },
+        onProgress: (bytesWritten, totalBytes) => {
+          // Throttle store updates to whole-percent steps
+          const progress = totalBytes > 0 ? bytesWritten / totalBytes : 0;
+          if (progress - lastReported < 0.01 && progress < 1) return;
+          lastReported = progress;
+          useDownloadStore.getState().setDownloadProgress(trackId, bytesWritten, totalBytes);
+        },
+      });
+
+      // Paused or removed while the transfer was running
+      if (!result) return;
+
+      if (!this.getItem(trackId)) {
+        await streamFileCacheManager.unpin(trackId);
+        return;
+      }
+
+      store.updateDownload(trackId, {
+        status: 'completed',
+        progress: 1,
+        attempts: 0,
+        error: undefined,
+      });
+      downloadLog(`Downloaded ${trackId}`);
+    } catch (err: any) {
+      const item = this.getItem(trackId);
+      if (!item || item.status !== 'downloading') return;
+
+      // A failed transfer can't be resumed; the next attempt starts over
+      this.pausedTasks.delete(trackId);
+
+      const attempts = item.attempts + 1;
+      const error = err?.message ?? String(err);
+      downloadWarn(`Download failed for ${trackId} (attempt ${attempts})`, error);
+
+      if (attempts <= MAX_AUTO_RETRIES) {
+        store.updateDownload(trackId, { status: 'queued', attempts, error });
+        this.retryTimers.set(trackId, setTimeout(() => {
+          this.retryTimers.delete(trackId);
+          this.pump();
+        }, RETRY_DELAY_MS * attempts));
+      } else {
+        store.updateDownload(trackId, { status: 'failed', attempts, error });
+      }
+    } finally {
+      this.active.delete(trackId);
+      this.pump();
+    }
+  }
+
+  /**
+   * Get a stream that can be written to a single file. Non-YT tracks
+   * already carry a direct URL; YT tracks avoid clients that returned HLS.
+   */
+  private async resolveDownloadStream(track: Track): Promise<AudioStreamInfo> {
+    if (!track.isYT) {
+      return {
+        url: track.url,
+        mimeType: 'audio/mp4',
+        bitrate: 0,
+        durationMs: track.duration * 1000,
+        expiresAt: Date.now() + 60 * 60 * 1000,
+      };
+    }
+
+    const resolved = await prefetchManager.ensureResolved(track.id);
+    if (streamFileCacheManager.shouldCache(resolved)) {
+      return resolved;
+    }
+
+    const hlsClient = resolved.clientUsed?.split(':')[0];
+    const exclude = Array.from(new Set(['IOS', ...(hlsClient ? [hlsClient] : [])]));
+    const direct = await resolveStreamUrl(track.id, exclude);
+    if (!streamFileCacheManager.shouldCache(direct)) {
+      throw new Error('No downloadable stream available');
+    }
+    return direct;
+  }
+}
+
+// Singleton instance
+export const downloadManager = new DownloadManager();
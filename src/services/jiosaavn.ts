@@ -1,12 +1,19 @@
 import CryptoJS from 'crypto-js';
 import type { Track } from '../types';
 import type { AudioStreamInfo } from './youtube';
+import { orderByQuality, type StreamQuality } from './streamQuality';
 
 const SAAVN_SEARCH_ENDPOINT = 'https://www.jiosaavn.com/api.php';
 const SAAVN_DES_KEY = '38346591';
 const SAAVN_USER_AGENT =
   'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/122.0.0.0 Safari/537.36';
 
+// Bitrate variants JioSaavn serves, picked by the URL's `_<kbps>` suffix
+const SAAVN_VARIANTS_KBPS = [96, 160, 320];
+const SAAVN_VARIANT_REGEX = /_(\d+)\.(mp4|m4a)$/;
+// Bitrate assumed for URLs without a variant suffix
+const SAAVN_DEFAULT_BITRATE = 128000;
+
 type SaavnRawSong = Record<string, any>;
 
 export interface JioSaavnSearchResult {
@@ -19,6 +26,31 @@ export interface JioSaavnSearchResult {
   streamUrl: string;
 }
 
+/** One page of a JioSaavn search. */
+export interface JioSaavnPage<T> {
+  results: T[];
+  nextPage?: number; // pass back as `page` for more results
+}
+
+export interface JioSaavnCollectionResult {
+  id: string;
+  entityType: 'album' | 'playlist';
+  title: string;
+  subtitle: string;
+  artwork: string;
+  songCount: number;
+}
+
+export interface JioSaavnCollectionDetails {
+  id: string;
+  entityType: 'album' | 'playlist';
+  title: string;
+  artist: string;
+  subtitle: string;
+  artwork: string;
+  tracks: JioSaavnSearchResult[];
+}
+
 function toPlainText(value: any): string {
   if (typeof value === 'string') return value.trim();
   if (value == null) return '';
@@ -93,6 +125,9 @@ function extractArtist(raw: SaavnRawSong): string {
     if (names.length > 0) return names.join(', ');
   }
 
+  const primaryText = toPlainText(raw?.primary_artists);
+  if (primaryText) return decodeHtml(primaryText);
+
   const subtitle = toPlainText(raw?.subtitle);
   if (subtitle) return decodeHtml(subtitle);
 
@@ -109,8 +144,11 @@ function parseSong(raw: SaavnRawSong): JioSaavnSearchResult | null {
   const encryptedUrl =
     toPlainText(raw?.encrypted_media_url) ||
     toPlainText(raw?.more_info?.encrypted_media_url);
-  const streamUrl = decodeEncryptedMediaUrl(encryptedUrl);
-  if (!streamUrl) return null;
+  const decodedUrl = decodeEncryptedMediaUrl(encryptedUrl);
+  if (!decodedUrl) return null;
+  // Keep the best variant this song has; playback steps down from there
+  const has320 = toPlainText(raw?.more_info?.['320kbps'] ?? raw?.['320kbps']) === 'true';
+  const streamUrl = decodedUrl.replace(SAAVN_VARIANT_REGEX, `_${has320 ? 320 : 160}.$2`);
 
   const artwork = normalizeArtwork(toPlainText(raw?.image));
 
@@ -125,7 +163,8 @@ function parseSong(raw: SaavnRawSong): JioSaavnSearchResult | null {
   };
 }
 
-function normalizeForMatch(text: string): string {
+/** Lower-cased words without punctuation, for comparing titles and artists. */
+export function normalizeForMatch(text: string): string {
   return text
     .toLowerCase()
     .replace(/[^a-z0-9\s]/g, ' ')
@@ -133,7 +172,8 @@ function normalizeForMatch(text: string): string {
     .trim();
 }
 
-function tokenOverlapScore(source: string, target: string): number {
+/** Shared words of two normalized strings, over the longer one's word count (0–1). */
+export function tokenOverlapScore(source: string, target: string): number {
   if (!source || !target) return 0;
   const sourceTokens = new Set(source.split(' ').filter(Boolean));
   const targetTokens = new Set(target.split(' ').filter(Boolean));
@@ -183,66 +223,230 @@ function pickBestMatch(
   return best;
 }
 
+/**
+ * Call the JioSaavn API. Throws on an error status (rate limits, outages) as
+ * well as when unreachable, so paging and lookups can tell it from no results.
+ */
+async function requestSaavn(params: Record<string, string>): Promise<any> {
+  const searchParams = new URLSearchParams({ _format: 'json', _marker: '0', ...params });
+  const response = await fetch(`${SAAVN_SEARCH_ENDPOINT}?${searchParams.toString()}`, {
+    headers: {
+      Accept: 'application/json, text/plain, */*',
+      'User-Agent': SAAVN_USER_AGENT,
+    },
+  });
+  if (!response.ok) throw new Error(`JioSaavn responded with ${response.status}`);
+  return await response.json();
+}
+
+/** GET the JioSaavn API; null on HTTP or network errors. */
+async function fetchSaavn(params: Record<string, string>): Promise<any | null> {
+  try {
+    return await requestSaavn(params);
+  } catch {
+    return null;
+  }
+}
+
+function parseCollection(
+  raw: Record<string, any>,
+  entityType: 'album' | 'playlist',
+): JioSaavnCollectionResult | null {
+  const id = toPlainText(raw?.id);
+  const title = decodeHtml(toPlainText(raw?.title));
+  if (!id || !title) return null;
+
+  const subtitle =
+    toPlainText(raw?.subtitle) ||
+    toPlainText(raw?.more_info?.music ?? raw?.music) ||
+    toPlainText(raw?.more_info?.firstname);
+
+  return {
+    id,
+    entityType,
+    title,
+    subtitle: decodeHtml(subtitle),
+    artwork: normalizeArtwork(toPlainText(raw?.image)),
+    songCount: parseInt(toPlainText(raw?.more_info?.song_count ?? raw?.song_count), 10) || 0,
+  };
+}
+
+/** Raw results of one search page, and the next page if there are more. */
+async function fetchSaavnSearch(
+  call: string,
+  query: string,
+  page: number,
+  pageSize: number,
+): Promise<{ raw: any[]; nextPage?: number }> {
+  const size = Math.max(1, Math.min(50, pageSize));
+  const payload = await requestSaavn({
+    p: String(page),
+    q: query,
+    ctx: 'wap6dot0',
+    n: String(size),
+    __call: call,
+  });
+  const raw = Array.isArray(payload?.results) ? payload.results : [];
+  const total = Number(payload?.total ?? 0);
+  const hasMore = raw.length > 0 && page * size < total;
+  return { raw, nextPage: hasMore ? page + 1 : undefined };
+}
+
 export async function searchJioSaavnSongs(
   query: string,
   maxResults = 20,
 ): Promise<JioSaavnSearchResult[]> {
+  try {
+    return (await searchJioSaavnSongsPage(query, 1, maxResults)).results;
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * One page of JioSaavn song results; `page` starts at 1. Throws when
+ * JioSaavn can't be reached or answers with an error, so callers can retry
+ * the page.
+ */
+export async function searchJioSaavnSongsPage(
+  query: string,
+  page = 1,
+  pageSize = 20,
+): Promise<JioSaavnPage<JioSaavnSearchResult>> {
   const cleanQuery = query.trim();
-  if (!cleanQuery) return [];
+  if (!cleanQuery) return { results: [] };
 
-  const searchParams = new URLSearchParams({
-    p: '1',
-    q: cleanQuery,
-    _format: 'json',
-    _marker: '0',
-    ctx: 'wap6dot0',
-    n: String(Math.max(1, Math.min(50, maxResults))),
-    __call: 'search.getResults',
-  });
+  const { raw, nextPage } = await fetchSaavnSearch('search.getResults', cleanQuery, page, pageSize);
 
-  try {
-    const response = await fetch(`${SAAVN_SEARCH_ENDPOINT}?${searchParams.toString()}`, {
-      headers: {
-        Accept: 'application/json, text/plain, */*',
-        'User-Agent': SAAVN_USER_AGENT,
-      },
-    });
+  const parsed: JioSaavnSearchResult[] = [];
+  for (const item of raw) {
+    const song = parseSong(item);
+    if (song) {
+      parsed.push(song);
+    }
+  }
+
+  return { results: parsed, nextPage };
+}
 
-    if (!response.ok) {
-      return [];
+/**
+ * Search JioSaavn albums or playlists; `page` starts at 1. Throws when
+ * unreachable or on an error status.
+ */
+export async function searchJioSaavnCollections(
+  query: string,
+  entityType: 'album' | 'playlist',
+  page = 1,
+  pageSize = 20,
+): Promise<JioSaavnPage<JioSaavnCollectionResult>> {
+  const cleanQuery = query.trim();
+  if (!cleanQuery) return { results: [] };
+
+  const { raw, nextPage } = await fetchSaavnSearch(
+    entityType === 'album' ? 'search.getAlbumResults' : 'search.getPlaylistResults',
+    cleanQuery,
+    page,
+    pageSize,
+  );
+
+  const parsed: JioSaavnCollectionResult[] = [];
+  for (const item of raw) {
+    const collection = parseCollection(item, entityType);
+    if (collection) {
+      parsed.push(collection);
     }
+  }
 
-    const payload = await response.json();
-    const rawResults = Array.isArray(payload?.results) ? payload.results : [];
+  return { results: parsed, nextPage };
+}
 
-    const parsed: JioSaavnSearchResult[] = [];
-    for (const raw of rawResults) {
-      const item = parseSong(raw);
-      if (item) {
-        parsed.push(item);
-      }
+/** Title, artwork and playable songs of a JioSaavn album or playlist. */
+export async function getJioSaavnCollectionDetails(
+  id: string,
+  entityType: 'album' | 'playlist',
+): Promise<JioSaavnCollectionDetails> {
+  const payload = await fetchSaavn(
+    entityType === 'album'
+      ? { __call: 'content.getAlbumDetails', albumid: id, ctx: 'wap6dot0' }
+      : { __call: 'playlist.getDetails', listid: id, ctx: 'wap6dot0' },
+  );
+  if (!payload) throw new Error(`Failed to load JioSaavn ${entityType} ${id}`);
+
+  const rawSongs = Array.isArray(payload?.songs)
+    ? payload.songs
+    : Array.isArray(payload?.list) ? payload.list : [];
+  const tracks: JioSaavnSearchResult[] = [];
+  for (const raw of rawSongs) {
+    const item = parseSong(raw);
+    if (item) {
+      tracks.push(item);
     }
+  }
 
-    return parsed;
-  } catch {
-    return [];
+  const artist = decodeHtml(
+    toPlainText(payload?.primary_artists) ||
+    toPlainText(payload?.more_info?.music) ||
+    toPlainText(payload?.firstname),
+  );
+
+  return {
+    id,
+    entityType,
+    title: decodeHtml(toPlainText(payload?.title ?? payload?.listname)) || 'Unknown',
+    artist,
+    subtitle: decodeHtml(toPlainText(payload?.subtitle) || toPlainText(payload?.year)),
+    artwork: normalizeArtwork(toPlainText(payload?.image)),
+    tracks,
+  };
+}
+
+/**
+ * The variant of a JioSaavn stream URL for `quality`. Never picks a higher
+ * bitrate than `streamUrl` itself, which is the best the song has.
+ */
+export function pickJioSaavnVariant(
+  streamUrl: string,
+  quality: StreamQuality,
+): { url: string; bitrate: number } {
+  const match = streamUrl.match(SAAVN_VARIANT_REGEX);
+  if (!match) return { url: streamUrl, bitrate: SAAVN_DEFAULT_BITRATE };
+
+  const available = SAAVN_VARIANTS_KBPS.filter((kbps) => kbps <= Number(match[1]));
+  if (available.length === 0) {
+    return { url: streamUrl, bitrate: Number(match[1]) * 1000 };
   }
+  const kbps = orderByQuality(available, (v) => v * 1000, quality)[0];
+  return {
+    url: streamUrl.replace(SAAVN_VARIANT_REGEX, `_${kbps}.$2`),
+    bitrate: kbps * 1000,
+  };
 }
 
-export async function resolveJioSaavnFallback(
+/** The JioSaavn song closest to a title, artist and duration. */
+export async function findJioSaavnMatch(
   options: { title: string; artist?: string; durationSeconds?: number },
-): Promise<AudioStreamInfo | null> {
+): Promise<JioSaavnSearchResult | null> {
   const query = `${options.title} ${options.artist ?? ''}`.trim();
   const results = await searchJioSaavnSongs(query, 8);
-  if (results.length === 0) return null;
+  return pickBestMatch(results, options);
+}
 
-  const best = pickBestMatch(results, options);
+export async function resolveJioSaavnFallback(
+  options: {
+    title: string;
+    artist?: string;
+    durationSeconds?: number;
+    quality: StreamQuality;
+  },
+): Promise<AudioStreamInfo | null> {
+  const best = await findJioSaavnMatch(options);
   if (!best) return null;
 
+  const variant = pickJioSaavnVariant(best.streamUrl, options.quality);
   return {
-    url: best.streamUrl,
+    url: variant.url,
     mimeType: best.streamUrl.includes('.m4a') ? 'audio/mp4' : 'audio/mpeg',
-    bitrate: 128000,
+    bitrate: variant.bitrate,
     durationMs: best.duration > 0 ? best.duration * 1000 : 0,
     expiresAt: Date.now() + 6 * 60 * 60 * 1000,
     headers: {
@@ -253,6 +457,38 @@ export async function resolveJioSaavnFallback(
   };
 }
 
+/**
+ * Fetch plain-text lyrics from JioSaavn. JioSaavn tracks use their own id;
+ * other tracks are matched by title / artist / duration first. Throws when
+ * JioSaavn can't be reached, so that isn't mistaken for no lyrics.
+ */
+export async function getJioSaavnLyrics(track: Track): Promise<string | null> {
+  let songId = track.id.startsWith('saavn:') ? track.id.slice('saavn:'.length) : '';
+
+  if (!songId) {
+    const query = `${track.title} ${track.artist}`.trim();
+    const { results } = await searchJioSaavnSongsPage(query, 1, 8);
+    const best = pickBestMatch(results, {
+      title: track.title,
+      artist: track.artist,
+      durationSeconds: track.duration,
+    });
+    if (!best) return null;
+    songId = best.id;
+  }
+
+  const payload = await requestSaavn({
+    __call: 'lyrics.getLyrics',
+    lyrics_id: songId,
+    ctx: 'web6dot0',
+    api_version: '4',
+  });
+  const lyrics = toPlainText(payload?.lyrics);
+  if (!lyrics) return null;
+
+  return decodeHtml(lyrics.replace(/<br\s*\/?>/gi, '\n'));
+}
+
 export function jioSaavnResultToTrack(result: JioSaavnSearchResult): Track {
   return {
     id: `saavn:${result.id}`,
@@ -0,0 +1,388 @@
+/**
+ * Listening History
+ *
+ * Append-only log of every play, recorded by PlaybackService whenever the
+ * active track changes, plus the aggregations behind the stats screen.
+ * `recentlyPlayed` in playerStore stays a short, de-duplicated list for the
+ * UI; this is the full record.
+ *
+ * Strategy:
+ *   - Listened time only counts while the player is actually playing
+ *   - An event is written when its track stops being active: it's completed
+ *     if playback reached the end, otherwise skipped
+ *   - Events are bucketed per calendar month in MMKV, so appending only
+ *     rewrites the current month and months of history stay cheap to keep
+ *   - The in-progress play is saved on every state change and progress tick
+ *     and recovered on the next launch if the app was killed, so at most one
+ *     tick of listening is lost
+ *
+ * Usage:
+ *   listeningHistory.handleActiveTrackChanged(track, lastPosition)
+ *   listeningHistory.setPlaying(state === State.Playing)
+ *   listeningHistory.handleProgress()
+ *   const stats = listeningHistory.getStats('month')
+ */
+
+import type {
+  HistoryTrack,
+  ListenEvent,
+  ListeningStats,
+  StatsRange,
+  Track,
+} from '../types';
+
+const EVENTS_PREFIX = 'events:';
+const MONTHS_KEY = 'months';
+const TRACKS_KEY = 'tracks';
+const ACTIVE_SESSION_KEY = 'activeSession';
+
+// Plays shorter than this are not recorded at all
+const MIN_RECORDED_SECONDS = 1;
+// A play counts towards top lists once it ran this long (or completed)
+const MIN_COUNTED_SECONDS = 30;
+// Ending this close to the track's end counts as completed
+const COMPLETION_MARGIN_SECONDS = 5;
+const TOP_LIST_SIZE = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RANGE_DAYS: Record<Exclude<StatsRange, 'all'>, number> = {
+  week: 7,
+  month: 30,
+  year: 365,
+};
+
+/** The play currently in progress. */
+interface ActiveSession {
+  trackId: string;
+  source?: Track['source'];
+  duration: number;
+  startedAt: number;
+  listenedMs: number;
+  playingSince: number | null;
+}
+
+/** Raw track metadata as stored on TrackPlayer tracks. */
+type ActiveTrackMeta = Partial<HistoryTrack> & { id?: string; source?: Track['source'] };
+
+// Lazy-init MMKV so it doesn't crash when native module isn't loaded yet
+let _storage: any = null;
+function getStorage() {
+  if (!_storage) {
+    try {
+      const { createMMKV } = require('react-native-mmkv');
+      _storage = createMMKV({ id: 'listening-history' });
+    } catch {
+      // MMKV unavailable (e.g. Expo Go) – fall back to in-memory only
+      const memory = new Map<string, string>();
+      _storage = {
+        set: (key: string, value: string) => memory.set(key, value),
+        getString: (key: string) => memory.get(key),
+        remove: (key: string) => memory.delete(key),
+      };
+    }
+  }
+  return _storage;
+}
+
+function readJson<T>(key: string): T | undefined {
+  try {
+    const raw = getStorage().getString(key);
+    return raw ? (JSON.parse(raw) as T) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function writeJson(key: string, value: unknown): void {
+  try {
+    getStorage().set(key, JSON.stringify(value));
+  } catch {
+    // Silently fail on storage errors
+  }
+}
+
+function monthKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  return `${date.getFullYear()}-${month}`;
+}
+
+class ListeningHistory {
+  private active: ActiveSession | null = null;
+  private isPlaying = false;
+  private loaded = false;
+
+  private months: string[] = [];
+  private eventsByMonth = new Map<string, ListenEvent[]>();
+  private tracks: Record<string, HistoryTrack> = {};
+
+  // ── Recording ────────────────────────────────────────────────────────────
+
+  /**
+   * Called on every active-track change. The same track becoming active again
+   * (a stream hot-swap) continues the current play unless it had reached the
+   * end, which means it was repeated.
+   */
+  handleActiveTrackChanged(track: ActiveTrackMeta | null | undefined, lastPosition?: number): void {
+    this.ensureLoaded();
+    const active = this.active;
+
+    if (active && track?.id === active.trackId && !this.reachedEnd(active, lastPosition)) {
+      return;
+    }
+
+    this.finishActive(lastPosition);
+    if (track?.id) {
+      this.startSession(track);
+    }
+  }
+
+  setPlaying(isPlaying: boolean): void {
+    this.ensureLoaded();
+    if (this.isPlaying === isPlaying) return;
+    this.isPlaying = isPlaying;
+
+    const active = this.active;
+    if (!active) return;
+
+    const now = Date.now();
+    if (isPlaying) {
+      active.playingSince = now;
+    } else if (active.playingSince !== null) {
+      active.listenedMs += now - active.playingSince;
+      active.playingSince = null;
+    }
+    writeJson(ACTIVE_SESSION_KEY, active);
+  }
+
+  /** Called on every progress tick; saves the time listened so far. */
+  handleProgress(): void {
+    this.ensureLoaded();
+    const active = this.active;
+    if (!active || active.playingSince === null) return;
+
+    const now = Date.now();
+    active.listenedMs += now - active.playingSince;
+    active.playingSince = now;
+    writeJson(ACTIVE_SESSION_KEY, active);
+  }
+
+  // ── Queries ──────────────────────────────────────────────────────────────
+
+  /** Events started at or after `since`, oldest first. */
+  getEvents(since = 0): ListenEvent[] {
+    this.ensureLoaded();
+    const firstMonth = since > 0 ? monthKey(since) : '';
+    const events: ListenEvent[] = [];
+    for (const month of this.months) {
+      if (month < firstMonth) continue;
+      for (const event of this.getMonth(month)) {
+        if (event.startedAt >= since) events.push(event);
+      }
+    }
+    return events;
+  }
+
+  getTrack(trackId: string): HistoryTrack | undefined {
+    this.ensureLoaded();
+    return this.tracks[trackId];
+  }
+
+  getStats(range: StatsRange): ListeningStats {
+    const since = range === 'all' ? 0 : Date.now() - RANGE_DAYS[range] * DAY_MS;
+    const events = this.getEvents(since);
+
+    const trackTotals = new Map<string, { plays: number; seconds: number }>();
+    const artistTotals = new Map<string, { name: string; artwork: any; plays: number; seconds: number }>();
+    const albumTotals = new Map<string, { name: string; artist: string; artwork: any; plays: number; seconds: number }>();
+    const secondsByHour = new Array<number>(24).fill(0);
+    let totalSeconds = 0;
+    let playCount = 0;
+
+    for (const event of events) {
+      totalSeconds += event.listenedSeconds;
+      secondsByHour[new Date(event.startedAt).getHours()] += event.listenedSeconds;
+
+      const counted = event.completed || event.listenedSeconds >= MIN_COUNTED_SECONDS;
+      const plays = counted ? 1 : 0;
+      playCount += plays;
+
+      const trackTotal = trackTotals.get(event.trackId) ?? { plays: 0, seconds: 0 };
+      trackTotal.plays += plays;
+      trackTotal.seconds += event.listenedSeconds;
+      trackTotals.set(event.trackId, trackTotal);
+
+      const track = this.tracks[event.trackId];
+      if (!track) continue;
+
+      if (track.artist) {
+        const key = track.artist.toLowerCase();
+        const artist = artistTotals.get(key)
+          ?? { name: track.artist, artwork: track.artwork, plays: 0, seconds: 0 };
+        artist.plays += plays;
+        artist.seconds += event.listenedSeconds;
+        artistTotals.set(key, artist);
+      }
+
+      if (track.album) {
+        const key = `${track.album.toLowerCase()}|${track.artist.toLowerCase()}`;
+        const album = albumTotals.get(key)
+          ?? { name: track.album, artist: track.artist, artwork: track.artwork, plays: 0, seconds: 0 };
+        album.plays += plays;
+        album.seconds += event.listenedSeconds;
+        albumTotals.set(key, album);
+      }
+    }
+
+    const byPlays = <T extends { plays: number; seconds: number }>(a: T, b: T) =>
+      b.plays - a.plays || b.seconds - a.seconds;
+
+    const topTracks = Array.from(trackTotals.entries())
+      .filter(([trackId, total]) => total.plays > 0 && this.tracks[trackId])
+      .map(([trackId, total]) => ({ track: this.tracks[trackId], ...total }))
+      .sort(byPlays)
+      .slice(0, TOP_LIST_SIZE);
+
+    return {
+      range,
+      totalSeconds: Math.round(totalSeconds),
+      playCount,
+      topTracks,
+      topArtists: Array.from(artistTotals.values())
+        .filter((a) => a.plays > 0)
+        .sort(byPlays)
+        .slice(0, TOP_LIST_SIZE),
+      topAlbums: Array.from(albumTotals.values())
+        .filter((a) => a.plays > 0)
+        .sort(byPlays)
+        .slice(0, TOP_LIST_SIZE),
+      secondsByHour,
+    };
+  }
+
+  /** Delete all recorded history. */
+  clear(): void {
+    this.ensureLoaded();
+    const storage = getStorage();
+    for (const month of this.months) {
+      storage.remove(`${EVENTS_PREFIX}${month}`);
+    }
+    storage.remove(MONTHS_KEY);
+    storage.remove(TRACKS_KEY);
+    this.months = [];
+    this.eventsByMonth.clear();
+    this.tracks = {};
+  }
+
+  // ── Internals ────────────────────────────────────────────────────────────
+
+  private ensureLoaded(): void {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    this.months = readJson<string[]>(MONTHS_KEY) ?? [];
+    this.tracks = readJson<Record<string, HistoryTrack>>(TRACKS_KEY) ?? {};
+
+    // A play that was in progress when the app was killed. Time after its
+    // last save is unknown, so it counts up to the last progress tick
+    const leftover = readJson<ActiveSession>(ACTIVE_SESSION_KEY);
+    if (leftover) {
+      getStorage().remove(ACTIVE_SESSION_KEY);
+      this.append({
+        trackId: leftover.trackId,
+        source: leftover.source,
+        startedAt: leftover.startedAt,
+        listenedSeconds: Math.round(leftover.listenedMs / 1000),
+        skipped: false,
+        completed: false,
+      });
+    }
+  }
+
+  private getMonth(month: string): ListenEvent[] {
+    let events = this.eventsByMonth.get(month);
+    if (!events) {
+      events = readJson<ListenEvent[]>(`${EVENTS_PREFIX}${month}`) ?? [];
+      this.eventsByMonth.set(month, events);
+    }
+    return events;
+  }
+
+  private reachedEnd(session: ActiveSession, position?: number): boolean {
+    if (position === undefined || session.duration <= 0) return false;
+    return position >= session.duration - COMPLETION_MARGIN_SECONDS;
+  }
+
+  private startSession(track: ActiveTrackMeta): void {
+    const trackId = track.id as string;
+    const now = Date.now();
+
+    this.active = {
+      trackId,
+      source: track.source,
+      duration: track.duration ?? 0,
+      startedAt: now,
+      listenedMs: 0,
+      playingSince: this.isPlaying ? now : null,
+    };
+    writeJson(ACTIVE_SESSION_KEY, this.active);
+
+    const known = this.tracks[trackId];
+    const meta: HistoryTrack = {
+      id: trackId,
+      title: track.title ?? known?.title ?? '',
+      artist: track.artist ?? known?.artist ?? '',
+      album: track.album ?? known?.album ?? '',
+      artwork: track.artwork ?? known?.artwork,
+      duration: track.duration ?? known?.duration ?? 0,
+    };
+    if (
+      !known
+      || known.title !== meta.title
+      || known.artist !== meta.artist
+      || known.album !== meta.album
+      || known.artwork !== meta.artwork
+    ) {
+      this.tracks[trackId] = meta;
+      writeJson(TRACKS_KEY, this.tracks);
+    }
+  }
+
+  private finishActive(lastPosition?: number): void {
+    const active = this.active;
+    if (!active) return;
+    this.active = null;
+    getStorage().remove(ACTIVE_SESSION_KEY);
+
+    const now = Date.now();
+    const listenedMs = active.listenedMs
+      + (active.playingSince !== null ? now - active.playingSince : 0);
+    const completed = this.reachedEnd(active, lastPosition);
+
+    this.append({
+      trackId: active.trackId,
+      source: active.source,
+      startedAt: active.startedAt,
+      listenedSeconds: Math.round(listenedMs / 1000),
+      skipped: !completed,
+      completed,
+    });
+  }
+
+  private append(event: ListenEvent): void {
+    if (event.listenedSeconds < MIN_RECORDED_SECONDS) return;
+
+    const month = monthKey(event.startedAt);
+    const events = this.getMonth(month);
+    events.push(event);
+    writeJson(`${EVENTS_PREFIX}${month}`, events);
+
+    if (!this.months.includes(month)) {
+      this.months = [...this.months, month].sort();
+      writeJson(MONTHS_KEY, this.months);
+    }
+  }
+}
+
+// Singleton instance
+export const listeningHistory = new ListeningHistory();
@@ -0,0 +1,522 @@
+/**
+ * Loudness Normalization
+ *
+ * Evens out the volume between YouTube and JioSaavn tracks, and between
+ * tracks from different masterings, by lowering the player volume of loud
+ * tracks towards a target loudness.
+ *
+ * Strategy:
+ *   - Loudness is kept as `loudnessDb`: dB above YouTube's reference level
+ *     (YT_REFERENCE_LUFS), the scale YouTube reports in its streaming data
+ *   - YouTube streams carry it in AudioStreamInfo from resolution; JioSaavn
+ *     audio has none, so it's estimated from the file once
+ *     streamFileCacheManager has cached it
+ *   - Known values are remembered per track, so "album" mode can average the
+ *     tracks of an album heard so far and keep their relative dynamics
+ *   - PlaybackService applies the gain whenever a track becomes active or is
+ *     swapped for its resolved stream. TrackPlayer's volume can't go above 1,
+ *     so tracks quieter than the target play at full volume
+ *   - The sleep timer's fade-out goes through setFade() so both multiply
+ *     instead of overwriting each other
+ *
+ * Usage:
+ *   loudnessNormalizer.setMode('album')
+ *   loudnessNormalizer.record(videoId, streamInfo.loudnessDb)
+ *   await loudnessNormalizer.apply(activeTrack)
+ *   const loudnessDb = await estimateLoudnessDb(fileUri)
+ */
+
+import * as FileSystem from 'expo-file-system/legacy';
+import TrackPlayer from 'react-native-track-player';
+import type { Track } from '../types';
+
+export type NormalizationMode = 'off' | 'track' | 'album';
+
+export interface LoudnessSettings {
+  mode: NormalizationMode;
+  targetLufs: number;
+}
+
+// YouTube normalizes to roughly -14 LUFS; its loudnessDb is relative to that
+export const YT_REFERENCE_LUFS = -14;
+export const TARGET_LUFS_OPTIONS = [-23, -19, -16, -14, -11];
+
+const DEFAULT_SETTINGS: LoudnessSettings = { mode: 'track', targetLufs: -14 };
+const SETTINGS_KEY = 'settings';
+const TRACKS_KEY = 'tracks';
+// Per-track loudness values kept before the oldest are forgotten
+const MAX_TRACKS = 2000;
+// Measurements outside this range are treated as broken
+const MAX_ABS_LOUDNESS_DB = 20;
+
+/** Fields needed to pick a gain; also present on TrackPlayer tracks. */
+type GainTrack = Pick<Track, 'id'> &
+  Partial<Pick<Track, 'album' | 'artist'>> & { loudnessDb?: number };
+
+interface TrackLoudness {
+  loudnessDb: number;
+  albumKey?: string;
+}
+
+function loudnessLog(message: string) {
+  console.log(`[Loudness] ${message}`);
+}
+
+function loudnessWarn(message: string, extra?: unknown) {
+  if (extra !== undefined) {
+    console.warn(`[Loudness] ${message}`, extra);
+    return;
+  }
+  console.warn(`[Loudness] ${message}`);
+}
+
+// Lazy-init MMKV so it doesn't crash when native module isn't loaded yet
+let _storage: any = null;
+function getStorage() {
+  if (!_storage) {
+    try {
+      const { createMMKV } = require('react-native-mmkv');
+      _storage = createMMKV({ id: 'loudness' });
+    } catch {
+      // MMKV unavailable (e.g. Expo Go) – fall back to in-memory only
+      const memory = new Map<string, string>();
+      _storage = {
+        set: (key: string, value: string) => memory.set(key, value),
+        getString: (key: string) => memory.get(key),
+        remove: (key: string) => memory.delete(key),
+      };
+    }
+  }
+  return _storage;
+}
+
+function readJson<T>(key: string): T | undefined {
+  try {
+    const raw = getStorage().getString(key);
+    return raw ? (JSON.parse(raw) as T) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function writeJson(key: string, value: unknown): void {
+  try {
+    getStorage().set(key, JSON.stringify(value));
+  } catch {
+    // Silently fail on storage errors
+  }
+}
+
+function isValidLoudness(loudnessDb: unknown): loudnessDb is number {
+  return (
+    typeof loudnessDb === 'number' &&
+    Number.isFinite(loudnessDb) &&
+    Math.abs(loudnessDb) <= MAX_ABS_LOUDNESS_DB
+  );
+}
+
+function getAlbumKey(track: Partial<Pick<Track, 'album' | 'artist'>>): string | undefined {
+  const album = track.album?.trim().toLowerCase();
+  if (!album) return undefined;
+  return `${album}|${track.artist?.trim().toLowerCase() ?? ''}`;
+}
+
+class LoudnessNormalizer {
+  private loaded = false;
+  private settings: LoudnessSettings = DEFAULT_SETTINGS;
+  private tracks: Record<string, TrackLoudness> = {};
+  private activeTrack: GainTrack | null = null;
+  private gain = 1;
+  private fade = 1;
+  private volume = 1;
+
+  getSettings(): LoudnessSettings {
+    this.ensureLoaded();
+    return this.settings;
+  }
+
+  setMode(mode: NormalizationMode): void {
+    this.updateSettings({ mode });
+  }
+
+  setTargetLufs(targetLufs: number): void {
+    this.updateSettings({ targetLufs });
+  }
+
+  getLoudnessDb(trackId: string): number | undefined {
+    this.ensureLoaded();
+    return this.tracks[trackId]?.loudnessDb;
+  }
+
+  /** Remember a track's loudness; re-applies the gain if it's playing. */
+  record(trackId: string, loudnessDb: number | undefined, albumKey?: string): void {
+    if (!isValidLoudness(loudnessDb)) return;
+    this.ensureLoaded();
+
+    const previous = this.tracks[trackId];
+    const nextAlbumKey = albumKey ?? previous?.albumKey;
+    if (previous?.loudnessDb === loudnessDb && previous.albumKey === nextAlbumKey) return;
+
+    const next = { ...this.tracks };
+    delete next[trackId];
+    next[trackId] = { loudnessDb, ...(nextAlbumKey ? { albumKey: nextAlbumKey } : {}) };
+    // Insertion order doubles as recency
+    const ids = Object.keys(next);
+    for (const id of ids.slice(0, Math.max(0, ids.length - MAX_TRACKS))) {
+      delete next[id];
+    }
+    this.tracks = next;
+    writeJson(TRACKS_KEY, next);
+
+    if (this.activeTrack?.id === trackId) {
+      void this.apply(this.activeTrack);
+    }
+  }
+
+  /** Linear volume (0–1) that brings `track` to the target loudness. */
+  gainFor(track: GainTrack): number {
+    this.ensureLoaded();
+    const { mode, targetLufs } = this.settings;
+    if (mode === 'off') return 1;
+
+    const trackLoudness = this.tracks[track.id]?.loudnessDb ?? track.loudnessDb;
+    const loudnessDb =
+      mode === 'album' ? this.getAlbumLoudness(track) ?? trackLoudness : trackLoudness;
+    // Unknown tracks are assumed to sit at YouTube's reference level
+    const trackLufs = YT_REFERENCE_LUFS + (loudnessDb ?? 0);
+    return Math.min(1, Math.pow(10, (targetLufs - trackLufs) / 20));
+  }
+
+  /** Apply the gain for a TrackPlayer track becoming active. */
+  async apply(track: GainTrack): Promise<void> {
+    if (!track.id) return;
+    const loudnessDb = isValidLoudness(track.loudnessDb)
+      ? track.loudnessDb
+      : this.getLoudnessDb(track.id);
+    this.record(track.id, loudnessDb, getAlbumKey(track));
+    this.activeTrack = track;
+    this.gain = this.gainFor(track);
+    await this.setVolume();
+  }
+
+  /** Sleep timer fade (0–1), multiplied with the normalization gain. */
+  async setFade(fade: number): Promise<void> {
+    this.fade = fade;
+    await this.setVolume();
+  }
+
+  // ── Internals ────────────────────────────────────────────────────────────
+
+  private getAlbumLoudness(track: GainTrack): number | undefined {
+    const albumKey = getAlbumKey(track) ?? this.tracks[track.id]?.albumKey;
+    if (!albumKey) return undefined;
+
+    let total = 0;
+    let count = 0;
+    for (const entry of Object.values(this.tracks)) {
+      if (entry.albumKey !== albumKey) continue;
+      total += entry.loudnessDb;
+      count += 1;
+    }
+    return count > 0 ? total / count : undefined;
+  }
+
+  private updateSettings(patch: Partial<LoudnessSettings>): void {
+    this.ensureLoaded();
+    this.settings = { ...this.settings, ...patch };
+    writeJson(SETTINGS_KEY, this.settings);
+    loudnessLog(`Mode ${this.settings.mode}, target ${this.settings.targetLufs} LUFS`);
+    if (this.activeTrack) {
+      void this.apply(this.activeTrack);
+    }
+  }
+
+  private async setVolume(): Promise<void> {
+    const volume = this.gain * this.fade;
+    if (Math.abs(volume - this.volume) < 0.005) return;
+    this.volume = volume;
+    try {
+      await TrackPlayer.setVolume(volume);
+    } catch (err) {
+      loudnessWarn('Failed to set volume', err);
+    }
+  }
+
+  private ensureLoaded(): void {
+    if (this.loaded) return;
+    this.loaded = true;
+    this.settings = { ...DEFAULT_SETTINGS, ...readJson<Partial<LoudnessSettings>>(SETTINGS_KEY) };
+    this.tracks = readJson<Record<string, TrackLoudness>>(TRACKS_KEY) ?? {};
+  }
+}
+
+// Singleton instance
+export const loudnessNormalizer = new LoudnessNormalizer();
+
+// ── Estimation from cached audio ─────────────────────────────────────────────
+//
+// JioSaavn serves AAC in MP4 without loudness metadata, and nothing here can
+// decode audio. Instead, the AAC quantizer's global_gain is read from a spread
+// of frames: it's the per-frame scale in 1.5 dB steps, so its median follows
+// the track's level the way mp3gain/aacgain use it. This ignores spectral
+// content, so it's only a coarse estimate, used when nothing better is known.
+
+// Frames sampled across the track
+const ESTIMATE_SAMPLE_FRAMES = 48;
+// Bytes read per frame; enough for the element header and M/S mask
+const FRAME_HEADER_BYTES = 32;
+// Largest moov box we're willing to read
+const MAX_MOOV_BYTES = 4 * 1024 * 1024;
+const DB_PER_GAIN_STEP = 1.5;
+// Median global_gain of a track mastered at the YouTube reference level
+const REFERENCE_GLOBAL_GAIN = 170;
+
+interface Mp4Box {
+  type: string;
+  start: number; // offset of the payload
+  end: number;
+}
+
+class BitReader {
+  private bit = 0;
+  constructor(private readonly bytes: Uint8Array) {}
+
+  read(count: number): number {
+    let value = 0;
+    for (let i = 0; i < count; i++) {
+      const byte = this.bytes[this.bit >> 3];
+      if (byte === undefined) throw new Error('Read past end of frame');
+      value = (value << 1) | ((byte >> (7 - (this.bit & 7))) & 1);
+      this.bit += 1;
+    }
+    return value;
+  }
+}
+
+async function readBytes(fileUri: string, position: number, length: number): Promise<Uint8Array> {
+  const base64 = await FileSystem.readAsStringAsync(fileUri, {
+    encoding: FileSystem.EncodingType.Base64,
+    position,
+    length,
+  });
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function readUint32(bytes: Uint8Array, offset: number): number {
+  return (
+    ((bytes[offset] << 24) >>> 0) +
+    (bytes[offset + 1] << 16) +
+    (bytes[offset + 2] << 8) +
+    bytes[offset + 3]
+  );
+}
+
+function readType(bytes: Uint8Array, offset: number): string {
+  return String.fromCharCode(
+    bytes[offset],
+    bytes[offset + 1],
+    bytes[offset + 2],
+    bytes[offset + 3],
+  );
+}
+
+/** Child boxes of the box payload in `bytes[start, end)`. */
+function parseBoxes(bytes: Uint8Array, start: number, end: number): Mp4Box[] {
+  const boxes: Mp4Box[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = readUint32(bytes, offset);
+    let header = 8;
+    if (size === 1) {
+      size = readUint32(bytes, offset + 8) * 2 ** 32 + readUint32(bytes, offset + 12);
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header || offset + size > end) break;
+    boxes.push({ type: readType(bytes, offset + 4), start: offset + header, end: offset + size });
+    offset += size;
+  }
+  return boxes;
+}
+
+function findBox(bytes: Uint8Array, parent: Mp4Box, path: string[]): Mp4Box | null {
+  let current: Mp4Box | null = parent;
+  for (const type of path) {
+    if (!current) return null;
+    current = parseBoxes(bytes, current.start, current.end).find((b) => b.type === type) ?? null;
+  }
+  return current;
+}
+
+/** Locate the top-level moov box, wherever the muxer put it. */
+async function readMoov(fileUri: string, fileSize: number): Promise<Uint8Array | null> {
+  let offset = 0;
+  while (offset + 8 <= fileSize) {
+    const header = await readBytes(fileUri, offset, 16);
+    let size = readUint32(header, 0);
+    const type = readType(header, 4);
+    let headerSize = 8;
+    if (size === 1) {
+      size = readUint32(header, 8) * 2 ** 32 + readUint32(header, 12);
+      headerSize = 16;
+    } else if (size === 0) {
+      size = fileSize - offset;
+    }
+    if (offset === 0 && type !== 'ftyp') return null; // not an MP4 file
+    if (size < headerSize) return null;
+
+    if (type === 'moov') {
+      if (size > MAX_MOOV_BYTES) return null;
+      return readBytes(fileUri, offset, size);
+    }
+    offset += size;
+  }
+  return null;
+}
+
+/** File offsets of the samples (AAC frames) of the first audio track. */
+function getSampleOffsets(moov: Uint8Array): number[] {
+  const moovBox: Mp4Box = {
+    type: 'moov',
+    start: readUint32(moov, 0) === 1 ? 16 : 8,
+    end: moov.length,
+  };
+  const traks = parseBoxes(moov, moovBox.start, moovBox.end).filter((b) => b.type === 'trak');
+
+  for (const trak of traks) {
+    const hdlr = findBox(moov, trak, ['mdia', 'hdlr']);
+    // hdlr payload: version/flags (4), pre_defined (4), handler_type (4)
+    if (!hdlr || readType(moov, hdlr.start + 8) !== 'soun') continue;
+
+    const stbl = findBox(moov, trak, ['mdia', 'minf', 'stbl']);
+    if (!stbl) return [];
+    const stsd = findBox(moov, stbl, ['stsd']);
+    // stsd payload: version/flags (4), entry_count (4), then the first entry
+    if (!stsd || readType(moov, stsd.start + 12) !== 'mp4a') return [];
+
+    const stsz = findBox(moov, stbl, ['stsz']);
+    const stsc = findBox(moov, stbl, ['stsc']);
+    const stco = findBox(moov, stbl, ['stco']);
+    const co64 = findBox(moov, stbl, ['co64']);
+    if (!stsz || !stsc || (!stco && !co64)) return [];
+
+    const fixedSize = readUint32(moov, stsz.start + 4);
+    const sampleCount = readUint32(moov, stsz.start + 8);
+    const sampleSize = (i: number) =>
+      fixedSize || readUint32(moov, stsz.start + 12 + i * 4);
+
+    const chunkTable = (co64 ?? stco)!;
+    const chunkCount = readUint32(moov, chunkTable.start + 4);
+    const chunkOffset = (i: number) =>
+      co64
+        ? readUint32(moov, co64.start + 8 + i * 8) * 2 ** 32 +
+          readUint32(moov, co64.start + 12 + i * 8)
+        : readUint32(moov, stco!.start + 8 + i * 4);
+
+    const stscCount = readUint32(moov, stsc.start + 4);
+    const offsets: number[] = [];
+    let sample = 0;
+    for (let entry = 0; entry < stscCount; entry++) {
+      const base = stsc.start + 8 + entry * 12;
+      const firstChunk = readUint32(moov, base) - 1;
+      const samplesPerChunk = readUint32(moov, base + 4);
+      const lastChunk =
+        entry + 1 < stscCount ? readUint32(moov, base + 12) - 1 : chunkCount;
+      for (let chunk = firstChunk; chunk < lastChunk && sample < sampleCount; chunk++) {
+        let offset = chunkOffset(chunk);
+        for (let i = 0; i < samplesPerChunk && sample < sampleCount; i++) {
+          offsets.push(offset);
+          offset += sampleSize(sample);
+          sample += 1;
+        }
+      }
+    }
+    return offsets;
+  }
+  return [];
+}
+
+/** global_gain of the first channel in an AAC-LC raw_data_block. */
+function readGlobalGain(frame: Uint8Array): number | null {
+  try {
+    const bits = new BitReader(frame);
+    const elementId = bits.read(3);
+    bits.read(4); // element_instance_tag
+
+    if (elementId === 0) {
+      // SCE: individual_channel_stream starts with global_gain
+      return bits.read(8);
+    }
+    if (elementId !== 1) return null;
+
+    // CPE: a shared ics_info (and M/S mask) precedes the first channel
+    const commonWindow = bits.read(1);
+    if (commonWindow) {
+      bits.read(1); // ics_reserved_bit
+      const windowSequence = bits.read(2);
+      bits.read(1); // window_shape
+      let maxSfb: number;
+      let windowGroups = 1;
+      if (windowSequence === 2) {
+        maxSfb = bits.read(4);
+        const grouping = bits.read(7);
+        for (let i = 6; i >= 0; i--) {
+          if (!((grouping >> i) & 1)) windowGroups += 1;
+        }
+      } else {
+        maxSfb = bits.read(6);
+        if (bits.read(1)) return null; // predictor data isn't AAC-LC
+      }
+      if (bits.read(2) === 1) {
+        bits.read(windowGroups * maxSfb); // ms_used flags
+      }
+    }
+    return bits.read(8);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Estimate `loudnessDb` (relative to YT_REFERENCE_LUFS) of a cached AAC/MP4
+ * file. Resolves to null for other formats or when too few frames parse.
+ */
+export async function estimateLoudnessDb(fileUri: string): Promise<number | null> {
+  try {
+    const info = await FileSystem.getInfoAsync(fileUri);
+    if (!info.exists || info.size <= 0) return null;
+
+    const moov = await readMoov(fileUri, info.size);
+    if (!moov) return null;
+
+    const offsets = getSampleOffsets(moov);
+    if (offsets.length < ESTIMATE_SAMPLE_FRAMES) return null;
+
+    // Skip the first and last 5% — intros and fade-outs aren't representative
+    const first = Math.floor(offsets.length * 0.05);
+    const span = offsets.length - first * 2;
+    const gains: number[] = [];
+    for (let i = 0; i < ESTIMATE_SAMPLE_FRAMES; i++) {
+      const offset = offsets[first + Math.floor((i * span) / ESTIMATE_SAMPLE_FRAMES)];
+      if (offset + FRAME_HEADER_BYTES > info.size) continue;
+      const gain = readGlobalGain(await readBytes(fileUri, offset, FRAME_HEADER_BYTES));
+      // Silent frames carry a zero gain
+      if (gain !== null && gain > 0) gains.push(gain);
+    }
+    if (gains.length < ESTIMATE_SAMPLE_FRAMES / 2) return null;
+
+    gains.sort((a, b) => a - b);
+    const median = gains[Math.floor(gains.length / 2)];
+    const loudnessDb = (median - REFERENCE_GLOBAL_GAIN) * DB_PER_GAIN_STEP;
+    return Math.max(-MAX_ABS_LOUDNESS_DB, Math.min(MAX_ABS_LOUDNESS_DB, loudnessDb));
+  } catch (err) {
+    loudnessWarn('Loudness estimate failed', err);
+    return null;
+  }
+}
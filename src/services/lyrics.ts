@@ -0,0 +1,494 @@
+/**
+ * Lyrics Service
+ *
+ * Finds lyrics for a track through a list of pluggable providers and caches
+ * the result in MMKV keyed by track id, so replays load instantly.
+ *
+ * Strategy:
+ *   - Providers are tried in order; the first time-synced result wins
+ *   - If nobody has synced lyrics, the first plain-text result is used
+ *   - Misses are cached too (for a day) to avoid hammering providers, but
+ *     only when every provider answered. The same goes for plain-text
+ *     results, since a provider that failed may have synced lyrics
+ *
+ * Built-in providers:
+ *   - LRCLIB-compatible HTTP API (EXPO_PUBLIC_LRCLIB_URL, default lrclib.net)
+ *   - YouTube Music lyrics tab via getInnertube()
+ *   - JioSaavn lyrics
+ *
+ * Users can also import an .lrc file per track, which overrides anything the
+ * providers return, and nudge a per-track timing offset.
+ *
+ * Usage:
+ *   const result = await lyricsService.getLyrics(track)
+ *   lyricsService.registerProvider(myProvider, { prepend: true })
+ *   await lyricsService.importLrcFile(track.id, fileUri)
+ *   lyricsService.setOffset(track.id, 300)  // show lyrics 300 ms earlier
+ */
+
+import * as FileSystem from 'expo-file-system/legacy';
+import type { LyricLine, LyricWord, Track } from '../types';
+import { getYTMusicLyrics } from './youtube';
+import { getJioSaavnLyrics } from './jiosaavn';
+
+const LYRICS_CACHE_PREFIX = 'lyrics:';
+const MANUAL_LYRICS_PREFIX = 'lyricsManual:';
+const LYRICS_OFFSET_PREFIX = 'lyricsOffset:';
+const MANUAL_PROVIDER = 'manual';
+// Re-check providers for tracks that had no lyrics after this long
+const MISS_TTL = 24 * 60 * 60 * 1000;
+const PROVIDER_TIMEOUT_MS = 10000;
+
+const LRCLIB_BASE_URL = (process.env.EXPO_PUBLIC_LRCLIB_URL ?? 'https://lrclib.net')
+  .trim()
+  .replace(/\/+$/, '');
+
+export interface LyricsResult {
+  lines: LyricLine[];
+  synced: boolean;
+  provider: string;
+}
+
+export interface LyricsProvider {
+  readonly name: string;
+  /**
+   * Return lyrics for the track, or null if this provider has none. Throw
+   * when the provider couldn't be asked (offline, timeout), so the miss
+   * isn't cached.
+   */
+  fetchLyrics(track: Track): Promise<LyricsResult | null>;
+  /** Whether the provider has anything for this kind of track; default yes. */
+  canFetch?(track: Track): boolean;
+}
+
+interface CachedLyrics extends LyricsResult {
+  fetchedAt: number;
+}
+
+// Lazy-init MMKV so it doesn't crash when native module isn't loaded yet
+let _storage: any = null;
+function getStorage() {
+  if (!_storage) {
+    try {
+      const { createMMKV } = require('react-native-mmkv');
+      _storage = createMMKV({ id: 'lyrics-cache' });
+    } catch {
+      // MMKV unavailable (e.g. Expo Go) – fall back to in-memory only
+      const memory = new Map<string, string>();
+      _storage = {
+        set: (key: string, value: string | number) => memory.set(key, String(value)),
+        getString: (key: string) => memory.get(key),
+        getNumber: (key: string) => (memory.has(key) ? Number(memory.get(key)) : undefined),
+        remove: (key: string) => memory.delete(key),
+      };
+    }
+  }
+  return _storage;
+}
+
+function lyricsLog(message: string) {
+  console.log(`[Lyrics] ${message}`);
+}
+
+// ── LRC parsing ──────────────────────────────────────────────────────────────
+
+const LRC_TIMESTAMP = /^\[(\d{1,3}):(\d{1,2})(?:[.:](\d{1,3}))?\]/;
+const LRC_METADATA = /^\[([a-z#]+):(.*)\]$/i;
+// Enhanced-LRC word timestamps, e.g. "<00:12.34>"
+const LRC_WORD_TIMESTAMP = /<(\d{1,3}):(\d{1,2})(?:[.:](\d{1,3}))?>/g;
+
+function toSeconds(minutes: string, seconds: string, fraction?: string): number {
+  const frac = fraction ? Number(`0.${fraction}`) : 0;
+  return Number(minutes) * 60 + Number(seconds) + frac;
+}
+
+/**
+ * Split the text after a line's timestamps into timed words. Text before the
+ * first `<mm:ss.xx>` tag starts at the line time; a trailing tag with no text
+ * only marks where the last word ends and is dropped.
+ */
+function parseLrcWords(rest: string, lineTime: number): LyricWord[] | undefined {
+  const matches = Array.from(rest.matchAll(LRC_WORD_TIMESTAMP));
+  if (matches.length === 0) return undefined;
+
+  const words: LyricWord[] = [];
+  const leading = rest.slice(0, matches[0].index);
+  if (leading.trim()) {
+    words.push({ time: lineTime, text: leading });
+  }
+
+  matches.forEach((match, i) => {
+    const start = (match.index ?? 0) + match[0].length;
+    const end = i + 1 < matches.length ? matches[i + 1].index : rest.length;
+    const text = rest.slice(start, end);
+    if (!text.trim()) return;
+    words.push({ time: toSeconds(match[1], match[2], match[3]), text });
+  });
+
+  if (words.length === 0) return undefined;
+  // Keep a single trailing space between words, none at the end
+  const normalized = words.map((word) => ({ ...word, text: word.text.replace(/\s+/g, ' ') }));
+  normalized[0].text = normalized[0].text.trimStart();
+  const last = normalized[normalized.length - 1];
+  last.text = last.text.trimEnd();
+  return normalized;
+}
+
+/** True if the text contains at least one LRC line timestamp. */
+export function isLrc(text: string): boolean {
+  return text.split(/\r?\n/).some((line) => LRC_TIMESTAMP.test(line.trim()));
+}
+
+/**
+ * Parse LRC text into time-sorted lines.
+ *
+ * Supports `[mm:ss]`, `[mm:ss.xx]` and `[mm:ss:xx]` stamps, several stamps
+ * on one line (a repeated chorus), and the `[offset:±ms]` tag — a positive
+ * offset shows lyrics earlier. Other metadata tags are ignored. Enhanced-LRC
+ * `<mm:ss.xx>` tags become per-word timings on the line.
+ */
+export function parseLrc(text: string): LyricLine[] {
+  const lines: LyricLine[] = [];
+  let offsetSeconds = 0;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    let rest = rawLine.trim();
+    if (!rest) continue;
+
+    const times: number[] = [];
+    let match = LRC_TIMESTAMP.exec(rest);
+    while (match) {
+      times.push(toSeconds(match[1], match[2], match[3]));
+      rest = rest.slice(match[0].length);
+      match = LRC_TIMESTAMP.exec(rest);
+    }
+
+    if (times.length === 0) {
+      const meta = LRC_METADATA.exec(rest);
+      if (meta && meta[1].toLowerCase() === 'offset') {
+        const ms = Number(meta[2].trim());
+        if (Number.isFinite(ms)) offsetSeconds = ms / 1000;
+      }
+      continue;
+    }
+
+    const lineText = rest.replace(LRC_WORD_TIMESTAMP, '').replace(/\s+/g, ' ').trim();
+    const words = parseLrcWords(rest, times[0]);
+    for (const time of times) {
+      // Word stamps are absolute; shift them along with repeated lines
+      const shift = time - times[0];
+      lines.push({
+        time,
+        text: lineText,
+        ...(words ? { words: words.map((w) => ({ ...w, time: w.time + shift })) } : {}),
+      });
+    }
+  }
+
+  const applyOffset = (time: number) => Math.max(0, time - offsetSeconds);
+  return lines
+    .map((line) => ({
+      ...line,
+      time: applyOffset(line.time),
+      ...(line.words
+        ? { words: line.words.map((w) => ({ ...w, time: applyOffset(w.time) })) }
+        : {}),
+    }))
+    .sort((a, b) => a.time - b.time);
+}
+
+/** Plain lyrics have no timing — every line gets time 0. */
+export function parsePlainLyrics(text: string): LyricLine[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line, index, all) => line.length > 0 || (index > 0 && all[index - 1].length > 0))
+    .map((line) => ({ time: 0, text: line }));
+}
+
+/** Build a result from raw provider text, detecting LRC automatically. */
+function toResult(text: string | null | undefined, provider: string): LyricsResult | null {
+  const raw = (text ?? '').trim();
+  if (!raw) return null;
+
+  if (isLrc(raw)) {
+    const lines = parseLrc(raw);
+    if (lines.length > 0) return { lines, synced: true, provider };
+  }
+
+  const lines = parsePlainLyrics(raw);
+  return lines.length > 0 ? { lines, synced: false, provider } : null;
+}
+
+// ── Providers ────────────────────────────────────────────────────────────────
+
+/** Strip YouTube-style decorations like "(Official Video)" from a title. */
+function cleanTitle(title: string): string {
+  return title
+    .replace(/[([][^)\]]*(official|video|audio|lyrics?|visuali[sz]er|mv|hd|4k)[^)\]]*[)\]]/gi, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function primaryArtist(artist: string): string {
+  return artist.split(/,|&| feat\.? | ft\.? /i)[0].trim();
+}
+
+/** GET JSON; null for an error status. Network errors and timeouts throw. */
+async function fetchJson(url: string, timeoutMs = PROVIDER_TIMEOUT_MS): Promise<any | null> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const response = await fetch(url, {
+      headers: {
+        Accept: 'application/json',
+        'Lrclib-Client': 'Spooftify (https://github.com/Vinay-003/Spooftify)',
+      },
+      signal: controller.signal,
+    });
+    if (!response.ok) return null;
+    return await response.json();
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export const lrclibProvider: LyricsProvider = {
+  name: 'lrclib',
+  async fetchLyrics(track) {
+    const title = cleanTitle(track.title);
+    const artist = primaryArtist(track.artist);
+
+    // Exact lookup first — LRCLIB matches duration within a couple of seconds
+    const params = new URLSearchParams({
+      track_name: title,
+      artist_name: artist,
+      ...(track.album ? { album_name: track.album } : {}),
+      ...(track.duration > 0 ? { duration: String(Math.round(track.duration)) } : {}),
+    });
+    const exact = await fetchJson(`${LRCLIB_BASE_URL}/api/get?${params.toString()}`);
+    if (exact && !exact.instrumental) {
+      const result = toResult(exact.syncedLyrics, this.name) ?? toResult(exact.plainLyrics, this.name);
+      if (result) return result;
+    }
+
+    const searchParams = new URLSearchParams({ track_name: title, artist_name: artist });
+    const results = await fetchJson(`${LRCLIB_BASE_URL}/api/search?${searchParams.toString()}`);
+    if (!Array.isArray(results) || results.length === 0) return null;
+
+    const closeEnough = (item: any) =>
+      !track.duration || !item?.duration || Math.abs(item.duration - track.duration) <= 5;
+    const synced = results.find((item: any) => item?.syncedLyrics && closeEnough(item));
+    if (synced) return toResult(synced.syncedLyrics, this.name);
+
+    const plain = results.find((item: any) => item?.plainLyrics && closeEnough(item));
+    return plain ? toResult(plain.plainLyrics, this.name) : null;
+  },
+};
+
+export const ytMusicLyricsProvider: LyricsProvider = {
+  name: 'ytmusic',
+  canFetch(track) {
+    return !!track.isYT;
+  },
+  async fetchLyrics(track) {
+    return toResult(await getYTMusicLyrics(track.id), this.name);
+  },
+};
+
+export const jioSaavnLyricsProvider: LyricsProvider = {
+  name: 'jiosaavn',
+  async fetchLyrics(track) {
+    return toResult(await getJioSaavnLyrics(track), this.name);
+  },
+};
+
+// ── Service ──────────────────────────────────────────────────────────────────
+
+class LyricsService {
+  private providers: LyricsProvider[] = [
+    lrclibProvider,
+    ytMusicLyricsProvider,
+    jioSaavnLyricsProvider,
+  ];
+
+  private pending = new Map<string, Promise<LyricsResult | null>>();
+
+  /** Add a provider, by default after the built-in ones. */
+  registerProvider(provider: LyricsProvider, options?: { prepend?: boolean }): void {
+    this.providers = this.providers.filter((p) => p.name !== provider.name);
+    if (options?.prepend) {
+      this.providers.unshift(provider);
+    } else {
+      this.providers.push(provider);
+    }
+  }
+
+  /**
+   * Cached lyrics for a track. Returns undefined when nothing is cached (or a
+   * cached miss has expired) and null for a fresh cached miss. Imported
+   * lyrics always take precedence.
+   */
+  getCached(trackId: string): LyricsResult | null | undefined {
+    const manual = this.getManualLyrics(trackId);
+    if (manual) return manual;
+
+    try {
+      const raw = getStorage().getString(`${LYRICS_CACHE_PREFIX}${trackId}`);
+      if (!raw) return undefined;
+      const cached: CachedLyrics = JSON.parse(raw);
+      if (cached.lines.length === 0) {
+        return Date.now() - cached.fetchedAt < MISS_TTL ? null : undefined;
+      }
+      return { lines: cached.lines, synced: cached.synced, provider: cached.provider };
+    } catch {
+      return undefined;
+    }
+  }
+
+  async getLyrics(track: Track): Promise<LyricsResult | null> {
+    const cached = this.getCached(track.id);
+    if (cached !== undefined) return cached;
+
+    const pending = this.pending.get(track.id);
+    if (pending) return pending;
+
+    const promise = this.fetchFromProviders(track).then(({ result, complete }) => {
+      // After a provider failure (offline, rate limited) a miss would hide
+      // the lyrics until MISS_TTL runs out, so only synced results are kept
+      if (result?.synced || complete) this.store(track.id, result);
+      return result;
+    });
+    this.pending.set(track.id, promise);
+
+    try {
+      return await promise;
+    } finally {
+      this.pending.delete(track.id);
+    }
+  }
+
+  clearCache(trackId: string): void {
+    try {
+      getStorage().remove(`${LYRICS_CACHE_PREFIX}${trackId}`);
+    } catch {
+      // Silently fail on storage errors
+    }
+  }
+
+  // ── Manual import ──────────────────────────────────────────────────────────
+
+  /**
+   * Read an .lrc file and attach it to the track, overriding fetched lyrics.
+   * Throws if the file has no timestamped lines.
+   */
+  async importLrcFile(trackId: string, fileUri: string): Promise<LyricsResult> {
+    const text = await FileSystem.readAsStringAsync(fileUri);
+    const lines = parseLrc(text);
+    if (lines.length === 0) {
+      throw new Error('This file has no time-synced lyrics');
+    }
+
+    const result: LyricsResult = { lines, synced: true, provider: MANUAL_PROVIDER };
+    try {
+      getStorage().set(`${MANUAL_LYRICS_PREFIX}${trackId}`, JSON.stringify(result));
+    } catch {
+      // Silently fail on storage errors
+    }
+    lyricsLog(`Imported ${lines.length} lines for ${trackId}`);
+    return result;
+  }
+
+  hasManualLyrics(trackId: string): boolean {
+    return this.getManualLyrics(trackId) !== null;
+  }
+
+  /** Drop imported lyrics; fetched lyrics are used again. */
+  removeManualLyrics(trackId: string): void {
+    try {
+      getStorage().remove(`${MANUAL_LYRICS_PREFIX}${trackId}`);
+    } catch {
+      // Silently fail on storage errors
+    }
+  }
+
+  // ── Timing offset ──────────────────────────────────────────────────────────
+
+  /** Per-track offset in ms; positive shows lyrics earlier (like LRC `[offset:]`). */
+  getOffset(trackId: string): number {
+    try {
+      return getStorage().getNumber(`${LYRICS_OFFSET_PREFIX}${trackId}`) ?? 0;
+    } catch {
+      return 0;
+    }
+  }
+
+  setOffset(trackId: string, offsetMs: number): void {
+    try {
+      if (offsetMs === 0) {
+        getStorage().remove(`${LYRICS_OFFSET_PREFIX}${trackId}`);
+      } else {
+        getStorage().set(`${LYRICS_OFFSET_PREFIX}${trackId}`, offsetMs);
+      }
+    } catch {
+      // Silently fail on storage errors
+    }
+  }
+
+  // ── Internal ───────────────────────────────────────────────────────────────
+
+  private getManualLyrics(trackId: string): LyricsResult | null {
+    try {
+      const raw = getStorage().getString(`${MANUAL_LYRICS_PREFIX}${trackId}`);
+      return raw ? JSON.parse(raw) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /** The best result, and whether every provider tried answered without failing. */
+  private async fetchFromProviders(
+    track: Track,
+  ): Promise<{ result: LyricsResult | null; complete: boolean }> {
+    let plainFallback: LyricsResult | null = null;
+    let complete = true;
+
+    for (const provider of this.providers) {
+      if (provider.canFetch && !provider.canFetch(track)) continue;
+      try {
+        const result = await provider.fetchLyrics(track);
+        if (!result || result.lines.length === 0) continue;
+        if (result.synced) {
+          lyricsLog(`Synced lyrics for ${track.id} from ${provider.name}`);
+          return { result, complete };
+        }
+        plainFallback = plainFallback ?? result;
+      } catch (err) {
+        console.warn(`[Lyrics] Provider ${provider.name} failed for ${track.id}:`, err);
+        complete = false;
+      }
+    }
+
+    if (plainFallback) {
+      lyricsLog(`Plain lyrics for ${track.id} from ${plainFallback.provider}`);
+    }
+    return { result: plainFallback, complete };
+  }
+
+  private store(trackId: string, result: LyricsResult | null): void {
+    const entry: CachedLyrics = {
+      lines: result?.lines ?? [],
+      synced: result?.synced ?? false,
+      provider: result?.provider ?? '',
+      fetchedAt: Date.now(),
+    };
+    try {
+      getStorage().set(`${LYRICS_CACHE_PREFIX}${trackId}`, JSON.stringify(entry));
+    } catch {
+      // Silently fail on storage errors
+    }
+  }
+}
+
+// Singleton instance
+export const lyricsService = new LyricsService();
@@ -0,0 +1,170 @@
+/**
+ * Playback Rate
+ *
+ * Remembers the playback speed per track, with separate defaults for music
+ * and for long-form content (YouTube videos longer than 20 minutes, such
+ * as podcasts and mixes).
+ *
+ * Strategy:
+ *   - The rate for a track is its own saved rate, else the default for its
+ *     kind, else 1x
+ *   - buildPlayerTrack stores that rate on the TrackPlayer track, and the
+ *     hot swap re-applies it, so re-resolving a stream keeps the speed
+ *   - PlaybackService applies it whenever a track becomes active; TrackPlayer
+ *     only has one player-wide rate
+ *   - Long-form tracks use the voice pitch algorithm on iOS so sped-up
+ *     speech stays natural
+ *
+ * Usage:
+ *   const rate = playbackRates.getRate(track)
+ *   playbackRates.setTrackRate(track, 1.5)
+ *   await playbackRates.apply(activeTrack)
+ */
+
+import TrackPlayer, { PitchAlgorithm } from 'react-native-track-player';
+import usePlayerStore from '../store/playerStore';
+import type { Track } from '../types';
+
+export const MIN_PLAYBACK_RATE = 0.5;
+export const MAX_PLAYBACK_RATE = 3;
+
+// YouTube videos longer than this count as long-form (podcasts, mixes)
+const LONG_FORM_MIN_SECONDS = 20 * 60;
+
+const TRACK_RATES_KEY = 'trackRates';
+const DEFAULTS_KEY = 'defaults';
+// Per-track rates kept before the oldest are forgotten
+const MAX_TRACK_RATES = 500;
+
+/** Fields needed to pick a rate; also present on TrackPlayer tracks. */
+type RateTrack = Pick<Track, 'id' | 'duration' | 'source'> & { isYT?: boolean };
+
+interface RateDefaults {
+  music: number;
+  longForm: number;
+}
+
+// Lazy-init MMKV so it doesn't crash when native module isn't loaded yet
+let _storage: any = null;
+function getStorage() {
+  if (!_storage) {
+    try {
+      const { createMMKV } = require('react-native-mmkv');
+      _storage = createMMKV({ id: 'playback-rate' });
+    } catch {
+      // MMKV unavailable (e.g. Expo Go) – fall back to in-memory only
+      const memory = new Map<string, string>();
+      _storage = {
+        set: (key: string, value: string) => memory.set(key, value),
+        getString: (key: string) => memory.get(key),
+        remove: (key: string) => memory.delete(key),
+      };
+    }
+  }
+  return _storage;
+}
+
+function readJson<T>(key: string): T | undefined {
+  try {
+    const raw = getStorage().getString(key);
+    return raw ? (JSON.parse(raw) as T) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function writeJson(key: string, value: unknown): void {
+  try {
+    getStorage().set(key, JSON.stringify(value));
+  } catch {
+    // Silently fail on storage errors
+  }
+}
+
+export function clampRate(rate: number): number {
+  const clamped = Math.min(MAX_PLAYBACK_RATE, Math.max(MIN_PLAYBACK_RATE, rate));
+  return Math.round(clamped * 100) / 100;
+}
+
+export function isLongForm(track: RateTrack): boolean {
+  const isYouTube = track.isYT || track.source === 'youtube';
+  return !!isYouTube && track.duration > LONG_FORM_MIN_SECONDS;
+}
+
+class PlaybackRateManager {
+  private loaded = false;
+  private trackRates: Record<string, number> = {};
+  private defaults: RateDefaults = { music: 1, longForm: 1 };
+
+  getRate(track: RateTrack): number {
+    this.ensureLoaded();
+    return this.trackRates[track.id] ?? this.getDefaultRate(isLongForm(track));
+  }
+
+  getDefaultRate(longForm: boolean): number {
+    this.ensureLoaded();
+    return longForm ? this.defaults.longForm : this.defaults.music;
+  }
+
+  /** Whether the track has a rate of its own rather than its kind's default. */
+  hasTrackRate(trackId: string): boolean {
+    this.ensureLoaded();
+    return trackId in this.trackRates;
+  }
+
+  setTrackRate(track: RateTrack, rate: number): void {
+    this.ensureLoaded();
+    const next = { ...this.trackRates };
+    delete next[track.id];
+    // Matching the default needs no entry of its own
+    if (clampRate(rate) !== this.getDefaultRate(isLongForm(track))) {
+      next[track.id] = clampRate(rate);
+    }
+    // Insertion order doubles as recency
+    const ids = Object.keys(next);
+    for (const id of ids.slice(0, Math.max(0, ids.length - MAX_TRACK_RATES))) {
+      delete next[id];
+    }
+    this.trackRates = next;
+    writeJson(TRACK_RATES_KEY, next);
+  }
+
+  setDefaultRate(longForm: boolean, rate: number): void {
+    this.ensureLoaded();
+    this.defaults = longForm
+      ? { ...this.defaults, longForm: clampRate(rate) }
+      : { ...this.defaults, music: clampRate(rate) };
+    writeJson(DEFAULTS_KEY, this.defaults);
+  }
+
+  pitchAlgorithmFor(track: RateTrack): PitchAlgorithm {
+    return isLongForm(track) ? PitchAlgorithm.Voice : PitchAlgorithm.Music;
+  }
+
+  /**
+   * Apply the current rate for a TrackPlayer track. The rate stored on the
+   * track may be stale if it was changed after the queue was built, so the
+   * saved rate wins.
+   */
+  async apply(track: Partial<RateTrack> & { playbackRate?: number }): Promise<void> {
+    const rate = track.id
+      ? this.getRate({ id: track.id, duration: track.duration ?? 0, source: track.source })
+      : track.playbackRate ?? 1;
+    try {
+      await TrackPlayer.setRate(rate);
+      usePlayerStore.getState().setPlaybackRate(rate);
+    } catch (err) {
+      console.warn('[PlaybackRate] Failed to set rate:', err);
+    }
+  }
+
+  private ensureLoaded(): void {
+    if (this.loaded) return;
+    this.loaded = true;
+    this.trackRates = readJson<Record<string, number>>(TRACK_RATES_KEY) ?? {};
+    this.defaults = { ...this.defaults, ...readJson<Partial<RateDefaults>>(DEFAULTS_KEY) };
+  }
+}
+
+// Singleton instance
+export const playbackRates = new PlaybackRateManager();
@@ -6,28 +6,108 @@
  * Strategy:
  *   - Maintains a cache of resolved stream URLs keyed by videoId
  *   - When a track starts playing, resolves URLs for the next 2 tracks
- *   - Cache entries expire after 5 hours (stream URLs last ~6 hours)
- *   - If resolution fails, retries once before giving up
- *   - Tracks which client produced each URL so we can exclude failing clients
- *   - Blacklists permanently unplayable videoIds to avoid infinite retries
+ *   - Cache entries expire after 5 hours (stream URLs last ~6 hours), or
+ *     earlier if the URL's own expiresAt is closer
+ *   - The cache, failed clients and blacklist persist in MMKV, so a restart
+ *     doesn't resolve everything again. Failed clients are forgotten after
+ *     FAILED_CLIENT_TTL and blacklisted videos get another chance after
+ *     BLACKLIST_TTL
+ *   - If resolution fails, retries once before giving up, unless the error
+ *     says retrying can't help (removed, age-restricted, …)
+ *   - Failures surface as typed StreamResolutionErrors and are recorded in
+ *     playerStore.trackErrors for the queue badges; success clears them
+ *   - Tracks which client produced each URL so we can exclude failing clients,
+ *     and reports playback failures to clientStats so they rank lower
+ *   - Blacklists unplayable videoIds to avoid infinite retries
+ *   - Remembers the stream quality each URL was resolved at; entries from
+ *     another quality (setting or network changed) are skipped on read and
+ *     resolved again, but kept for when the quality switches back
  *
  * Usage:
  *   await prefetchManager.ensureResolved(videoId)  // get URL for immediate play
  *   prefetchManager.prefetchAhead(queue, currentIndex)  // background prefetch
  *   await prefetchManager.reResolve(videoId)  // evict + try different client
+ *   prefetchManager.forgetFailures(videoId)  // user asked to retry
  */
 
 import { resolveStreamUrl, type AudioStreamInfo } from './youtube';
 import { streamFileCacheManager } from './streamFileCacheManager';
+import { streamQuality, type StreamQuality } from './streamQuality';
+import { clientStats } from './clientStats';
+import { StreamResolutionError, toStreamError } from './streamErrors';
+import usePlayerStore from '../store/playerStore';
 
 interface CacheEntry {
   streamInfo: AudioStreamInfo;
   resolvedAt: number;
+  quality: StreamQuality;
 }
 
 // Cache TTL: 5 hours (stream URLs expire after ~6h, we refresh early)
 const CACHE_TTL = 5 * 60 * 60 * 1000;
 
+// Never hand out a URL this close to its expiresAt
+const EXPIRY_MARGIN = 10 * 60 * 1000;
+
+// A client that failed for a video is tried again for it after this long
+const FAILED_CLIENT_TTL = 12 * 60 * 60 * 1000;
+
+// Blacklisted videos are retried after this long
+const BLACKLIST_TTL = 24 * 60 * 60 * 1000;
+
+// Upper bound on persisted stream URLs (most recently resolved are kept)
+const MAX_PERSISTED_STREAMS = 200;
+
+const STREAMS_KEY = 'streams';
+const FAILED_CLIENTS_KEY = 'failed-clients';
+const BLACKLIST_KEY = 'blacklist';
+
+// Lazy-init MMKV so it doesn't crash when native module isn't loaded yet
+let _storage: any = null;
+function getStorage() {
+  if (!_storage) {
+    try {
+      const { createMMKV } = require('react-native-mmkv');
+      _storage = createMMKV({ id: 'prefetch-cache' });
+    } catch {
+      // MMKV unavailable (e.g. Expo Go) – fall back to in-memory only
+      const memory = new Map<string, string>();
+      _storage = {
+        set: (key: string, value: string) => memory.set(key, value),
+        getString: (key: string) => memory.get(key),
+        remove: (key: string) => memory.delete(key),
+      };
+    }
+  }
+  return _storage;
+}
+
+function readJson<T>(key: string): T | undefined {
+  try {
+    const raw = getStorage().getString(key);
+    return raw ? (JSON.parse(raw) as T) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function writeJson(key: string, value: unknown): void {
+  try {
+    getStorage().set(key, JSON.stringify(value));
+  } catch {
+    // Silently fail on storage errors
+  }
+}
+
+// Quality isn't checked here: entries of every quality are kept, since the
+// connection type isn't known yet at startup, and skipped when read
+function isFresh(entry: CacheEntry, now = Date.now()): boolean {
+  return (
+    now - entry.resolvedAt < CACHE_TTL &&
+    now < entry.streamInfo.expiresAt - EXPIRY_MARGIN
+  );
+}
+
 // How many tracks ahead to prefetch
 const PREFETCH_AHEAD = 2;
 
@@ -35,6 +115,7 @@ const PREFETCH_AHEAD = 2;
 const MAX_RETRIES_PER_VIDEO = 3;
 
 class PrefetchManager {
+  private loaded = false;
   private cache = new Map<string, CacheEntry>();
   private pendingResolves = new Map<string, Promise<AudioStreamInfo>>();
 
@@ -42,14 +123,15 @@ class PrefetchManager {
    * Tracks which clients have failed at the ExoPlayer level for each videoId.
    * This is different from the client failing to return data — this is when
    * the returned URL actually gets a 403/bad-status during playback.
+   * Maps videoId → client → when it failed.
    */
-  private failedClients = new Map<string, Set<string>>();
+  private failedClients = new Map<string, Map<string, number>>();
 
   /**
-   * VideoIds that have been permanently blacklisted after exhausting all
-   * client options. These will be auto-skipped.
+   * VideoIds that have been blacklisted after exhausting all client options,
+   * with when. These will be auto-skipped until BLACKLIST_TTL has passed.
    */
-  private blacklist = new Set<string>();
+  private blacklist = new Map<string, number>();
 
   /**
    * How many times we've attempted re-resolution for each videoId.
@@ -59,38 +141,40 @@ class PrefetchManager {
   /**
    * Get a resolved stream URL for a videoId.
    * Returns from cache if fresh, otherwise resolves it.
+   * Throws a StreamResolutionError.
    */
   async ensureResolved(videoId: string): Promise<AudioStreamInfo> {
-    // Blacklisted videos throw immediately
-    if (this.blacklist.has(videoId)) {
-      throw new Error(`[Prefetch] Video ${videoId} is blacklisted as unplayable`);
+    // Blacklisted videos throw immediately, with the reason they failed for
+    if (this.isBlacklisted(videoId)) {
+      const known = usePlayerStore.getState().trackErrors[videoId];
+      throw new StreamResolutionError(
+        known?.kind ?? 'all-clients-exhausted',
+        `Video ${videoId} is blacklisted as unplayable`,
+      );
     }
 
     // Check cache first
-    const cached = this.cache.get(videoId);
-    if (cached && Date.now() - cached.resolvedAt < CACHE_TTL) {
-      return cached.streamInfo;
-    }
+    const cached = this.getFreshEntry(videoId);
+    if (cached) return cached.streamInfo;
 
     // Check if there's already a pending resolve for this ID
     const pending = this.pendingResolves.get(videoId);
     if (pending) return pending;
 
     // Resolve with retry, excluding any clients that have failed playback
-    const excludeClients = this.failedClients.get(videoId);
-    const excludeArray = excludeClients ? Array.from(excludeClients) : undefined;
+    const excludeArray = this.getFailedClients(videoId);
 
     const promise = this.resolveWithRetry(videoId, 1, excludeArray);
     this.pendingResolves.set(videoId, promise);
 
     try {
       const streamInfo = await promise;
-      this.cache.set(videoId, {
-        streamInfo,
-        resolvedAt: Date.now(),
-      });
+      this.setCached(videoId, streamInfo);
       streamFileCacheManager.prime(videoId, streamInfo);
+      usePlayerStore.getState().setTrackError(videoId, null);
       return streamInfo;
+    } catch (err) {
+      throw this.recordError(videoId, err);
     } finally {
       this.pendingResolves.delete(videoId);
     }
@@ -99,49 +183,62 @@ class PrefetchManager {
   /**
    * Called when a playback error occurs (e.g. android-io-bad-http-status).
    * Evicts the cached URL, records which client failed, and tries to
-   * re-resolve with a different client.
+   * re-resolve with a different client. With a `reason` the failure also
+   * counts against the client in clientStats.
    *
-   * Returns a new AudioStreamInfo if successful, throws if all options exhausted.
+   * Returns a new AudioStreamInfo if successful, throws a
+   * StreamResolutionError if all options are exhausted.
    */
-  async reResolve(videoId: string, failedClient?: string): Promise<AudioStreamInfo> {
+  async reResolve(
+    videoId: string,
+    failedClient?: string,
+    reason?: string,
+  ): Promise<AudioStreamInfo> {
     // Record which client produced the bad URL.
     // Prefer explicit failedClient from PlaybackError metadata; fall back to cache.
+    this.ensureLoaded();
     const cached = this.cache.get(videoId);
     const clientToMark =
       failedClient?.trim() || cached?.streamInfo.clientUsed?.trim() || '';
     if (clientToMark) {
-      let failed = this.failedClients.get(videoId);
-      if (!failed) {
-        failed = new Set();
-        this.failedClients.set(videoId, failed);
-      }
-      failed.add(clientToMark.toUpperCase());
+      const failed = new Map(this.failedClients.get(videoId));
+      failed.set(clientToMark.toUpperCase(), Date.now());
+      this.failedClients.set(videoId, failed);
+      this.persistFailedClients();
       console.log(
-        `[Prefetch] Marked client ${clientToMark} as failed for ${videoId}. Failed clients: ${Array.from(failed).join(', ')}`,
+        `[Prefetch] Marked client ${clientToMark} as failed for ${videoId}. Failed clients: ${Array.from(failed.keys()).join(', ')}`,
       );
+      if (reason) {
+        clientStats.recordPlaybackFailure(clientToMark, reason);
+      }
     }
 
     // Evict the bad cache entry
-    this.cache.delete(videoId);
+    this.deleteCached(videoId);
 
     // Track retry count
     const count = (this.retryCount.get(videoId) ?? 0) + 1;
     this.retryCount.set(videoId, count);
 
     if (count > MAX_RETRIES_PER_VIDEO) {
-      this.blacklist.add(videoId);
+      this.addToBlacklist(videoId);
       console.warn(
         `[Prefetch] Video ${videoId} blacklisted after ${count} failed attempts`,
       );
-      throw new Error(`Video ${videoId} is unplayable after ${count} attempts`);
+      throw this.recordError(
+        videoId,
+        new StreamResolutionError(
+          'all-clients-exhausted',
+          `Video ${videoId} is unplayable after ${count} attempts`,
+        ),
+      );
     }
 
     // Cancel any pending resolve (it might be using the same bad client)
     this.pendingResolves.delete(videoId);
 
     // Re-resolve excluding all failed clients
-    const excludeClients = this.failedClients.get(videoId);
-    const excludeArray = excludeClients ? Array.from(excludeClients) : undefined;
+    const excludeArray = this.getFailedClients(videoId);
 
     console.log(
       `[Prefetch] Re-resolving ${videoId} (attempt ${count}/${MAX_RETRIES_PER_VIDEO}), excluding: ${excludeArray?.join(', ') ?? 'none'}`,
@@ -152,24 +249,22 @@ class PrefetchManager {
 
     try {
       const streamInfo = await promise;
-      this.cache.set(videoId, {
-        streamInfo,
-        resolvedAt: Date.now(),
-      });
+      this.setCached(videoId, streamInfo);
       streamFileCacheManager.prime(videoId, streamInfo);
       // Successful re-resolve resets consecutive failure counter.
       this.retryCount.delete(videoId);
+      usePlayerStore.getState().setTrackError(videoId, null);
       return streamInfo;
     } catch (err) {
       // Blacklist only after repeated consecutive failures.
       const latestCount = this.retryCount.get(videoId) ?? count;
       if (latestCount >= MAX_RETRIES_PER_VIDEO) {
-        this.blacklist.add(videoId);
+        this.addToBlacklist(videoId);
         console.warn(
           `[Prefetch] Video ${videoId} blacklisted — no working client found`,
         );
       }
-      throw err;
+      throw this.recordError(videoId, err);
     } finally {
       this.pendingResolves.delete(videoId);
     }
@@ -177,9 +272,32 @@ class PrefetchManager {
 
   /**
    * Check if a videoId has been blacklisted as unplayable.
+   * An expired blacklisting is forgotten, along with the video's retry count.
    */
   isBlacklisted(videoId: string): boolean {
-    return this.blacklist.has(videoId);
+    this.ensureLoaded();
+    const blacklistedAt = this.blacklist.get(videoId);
+    if (blacklistedAt === undefined) return false;
+    if (Date.now() - blacklistedAt < BLACKLIST_TTL) return true;
+
+    this.blacklist.delete(videoId);
+    this.retryCount.delete(videoId);
+    this.persistBlacklist();
+    return false;
+  }
+
+  /**
+   * Give a video a fresh start: unblacklist it, forget its failed clients
+   * and retry count, and clear its error. Used when the user taps Retry.
+   */
+  forgetFailures(videoId: string): void {
+    this.ensureLoaded();
+    this.blacklist.delete(videoId);
+    this.failedClients.delete(videoId);
+    this.retryCount.delete(videoId);
+    this.persistBlacklist();
+    this.persistFailedClients();
+    usePlayerStore.getState().setTrackError(videoId, null);
   }
 
   /**
@@ -198,11 +316,10 @@ class PrefetchManager {
       if (!videoId) continue;
 
       // Skip blacklisted
-      if (this.blacklist.has(videoId)) continue;
+      if (this.isBlacklisted(videoId)) continue;
 
       // Skip if already cached and fresh
-      const cached = this.cache.get(videoId);
-      if (cached && Date.now() - cached.resolvedAt < CACHE_TTL) continue;
+      if (this.getFreshEntry(videoId)) continue;
 
       // Skip if already resolving
       if (this.pendingResolves.has(videoId)) continue;
@@ -218,42 +335,166 @@ class PrefetchManager {
    * Check if a videoId has a cached (fresh) stream URL.
    */
   hasCached(videoId: string): boolean {
-    const cached = this.cache.get(videoId);
-    return !!cached && Date.now() - cached.resolvedAt < CACHE_TTL;
+    return !!this.getFreshEntry(videoId);
   }
 
   /**
    * Get cached URL without resolving (returns null if not cached).
    */
   getCached(videoId: string): AudioStreamInfo | null {
-    const cached = this.cache.get(videoId);
-    if (cached && Date.now() - cached.resolvedAt < CACHE_TTL) {
-      return cached.streamInfo;
-    }
-    return null;
+    return this.getFreshEntry(videoId)?.streamInfo ?? null;
   }
 
   /**
    * Clear all cached entries.
    */
   clearCache(): void {
+    this.ensureLoaded();
     this.cache.clear();
+    this.persistStreams();
   }
 
   /**
-   * Evict stale entries (older than TTL).
+   * Evict stale entries (older than TTL), expired failed clients and
+   * expired blacklistings.
    */
   evictStale(): void {
+    this.ensureLoaded();
     const now = Date.now();
     for (const [key, entry] of this.cache.entries()) {
-      if (now - entry.resolvedAt >= CACHE_TTL) {
+      if (!isFresh(entry, now)) {
         this.cache.delete(key);
       }
     }
+    this.pruneFailures(now);
+    this.persistStreams();
+    this.persistFailedClients();
+    this.persistBlacklist();
   }
 
   // ── Internal ───────────────────────────────────────────────────────────────
 
+  /** Type `err` and remember it as the video's error for the UI. */
+  private recordError(videoId: string, err: unknown): StreamResolutionError {
+    const error = toStreamError(err);
+    usePlayerStore.getState().setTrackError(videoId, error.toTrackError());
+    return error;
+  }
+
+  private getFreshEntry(videoId: string): CacheEntry | null {
+    this.ensureLoaded();
+    const entry = this.cache.get(videoId);
+    if (!entry) return null;
+    if (!isFresh(entry)) {
+      this.deleteCached(videoId);
+      return null;
+    }
+    // Kept for when the connection switches back; re-resolved meanwhile
+    return entry.quality === streamQuality.getCurrentQuality() ? entry : null;
+  }
+
+  private setCached(videoId: string, streamInfo: AudioStreamInfo): void {
+    this.ensureLoaded();
+    // Re-insert so Map order stays oldest → newest for persistStreams()
+    this.cache.delete(videoId);
+    this.cache.set(videoId, {
+      streamInfo,
+      resolvedAt: Date.now(),
+      quality: streamQuality.getCurrentQuality(),
+    });
+    this.persistStreams();
+  }
+
+  private deleteCached(videoId: string): void {
+    if (this.cache.delete(videoId)) {
+      this.persistStreams();
+    }
+  }
+
+  /** Clients that failed for `videoId` within FAILED_CLIENT_TTL. */
+  private getFailedClients(videoId: string): string[] | undefined {
+    this.ensureLoaded();
+    const failed = this.failedClients.get(videoId);
+    if (!failed) return undefined;
+    const now = Date.now();
+    const clients = Array.from(failed.entries())
+      .filter(([, failedAt]) => now - failedAt < FAILED_CLIENT_TTL)
+      .map(([client]) => client);
+    return clients.length > 0 ? clients : undefined;
+  }
+
+  private addToBlacklist(videoId: string): void {
+    this.blacklist.set(videoId, Date.now());
+    this.persistBlacklist();
+  }
+
+  private pruneFailures(now: number): void {
+    for (const [videoId, failed] of this.failedClients.entries()) {
+      const remaining = new Map(
+        Array.from(failed.entries()).filter(([, failedAt]) => now - failedAt < FAILED_CLIENT_TTL),
+      );
+      if (remaining.size > 0) {
+        this.failedClients.set(videoId, remaining);
+      } else {
+        this.failedClients.delete(videoId);
+      }
+    }
+    for (const [videoId, blacklistedAt] of this.blacklist.entries()) {
+      if (now - blacklistedAt >= BLACKLIST_TTL) {
+        this.blacklist.delete(videoId);
+        this.retryCount.delete(videoId);
+      }
+    }
+  }
+
+  private persistStreams(): void {
+    const entries = Array.from(this.cache.entries()).slice(-MAX_PERSISTED_STREAMS);
+    writeJson(STREAMS_KEY, Object.fromEntries(entries));
+  }
+
+  private persistFailedClients(): void {
+    const failedClients: Record<string, Record<string, number>> = {};
+    for (const [videoId, failed] of this.failedClients.entries()) {
+      failedClients[videoId] = Object.fromEntries(failed);
+    }
+    writeJson(FAILED_CLIENTS_KEY, failedClients);
+  }
+
+  private persistBlacklist(): void {
+    writeJson(BLACKLIST_KEY, Object.fromEntries(this.blacklist));
+  }
+
+  /** Restore persisted state, dropping whatever expired while the app was closed. */
+  private ensureLoaded(): void {
+    if (this.loaded) return;
+    this.loaded = true;
+    const now = Date.now();
+
+    const streams = readJson<Record<string, CacheEntry>>(STREAMS_KEY) ?? {};
+    const restored = Object.entries(streams)
+      .filter(([, entry]) => entry?.streamInfo?.url && isFresh(entry, now))
+      .sort(([, a], [, b]) => a.resolvedAt - b.resolvedAt);
+    this.cache = new Map(restored);
+
+    const failedClients = readJson<Record<string, Record<string, number>>>(FAILED_CLIENTS_KEY) ?? {};
+    for (const [videoId, failed] of Object.entries(failedClients)) {
+      this.failedClients.set(videoId, new Map(Object.entries(failed)));
+    }
+
+    const blacklist = readJson<Record<string, number>>(BLACKLIST_KEY) ?? {};
+    for (const [videoId, blacklistedAt] of Object.entries(blacklist)) {
+      this.blacklist.set(videoId, blacklistedAt);
+    }
+
+    this.pruneFailures(now);
+    this.persistStreams();
+    this.persistFailedClients();
+    this.persistBlacklist();
+    if (restored.length > 0) {
+      console.log(`[Prefetch] Restored ${restored.length} stream URLs`);
+    }
+  }
+
   private async resolveWithRetry(
     videoId: string,
     retries = 1,
@@ -262,7 +503,7 @@ class PrefetchManager {
     try {
       return await resolveStreamUrl(videoId, excludeClients);
     } catch (err) {
-      if (retries > 0) {
+      if (retries > 0 && toStreamError(err).retryable) {
         // Wait a beat before retrying
         await new Promise((r) => setTimeout(r, 500));
         return this.resolveWithRetry(videoId, retries - 1, excludeClients);
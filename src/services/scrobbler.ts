@@ -0,0 +1,623 @@
+/**
+ * Scrobbler
+ *
+ * Sends "now playing" updates and scrobbles to Last.fm and ListenBrainz.
+ * Both services sit behind the ScrobblerBackend interface and each has a
+ * configurable endpoint, so self-hosted ListenBrainz or a local test server
+ * work the same way as the public APIs.
+ *
+ * Strategy:
+ *   - PlaybackService reports active-track changes and progress events
+ *   - Listened time only grows while position advances normally; seeking
+ *     forward doesn't count towards a scrobble
+ *   - A track is scrobbled once it's longer than 30s and has been played for
+ *     half its length or 4 minutes, whichever comes first
+ *   - Scrobbles go into a per-backend queue in MMKV. Failed submissions stay
+ *     queued and are retried in batches with backoff, immediately after
+ *     any request succeeds, and when the device comes back online
+ *
+ * Usage:
+ *   scrobbler.init()
+ *   scrobbler.handleActiveTrackChanged(track, lastPosition)
+ *   scrobbler.handleProgress(position, duration)
+ *   scrobbler.updateSettings({ listenbrainz: { enabled: true, token } })
+ *   await scrobbler.connectLastfm(username, password)
+ */
+
+import CryptoJS from 'crypto-js';
+import * as Network from 'expo-network';
+
+const SETTINGS_KEY = 'settings';
+const QUEUE_PREFIX = 'queue:';
+
+const MIN_SCROBBLE_DURATION_SECONDS = 30;
+const MAX_SCROBBLE_THRESHOLD_SECONDS = 4 * 60;
+// Progress jumps bigger than this are seeks, not listening
+const MAX_PROGRESS_STEP_SECONDS = 20;
+// Ending this close to the track's end means a repeat, not a hot-swap
+const REPEAT_MARGIN_SECONDS = 5;
+
+const BATCH_SIZE = 50;
+const MAX_QUEUE_SIZE = 5000;
+const REQUEST_TIMEOUT_MS = 15000;
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 30 * 60 * 1000;
+// Wait for the user to stop typing before retrying with new settings
+const SETTINGS_FLUSH_DELAY_MS = 2000;
+
+const CLIENT_NAME = 'Spooftify';
+
+export type ScrobblerName = 'lastfm' | 'listenbrainz';
+
+/** One listen, as submitted to a scrobbling service. */
+export interface Scrobble {
+  trackId: string;
+  title: string;
+  artist: string;
+  album?: string;
+  duration: number; // seconds
+  timestamp: number; // unix seconds when playback started
+}
+
+export interface ScrobblerSettings {
+  lastfm: {
+    enabled: boolean;
+    endpoint: string;
+    apiKey: string;
+    apiSecret: string;
+    username: string;
+    sessionKey: string;
+  };
+  listenbrainz: {
+    enabled: boolean;
+    endpoint: string;
+    token: string;
+  };
+}
+
+export interface ScrobblerBackend {
+  readonly name: ScrobblerName;
+  isConfigured(settings: ScrobblerSettings): boolean;
+  updateNowPlaying(settings: ScrobblerSettings, track: Scrobble): Promise<void>;
+  /** Submit up to BATCH_SIZE scrobbles in one request. */
+  submit(settings: ScrobblerSettings, scrobbles: Scrobble[]): Promise<void>;
+}
+
+/** A failed submission. Retryable failures keep the scrobbles queued. */
+export class ScrobbleError extends Error {
+  constructor(message: string, readonly retryable: boolean) {
+    super(message);
+    this.name = 'ScrobbleError';
+  }
+}
+
+const DEFAULT_SETTINGS: ScrobblerSettings = {
+  lastfm: {
+    enabled: false,
+    endpoint: 'https://ws.audioscrobbler.com/2.0/',
+    apiKey: (process.env.EXPO_PUBLIC_LASTFM_API_KEY ?? '').trim(),
+    apiSecret: (process.env.EXPO_PUBLIC_LASTFM_API_SECRET ?? '').trim(),
+    username: '',
+    sessionKey: '',
+  },
+  listenbrainz: {
+    enabled: false,
+    endpoint: 'https://api.listenbrainz.org',
+    token: '',
+  },
+};
+
+// Lazy-init MMKV so it doesn't crash when native module isn't loaded yet
+let _storage: any = null;
+function getStorage() {
+  if (!_storage) {
+    try {
+      const { createMMKV } = require('react-native-mmkv');
+      _storage = createMMKV({ id: 'scrobbler' });
+    } catch {
+      // MMKV unavailable (e.g. Expo Go) – fall back to in-memory only
+      const memory = new Map<string, string>();
+      _storage = {
+        set: (key: string, value: string) => memory.set(key, value),
+        getString: (key: string) => memory.get(key),
+      };
+    }
+  }
+  return _storage;
+}
+
+function scrobbleLog(message: string) {
+  console.log(`[Scrobbler] ${message}`);
+}
+
+function scrobbleWarn(message: string, extra?: unknown) {
+  if (extra !== undefined) {
+    console.warn(`[Scrobbler] ${message}`, extra);
+    return;
+  }
+  console.warn(`[Scrobbler] ${message}`);
+}
+
+async function postWithTimeout(url: string, init: RequestInit): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    return await fetch(url, { ...init, method: 'POST', signal: controller.signal });
+  } catch (err: any) {
+    // Offline, DNS failure or timeout — always worth retrying
+    throw new ScrobbleError(err?.message ?? 'Network request failed', true);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 401 || status === 403 || status === 429 || status >= 500;
+}
+
+// ── Last.fm ──────────────────────────────────────────────────────────────────
+
+// Service offline, temporarily unavailable, rate limited, and auth problems
+// the user can fix by reconnecting
+const LASTFM_RETRYABLE_ERRORS = new Set([4, 9, 10, 11, 14, 16, 26, 29]);
+
+function signLastfmParams(params: Record<string, string>, secret: string): string {
+  const base = Object.keys(params)
+    .sort()
+    .map((key) => `${key}${params[key]}`)
+    .join('');
+  return CryptoJS.MD5(base + secret).toString();
+}
+
+async function callLastfm(
+  settings: ScrobblerSettings,
+  params: Record<string, string>,
+): Promise<any> {
+  const { endpoint, apiKey, apiSecret } = settings.lastfm;
+  const signed = { ...params, api_key: apiKey };
+  const body = new URLSearchParams({
+    ...signed,
+    api_sig: signLastfmParams(signed, apiSecret),
+    format: 'json',
+  });
+
+  const response = await postWithTimeout(endpoint, {
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: body.toString(),
+  });
+
+  let payload: any = null;
+  try {
+    payload = await response.json();
+  } catch {
+    // no-op, handled below
+  }
+
+  if (payload?.error) {
+    const code = Number(payload.error);
+    throw new ScrobbleError(
+      `Last.fm error ${code}: ${payload.message ?? 'unknown'}`,
+      LASTFM_RETRYABLE_ERRORS.has(code),
+    );
+  }
+  if (!response.ok) {
+    throw new ScrobbleError(`Last.fm HTTP ${response.status}`, isRetryableStatus(response.status));
+  }
+  return payload;
+}
+
+export const lastfmBackend: ScrobblerBackend = {
+  name: 'lastfm',
+
+  isConfigured(settings) {
+    const { enabled, apiKey, apiSecret, sessionKey } = settings.lastfm;
+    return enabled && !!apiKey && !!apiSecret && !!sessionKey;
+  },
+
+  async updateNowPlaying(settings, track) {
+    await callLastfm(settings, {
+      method: 'track.updateNowPlaying',
+      sk: settings.lastfm.sessionKey,
+      artist: track.artist,
+      track: track.title,
+      ...(track.album ? { album: track.album } : {}),
+      ...(track.duration > 0 ? { duration: String(Math.round(track.duration)) } : {}),
+    });
+  },
+
+  async submit(settings, scrobbles) {
+    const params: Record<string, string> = {
+      method: 'track.scrobble',
+      sk: settings.lastfm.sessionKey,
+    };
+    scrobbles.forEach((s, i) => {
+      params[`artist[${i}]`] = s.artist;
+      params[`track[${i}]`] = s.title;
+      params[`timestamp[${i}]`] = String(s.timestamp);
+      if (s.album) params[`album[${i}]`] = s.album;
+      if (s.duration > 0) params[`duration[${i}]`] = String(Math.round(s.duration));
+    });
+    await callLastfm(settings, params);
+  },
+};
+
+// ── ListenBrainz ─────────────────────────────────────────────────────────────
+
+function toListenBrainzPayload(track: Scrobble, includeTimestamp: boolean) {
+  return {
+    ...(includeTimestamp ? { listened_at: track.timestamp } : {}),
+    track_metadata: {
+      artist_name: track.artist,
+      track_name: track.title,
+      ...(track.album ? { release_name: track.album } : {}),
+      additional_info: {
+        media_player: CLIENT_NAME,
+        submission_client: CLIENT_NAME,
+        ...(track.duration > 0 ? { duration_ms: Math.round(track.duration * 1000) } : {}),
+      },
+    },
+  };
+}
+
+async function submitListenBrainz(
+  settings: ScrobblerSettings,
+  listenType: 'playing_now' | 'single' | 'import',
+  payload: unknown[],
+): Promise<void> {
+  const { endpoint, token } = settings.listenbrainz;
+  const response = await postWithTimeout(`${endpoint.replace(/\/+$/, '')}/1/submit-listens`, {
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Token ${token}`,
+    },
+    body: JSON.stringify({ listen_type: listenType, payload }),
+  });
+
+  if (!response.ok) {
+    let reason = `HTTP ${response.status}`;
+    try {
+      const body = await response.json();
+      if (body?.error) reason = `${reason}: ${body.error}`;
+    } catch {
+      // no-op
+    }
+    throw new ScrobbleError(`ListenBrainz ${reason}`, isRetryableStatus(response.status));
+  }
+}
+
+export const listenBrainzBackend: ScrobblerBackend = {
+  name: 'listenbrainz',
+
+  isConfigured(settings) {
+    const { enabled, endpoint, token } = settings.listenbrainz;
+    return enabled && !!endpoint && !!token;
+  },
+
+  async updateNowPlaying(settings, track) {
+    await submitListenBrainz(settings, 'playing_now', [toListenBrainzPayload(track, false)]);
+  },
+
+  async submit(settings, scrobbles) {
+    await submitListenBrainz(
+      settings,
+      scrobbles.length === 1 ? 'single' : 'import',
+      scrobbles.map((s) => toListenBrainzPayload(s, true)),
+    );
+  },
+};
+
+// ── Scrobbler ────────────────────────────────────────────────────────────────
+
+/** Raw track metadata as stored on TrackPlayer tracks. */
+interface ActiveTrackMeta {
+  id?: string;
+  title?: string;
+  artist?: string;
+  album?: string;
+  duration?: number;
+}
+
+interface PendingPlay {
+  track: Scrobble;
+  listenedSeconds: number;
+  lastPosition: number;
+  scrobbled: boolean;
+}
+
+class Scrobbler {
+  private backends: ScrobblerBackend[] = [lastfmBackend, listenBrainzBackend];
+  private settings: ScrobblerSettings | null = null;
+  private current: PendingPlay | null = null;
+
+  private flushing = new Set<ScrobblerName>();
+  private retryTimers = new Map<ScrobblerName, ReturnType<typeof setTimeout>>();
+  private retryAttempts = new Map<ScrobblerName, number>();
+  private settingsFlushTimer: ReturnType<typeof setTimeout> | null = null;
+  private initialized = false;
+  private online = true;
+
+  /**
+   * Send what's still queued from last session, and again whenever the
+   * device comes back online.
+   */
+  init(): void {
+    if (this.initialized) return;
+    this.initialized = true;
+    this.flushAll();
+
+    try {
+      Network.addNetworkStateListener(({ isConnected, isInternetReachable }) => {
+        const online = !!isConnected && isInternetReachable !== false;
+        const cameOnline = online && !this.online;
+        this.online = online;
+        if (cameOnline) {
+          scrobbleLog('Back online, retrying queued scrobbles');
+          this.retryAttempts.clear();
+          this.flushAll();
+        }
+      });
+    } catch (err) {
+      scrobbleWarn('Network state unavailable', err);
+    }
+  }
+
+  // ── Settings ─────────────────────────────────────────────────────────────
+
+  getSettings(): ScrobblerSettings {
+    if (!this.settings) {
+      let stored: Partial<ScrobblerSettings> = {};
+      try {
+        const raw = getStorage().getString(SETTINGS_KEY);
+        if (raw) stored = JSON.parse(raw);
+      } catch {
+        // Silently fail on parse/storage errors
+      }
+      this.settings = {
+        lastfm: { ...DEFAULT_SETTINGS.lastfm, ...stored.lastfm },
+        listenbrainz: { ...DEFAULT_SETTINGS.listenbrainz, ...stored.listenbrainz },
+      };
+    }
+    return this.settings;
+  }
+
+  updateSettings(patch: {
+    lastfm?: Partial<ScrobblerSettings['lastfm']>;
+    listenbrainz?: Partial<ScrobblerSettings['listenbrainz']>;
+  }): ScrobblerSettings {
+    const current = this.getSettings();
+    this.settings = {
+      lastfm: { ...current.lastfm, ...patch.lastfm },
+      listenbrainz: { ...current.listenbrainz, ...patch.listenbrainz },
+    };
+    try {
+      getStorage().set(SETTINGS_KEY, JSON.stringify(this.settings));
+    } catch {
+      // Silently fail on storage errors
+    }
+
+    // New credentials may unblock queued scrobbles
+    if (this.settingsFlushTimer) clearTimeout(this.settingsFlushTimer);
+    this.settingsFlushTimer = setTimeout(() => {
+      this.settingsFlushTimer = null;
+      this.retryAttempts.clear();
+      this.flushAll();
+    }, SETTINGS_FLUSH_DELAY_MS);
+    return this.settings;
+  }
+
+  /** Exchange Last.fm credentials for a session key (auth.getMobileSession). */
+  async connectLastfm(username: string, password: string): Promise<void> {
+    const settings = this.getSettings();
+    if (!settings.lastfm.apiKey || !settings.lastfm.apiSecret) {
+      throw new Error('Enter a Last.fm API key and secret first');
+    }
+
+    const payload = await callLastfm(settings, {
+      method: 'auth.getMobileSession',
+      username,
+      password,
+    });
+    const sessionKey = payload?.session?.key;
+    if (!sessionKey) {
+      throw new Error('Last.fm did not return a session');
+    }
+
+    this.updateSettings({
+      lastfm: {
+        enabled: true,
+        username: payload.session.name ?? username,
+        sessionKey,
+      },
+    });
+  }
+
+  disconnectLastfm(): void {
+    this.updateSettings({ lastfm: { username: '', sessionKey: '' } });
+  }
+
+  /** Number of scrobbles waiting to be sent, per backend. */
+  getPendingCount(name: ScrobblerName): number {
+    return this.readQueue(name).length;
+  }
+
+  // ── Playback events ──────────────────────────────────────────────────────
+
+  /**
+   * Called on every active-track change. The same track becoming active again
+   * (a stream hot-swap) continues the current play unless it had reached the
+   * end, which means it was repeated.
+   */
+  handleActiveTrackChanged(track: ActiveTrackMeta | null | undefined, lastPosition?: number): void {
+    const current = this.current;
+    if (current && track?.id === current.track.trackId) {
+      const duration = current.track.duration;
+      const repeated =
+        lastPosition !== undefined && duration > 0 && lastPosition >= duration - REPEAT_MARGIN_SECONDS;
+      if (!repeated) return;
+    }
+
+    this.current = null;
+    if (!track?.id || !track.title || !track.artist) return;
+
+    const scrobble: Scrobble = {
+      trackId: track.id,
+      title: track.title,
+      artist: track.artist,
+      album: track.album || undefined,
+      duration: track.duration ?? 0,
+      timestamp: Math.floor(Date.now() / 1000),
+    };
+    this.current = { track: scrobble, listenedSeconds: 0, lastPosition: 0, scrobbled: false };
+
+    if (scrobble.duration > MIN_SCROBBLE_DURATION_SECONDS) {
+      void this.sendNowPlaying(scrobble);
+    }
+  }
+
+  /** Called from PlaybackProgressUpdated while the track is playing. */
+  handleProgress(position: number, duration?: number): void {
+    const current = this.current;
+    if (!current) return;
+
+    if (duration && duration > 0 && current.track.duration <= 0) {
+      current.track.duration = duration;
+    }
+
+    const step = position - current.lastPosition;
+    if (step > 0 && step <= MAX_PROGRESS_STEP_SECONDS) {
+      current.listenedSeconds += step;
+    }
+    current.lastPosition = position;
+
+    const trackDuration = current.track.duration;
+    if (current.scrobbled || trackDuration <= MIN_SCROBBLE_DURATION_SECONDS) return;
+
+    const threshold = Math.min(trackDuration / 2, MAX_SCROBBLE_THRESHOLD_SECONDS);
+    if (current.listenedSeconds >= threshold) {
+      current.scrobbled = true;
+      this.enqueue(current.track);
+    }
+  }
+
+  // ── Queue ────────────────────────────────────────────────────────────────
+
+  /** Retry everything that's queued right away. */
+  flushAll(): void {
+    for (const backend of this.backends) {
+      this.clearRetryTimer(backend.name);
+      void this.flush(backend);
+    }
+  }
+
+  private enqueue(track: Scrobble): void {
+    const settings = this.getSettings();
+    for (const backend of this.backends) {
+      if (!backend.isConfigured(settings)) continue;
+      const queue = this.readQueue(backend.name);
+      queue.push(track);
+      this.writeQueue(backend.name, queue.slice(-MAX_QUEUE_SIZE));
+      void this.flush(backend);
+    }
+    scrobbleLog(`Scrobbled ${track.artist} – ${track.title}`);
+  }
+
+  private async sendNowPlaying(track: Scrobble): Promise<void> {
+    const settings = this.getSettings();
+    for (const backend of this.backends) {
+      if (!backend.isConfigured(settings)) continue;
+      try {
+        await backend.updateNowPlaying(settings, track);
+        // Connectivity is fine — good moment to send anything left over
+        if (this.readQueue(backend.name).length > 0 && !this.flushing.has(backend.name)) {
+          this.clearRetryTimer(backend.name);
+          void this.flush(backend);
+        }
+      } catch (err) {
+        scrobbleWarn(`Now playing update failed (${backend.name})`, err);
+      }
+    }
+  }
+
+  private async flush(backend: ScrobblerBackend): Promise<void> {
+    const name = backend.name;
+    if (this.flushing.has(name) || this.retryTimers.has(name)) return;
+    this.flushing.add(name);
+
+    try {
+      while (true) {
+        const settings = this.getSettings();
+        if (!backend.isConfigured(settings)) return;
+
+        const queue = this.readQueue(name);
+        if (queue.length === 0) return;
+
+        const batch = queue.slice(0, BATCH_SIZE);
+        try {
+          await backend.submit(settings, batch);
+          this.retryAttempts.delete(name);
+        } catch (err: any) {
+          if (err instanceof ScrobbleError && !err.retryable) {
+            scrobbleWarn(`Dropping ${batch.length} rejected scrobble(s) (${name})`, err.message);
+          } else {
+            this.scheduleRetry(backend, err);
+            return;
+          }
+        }
+
+        // Drop the batch we just handled; new scrobbles may have been appended
+        const remaining = this.readQueue(name).filter(
+          (s) => !batch.some((b) => b.trackId === s.trackId && b.timestamp === s.timestamp),
+        );
+        this.writeQueue(name, remaining);
+      }
+    } finally {
+      this.flushing.delete(name);
+    }
+  }
+
+  private scheduleRetry(backend: ScrobblerBackend, err: unknown): void {
+    const name = backend.name;
+    const attempts = (this.retryAttempts.get(name) ?? 0) + 1;
+    this.retryAttempts.set(name, attempts);
+
+    const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempts - 1), RETRY_MAX_DELAY_MS);
+    scrobbleWarn(
+      `Submission failed (${name}), retrying in ${Math.round(delay / 1000)}s`,
+      (err as any)?.message ?? err,
+    );
+
+    this.clearRetryTimer(name);
+    this.retryTimers.set(name, setTimeout(() => {
+      this.retryTimers.delete(name);
+      void this.flush(backend);
+    }, delay));
+  }
+
+  private clearRetryTimer(name: ScrobblerName): void {
+    const timer = this.retryTimers.get(name);
+    if (timer) {
+      clearTimeout(timer);
+      this.retryTimers.delete(name);
+    }
+  }
+
+  private readQueue(name: ScrobblerName): Scrobble[] {
+    try {
+      const raw = getStorage().getString(`${QUEUE_PREFIX}${name}`);
+      return raw ? JSON.parse(raw) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private writeQueue(name: ScrobblerName, queue: Scrobble[]): void {
+    try {
+      getStorage().set(`${QUEUE_PREFIX}${name}`, JSON.stringify(queue));
+    } catch {
+      // Silently fail on storage errors
+    }
+  }
+}
+
+// Singleton instance
+export const scrobbler = new Scrobbler();
@@ -0,0 +1,106 @@
+/**
+ * Search Categories
+ *
+ * The genre tiles on the search screen: YT Music's "Moods & genres", cached
+ * in MMKV so they show up instantly on the next launch.
+ *
+ * Strategy:
+ *   - Stale-while-revalidate: the cached tiles (or the built-in ones on a
+ *     first launch) are shown while refreshCategories() fetches the list
+ *   - Known genres keep their colors; new ones cycle through the built-in
+ *     tile colors
+ *   - Built-in tiles have no params and run a text search instead of
+ *     opening a category page. They stay up when the fetch fails
+ *
+ * Usage:
+ *   const [categories, setCategories] = useState(getCachedCategories)
+ *   const fresh = await refreshCategories()
+ */
+
+import { getMoodCategories, type YTMoodCategory } from './youtube';
+
+export interface SearchCategory {
+  id: string;
+  name: string;
+  color: string;
+  params?: string; // YT Music "Moods & genres" page; text search without
+}
+
+const BUILT_IN_CATEGORIES: SearchCategory[] = [
+  { id: 'pop', name: 'Pop', color: '#E8115B' },
+  { id: 'hiphop', name: 'Hip-Hop', color: '#BA5D07' },
+  { id: 'rock', name: 'Rock', color: '#E61E32' },
+  { id: 'indie', name: 'Indie', color: '#608108' },
+  { id: 'electronic', name: 'Electronic', color: '#7358FF' },
+  { id: 'rnb', name: 'R&B', color: '#DC148C' },
+  { id: 'jazz', name: 'Jazz', color: '#477D95' },
+  { id: 'classical', name: 'Classical', color: '#8C67AB' },
+  { id: 'ambient', name: 'Ambient', color: '#1E3264' },
+  { id: 'lofi', name: 'Lo-Fi', color: '#503750' },
+  { id: 'chill', name: 'Chill', color: '#2D46B9' },
+  { id: 'workout', name: 'Workout', color: '#E13300' },
+];
+
+const CATEGORIES_CACHE_KEY = 'mood-categories';
+
+// Lazy-init MMKV so it doesn't crash when native module isn't loaded yet
+let _storage: any = null;
+function getStorage() {
+  if (!_storage) {
+    try {
+      const { createMMKV } = require('react-native-mmkv');
+      _storage = createMMKV({ id: 'search-categories' });
+    } catch {
+      // MMKV unavailable (e.g. Expo Go) – fall back to in-memory only
+      const memory = new Map<string, string>();
+      _storage = {
+        set: (key: string, value: string) => memory.set(key, value),
+        getString: (key: string) => memory.get(key),
+      };
+    }
+  }
+  return _storage;
+}
+
+function toCategories(moods: YTMoodCategory[]): SearchCategory[] {
+  const seen = new Set<string>();
+  const categories: SearchCategory[] = [];
+  for (const mood of moods) {
+    const id = mood.title.toLowerCase().replace(/[^a-z0-9]/g, '') || mood.params;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    categories.push({
+      id,
+      name: mood.title,
+      color: BUILT_IN_CATEGORIES[categories.length % BUILT_IN_CATEGORIES.length].color,
+      params: mood.params,
+    });
+  }
+  return categories;
+}
+
+/** Tiles from the last successful refresh, or the built-in ones. */
+export function getCachedCategories(): SearchCategory[] {
+  try {
+    const raw = getStorage().getString(CATEGORIES_CACHE_KEY);
+    if (raw) return JSON.parse(raw);
+  } catch {
+    // Silently fail on parse/storage errors
+  }
+  return BUILT_IN_CATEGORIES;
+}
+
+/**
+ * Fetch YT Music's categories and cache them. Resolves to an empty list when
+ * YT Music returned none, leaving the cache alone; throws when the fetch fails.
+ */
+export async function refreshCategories(): Promise<SearchCategory[]> {
+  const categories = toCategories(await getMoodCategories());
+  if (categories.length === 0) return [];
+  try {
+    getStorage().set(CATEGORIES_CACHE_KEY, JSON.stringify(categories));
+  } catch {
+    // Silently fail on storage errors
+  }
+  return categories;
+}
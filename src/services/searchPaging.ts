@@ -0,0 +1,300 @@
+/**
+ * Search Paging
+ *
+ * Fetches search results page by page for each search filter and turns them
+ * into result rows, combining the sources a filter covers.
+ *
+ * Strategy:
+ *   - Songs come from YT Music and JioSaavn, merged into one row per song
+ *     (searchRanking). Albums and playlists come from both sources too;
+ *     videos and artists only from YT Music, and the JioSaavn filter lists
+ *     its songs, albums and playlists
+ *   - Each source pages on its own. The cursor keeps where every source
+ *     left off, and a source drops out of it once it has no more pages
+ *   - A source that fails keeps its previous cursor, so loading more retries
+ *     the page instead of ending the results
+ *   - Later pages are appended without duplicates (appendUnique); songs
+ *     another source already has a row for join that row
+ *
+ * Usage:
+ *   const page = await fetchSearchPage(query, 'song')
+ *   const more = await fetchSearchPage(query, 'song', page.cursor)
+ *   const items = appendUnique(page.items, more.items)
+ */
+
+import type { SearchArtist, SearchCollection, Track } from '../types';
+import {
+  getSearchContinuation,
+  isPlayableResult,
+  searchYTMusicByType,
+  ytResultToTrack,
+  type YTSearchFilter,
+  type YTSearchPage,
+  type YTSearchResult,
+} from './youtube';
+import {
+  jioSaavnResultToTrack,
+  searchJioSaavnCollections,
+  searchJioSaavnSongsPage,
+  type JioSaavnCollectionResult,
+  type JioSaavnPage,
+} from './jiosaavn';
+import { findSameSongRow, mergeSearchResults, type MergedTrack } from './searchRanking';
+
+export type SearchFilter = YTSearchFilter | 'jiosaavn';
+
+// JioSaavn results fetched per page
+const SAAVN_PAGE_SIZE = 15;
+const SAAVN_COLLECTION_PAGE_SIZE = 10;
+
+// Songs found by several sources share a row, with a switcher between them
+export interface TrackResultItem extends MergedTrack {
+  kind: 'song' | 'video';
+}
+
+export interface CollectionResultItem extends SearchCollection {
+  key: string;
+}
+
+export interface ArtistResultItem extends SearchArtist {
+  key: string;
+}
+
+export type SearchResultItem = TrackResultItem | CollectionResultItem | ArtistResultItem;
+
+/** Where each source of a search left off; unset once it has no more pages. */
+export interface SearchCursor {
+  youtube?: string;
+  saavnSongs?: number;
+  saavnAlbums?: number;
+  saavnPlaylists?: number;
+}
+
+export interface SearchPage {
+  items: SearchResultItem[];
+  cursor: SearchCursor;
+}
+
+function trackItem(track: Track, kind: TrackResultItem['kind']): TrackResultItem {
+  return { kind, track, versions: [track], relevance: 0 };
+}
+
+function songItems(query: string, sources: Track[][]): TrackResultItem[] {
+  return mergeSearchResults(query, sources).map((row) => ({ ...row, kind: 'song' }));
+}
+
+export function isTrackItem(item: SearchResultItem): item is TrackResultItem {
+  return item.kind === 'song' || item.kind === 'video';
+}
+
+function ytBrowseItem(result: YTSearchResult): SearchResultItem | null {
+  const id = result.browseId || result.videoId;
+  if (!id) return null;
+  if (result.entityType === 'artist') {
+    return {
+      kind: 'artist',
+      key: id,
+      name: result.title,
+      subtitle: result.artist,
+      artwork: result.artwork,
+    };
+  }
+  if (result.entityType !== 'album' && result.entityType !== 'playlist') return null;
+  return {
+    kind: result.entityType,
+    key: id,
+    source: 'youtube',
+    id,
+    title: result.title,
+    subtitle: [result.artist, result.album].filter(Boolean).join(' • '),
+    artwork: result.artwork,
+  };
+}
+
+function saavnCollectionItem(result: JioSaavnCollectionResult): CollectionResultItem {
+  const songs = result.songCount > 0
+    ? `${result.songCount} ${result.songCount === 1 ? 'song' : 'songs'}`
+    : '';
+  return {
+    kind: result.entityType,
+    key: `saavn:${result.entityType}:${result.id}`,
+    source: 'jiosaavn',
+    id: result.id,
+    title: result.title,
+    subtitle: [result.subtitle, songs].filter(Boolean).join(' • '),
+    artwork: result.artwork,
+  };
+}
+
+/**
+ * The value of a settled request, `fallback` if it failed. Fallbacks carry
+ * the source's previous cursor, so scrolling again retries the failed page.
+ */
+function settled<T>(result: PromiseSettledResult<T>, fallback: T): T {
+  return result.status === 'fulfilled' ? result.value : fallback;
+}
+
+export function resultKey(item: SearchResultItem): string {
+  return `${item.kind}-${isTrackItem(item) ? item.track.id : item.key}`;
+}
+
+/**
+ * `items` added to `existing`, minus rows already there (pages overlap).
+ * Songs another source already has a row for become a version of that row.
+ */
+export function appendUnique(existing: SearchResultItem[], items: SearchResultItem[]): SearchResultItem[] {
+  const merged = existing.map((item) =>
+    isTrackItem(item) ? { ...item, versions: [...item.versions] } : item);
+  const trackRows = merged.filter(isTrackItem);
+  const seen = new Set(
+    merged.flatMap((item) =>
+      isTrackItem(item) ? item.versions.map((v) => `${item.kind}-${v.id}`) : [resultKey(item)]),
+  );
+
+  for (const item of items) {
+    if (!isTrackItem(item)) {
+      if (seen.has(resultKey(item))) continue;
+      seen.add(resultKey(item));
+      merged.push(item);
+      continue;
+    }
+
+    const fresh = item.versions.filter((version) => {
+      if (seen.has(`${item.kind}-${version.id}`)) return false;
+      seen.add(`${item.kind}-${version.id}`);
+      const row = findSameSongRow(trackRows, version);
+      if (!row) return true;
+      row.versions.push(version);
+      return false;
+    });
+    if (fresh.length === 0) continue;
+
+    const row = { ...item, track: fresh[0], versions: fresh };
+    trackRows.push(row);
+    merged.push(row);
+  }
+  return merged;
+}
+
+export function hasMorePages(cursor: SearchCursor): boolean {
+  return Object.values(cursor).some((value) => value !== undefined);
+}
+
+// Without a cursor these fetch the first page; with one, the next page of
+// each source that has more, and nothing for the rest.
+
+function nextYTPage(
+  query: string,
+  filter: YTSearchFilter,
+  cursor?: SearchCursor,
+): Promise<YTSearchPage> {
+  if (!cursor) return searchYTMusicByType(query, filter);
+  return cursor.youtube
+    ? getSearchContinuation(cursor.youtube, filter)
+    : Promise.resolve({ results: [] });
+}
+
+function nextSaavnPage<T>(
+  page: number | undefined,
+  fetchPage: (page: number) => Promise<JioSaavnPage<T>>,
+): Promise<JioSaavnPage<T>> {
+  return page ? fetchPage(page) : Promise.resolve({ results: [] });
+}
+
+function ytBrowseItems(results: YTSearchResult[]): SearchResultItem[] {
+  return results.map(ytBrowseItem).filter((item): item is SearchResultItem => !!item);
+}
+
+/** Fetch a page of results for a filter and turn them into rows. */
+export async function fetchSearchPage(
+  query: string,
+  filter: SearchFilter,
+  cursor?: SearchCursor,
+): Promise<SearchPage> {
+  switch (filter) {
+    case 'song': {
+      const [ytResponse, saavnResponse] = await Promise.allSettled([
+        nextYTPage(query, 'song', cursor),
+        nextSaavnPage(cursor ? cursor.saavnSongs : 1, (page) =>
+          searchJioSaavnSongsPage(query, page, SAAVN_PAGE_SIZE)),
+      ]);
+      const ytPage = settled(ytResponse, { results: [], continuation: cursor?.youtube });
+      const saavnPage = settled(saavnResponse, {
+        results: [],
+        nextPage: cursor ? cursor.saavnSongs : 1,
+      });
+      return {
+        items: songItems(query, [
+          ytPage.results.filter(isPlayableResult).map(ytResultToTrack),
+          saavnPage.results.map(jioSaavnResultToTrack),
+        ]),
+        cursor: { youtube: ytPage.continuation, saavnSongs: saavnPage.nextPage },
+      };
+    }
+    case 'video': {
+      const page = await nextYTPage(query, 'video', cursor);
+      return {
+        items: page.results
+          .filter(isPlayableResult)
+          .map((result) => trackItem(ytResultToTrack(result), 'video')),
+        cursor: { youtube: page.continuation },
+      };
+    }
+    case 'artist': {
+      const page = await nextYTPage(query, 'artist', cursor);
+      return {
+        items: ytBrowseItems(page.results),
+        cursor: { youtube: page.continuation },
+      };
+    }
+    case 'album':
+    case 'playlist': {
+      const saavnKey = filter === 'album' ? 'saavnAlbums' : 'saavnPlaylists';
+      const [ytResponse, saavnResponse] = await Promise.allSettled([
+        nextYTPage(query, filter, cursor),
+        nextSaavnPage(cursor ? cursor[saavnKey] : 1, (page) =>
+          searchJioSaavnCollections(query, filter, page, SAAVN_COLLECTION_PAGE_SIZE)),
+      ]);
+      const ytPage = settled(ytResponse, { results: [], continuation: cursor?.youtube });
+      const saavnPage = settled(saavnResponse, {
+        results: [],
+        nextPage: cursor ? cursor[saavnKey] : 1,
+      });
+      return {
+        items: [
+          ...ytBrowseItems(ytPage.results),
+          ...saavnPage.results.map(saavnCollectionItem),
+        ],
+        cursor: { youtube: ytPage.continuation, [saavnKey]: saavnPage.nextPage },
+      };
+    }
+    case 'jiosaavn': {
+      const songsPage = cursor ? cursor.saavnSongs : 1;
+      const albumsPage = cursor ? cursor.saavnAlbums : 1;
+      const playlistsPage = cursor ? cursor.saavnPlaylists : 1;
+      const [songsResponse, albumsResponse, playlistsResponse] = await Promise.allSettled([
+        nextSaavnPage(songsPage, (page) =>
+          searchJioSaavnSongsPage(query, page, SAAVN_PAGE_SIZE)),
+        nextSaavnPage(albumsPage, (page) =>
+          searchJioSaavnCollections(query, 'album', page, SAAVN_COLLECTION_PAGE_SIZE)),
+        nextSaavnPage(playlistsPage, (page) =>
+          searchJioSaavnCollections(query, 'playlist', page, SAAVN_COLLECTION_PAGE_SIZE)),
+      ]);
+      const songs = settled(songsResponse, { results: [], nextPage: songsPage });
+      const albums = settled(albumsResponse, { results: [], nextPage: albumsPage });
+      const playlists = settled(playlistsResponse, { results: [], nextPage: playlistsPage });
+      return {
+        items: [
+          ...songItems(query, [songs.results.map(jioSaavnResultToTrack)]),
+          ...albums.results.map(saavnCollectionItem),
+          ...playlists.results.map(saavnCollectionItem),
+        ],
+        cursor: {
+          saavnSongs: songs.nextPage,
+          saavnAlbums: albums.nextPage,
+          saavnPlaylists: playlists.nextPage,
+        },
+      };
+    }
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Search Ranking
+ *
+ * Merges the song results of several sources into one list, with one row
+ * per song, ranked by relevance to the query.
+ *
+ * Strategy:
+ *   - Titles and artists are compared with the JioSaavn matcher's
+ *     normalization (normalizeForMatch, tokenOverlapScore). Bracketed parts
+ *     like "(From "Movie")" or "(Official Video)" are ignored for titles
+ *   - Two results from different sources are the same song when the titles
+ *     match, the artists share a word and the durations are within
+ *     MAX_DURATION_DIFF_SECONDS. A cluster holds at most one result per
+ *     source; the best-scoring one is played by default
+ *   - Relevance mixes how well the title and artist match the query with
+ *     the source's own ranking, plus a bonus for songs found by several
+ *     sources
+ *   - Results of later pages join the rows already shown (findSameSongRow)
+ *     instead of re-ranking, so rows don't jump while scrolling
+ *
+ * Usage:
+ *   const rows = mergeSearchResults(query, [ytTracks, saavnTracks])
+ *   findSameSongRow(rows, track)?.versions.push(track)
+ */
+
+import type { Track } from '../types';
+import { normalizeForMatch, tokenOverlapScore } from './jiosaavn';
+
+const MIN_TITLE_OVERLAP = 0.8;
+// Sources credit artists differently ("Pritam" vs "Pritam, Arijit Singh")
+const MIN_ARTIST_OVERLAP = 0.3;
+const MAX_DURATION_DIFF_SECONDS = 10;
+
+const TEXT_WEIGHT = 0.6;
+const SOURCE_RANK_WEIGHT = 0.4;
+const MULTI_SOURCE_BONUS = 0.1;
+
+export interface MergedTrack {
+  track: Track; // version played by default
+  versions: Track[]; // one per source, `track` first
+  relevance: number;
+}
+
+function normalizeTitle(title: string): string {
+  return normalizeForMatch(title.replace(/[([][^)\]]*[)\]]/g, ' ')) || normalizeForMatch(title);
+}
+
+function normalizeArtist(artist: string): string {
+  const normalized = normalizeForMatch(artist);
+  return normalized === 'unknown artist' ? '' : normalized;
+}
+
+/** Whether two results are the same song, going by title, artist and duration. */
+export function isSameSong(a: Track, b: Track): boolean {
+  if (tokenOverlapScore(normalizeTitle(a.title), normalizeTitle(b.title)) < MIN_TITLE_OVERLAP) {
+    return false;
+  }
+
+  const artistA = normalizeArtist(a.artist);
+  const artistB = normalizeArtist(b.artist);
+  if (artistA && artistB && tokenOverlapScore(artistA, artistB) < MIN_ARTIST_OVERLAP) {
+    return false;
+  }
+
+  if (a.duration > 0 && b.duration > 0) {
+    return Math.abs(a.duration - b.duration) <= MAX_DURATION_DIFF_SECONDS;
+  }
+  return true;
+}
+
+/** How well a result matches the query, 0–1. */
+function textScore(query: string, track: Track): number {
+  const title = normalizeTitle(track.title);
+  return Math.max(
+    tokenOverlapScore(query, title),
+    tokenOverlapScore(query, `${title} ${normalizeArtist(track.artist)}`.trim()),
+  );
+}
+
+/** The row with the same song as `track` and no version from its source yet. */
+export function findSameSongRow<T extends MergedTrack>(rows: T[], track: Track): T | undefined {
+  return rows.find(
+    (row) =>
+      row.versions.every((v) => v.source !== track.source && v.id !== track.id) &&
+      isSameSong(row.track, track),
+  );
+}
+
+/**
+ * One ranked row per song. `sources` are the result lists of each source in
+ * their own order; earlier lists win ties.
+ */
+export function mergeSearchResults(query: string, sources: Track[][]): MergedTrack[] {
+  const normalizedQuery = normalizeForMatch(query);
+  const scores = new Map<Track, number>();
+  const rows: MergedTrack[] = [];
+
+  for (const tracks of sources) {
+    tracks.forEach((track, index) => {
+      const sourceRank = 1 - index / Math.max(tracks.length, 1);
+      scores.set(
+        track,
+        textScore(normalizedQuery, track) * TEXT_WEIGHT + sourceRank * SOURCE_RANK_WEIGHT,
+      );
+      if (rows.some((r) => r.versions.some((v) => v.id === track.id))) return;
+      const row = findSameSongRow(rows, track);
+      if (row) {
+        row.versions.push(track);
+      } else {
+        rows.push({ track, versions: [track], relevance: 0 });
+      }
+    });
+  }
+
+  for (const row of rows) {
+    row.versions.sort((a, b) => (scores.get(b) ?? 0) - (scores.get(a) ?? 0));
+    row.track = row.versions[0];
+    row.relevance =
+      (scores.get(row.track) ?? 0) + (row.versions.length > 1 ? MULTI_SOURCE_BONUS : 0);
+  }
+
+  // Array.prototype.sort is stable, so equal scores keep the source order
+  return rows.sort((a, b) => b.relevance - a.relevance);
+}
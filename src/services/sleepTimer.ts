@@ -0,0 +1,206 @@
+/**
+ * Sleep Timer
+ *
+ * Pauses playback after a fixed duration, at the end of the current track
+ * or at the end of the queue, fading the volume out over the last
+ * FADE_SECONDS first.
+ *
+ * Strategy:
+ *   - The UI arms the timer through usePlayer; the timer itself is stored in
+ *     playerStore so the MiniPlayer and NowPlaying screens can show it
+ *   - PlaybackService calls init(), so the ticker runs alongside playback
+ *     even while the app is in the background, and forwards active-track
+ *     changes to catch a track or the queue finishing between ticks
+ *   - Every tick recomputes the remaining time from TrackPlayer's progress
+ *     (track modes) or the wall clock (fixed durations) and lowers the
+ *     volume linearly once it drops under FADE_SECONDS
+ *   - When the timer fires or is cancelled, the volume is restored
+ *   - The fade goes through loudnessNormalizer, which multiplies it with the
+ *     track's normalization gain
+ *
+ * Usage:
+ *   sleepTimer.init()                              // in PlaybackService
+ *   sleepTimer.start({ type: 'duration', minutes: 30 })
+ *   sleepTimer.cancel()
+ */
+
+import TrackPlayer, { State } from 'react-native-track-player';
+import usePlayerStore from '../store/playerStore';
+import { loudnessNormalizer } from './loudness';
+import type { SleepTimer, SleepTimerOption } from '../types';
+
+const TICK_INTERVAL_MS = 1000;
+const FADE_SECONDS = 30;
+// A track change within this many seconds of the computed end is the track
+// finishing on its own rather than the user skipping
+const TRACK_END_MARGIN_SECONDS = 3;
+
+function sleepTimerLog(message: string) {
+  console.log(`[SleepTimer] ${message}`);
+}
+
+function sleepTimerWarn(message: string, extra?: unknown) {
+  if (extra !== undefined) {
+    console.warn(`[SleepTimer] ${message}`, extra);
+    return;
+  }
+  console.warn(`[SleepTimer] ${message}`);
+}
+
+class SleepTimerService {
+  private initialized = false;
+  private ticker: ReturnType<typeof setInterval> | null = null;
+  private isTicking = false;
+  private volume = 1;
+  /** Remaining seconds as of the last tick. */
+  private lastRemaining: number | null = null;
+
+  init(): void {
+    if (this.initialized) return;
+    this.initialized = true;
+
+    usePlayerStore.subscribe((state, prev) => {
+      if (state.sleepTimer?.option === prev.sleepTimer?.option) return;
+      if (state.sleepTimer) {
+        this.startTicker();
+      } else {
+        this.stopTicker();
+      }
+    });
+    if (usePlayerStore.getState().sleepTimer) {
+      this.startTicker();
+    }
+  }
+
+  start(option: SleepTimerOption): void {
+    const endsAt = option.type === 'duration' ? Date.now() + option.minutes * 60_000 : null;
+    this.lastRemaining = null;
+    usePlayerStore.getState().setSleepTimer({
+      option,
+      endsAt,
+      remainingSeconds: option.type === 'duration' ? option.minutes * 60 : null,
+    });
+    sleepTimerLog(`Armed: ${option.type === 'duration' ? `${option.minutes} min` : option.type}`);
+  }
+
+  cancel(): void {
+    if (!usePlayerStore.getState().sleepTimer) return;
+    usePlayerStore.getState().setSleepTimer(null);
+    sleepTimerLog('Cancelled');
+  }
+
+  /** Called by PlaybackService on every active-track change. */
+  handleActiveTrackChanged(track: { id?: string } | null | undefined): void {
+    const timer = usePlayerStore.getState().sleepTimer;
+    if (!timer || timer.option.type === 'duration') return;
+
+    const finished = this.lastRemaining !== null && this.lastRemaining <= TRACK_END_MARGIN_SECONDS;
+    if (timer.option.type === 'endOfQueue' && !track) {
+      void this.fire(false);
+    } else if (finished) {
+      void this.fire(true);
+    } else {
+      // Skipped to another track — the end moved, so let the next tick recompute
+      this.lastRemaining = null;
+      void this.tick();
+    }
+  }
+
+  // ── Internals ────────────────────────────────────────────────────────────
+
+  private startTicker(): void {
+    if (this.ticker) return;
+    this.ticker = setInterval(() => {
+      void this.tick();
+    }, TICK_INTERVAL_MS);
+    void this.tick();
+  }
+
+  private stopTicker(): void {
+    if (this.ticker) {
+      clearInterval(this.ticker);
+      this.ticker = null;
+    }
+    this.lastRemaining = null;
+    void this.setVolume(1);
+  }
+
+  private async tick(): Promise<void> {
+    if (this.isTicking) return;
+    this.isTicking = true;
+    try {
+      const timer = usePlayerStore.getState().sleepTimer;
+      if (!timer) return;
+
+      const remaining = await this.computeRemaining(timer);
+      // The timer may have been cancelled or replaced while we were waiting
+      if (usePlayerStore.getState().sleepTimer?.option !== timer.option) return;
+      this.lastRemaining = remaining;
+
+      if (remaining === null) {
+        await this.setVolume(1);
+      } else if (remaining <= 0) {
+        await this.fire(true);
+        return;
+      } else {
+        await this.setVolume(Math.min(1, remaining / FADE_SECONDS));
+      }
+
+      const remainingSeconds = remaining === null ? null : Math.ceil(remaining);
+      if (remainingSeconds !== timer.remainingSeconds) {
+        usePlayerStore.getState().setSleepTimer({ ...timer, remainingSeconds });
+      }
+    } catch (err) {
+      sleepTimerWarn('Tick failed', err);
+    } finally {
+      this.isTicking = false;
+    }
+  }
+
+  /** Seconds until the timer fires, or null while the end isn't known yet. */
+  private async computeRemaining(timer: SleepTimer): Promise<number | null> {
+    if (timer.endsAt !== null) {
+      return (timer.endsAt - Date.now()) / 1000;
+    }
+
+    const { position, duration } = await TrackPlayer.getProgress();
+    if (duration <= 0) return null;
+    const trackRemaining = Math.max(0, duration - position);
+    if (timer.option.type === 'endOfTrack') return trackRemaining;
+
+    const { queue, currentIndex, repeatMode } = usePlayerStore.getState();
+    // Repeating never reaches the end of the queue
+    if (repeatMode !== 'off') return null;
+    let queueRemaining = trackRemaining;
+    for (let i = currentIndex + 1; i < queue.length; i++) {
+      queueRemaining += queue[i].duration;
+    }
+    return queueRemaining;
+  }
+
+  private async fire(pause: boolean): Promise<void> {
+    if (!usePlayerStore.getState().sleepTimer) return;
+    sleepTimerLog('Time is up, pausing playback');
+    try {
+      if (pause) {
+        const { state } = await TrackPlayer.getPlaybackState();
+        if (state !== State.Ended) {
+          await TrackPlayer.pause();
+        }
+      }
+    } catch (err) {
+      sleepTimerWarn('Failed to pause playback', err);
+    }
+    // Clearing the timer stops the ticker and restores the volume
+    usePlayerStore.getState().setSleepTimer(null);
+  }
+
+  private async setVolume(volume: number): Promise<void> {
+    if (Math.abs(volume - this.volume) < 0.01) return;
+    this.volume = volume;
+    await loudnessNormalizer.setFade(volume);
+  }
+}
+
+// Singleton instance
+export const sleepTimer = new SleepTimerService();
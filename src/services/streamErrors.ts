@@ -0,0 +1,172 @@
+/**
+ * Stream Errors
+ *
+ * Typed reasons for a stream failing to resolve, so the UI can explain why
+ * a track was skipped instead of spinning or skipping silently.
+ *
+ * Strategy:
+ *   - tryClientForStream maps YouTube's playability status (status plus
+ *     reason text) to a kind. Other thrown errors (fetch failures, aborts,
+ *     timeouts) are classified by name and message
+ *   - resolveStreamUrl collects every source's error and reports the most
+ *     telling one. Problems with the video itself (removed, age, region)
+ *     beat client trouble (login, PoToken), but only when no source failed
+ *     for a client reason or two sources agree: clients blocked by bot
+ *     checks often claim "Video unavailable" for playable videos. Connection
+ *     trouble is only reported when every source had it; otherwise
+ *     all-clients-exhausted
+ *   - Network, timeout and exhausted errors are worth retrying as is. For
+ *     the rest the fix is another upload of the song
+ *
+ * Usage:
+ *   throw new StreamResolutionError('region-blocked', reason)
+ *   const error = toStreamError(err)
+ *   if (!error.retryable) ...
+ */
+
+import type { StreamErrorKind, TrackError } from '../types';
+
+// Problems with the video itself, most telling first
+const VIDEO_KINDS: StreamErrorKind[] = ['removed', 'age-restricted', 'region-blocked'];
+// Problems with a client, reported when no video problem is certain
+const CLIENT_KINDS: StreamErrorKind[] = ['login-required', 'po-token-required'];
+
+const RETRYABLE_KINDS = new Set<StreamErrorKind>(['network', 'timeout', 'all-clients-exhausted']);
+
+// Checked in order: "Sign in to confirm you're not a bot" is a PoToken
+// problem, not a login one
+const MESSAGE_PATTERNS: [RegExp, StreamErrorKind][] = [
+  [/not a bot|po_?token|potoken|attestation/i, 'po-token-required'],
+  [/confirm your age|age[- ]?restrict|age check|inappropriate for some users/i, 'age-restricted'],
+  [/in your country|country|region|geo[- ]?restrict/i, 'region-blocked'],
+  [/removed|terminated|no longer available|private video|video unavailable|does not exist/i, 'removed'],
+  [/sign in|log ?in|login_required/i, 'login-required'],
+  [/timed? ?out|timeout|aborted/i, 'timeout'],
+  [/network request failed|failed to fetch|fetch failed|network error|ENOTFOUND|ECONN|offline/i, 'network'],
+];
+
+// Playability statuses that say enough without a reason text
+const PLAYABILITY_KINDS: Record<string, StreamErrorKind> = {
+  AGE_CHECK_REQUIRED: 'age-restricted',
+  AGE_VERIFICATION_REQUIRED: 'age-restricted',
+  CONTENT_CHECK_REQUIRED: 'age-restricted',
+  LOGIN_REQUIRED: 'login-required',
+};
+
+/** Short badge label and a one-line explanation of each kind, for the UI. */
+export const STREAM_ERROR_TEXT: Record<StreamErrorKind, { label: string; description: string }> = {
+  'age-restricted': {
+    label: 'Age-restricted',
+    description: 'YouTube only plays this video for signed-in adults.',
+  },
+  'region-blocked': {
+    label: 'Not available here',
+    description: "This video isn't available in your country.",
+  },
+  removed: {
+    label: 'Unavailable',
+    description: 'This video was removed or made private.',
+  },
+  'login-required': {
+    label: 'Sign-in required',
+    description: 'YouTube wants a signed-in account to play this video.',
+  },
+  'po-token-required': {
+    label: 'Blocked by YouTube',
+    description: "YouTube's bot check blocked this stream.",
+  },
+  network: {
+    label: 'Offline',
+    description: 'Check your connection and try again.',
+  },
+  timeout: {
+    label: 'Timed out',
+    description: 'The stream took too long to load.',
+  },
+  'all-clients-exhausted': {
+    label: "Couldn't load",
+    description: 'None of the stream sources worked for this song.',
+  },
+};
+
+/** A stream that couldn't be resolved, and why. */
+export class StreamResolutionError extends Error {
+  constructor(readonly kind: StreamErrorKind, message: string) {
+    super(message);
+    this.name = 'StreamResolutionError';
+  }
+
+  get retryable(): boolean {
+    return isRetryableKind(this.kind);
+  }
+
+  toTrackError(): TrackError {
+    return { kind: this.kind, message: this.message, at: Date.now() };
+  }
+}
+
+/** Whether trying the same track again can help, as opposed to an alternative. */
+export function isRetryableKind(kind: StreamErrorKind): boolean {
+  return RETRYABLE_KINDS.has(kind);
+}
+
+/** Whether the problem is with the video itself rather than how it was fetched. */
+export function isVideoKind(kind: StreamErrorKind): boolean {
+  return VIDEO_KINDS.includes(kind);
+}
+
+function classifyMessage(message: string): StreamErrorKind | null {
+  const match = MESSAGE_PATTERNS.find(([pattern]) => pattern.test(message));
+  return match ? match[1] : null;
+}
+
+/**
+ * Error for a non-OK playability status: typed when the status or reason
+ * says why, a plain Error otherwise. Null when the video is playable.
+ */
+export function playabilityError(
+  playability: { status?: string; reason?: string } | undefined,
+): Error | null {
+  const status = playability?.status;
+  if (!status || status === 'OK') return null;
+  const reason = playability?.reason || `Playability status ${status}`;
+  const kind = classifyMessage(reason) ?? PLAYABILITY_KINDS[status];
+  return kind ? new StreamResolutionError(kind, reason) : new Error(reason);
+}
+
+/** Any thrown value as a StreamResolutionError, `fallback` if it can't tell. */
+export function toStreamError(
+  err: unknown,
+  fallback: StreamErrorKind = 'all-clients-exhausted',
+): StreamResolutionError {
+  if (err instanceof StreamResolutionError) return err;
+  const message = String((err as any)?.message ?? err);
+  const kind = (err as any)?.name === 'AbortError' ? 'timeout' : classifyMessage(message);
+  return new StreamResolutionError(kind ?? fallback, message);
+}
+
+/** The one error to report when every source failed. */
+export function summarizeStreamErrors(
+  videoId: string,
+  errors: StreamResolutionError[],
+): StreamResolutionError {
+  // One client's word isn't enough when others failed for client reasons
+  const clientFailed = errors.some((e) => !isVideoKind(e.kind));
+  const videoError = VIDEO_KINDS.map((kind) => errors.filter((e) => e.kind === kind))
+    .find((matching) => matching.length >= (clientFailed ? 2 : 1))?.[0];
+  if (videoError) return videoError;
+
+  const clientError = CLIENT_KINDS.map((kind) => errors.find((e) => e.kind === kind)).find(Boolean);
+  if (clientError) return clientError;
+
+  if (errors.length > 0 && errors.every((e) => e.kind === 'network')) {
+    return new StreamResolutionError('network', `No connection while resolving ${videoId}`);
+  }
+  if (errors.length > 0 && errors.every((e) => e.kind === 'network' || e.kind === 'timeout')) {
+    return new StreamResolutionError('timeout', `Timed out resolving ${videoId}`);
+  }
+  return new StreamResolutionError(
+    'all-clients-exhausted',
+    `All clients failed to resolve stream URL for ${videoId}`,
+  );
+}
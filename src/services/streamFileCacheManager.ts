@@ -1,10 +1,65 @@
 import * as FileSystem from 'expo-file-system/legacy';
 import type { AudioStreamInfo } from './youtube';
+import { estimateLoudnessDb, loudnessNormalizer } from './loudness';
+
+const INDEX_FILE_NAME = 'index.json';
+const INDEX_VERSION = 1;
+const INDEX_SAVE_DEBOUNCE_MS = 1000;
+const DEFAULT_MAX_CACHE_BYTES = 512 * 1024 * 1024;
+const MAX_BYTES_KEY = 'maxBytes';
+
+// Budgets offered in playback settings
+export const CACHE_BUDGET_OPTIONS = [256, 512, 1024, 2048].map((mb) => mb * 1024 * 1024);
+
+// Lazy-init MMKV so it doesn't crash when native module isn't loaded yet
+let _storage: any = null;
+function getStorage() {
+  if (!_storage) {
+    try {
+      const { createMMKV } = require('react-native-mmkv');
+      _storage = createMMKV({ id: 'stream-cache' });
+    } catch {
+      // MMKV unavailable (e.g. Expo Go) – fall back to in-memory only
+      const memory = new Map<string, number>();
+      _storage = {
+        set: (key: string, value: number) => memory.set(key, value),
+        getNumber: (key: string) => memory.get(key),
+      };
+    }
+  }
+  return _storage;
+}
 
 interface LocalCacheEntry {
-  fileUri: string;
+  // Stored relative to cacheDir — the app container path can change between installs
+  fileName: string;
+  size: number;
+  createdAt: number;
+  lastAccessAt: number;
+  // Metadata of the stream the file was downloaded from
   sourceUrl: string;
-  expiresAt: number;
+  mimeType: string;
+  bitrate: number;
+  durationMs: number;
+  clientUsed?: string;
+  // Reported by YouTube, or estimated from the file for JioSaavn audio
+  loudnessDb?: number;
+  // Explicit offline downloads — never evicted and don't count against the budget
+  pinned?: boolean;
+}
+
+export interface CacheDownloadOptions {
+  timeoutMs?: number;
+  onProgress?: (bytesWritten: number, totalBytes: number) => void;
+  // Receives the underlying transfer so the caller can pause it
+  onTask?: (task: FileSystem.DownloadResumable) => void;
+  // Continue a transfer paused earlier instead of starting over
+  resumeTask?: FileSystem.DownloadResumable;
+}
+
+interface CacheIndexFile {
+  version: number;
+  entries: Record<string, LocalCacheEntry>;
 }
 
 function cacheLog(message: string) {
@@ -47,11 +102,67 @@ class StreamFileCacheManager {
   private readonly entries = new Map<string, LocalCacheEntry>();
   private readonly pendingDownloads = new Map<string, Promise<AudioStreamInfo | null>>();
   private ensuredDir = false;
+  private maxBytes = DEFAULT_MAX_CACHE_BYTES;
+  private loadedMaxBytes = false;
+  private loadPromise: Promise<void> | null = null;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
 
   isLocalUri(uri?: string): boolean {
     return typeof uri === 'string' && uri.startsWith('file://');
   }
 
+  /**
+   * Load the on-disk index and drop files it doesn't know about. Safe to call
+   * repeatedly; every public method awaits it before touching the cache.
+   */
+  init(): Promise<void> {
+    this.loadMaxBytes();
+    if (!this.loadPromise) {
+      this.loadPromise = this.loadIndex().catch((err) => {
+        cacheWarn('Failed to load cache index', err);
+      });
+    }
+    return this.loadPromise;
+  }
+
+  /**
+   * Change the byte budget and remember it across restarts; least-recently-used
+   * files are evicted to fit.
+   */
+  async setMaxBytes(maxBytes: number): Promise<void> {
+    this.loadMaxBytes();
+    this.maxBytes = Math.max(0, maxBytes);
+    try {
+      getStorage().set(MAX_BYTES_KEY, this.maxBytes);
+    } catch {
+      // Silently fail on storage errors
+    }
+    await this.init();
+    await this.enforceBudget();
+  }
+
+  getMaxBytes(): number {
+    this.loadMaxBytes();
+    return this.maxBytes;
+  }
+
+  getTotalBytes(): number {
+    let total = 0;
+    for (const entry of this.entries.values()) {
+      total += entry.size;
+    }
+    return total;
+  }
+
+  /** Bytes held by pinned (downloaded) files, which sit outside the budget. */
+  getPinnedBytes(): number {
+    let total = 0;
+    for (const entry of this.entries.values()) {
+      if (entry.pinned) total += entry.size;
+    }
+    return total;
+  }
+
   prime(videoId: string, streamInfo: AudioStreamInfo): void {
     if (!this.shouldCache(streamInfo)) return;
 
@@ -92,18 +203,280 @@ class StreamFileCacheManager {
   }
 
   async evict(videoId: string): Promise<void> {
+    await this.init();
+    await this.removeEntry(videoId);
+  }
+
+  // ── Pinned downloads ─────────────────────────────────────────────────────
+
+  isPinned(videoId: string): boolean {
+    return !!this.entries.get(videoId)?.pinned;
+  }
+
+  /**
+   * Download a stream and pin it so LRU eviction never removes it. Reuses a
+   * file that is already cached. Resolves to null when the transfer was
+   * paused; throws when it fails.
+   */
+  async download(
+    videoId: string,
+    streamInfo: AudioStreamInfo,
+    options: CacheDownloadOptions = {},
+  ): Promise<AudioStreamInfo | null> {
+    await this.init();
+
+    const existing = await this.getCached(videoId, streamInfo);
+    if (existing) {
+      this.setPinned(videoId, true);
+      return existing;
+    }
+
+    // A background prime may already be fetching this file
+    const pending = this.pendingDownloads.get(videoId);
+    if (pending) {
+      const primed = await pending;
+      if (primed) {
+        this.setPinned(videoId, true);
+        return primed;
+      }
+    }
+
+    if (!this.shouldCache(streamInfo)) {
+      throw new Error(`Stream for ${videoId} can't be downloaded`);
+    }
+
+    const promise = this.downloadAndStore(videoId, streamInfo, { ...options, pin: true });
+    this.pendingDownloads.set(videoId, promise);
+
+    try {
+      return await promise;
+    } finally {
+      this.pendingDownloads.delete(videoId);
+    }
+  }
+
+  /** Drop the pin; the file stays cached and becomes subject to LRU again. */
+  async unpin(videoId: string): Promise<void> {
+    await this.init();
+    this.setPinned(videoId, false);
+    await this.enforceBudget();
+  }
+
+  /**
+   * Delete what a cancelled transfer left on disk. Files that finished
+   * downloading are in the index and stay.
+   */
+  async discardPartial(videoId: string): Promise<void> {
+    await this.init();
+    if (this.entries.has(videoId)) return;
+
+    const fileUri = this.getFileUri(this.getFileName(videoId));
+    if (!fileUri) return;
+
+    try {
+      await FileSystem.deleteAsync(fileUri, { idempotent: true });
+    } catch {
+      // ignore cleanup errors
+    }
+  }
+
+  /**
+   * Playable info for a pinned file, built from the index alone — no stream
+   * resolution and no network needed.
+   */
+  async getPinnedStreamInfo(videoId: string): Promise<AudioStreamInfo | null> {
+    await this.init();
+
+    const entry = this.entries.get(videoId);
+    if (!entry?.pinned) return null;
+
+    return this.getCached(videoId, {
+      url: entry.sourceUrl,
+      mimeType: entry.mimeType,
+      bitrate: entry.bitrate,
+      durationMs: entry.durationMs,
+      expiresAt: Number.MAX_SAFE_INTEGER,
+      clientUsed: entry.clientUsed,
+      loudnessDb: entry.loudnessDb,
+    });
+  }
+
+  private setPinned(videoId: string, pinned: boolean): void {
+    const entry = this.entries.get(videoId);
+    if (!entry || !!entry.pinned === pinned) return;
+    entry.pinned = pinned;
+    this.scheduleSave();
+  }
+
+  // ── Index persistence ────────────────────────────────────────────────────
+
+  private async removeEntry(videoId: string): Promise<void> {
     const entry = this.entries.get(videoId);
     this.entries.delete(videoId);
 
-    if (!entry?.fileUri) return;
+    if (!entry) return;
+    this.scheduleSave();
+
+    const fileUri = this.getFileUri(entry.fileName);
+    if (!fileUri) return;
 
     try {
-      await FileSystem.deleteAsync(entry.fileUri, { idempotent: true });
+      await FileSystem.deleteAsync(fileUri, { idempotent: true });
     } catch {
       // ignore cleanup errors
     }
   }
 
+  private getIndexUri(): string | null {
+    return this.cacheDir ? `${this.cacheDir}${INDEX_FILE_NAME}` : null;
+  }
+
+  private getFileUri(fileName: string): string | null {
+    return this.cacheDir ? `${this.cacheDir}${fileName}` : null;
+  }
+
+  private loadMaxBytes(): void {
+    if (this.loadedMaxBytes) return;
+    this.loadedMaxBytes = true;
+    try {
+      const stored = getStorage().getNumber(MAX_BYTES_KEY);
+      if (typeof stored === 'number' && stored >= 0) this.maxBytes = stored;
+    } catch {
+      // Keep the default budget
+    }
+  }
+
+  private async loadIndex(): Promise<void> {
+    if (!(await this.ensureCacheDir())) return;
+    const indexUri = this.getIndexUri();
+    if (!indexUri) return;
+
+    let stored: Record<string, LocalCacheEntry> = {};
+    try {
+      const info = await FileSystem.getInfoAsync(indexUri);
+      if (info.exists) {
+        const parsed: CacheIndexFile = JSON.parse(
+          await FileSystem.readAsStringAsync(indexUri),
+        );
+        if (parsed?.version === INDEX_VERSION && parsed.entries) {
+          stored = parsed.entries;
+        }
+      }
+    } catch (err) {
+      cacheWarn('Cache index unreadable, rebuilding', err);
+    }
+
+    // Entries recorded while this session was already running win over disk
+    for (const [videoId, entry] of Object.entries(stored)) {
+      if (!this.entries.has(videoId)) {
+        this.entries.set(videoId, entry);
+      }
+    }
+
+    await this.reconcileWithDisk();
+    await this.enforceBudget();
+  }
+
+  /**
+   * Startup scan: delete files that have no index entry (e.g. downloads
+   * interrupted by the app being killed) and drop entries whose file is gone.
+   */
+  private async reconcileWithDisk(): Promise<void> {
+    if (!this.cacheDir) return;
+
+    let fileNames: string[];
+    try {
+      fileNames = await FileSystem.readDirectoryAsync(this.cacheDir);
+    } catch (err) {
+      cacheWarn('Failed to scan cache directory', err);
+      return;
+    }
+
+    const onDisk = new Set(fileNames);
+    const indexed = new Set<string>();
+    let changed = false;
+
+    for (const [videoId, entry] of this.entries) {
+      if (!onDisk.has(entry.fileName)) {
+        this.entries.delete(videoId);
+        changed = true;
+      } else {
+        indexed.add(entry.fileName);
+      }
+    }
+
+    const pendingFiles = new Set(
+      Array.from(this.pendingDownloads.keys()).map((id) => this.getFileName(id)),
+    );
+
+    let orphanCount = 0;
+    for (const fileName of fileNames) {
+      if (fileName === INDEX_FILE_NAME) continue;
+      if (indexed.has(fileName) || pendingFiles.has(fileName)) continue;
+      orphanCount++;
+      try {
+        await FileSystem.deleteAsync(`${this.cacheDir}${fileName}`, { idempotent: true });
+      } catch {
+        // ignore cleanup errors
+      }
+    }
+
+    if (orphanCount > 0) {
+      cacheLog(`Removed ${orphanCount} orphaned cache file(s)`);
+    }
+    if (changed) {
+      this.scheduleSave();
+    }
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      void this.saveIndex();
+    }, INDEX_SAVE_DEBOUNCE_MS);
+  }
+
+  private async saveIndex(): Promise<void> {
+    const indexUri = this.getIndexUri();
+    if (!indexUri || !(await this.ensureCacheDir())) return;
+
+    const data: CacheIndexFile = {
+      version: INDEX_VERSION,
+      entries: Object.fromEntries(this.entries),
+    };
+
+    try {
+      await FileSystem.writeAsStringAsync(indexUri, JSON.stringify(data));
+    } catch (err) {
+      cacheWarn('Failed to save cache index', err);
+    }
+  }
+
+  // ── LRU eviction ─────────────────────────────────────────────────────────
+
+  /** Evict least-recently-used unpinned files until they fit in `maxBytes`. */
+  private async enforceBudget(keepVideoId?: string): Promise<void> {
+    let total = this.getTotalBytes() - this.getPinnedBytes();
+    if (total <= this.maxBytes) return;
+
+    const candidates = Array.from(this.entries.entries())
+      .filter(([videoId, entry]) =>
+        !entry.pinned &&
+        videoId !== keepVideoId &&
+        !this.pendingDownloads.has(videoId))
+      .sort((a, b) => a[1].lastAccessAt - b[1].lastAccessAt);
+
+    for (const [videoId, entry] of candidates) {
+      if (total <= this.maxBytes) break;
+      total -= entry.size;
+      await this.removeEntry(videoId);
+      cacheLog(`Evicted ${videoId} (LRU, ${entry.size} bytes)`);
+    }
+  }
+
+  // ── Internals ────────────────────────────────────────────────────────────
+
   private async ensureCacheDir(): Promise<boolean> {
     if (!this.cacheDir) return false;
     if (this.ensuredDir) return true;
@@ -118,7 +491,7 @@ class StreamFileCacheManager {
     }
   }
 
-  private shouldCache(streamInfo: AudioStreamInfo): boolean {
+  shouldCache(streamInfo: AudioStreamInfo): boolean {
     if (!streamInfo?.url) return false;
     if (this.isLocalUri(streamInfo.url)) return false;
     if (streamInfo.isHLS) return false;
@@ -136,44 +509,58 @@ class StreamFileCacheManager {
   private toPlayableLocalInfo(
     base: AudioStreamInfo,
     fileUri: string,
+    entry: LocalCacheEntry,
   ): AudioStreamInfo {
     return {
       ...base,
       url: fileUri,
+      // Describe the file on disk, not whichever stream was resolved this time
+      mimeType: entry.mimeType || base.mimeType,
+      bitrate: entry.bitrate || base.bitrate,
       headers: undefined,
       isHLS: false,
-      clientUsed: `${base.clientUsed ?? 'UNKNOWN'}:LOCAL`,
+      clientUsed: `${entry.clientUsed ?? base.clientUsed ?? 'UNKNOWN'}:LOCAL`,
+      loudnessDb: entry.loudnessDb ?? base.loudnessDb,
     };
   }
 
-  private getTargetFileUri(videoId: string): string | null {
-    if (!this.cacheDir) return null;
+  private getFileName(videoId: string): string {
     const safeId = videoId.replace(/[^A-Za-z0-9_-]/g, '_');
-    return `${this.cacheDir}${safeId}.cache`;
+    return `${safeId}.cache`;
+  }
+
+  private getTargetFileUri(videoId: string): string | null {
+    return this.getFileUri(this.getFileName(videoId));
   }
 
   private async getCached(
     videoId: string,
     streamInfo: AudioStreamInfo,
   ): Promise<AudioStreamInfo | null> {
+    await this.init();
+
     const entry = this.entries.get(videoId);
     if (!entry) return null;
 
-    if (Date.now() >= entry.expiresAt || entry.sourceUrl !== streamInfo.url) {
-      await this.evict(videoId);
-      return null;
-    }
+    const fileUri = this.getFileUri(entry.fileName);
+    if (!fileUri) return null;
 
+    // The audio itself doesn't expire with the stream URL, so a file
+    // downloaded in an earlier session stays valid for the same video.
     try {
-      const info = await FileSystem.getInfoAsync(entry.fileUri);
+      const info = await FileSystem.getInfoAsync(fileUri);
       if (!info.exists) {
         this.entries.delete(videoId);
+        this.scheduleSave();
         return null;
       }
 
-      return this.toPlayableLocalInfo(streamInfo, entry.fileUri);
+      entry.lastAccessAt = Date.now();
+      this.scheduleSave();
+      return this.toPlayableLocalInfo(streamInfo, fileUri, entry);
     } catch {
       this.entries.delete(videoId);
+      this.scheduleSave();
       return null;
     }
   }
@@ -189,7 +576,11 @@ class StreamFileCacheManager {
     const pending = this.pendingDownloads.get(videoId);
     if (pending) return pending;
 
-    const promise = this.downloadAndStore(videoId, streamInfo, timeoutMs);
+    const promise = this.downloadAndStore(videoId, streamInfo, { timeoutMs })
+      .catch((err) => {
+        cacheWarn(`Failed to cache ${videoId}`, err);
+        return null;
+      });
     this.pendingDownloads.set(videoId, promise);
 
     try {
@@ -202,43 +593,87 @@ class StreamFileCacheManager {
   private async downloadAndStore(
     videoId: string,
     streamInfo: AudioStreamInfo,
-    timeoutMs: number,
+    options: CacheDownloadOptions & { pin?: boolean },
   ): Promise<AudioStreamInfo | null> {
     if (!(await this.ensureCacheDir())) {
-      return null;
+      throw new Error('Cache directory unavailable');
     }
 
-    const targetFileUri = this.getTargetFileUri(videoId);
-    if (!targetFileUri) return null;
+    const fileName = this.getFileName(videoId);
+    const targetFileUri = this.getFileUri(fileName);
+    if (!targetFileUri) {
+      throw new Error('Cache directory unavailable');
+    }
 
-    try {
+    let task = options.resumeTask;
+    if (!task) {
       await FileSystem.deleteAsync(targetFileUri, { idempotent: true });
-
-      const result = await withTimeout(
-        FileSystem.downloadAsync(streamInfo.url, targetFileUri, {
-          headers: streamInfo.headers,
-        }),
-        timeoutMs,
-        `downloading ${videoId}`,
+      task = FileSystem.createDownloadResumable(
+        streamInfo.url,
+        targetFileUri,
+        { headers: streamInfo.headers },
+        options.onProgress
+          ? (data) => options.onProgress?.(
+            data.totalBytesWritten,
+            data.totalBytesExpectedToWrite,
+          )
+          : undefined,
       );
+    }
+    options.onTask?.(task);
 
-      if (result.status < 200 || result.status >= 300) {
-        cacheWarn(`Download status ${result.status} for ${videoId}`);
-        return null;
-      }
+    const transfer = options.resumeTask ? task.resumeAsync() : task.downloadAsync();
+    const result = options.timeoutMs
+      ? await withTimeout(transfer, options.timeoutMs, `downloading ${videoId}`)
+      : await transfer;
 
-      this.entries.set(videoId, {
-        fileUri: result.uri,
-        sourceUrl: streamInfo.url,
-        expiresAt: streamInfo.expiresAt || Date.now() + 60 * 60 * 1000,
-      });
+    // Paused or cancelled — keep the partial file for resumeAsync
+    if (!result) return null;
 
-      cacheLog(`Cached ${videoId} locally`);
-      return this.toPlayableLocalInfo(streamInfo, result.uri);
-    } catch (err) {
-      cacheWarn(`Failed to cache ${videoId}`, err);
-      return null;
+    if (result.status < 200 || result.status >= 300) {
+      await FileSystem.deleteAsync(targetFileUri, { idempotent: true });
+      throw new Error(`Download status ${result.status} for ${videoId}`);
     }
+
+    const info = await FileSystem.getInfoAsync(result.uri);
+    const now = Date.now();
+    const entry: LocalCacheEntry = {
+      fileName,
+      size: info.exists ? info.size : 0,
+      createdAt: now,
+      lastAccessAt: now,
+      sourceUrl: streamInfo.url,
+      mimeType: streamInfo.mimeType,
+      bitrate: streamInfo.bitrate,
+      durationMs: streamInfo.durationMs,
+      clientUsed: streamInfo.clientUsed,
+      ...(streamInfo.loudnessDb != null ? { loudnessDb: streamInfo.loudnessDb } : {}),
+      ...(options.pin ? { pinned: true } : {}),
+    };
+    this.entries.set(videoId, entry);
+    this.scheduleSave();
+    if (entry.loudnessDb == null) {
+      void this.estimateLoudness(videoId, entry, result.uri);
+    }
+
+    cacheLog(`${options.pin ? 'Downloaded' : 'Cached'} ${videoId} locally (${entry.size} bytes)`);
+    await this.enforceBudget(videoId);
+    return this.toPlayableLocalInfo(streamInfo, result.uri, entry);
+  }
+
+  /** JioSaavn audio has no loudness metadata; estimate it from the file. */
+  private async estimateLoudness(
+    videoId: string,
+    entry: LocalCacheEntry,
+    fileUri: string,
+  ): Promise<void> {
+    const loudnessDb = await estimateLoudnessDb(fileUri);
+    if (loudnessDb === null || this.entries.get(videoId) !== entry) return;
+
+    entry.loudnessDb = loudnessDb;
+    this.scheduleSave();
+    loudnessNormalizer.record(videoId, loudnessDb);
+    cacheLog(`Estimated loudness of ${videoId}: ${loudnessDb.toFixed(1)} dB`);
   }
 }
 
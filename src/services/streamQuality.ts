@@ -0,0 +1,183 @@
+/**
+ * Stream Quality
+ *
+ * Lets the user trade audio quality for data, with separate settings for
+ * Wi-Fi and cellular.
+ *
+ * Strategy:
+ *   - Each quality is a bitrate ceiling; Max has none
+ *   - Every source picks the best stream under the ceiling, or its lowest one
+ *     when everything is above it: YouTube HLS variants and adaptive
+ *     formats, JioSaavn's _96/_160/_320 URL variants and the resolver API
+ *   - The connection type comes from expo-network. Anything that isn't
+ *     cellular counts as Wi-Fi
+ *   - Resolved streams remember their quality; prefetchManager re-resolves
+ *     cached ones when the effective quality no longer matches
+ *
+ * Usage:
+ *   const quality = streamQuality.getCurrentQuality()
+ *   const ordered = orderByQuality(formats, (f) => f.bitrate, quality)
+ *   streamQuality.setQuality('cellular', 'low')
+ */
+
+import * as Network from 'expo-network';
+
+export type StreamQuality = 'low' | 'normal' | 'high' | 'max';
+export type NetworkKind = 'wifi' | 'cellular';
+
+export type StreamQualitySettings = Record<NetworkKind, StreamQuality>;
+
+export const STREAM_QUALITIES: StreamQuality[] = ['low', 'normal', 'high', 'max'];
+
+// Highest bitrate (bps) each quality allows
+const MAX_BITRATE: Record<StreamQuality, number> = {
+  low: 96_000,
+  normal: 160_000,
+  high: 320_000,
+  max: Infinity,
+};
+// Reported bitrates are peaks; allow some slack over the ceiling
+const BITRATE_TOLERANCE = 1.1;
+
+const DEFAULT_SETTINGS: StreamQualitySettings = { wifi: 'high', cellular: 'normal' };
+const SETTINGS_KEY = 'settings';
+
+// Lazy-init MMKV so it doesn't crash when native module isn't loaded yet
+let _storage: any = null;
+function getStorage() {
+  if (!_storage) {
+    try {
+      const { createMMKV } = require('react-native-mmkv');
+      _storage = createMMKV({ id: 'stream-quality' });
+    } catch {
+      // MMKV unavailable (e.g. Expo Go) – fall back to in-memory only
+      const memory = new Map<string, string>();
+      _storage = {
+        set: (key: string, value: string) => memory.set(key, value),
+        getString: (key: string) => memory.get(key),
+        remove: (key: string) => memory.delete(key),
+      };
+    }
+  }
+  return _storage;
+}
+
+export function getMaxBitrate(quality: StreamQuality): number {
+  return MAX_BITRATE[quality];
+}
+
+/** Candidates under `quality`'s ceiling and above it, each in the given order. */
+export function partitionByQuality<T>(
+  items: T[],
+  getBitrate: (item: T) => number,
+  quality: StreamQuality,
+): { within: T[]; above: T[] } {
+  const ceiling = MAX_BITRATE[quality] * BITRATE_TOLERANCE;
+  return {
+    within: items.filter((item) => getBitrate(item) <= ceiling),
+    above: items.filter((item) => getBitrate(item) > ceiling),
+  };
+}
+
+/**
+ * Order candidates by preference for `quality`: the best ones under its
+ * ceiling first (highest bitrate first), then the rest from lowest up.
+ */
+export function orderByQuality<T>(
+  items: T[],
+  getBitrate: (item: T) => number,
+  quality: StreamQuality,
+): T[] {
+  const { within, above } = partitionByQuality(items, getBitrate, quality);
+  within.sort((a, b) => getBitrate(b) - getBitrate(a));
+  above.sort((a, b) => getBitrate(a) - getBitrate(b));
+  return [...within, ...above];
+}
+
+class StreamQualityManager {
+  private loaded = false;
+  private settings: StreamQualitySettings = DEFAULT_SETTINGS;
+  private network: NetworkKind = 'wifi';
+  private watching = false;
+
+  /** Start watching the connection type; quality lookups also start it. */
+  init(): void {
+    this.ensureLoaded();
+    this.watchNetwork();
+  }
+
+  getSettings(): StreamQualitySettings {
+    this.ensureLoaded();
+    return this.settings;
+  }
+
+  setQuality(network: NetworkKind, quality: StreamQuality): void {
+    this.ensureLoaded();
+    const previous = this.getCurrentQuality();
+    this.settings = { ...this.settings, [network]: quality };
+    try {
+      getStorage().set(SETTINGS_KEY, JSON.stringify(this.settings));
+    } catch {
+      // Silently fail on storage errors
+    }
+    this.logIfChanged(previous);
+  }
+
+  getNetwork(): NetworkKind {
+    this.watchNetwork();
+    return this.network;
+  }
+
+  /** Quality for the connection we're on right now. */
+  getCurrentQuality(): StreamQuality {
+    this.ensureLoaded();
+    return this.settings[this.getNetwork()];
+  }
+
+  // ── Internals ────────────────────────────────────────────────────────────
+
+  private watchNetwork(): void {
+    if (this.watching) return;
+    this.watching = true;
+    try {
+      Network.addNetworkStateListener(({ type }) => this.setNetworkType(type));
+      Network.getNetworkStateAsync()
+        .then(({ type }) => this.setNetworkType(type))
+        .catch(() => {
+          // Keep assuming Wi-Fi
+        });
+    } catch (err) {
+      console.warn('[StreamQuality] Network state unavailable:', err);
+    }
+  }
+
+  private setNetworkType(type: Network.NetworkStateType | undefined): void {
+    // Offline and unknown states keep the last known connection
+    if (!type || type === Network.NetworkStateType.NONE || type === Network.NetworkStateType.UNKNOWN) {
+      return;
+    }
+    const previous = this.getCurrentQuality();
+    this.network = type === Network.NetworkStateType.CELLULAR ? 'cellular' : 'wifi';
+    this.logIfChanged(previous);
+  }
+
+  private logIfChanged(previous: StreamQuality): void {
+    const quality = this.getCurrentQuality();
+    if (quality === previous) return;
+    console.log(`[StreamQuality] Now streaming at ${quality} (${this.network})`);
+  }
+
+  private ensureLoaded(): void {
+    if (this.loaded) return;
+    this.loaded = true;
+    try {
+      const raw = getStorage().getString(SETTINGS_KEY);
+      if (raw) this.settings = { ...DEFAULT_SETTINGS, ...JSON.parse(raw) };
+    } catch {
+      // Silently fail on parse/storage errors
+    }
+  }
+}
+
+// Singleton instance
+export const streamQuality = new StreamQualityManager();
@@ -8,13 +8,25 @@ import TrackPlayer, {
 } from 'react-native-track-player';
 
 import { Track } from '../types';
+import usePlayerStore from '../store/playerStore';
+import useResumeStore from '../store/resumeStore';
 import { prefetchManager } from './prefetchManager';
 import { streamFileCacheManager } from './streamFileCacheManager';
+import { listeningHistory } from './listeningHistory';
+import { scrobbler } from './scrobbler';
+import { sleepTimer } from './sleepTimer';
+import { playbackRates } from './playbackRate';
+import { loudnessNormalizer } from './loudness';
+import { streamQuality } from './streamQuality';
+import { pickJioSaavnVariant } from './jiosaavn';
+import { toStreamError } from './streamErrors';
 import type { AudioStreamInfo } from './youtube';
 
 const START_TRACK_RESOLVE_TIMEOUT_MS = 45000;
 const ACTIVE_TRACK_RESOLVE_TIMEOUT_MS = 30000;
 const RE_RESOLVE_TIMEOUT_MS = 25000;
+// Only resume a saved position when the track starts from the beginning
+const RESUME_START_WINDOW_SECONDS = 5;
 
 async function withTimeout<T>(
   promise: Promise<T>,
@@ -47,6 +59,8 @@ export async function setupPlayer(): Promise<void> {
     });
 
     await TrackPlayer.updateOptions({
+      // Drives scrobble timing in PlaybackService
+      progressUpdateEventInterval: 5,
       android: {
         appKilledPlaybackBehavior:
           AppKilledPlaybackBehavior.StopPlaybackAndRemoveNotification,
@@ -73,21 +87,68 @@ function buildPlayerTrack(
   streamInfo?: AudioStreamInfo | null,
 ) {
   const ua = streamInfo?.headers?.['User-Agent'];
+  // JioSaavn tracks stream straight from their URL, at the variant for the
+  // current quality setting
+  const saavnVariant =
+    !streamInfo && track.source === 'jiosaavn'
+      ? pickJioSaavnVariant(track.url, streamQuality.getCurrentQuality())
+      : null;
+  const bitrate = streamInfo?.bitrate || saavnVariant?.bitrate;
   return {
     id: track.id,
-    url: streamInfo?.url ?? (track.isYT ? 'https://placeholder.invalid/pending' : track.url),
+    url:
+      streamInfo?.url ??
+      saavnVariant?.url ??
+      (track.isYT ? 'https://placeholder.invalid/pending' : track.url),
     title: track.title,
     artist: track.artist,
     album: track.album,
     artwork: track.artwork,
     duration: track.duration,
+    source: track.source,
+    playbackRate: playbackRates.getRate(track),
+    pitchAlgorithm: playbackRates.pitchAlgorithmFor(track),
     ...(streamInfo?.isHLS ? { type: TrackType.HLS } : {}),
     ...(streamInfo?.headers ? { headers: streamInfo.headers } : {}),
     ...(ua ? { userAgent: ua } : {}),
     ...(streamInfo?.clientUsed ? { clientUsed: streamInfo.clientUsed } : {}),
+    ...(bitrate ? { bitrate } : {}),
+    ...(streamInfo?.loudnessDb != null ? { loudnessDb: streamInfo.loudnessDb } : {}),
   };
 }
 
+// ── Downloaded tracks ────────────────────────────────────────────────────────
+
+/**
+ * Local stream info for every downloaded track in `tracks`. These play from
+ * disk and never go through prefetchManager, so they work offline.
+ */
+async function getDownloadedStreams(
+  tracks: Track[],
+): Promise<Map<string, AudioStreamInfo>> {
+  await streamFileCacheManager.init();
+  const downloaded = new Map<string, AudioStreamInfo>();
+  for (const track of tracks) {
+    if (!streamFileCacheManager.isPinned(track.id)) continue;
+    const streamInfo = await streamFileCacheManager.getPinnedStreamInfo(track.id);
+    if (streamInfo) downloaded.set(track.id, streamInfo);
+  }
+  return downloaded;
+}
+
+/** Prefetch the YT tracks after `index`, skipping downloaded ones. */
+function prefetchUpcoming(tracks: Track[], index: number): void {
+  const current = tracks[index];
+  if (!current) return;
+  const upcoming = tracks
+    .slice(index + 1)
+    .filter((t) => t.isYT && !streamFileCacheManager.isPinned(t.id))
+    .map((t) => t.id);
+  if (upcoming.length > 0) {
+    prefetchManager.prefetchAhead([current.id, ...upcoming], 0);
+  }
+}
+
 // ── Queue management ─────────────────────────────────────────────────────────
 
 /**
@@ -98,10 +159,16 @@ function buildPlayerTrack(
  *   2. Add it to the player and start playing
  *   3. Prefetch the next 2 tracks in the background
  *   4. Add remaining tracks with placeholder URLs (resolved on play)
+ *
+ * Downloaded tracks skip all of this and use their local file.
+ *
+ * `initialPosition` (seconds) starts the first track part-way through, e.g.
+ * when resuming a session restored from storage.
  */
 export async function addTracksToPlayer(
   tracks: Track[],
   startIndex: number,
+  initialPosition?: number,
 ): Promise<void> {
   await TrackPlayer.reset();
 
@@ -110,10 +177,12 @@ export async function addTracksToPlayer(
     throw new Error('[addTracksToPlayer] Invalid start index');
   }
 
+  const downloaded = await getDownloadedStreams(tracks);
+
   // Resolve the starting track's stream info (URL + headers)
-  let startStreamInfo: AudioStreamInfo | null = null;
+  let startStreamInfo: AudioStreamInfo | null = downloaded.get(startTrack.id) ?? null;
   try {
-    if (startTrack.isYT) {
+    if (startTrack.isYT && !startStreamInfo) {
       startStreamInfo = await withTimeout(
         prefetchManager.ensureResolved(startTrack.id),
         START_TRACK_RESOLVE_TIMEOUT_MS,
@@ -126,9 +195,10 @@ export async function addTracksToPlayer(
     }
   } catch (err) {
     console.warn('[addTracksToPlayer] Failed to resolve starting track:', err);
+    reportSkippedTrack(startTrack.id, err);
     for (let i = startIndex + 1; i < tracks.length; i++) {
       try {
-        if (tracks[i].isYT) {
+        if (tracks[i].isYT && !downloaded.has(tracks[i].id)) {
           await withTimeout(
             prefetchManager.ensureResolved(tracks[i].id),
             ACTIVE_TRACK_RESOLVE_TIMEOUT_MS,
@@ -144,21 +214,21 @@ export async function addTracksToPlayer(
   }
 
   // Map all tracks — the starting track gets the real URL + headers,
-  // other YT tracks get a placeholder that will be resolved on skip
+  // downloaded tracks their local file, and other YT tracks a placeholder
+  // that will be resolved on skip
   const mapped = tracks.map((t, i) =>
-    buildPlayerTrack(t, i === startIndex ? startStreamInfo : null),
+    buildPlayerTrack(
+      t,
+      i === startIndex ? startStreamInfo : downloaded.get(t.id) ?? null,
+    ),
   );
 
   await TrackPlayer.add(mapped);
-  await TrackPlayer.skip(startIndex);
+  await TrackPlayer.skip(startIndex, initialPosition);
   await TrackPlayer.play();
 
   // Prefetch next tracks in background
-  const videoIds = tracks.filter((t) => t.isYT).map((t) => t.id);
-  const ytStartIdx = videoIds.indexOf(startTrack.id);
-  if (ytStartIdx >= 0) {
-    prefetchManager.prefetchAhead(videoIds, ytStartIdx);
-  }
+  prefetchUpcoming(tracks, startIndex);
 }
 
 /**
@@ -174,14 +244,20 @@ export async function resolveAndUpdateTrack(
 
   let streamInfo: AudioStreamInfo;
   try {
-    streamInfo = await withTimeout(
-      prefetchManager.ensureResolved(track.id),
-      ACTIVE_TRACK_RESOLVE_TIMEOUT_MS,
-      `resolving queue track ${track.id}`,
-    );
-    streamInfo = await streamFileCacheManager.resolveForPlayback(track.id, streamInfo);
+    const downloadedInfo = await streamFileCacheManager.getPinnedStreamInfo(track.id);
+    if (downloadedInfo) {
+      streamInfo = downloadedInfo;
+    } else {
+      streamInfo = await withTimeout(
+        prefetchManager.ensureResolved(track.id),
+        ACTIVE_TRACK_RESOLVE_TIMEOUT_MS,
+        `resolving queue track ${track.id}`,
+      );
+      streamInfo = await streamFileCacheManager.resolveForPlayback(track.id, streamInfo);
+    }
   } catch (err) {
     console.warn('[TrackPlayer] Failed to resolve YT track, auto-skipping:', err);
+    reportSkippedTrack(track.id, err);
     // Auto-skip to next track
     try {
       await TrackPlayer.skipToNext();
@@ -202,10 +278,121 @@ export async function resolveAndUpdateTrack(
   }
 
   // Continue prefetching ahead
-  const videoIds = allTracks.filter((t) => t.isYT).map((t) => t.id);
-  const currentYtIdx = videoIds.indexOf(track.id);
-  if (currentYtIdx >= 0) {
-    prefetchManager.prefetchAhead(videoIds, currentYtIdx);
+  prefetchUpcoming(allTracks, allTracks.findIndex((t) => t.id === track.id));
+}
+
+/**
+ * Append tracks to the end of the player's queue without touching playback.
+ * Downloaded tracks use their local file, prefetched YT tracks their cached
+ * stream, and everything else a placeholder resolved when it becomes active.
+ */
+export async function appendTracksToPlayer(tracks: Track[]): Promise<void> {
+  if (tracks.length === 0) return;
+
+  const downloaded = await getDownloadedStreams(tracks);
+  const mapped = tracks.map((t) =>
+    buildPlayerTrack(
+      t,
+      downloaded.get(t.id) ?? (t.isYT ? prefetchManager.getCached(t.id) : null),
+    ),
+  );
+  await TrackPlayer.add(mapped);
+}
+
+/**
+ * Insert one track into the player's queue at `index` (the end without one).
+ * Downloaded tracks use their local file and other YT tracks their cached
+ * stream, else a placeholder that is resolved in the background. With
+ * `resolve`, a YT track that isn't downloaded is resolved before inserting.
+ */
+export async function insertTrackInPlayer(
+  track: Track,
+  index?: number,
+  resolve = false,
+): Promise<void> {
+  const downloaded = await getDownloadedStreams([track]);
+  let streamInfo: AudioStreamInfo | null =
+    downloaded.get(track.id) ?? (track.isYT ? prefetchManager.getCached(track.id) : null);
+
+  if (track.isYT && !streamInfo) {
+    if (resolve) {
+      try {
+        streamInfo = await prefetchManager.ensureResolved(track.id);
+      } catch {
+        // Left as a placeholder; resolved again when it becomes active
+      }
+    } else {
+      prefetchManager.ensureResolved(track.id).catch(() => {});
+    }
+  }
+
+  const playerTrack = buildPlayerTrack(track, streamInfo);
+  if (index === undefined) {
+    await TrackPlayer.add(playerTrack);
+  } else {
+    await TrackPlayer.add(playerTrack, index);
+  }
+}
+
+/**
+ * Replace the player's queue with `tracks` in a new order (e.g. shuffle)
+ * and carry on playing `tracks[index]` from `position`. Downloaded tracks use
+ * their local file; the current YT track is resolved and the next two use
+ * their cached stream, the rest placeholders.
+ */
+export async function reorderPlayerQueue(
+  tracks: Track[],
+  index: number,
+  position: number,
+): Promise<void> {
+  const downloaded = await getDownloadedStreams(tracks);
+
+  const mapped = await Promise.all(
+    tracks.map(async (t, i) => {
+      let streamInfo: AudioStreamInfo | null = downloaded.get(t.id) ?? null;
+      if (t.isYT && !streamInfo && i >= index && i <= index + 2) {
+        streamInfo = prefetchManager.getCached(t.id);
+        if (!streamInfo && i === index) {
+          try {
+            streamInfo = await prefetchManager.ensureResolved(t.id);
+          } catch {
+            // Left as a placeholder; resolved again when it becomes active
+          }
+        }
+      }
+      return buildPlayerTrack(t, streamInfo);
+    }),
+  );
+
+  await TrackPlayer.setQueue(mapped);
+  if (index >= 0) {
+    await TrackPlayer.skip(index);
+    await TrackPlayer.seekTo(position);
+    await TrackPlayer.play();
+    prefetchUpcoming(tracks, index);
+  }
+}
+
+/**
+ * Swap the player's track at `index` for `track`, e.g. another upload of a
+ * song that won't play. With `play`, it starts playing.
+ */
+export async function replaceTrackInPlayer(
+  index: number,
+  track: Track,
+  play: boolean,
+): Promise<void> {
+  const downloaded = await getDownloadedStreams([track]);
+  const streamInfo =
+    downloaded.get(track.id) ?? (track.isYT ? prefetchManager.getCached(track.id) : null);
+
+  await TrackPlayer.add(buildPlayerTrack(track, streamInfo), index);
+  if (play) {
+    await TrackPlayer.skip(index);
+  }
+  await TrackPlayer.remove(index + 1);
+  if (play) {
+    await TrackPlayer.play();
   }
 }
 
@@ -274,6 +461,7 @@ function buildPlayerTrackFromRaw(
   streamInfo: AudioStreamInfo,
 ) {
   const ua = streamInfo.headers?.['User-Agent'];
+  const rateTrack = { id: meta.id, duration: meta.duration ?? 0, source: meta.source };
   return {
     id: meta.id,
     url: streamInfo.url,
@@ -282,10 +470,15 @@ function buildPlayerTrackFromRaw(
     album: meta.album,
     artwork: meta.artwork,
     duration: meta.duration,
+    source: meta.source,
+    playbackRate: playbackRates.getRate(rateTrack),
+    pitchAlgorithm: playbackRates.pitchAlgorithmFor(rateTrack),
     ...(streamInfo.isHLS ? { type: TrackType.HLS } : {}),
     ...(streamInfo.headers ? { headers: streamInfo.headers } : {}),
     ...(ua ? { userAgent: ua } : {}),
     ...(streamInfo.clientUsed ? { clientUsed: streamInfo.clientUsed } : {}),
+    ...(streamInfo.bitrate ? { bitrate: streamInfo.bitrate } : {}),
+    ...(streamInfo.loudnessDb != null ? { loudnessDb: streamInfo.loudnessDb } : {}),
   };
 }
 
@@ -299,6 +492,20 @@ function isTransientNetworkErrorCode(code?: string): boolean {
   );
 }
 
+/**
+ * Tell the user why `videoId` is being skipped: a toast, and a badge on its
+ * queue row. Without `err`, the track's last recorded error is shown.
+ */
+function reportSkippedTrack(videoId: string, err?: unknown): void {
+  const { trackErrors, reportSkippedTrack: report } = usePlayerStore.getState();
+  const known = trackErrors[videoId];
+  const error =
+    err === undefined && known
+      ? known
+      : toStreamError(err ?? `Video ${videoId} is blacklisted as unplayable`).toTrackError();
+  report(videoId, error);
+}
+
 function serviceLog(scope: string, message: string) {
   console.log(`[PlaybackService:${scope}] ${message}`);
 }
@@ -320,6 +527,8 @@ export async function PlaybackService(): Promise<void> {
   const errorCooldownByTrack = new Map<string, number>();
   const localRecoveryAttempted = new Set<string>();
 
+  sleepTimer.init();
+
   const hotSwapActiveTrack = async (
     targetId: string,
     nextTrack: any,
@@ -336,12 +545,31 @@ export async function PlaybackService(): Promise<void> {
       await TrackPlayer.add(nextTrack as any, currentIndex);
       await TrackPlayer.skip(currentIndex);
       await TrackPlayer.play();
+      // Re-adding the track can reset the player's rate; the resolved
+      // stream may also bring the track's loudness
+      await playbackRates.apply(nextTrack);
+      await loudnessNormalizer.apply(nextTrack);
       return true;
     } finally {
       queueSwapTargetId = null;
     }
   };
 
+  // Long tracks pick up where they were left off, whichever screen started them
+  const resumeSavedPosition = async (videoId: string): Promise<void> => {
+    const resumeAt = useResumeStore.getState().getResumePosition(videoId);
+    if (resumeAt === null) return;
+    try {
+      const { position } = await TrackPlayer.getProgress();
+      const currentActive = await TrackPlayer.getActiveTrack();
+      if (currentActive?.id !== videoId || position > RESUME_START_WINDOW_SECONDS) return;
+      serviceLog('Resume', `Resuming ${videoId} at ${Math.round(resumeAt)}s`);
+      await TrackPlayer.seekTo(resumeAt);
+    } catch (err) {
+      serviceWarn('Resume', `Failed to resume ${videoId}`, err);
+    }
+  };
+
   const resolveActivePlaceholderIfNeeded = async (): Promise<void> => {
     if (isResolvingActive) return;
     isResolvingActive = true;
@@ -358,8 +586,18 @@ export async function PlaybackService(): Promise<void> {
       if (!videoId) return;
       activeClientUsed = (activeTrack as any)?.clientUsed as string | undefined;
 
+      // Downloaded tracks play from disk — no stream resolution needed
+      const downloadedInfo = await streamFileCacheManager.getPinnedStreamInfo(videoId);
+      if (downloadedInfo) {
+        serviceLog('Resolver', `Playing downloaded file for ${videoId}`);
+        const newTrack = buildPlayerTrackFromRaw(activeTrack as Record<string, any>, downloadedInfo);
+        await hotSwapActiveTrack(videoId, newTrack);
+        return;
+      }
+
       if (prefetchManager.isBlacklisted(videoId)) {
         serviceWarn('Resolver', `Skipping blacklisted track ${videoId}`);
+        reportSkippedTrack(videoId);
         try { await TrackPlayer.skipToNext(); } catch { /* last track */ }
         return;
       }
@@ -427,6 +665,7 @@ export async function PlaybackService(): Promise<void> {
         );
       } catch (retryErr) {
         serviceWarn('Resolver', `Placeholder re-resolve failed for ${videoId}, skipping`, retryErr);
+        reportSkippedTrack(videoId, retryErr);
         try { await TrackPlayer.skipToNext(); } catch { /* no more tracks */ }
       }
     } finally {
@@ -522,6 +761,7 @@ export async function PlaybackService(): Promise<void> {
       // Check if already blacklisted
       if (prefetchManager.isBlacklisted(videoId)) {
         serviceWarn('Error', `Track ${videoId} is blacklisted, skipping`);
+        reportSkippedTrack(videoId);
         try { await TrackPlayer.skipToNext(); } catch { /* last track */ }
         return;
       }
@@ -562,7 +802,8 @@ export async function PlaybackService(): Promise<void> {
       }
 
       // Local cached file failed — evict and continue with re-resolution.
-      if (streamFileCacheManager.isLocalUri(url)) {
+      // Downloads stay pinned; only this playback falls back to streaming.
+      if (streamFileCacheManager.isLocalUri(url) && !streamFileCacheManager.isPinned(videoId)) {
         await streamFileCacheManager.evict(videoId);
       }
 
@@ -588,7 +829,11 @@ export async function PlaybackService(): Promise<void> {
       try {
         // Evict the bad cached URL and re-resolve with a different client
         const newStreamInfo = await withTimeout(
-          prefetchManager.reResolve(videoId, (activeTrack as any)?.clientUsed as string | undefined),
+          prefetchManager.reResolve(
+            videoId,
+            (activeTrack as any)?.clientUsed as string | undefined,
+            event.code ?? event.message ?? 'playback error',
+          ),
           RE_RESOLVE_TIMEOUT_MS,
           `re-resolving errored track ${videoId}`,
         );
@@ -625,6 +870,7 @@ export async function PlaybackService(): Promise<void> {
           `All clients failed for ${videoId}, skipping`,
           retryErr,
         );
+        reportSkippedTrack(videoId, retryErr);
         // All clients exhausted — skip to next track
         try { await TrackPlayer.skipToNext(); } catch { /* last track */ }
       }
@@ -640,6 +886,11 @@ export async function PlaybackService(): Promise<void> {
       const track = event.track;
       if (!track) {
         serviceLog('ActiveTrack', 'ActiveTrackChanged: no track (queue ended)');
+        if (!queueSwapTargetId) {
+          listeningHistory.handleActiveTrackChanged(null, event.lastPosition);
+          scrobbler.handleActiveTrackChanged(null, event.lastPosition);
+          sleepTimer.handleActiveTrackChanged(null);
+        }
         return;
       }
 
@@ -654,6 +905,12 @@ export async function PlaybackService(): Promise<void> {
         return;
       }
 
+      listeningHistory.handleActiveTrackChanged(track as any, event.lastPosition);
+      scrobbler.handleActiveTrackChanged(track as any, event.lastPosition);
+      sleepTimer.handleActiveTrackChanged(track as any);
+      void playbackRates.apply(track as any);
+      void loudnessNormalizer.apply(track as any);
+
       if (videoId) {
         transientRetries.delete(videoId);
         errorCooldownByTrack.delete(videoId);
@@ -668,13 +925,18 @@ export async function PlaybackService(): Promise<void> {
       );
 
       // Only resolve placeholder URLs — already-resolved tracks play normally
-      if (!url || !url.includes('placeholder.invalid')) return;
+      if (!url || !url.includes('placeholder.invalid')) {
+        if (videoId) void resumeSavedPosition(videoId);
+        return;
+      }
 
       if (!videoId) return;
 
-      // Skip blacklisted tracks immediately
-      if (prefetchManager.isBlacklisted(videoId)) {
+      // Skip blacklisted tracks immediately, unless they're downloaded and
+      // play from disk
+      if (prefetchManager.isBlacklisted(videoId) && !streamFileCacheManager.isPinned(videoId)) {
         serviceWarn('ActiveTrack', `Skipping blacklisted track ${videoId}`);
+        reportSkippedTrack(videoId);
         try { await TrackPlayer.skipToNext(); } catch { /* last track */ }
         return;
       }
@@ -683,8 +945,15 @@ export async function PlaybackService(): Promise<void> {
     },
   );
 
-  // ── Log playback state changes for diagnostics ─────────────────────────
+  // ── Log playback state changes and track listened time ─────────────────
   TrackPlayer.addEventListener(Event.PlaybackState, async (event) => {
     serviceLog('State', `PlaybackState: ${event.state}`);
+    listeningHistory.setPlaying(event.state === State.Playing);
+  });
+
+  // ── Scrobble once enough of the track has been played ──────────────────
+  TrackPlayer.addEventListener(Event.PlaybackProgressUpdated, async (event) => {
+    listeningHistory.handleProgress();
+    scrobbler.handleProgress(event.position, event.duration);
   });
 }
@@ -7,15 +7,31 @@
  *   3. Fetch trending / home content
  *   4. Get search suggestions
  *   5. Get "Up Next" queue for auto-play / recommendations
+ *   6. Get chapters of long videos (DJ sets, full albums)
  *
  * If EXPO_PUBLIC_RESOLVER_URL is configured, stream resolution is attempted
  * through the backend resolver first, then falls back to local resolution.
  */
 
-import Innertube, { Platform } from 'youtubei.js';
+import Innertube, { Platform, Utils, YTNodes } from 'youtubei.js';
 import { Platform as RNPlatform } from 'react-native';
-import type { Track } from '../types';
+import type { Track, TrackChapter } from '../types';
 import { resolveJioSaavnFallback } from './jiosaavn';
+import { YT_REFERENCE_LUFS } from './loudness';
+import {
+  orderByQuality,
+  partitionByQuality,
+  streamQuality,
+  type StreamQuality,
+} from './streamQuality';
+import { clientStats, type RankedClient } from './clientStats';
+import {
+  isVideoKind,
+  playabilityError,
+  StreamResolutionError,
+  summarizeStreamErrors,
+  toStreamError,
+} from './streamErrors';
 
 type InnerTubeClient = 'IOS' | 'WEB' | 'MWEB' | 'ANDROID' | 'YTMUSIC' | 'YTMUSIC_ANDROID' | 'YTSTUDIO_ANDROID' | 'TV' | 'TV_SIMPLY' | 'TV_EMBEDDED' | 'YTKIDS' | 'WEB_EMBEDDED' | 'WEB_CREATOR';
 
@@ -130,7 +146,15 @@ export interface YTSearchResult {
   duration: number; // seconds
   artwork: string; // thumbnail URL
   browseId?: string;
-  entityType?: 'song' | 'album' | 'playlist' | 'video';
+  entityType?: 'song' | 'album' | 'playlist' | 'video' | 'artist';
+}
+
+/** YT Music search filters, matching the chips in the search screen. */
+export type YTSearchFilter = 'song' | 'video' | 'album' | 'artist' | 'playlist';
+
+export interface YTSearchPage {
+  results: YTSearchResult[];
+  continuation?: string; // pass to getSearchContinuation for the next page
 }
 
 export interface AudioStreamInfo {
@@ -142,6 +166,7 @@ export interface AudioStreamInfo {
   headers?: Record<string, string>; // HTTP headers required for streaming
   isHLS?: boolean; // true if URL is an HLS manifest
   clientUsed?: string; // which client produced this URL (for retry exclusion)
+  loudnessDb?: number; // dB above YouTube's -14 LUFS reference (see services/loudness)
 }
 
 const BACKEND_RESOLVER_URL = (process.env.EXPO_PUBLIC_RESOLVER_URL ?? '').trim();
@@ -265,7 +290,10 @@ function asThumbnailList(input: any): any[] {
   return [];
 }
 
-function normalizeSearchItem(item: any): YTSearchResult | null {
+function normalizeSearchItem(
+  item: any,
+  entityType: 'song' | 'video' = 'song',
+): YTSearchResult | null {
   const videoId = extractVideoId(item);
   if (!videoId) return null;
 
@@ -293,11 +321,52 @@ function normalizeSearchItem(item: any): YTSearchResult | null {
     album,
     duration,
     artwork,
-    entityType: 'song',
+    entityType,
+  };
+}
+
+/** Album, artist and playlist rows from a typed search; null for anything else. */
+function normalizeBrowseItem(item: any): YTSearchResult | null {
+  const browseId = extractBrowseId(item);
+  if (!browseId) return null;
+
+  const itemType = toPlainText(item?.item_type).toLowerCase();
+  const pageType = getPageType(item);
+  let entityType: YTSearchResult['entityType'];
+  if (itemType === 'album' || pageType.includes('ALBUM')) {
+    entityType = 'album';
+  } else if (itemType === 'artist' || pageType.includes('ARTIST')) {
+    entityType = 'artist';
+  } else if (itemType === 'playlist' || pageType.includes('PLAYLIST')) {
+    entityType = 'playlist';
+  } else {
+    return null;
+  }
+
+  const artists = Array.isArray(item?.artists)
+    ? item.artists.map((a: any) => toPlainText(a?.name ?? a)).filter(Boolean).join(', ')
+    : '';
+  const subtitle =
+    entityType === 'artist'
+      ? toPlainText(item?.subscribers)
+      : artists || toPlainText(item?.author?.name ?? item?.author) || toPlainText(item?.subtitle);
+
+  return {
+    videoId: browseId,
+    title: toPlainText(item?.title) || toPlainText(item?.name) || 'Unknown',
+    artist: subtitle,
+    album: entityType === 'album' ? toPlainText(item?.year) : '',
+    duration: 0,
+    artwork: bestThumbnail(asThumbnailList(item?.thumbnails ?? item?.thumbnail)),
+    browseId,
+    entityType,
   };
 }
 
-function extractSearchResults(results: any): YTSearchResult[] {
+function extractSearchResults(
+  results: any,
+  normalize: (item: any) => YTSearchResult | null = normalizeSearchItem,
+): YTSearchResult[] {
   const output: YTSearchResult[] = [];
   const seenIds = new Set<string>();
 
@@ -316,7 +385,7 @@ function extractSearchResults(results: any): YTSearchResult[] {
       queue.push(...childContents);
     }
 
-    const normalized = normalizeSearchItem(node);
+    const normalized = normalize(node);
     if (!normalized) continue;
     if (seenIds.has(normalized.videoId)) continue;
 
@@ -327,17 +396,28 @@ function extractSearchResults(results: any): YTSearchResult[] {
   return output;
 }
 
-/**
- * Search YouTube Music for songs.
- * Returns normalized results ready to display.
- */
-export async function searchYTMusic(query: string): Promise<YTSearchResult[]> {
-  if (!query.trim()) return [];
+/** Continuation token of a filtered search's result shelf. */
+function shelfContinuation(search: any): string | undefined {
+  const shelf = (search?.contents ?? []).find((node: any) => node?.type === 'MusicShelf');
+  return toPlainText(shelf?.continuation) || undefined;
+}
 
+function normalizerFor(filter: YTSearchFilter): (item: any) => YTSearchResult | null {
+  if (filter === 'song' || filter === 'video') {
+    return (item) => normalizeSearchItem(item, filter);
+  }
+  return (item) => {
+    const normalized = normalizeBrowseItem(item);
+    return normalized?.entityType === filter ? normalized : null;
+  };
+}
+
+async function searchSongs(query: string): Promise<YTSearchPage> {
   const yt = await getInnertube();
   const songResults = await yt.music.search(query, { type: 'song' });
   const songs = extractSearchResults(songResults);
-  if (songs.length >= 12) return songs;
+  const continuation = shelfContinuation(songResults);
+  if (songs.length >= 12) return { results: songs, continuation };
 
   // Fallback: include "video" filter results so songs that exist on YouTube
   // but not in the strict "song" shelf still appear in app search.
@@ -352,12 +432,59 @@ export async function searchYTMusic(query: string): Promise<YTSearchResult[]> {
         merged.set(item.videoId, item);
       }
     }
-    return Array.from(merged.values());
+    return { results: Array.from(merged.values()), continuation };
   } catch {
-    return songs;
+    return { results: songs, continuation };
   }
 }
 
+/**
+ * Search YouTube Music for songs.
+ * Returns normalized results ready to display.
+ */
+export async function searchYTMusic(query: string): Promise<YTSearchResult[]> {
+  if (!query.trim()) return [];
+  return (await searchSongs(query)).results;
+}
+
+/**
+ * Search YouTube Music with one of its typed filters. Songs keep the video
+ * fallback of searchYTMusic; albums, artists and playlists come back with
+ * their browseId and no playable videoId.
+ */
+export async function searchYTMusicByType(
+  query: string,
+  filter: YTSearchFilter,
+): Promise<YTSearchPage> {
+  if (!query.trim()) return { results: [] };
+  if (filter === 'song') return searchSongs(query);
+
+  const yt = await getInnertube();
+  const search = await yt.music.search(query, { type: filter });
+  return {
+    results: extractSearchResults(search, normalizerFor(filter)),
+    continuation: shelfContinuation(search),
+  };
+}
+
+/** Next page of a typed search. Results may repeat ones from earlier pages. */
+export async function getSearchContinuation(
+  continuation: string,
+  filter: YTSearchFilter,
+): Promise<YTSearchPage> {
+  const yt = await getInnertube();
+  const response = await yt.actions.execute('/search', {
+    continuation,
+    client: 'YTMUSIC',
+    parse: true,
+  });
+  const page = response.continuation_contents as any;
+  return {
+    results: extractSearchResults(page, normalizerFor(filter)),
+    continuation: toPlainText(page?.continuation) || undefined,
+  };
+}
+
 // ── Search Suggestions ───────────────────────────────────────────────────────
 
 export async function getSearchSuggestions(query: string): Promise<string[]> {
@@ -401,7 +528,8 @@ const clientUserAgents: Record<string, string> = {
 };
 
 /**
- * Base client list. Runtime order is adjusted in `getClientOrder()`.
+ * Base client list. The platform default order comes from `getClientOrder()`;
+ * clientStats reranks it at runtime.
  */
 const ALL_CLIENTS = [
   'IOS',
@@ -419,6 +547,12 @@ const ALL_CLIENTS = [
 
 type ClientName = (typeof ALL_CLIENTS)[number];
 
+/** Where resolveStreamUrl can get audio from: a YouTube client, or JioSaavn. */
+type StreamSource = ClientName | 'JIOSAAVN';
+
+// Stats key of the resolver backend, tried after every other source
+const BACKEND_STATS_KEY = 'BACKEND';
+
 function getClientOrder(): ClientName[] {
   // On Android, prioritize iOS first because its HLS manifests are generally
   // the most stable for this app, then fall back to direct-capable clients.
@@ -441,6 +575,16 @@ function getClientOrder(): ClientName[] {
   return [...ALL_CLIENTS];
 }
 
+/** IOS, then JioSaavn, then the remaining YouTube clients, before ranking. */
+function getDefaultSourceOrder(): StreamSource[] {
+  return ['IOS', 'JIOSAAVN', ...getClientOrder().filter((client) => client !== 'IOS')];
+}
+
+/** Current source priority with the stats behind it, best first. */
+export function getStreamSourceRanking(): RankedClient[] {
+  return clientStats.rank(getDefaultSourceOrder());
+}
+
 /**
  * Audio quality rank for secondary sorting (higher = better).
  */
@@ -452,7 +596,8 @@ const AUDIO_QUALITY_RANK: Record<string, number> = {
 
 /**
  * Try to extract a playable stream from a single client's response.
- * Returns null if no playable stream is found.
+ * Returns null if no playable stream is found, and throws a
+ * StreamResolutionError when YouTube says why the video won't play.
  *
  * Priority:
  *   - For IOS client: HLS first (reliable with ExoPlayer), direct as fallback
@@ -466,34 +611,80 @@ async function tryClientForStream(
   yt: Innertube,
   videoId: string,
   client: InnerTubeClient,
+  quality: StreamQuality,
 ): Promise<AudioStreamInfo | null> {
   const info = await yt.getBasicInfo(videoId, { client });
   const streamingData = info.streaming_data;
 
-  if (!streamingData) return null;
+  if (!streamingData) {
+    const error = playabilityError(info.playability_status);
+    if (error) throw error;
+    return null;
+  }
+
+  const result = await pickClientStream(yt, streamingData, client, quality);
+  if (!result) return null;
+  return {
+    ...result,
+    loudnessDb: result.loudnessDb ?? readLoudnessDb((info as any).player_config?.audio_config),
+  };
+}
+
+/**
+ * YouTube's loudness for a video, in dB above its reference level. Some
+ * responses only carry `perceptual_loudness_db`, which is on an absolute scale.
+ */
+function readLoudnessDb(audioConfig: any): number | undefined {
+  const loudnessDb = Number(audioConfig?.loudness_db);
+  if (audioConfig?.loudness_db != null && Number.isFinite(loudnessDb)) return loudnessDb;
+
+  const perceptual = Number(audioConfig?.perceptual_loudness_db);
+  if (audioConfig?.perceptual_loudness_db != null && Number.isFinite(perceptual)) {
+    return perceptual - YT_REFERENCE_LUFS;
+  }
+  return undefined;
+}
+
+/** Per-format loudness of an adaptive audio format, when YouTube reports one. */
+function readFormatLoudnessDb(format: any): number | undefined {
+  if (typeof format?.loudness_db === 'number') return format.loudness_db;
+  if (typeof format?.track_absolute_loudness_lkfs === 'number') {
+    return format.track_absolute_loudness_lkfs - YT_REFERENCE_LUFS;
+  }
+  return undefined;
+}
 
+/** Direct or HLS audio from one client's streaming data, in preference order. */
+async function pickClientStream(
+  yt: Innertube,
+  streamingData: any,
+  client: InnerTubeClient,
+  quality: StreamQuality,
+): Promise<AudioStreamInfo | null> {
   // For IOS, prefer HLS first (known to work), then try direct as fallback.
   const preferHLS = client === 'IOS';
 
   if (preferHLS) {
     // ── HLS first for IOS ──────────────────────────────────────────────
-    const hlsResult = await tryHLS(streamingData, client);
+    const hlsResult = await tryHLS(streamingData, client, quality);
     if (hlsResult) return hlsResult;
 
     // ── Direct fallback for IOS ────────────────────────────────────────
     const directResult = await tryDirectAudio(yt, streamingData, client, {
       allowWithoutPreflight: RNPlatform.OS === 'android',
+      quality,
     });
     if (directResult) return directResult;
   } else {
     // ── Direct first for non-IOS clients ───────────────────────────────
     const directResult = await tryDirectAudio(yt, streamingData, client, {
       allowWithoutPreflight: RNPlatform.OS === 'android',
+      quality,
     });
     if (directResult) return directResult;
 
     // ── HLS fallback for non-IOS clients ───────────────────────────────
-    const hlsResult = await tryHLS(streamingData, client);
+    const hlsResult = await tryHLS(streamingData, client, quality);
     if (hlsResult) return hlsResult;
   }
 
@@ -534,12 +725,16 @@ function normalizeStreamInfoFromBackend(payload: any): AudioStreamInfo {
     headers: normalizeStreamHeaders(payload.headers),
     isHLS: Boolean(payload.isHLS),
     clientUsed: `${BACKEND_CLIENT_PREFIX}${backendClient}`,
+    ...(Number.isFinite(Number(payload.loudnessDb)) && payload.loudnessDb != null
+      ? { loudnessDb: Number(payload.loudnessDb) }
+      : {}),
   };
 }
 
 async function resolveStreamViaBackend(
   videoId: string,
-  excludeClients?: string[],
+  excludeClients: string[] | undefined,
+  quality: StreamQuality,
 ): Promise<AudioStreamInfo> {
   if (!BACKEND_RESOLVER_URL) {
     throw new Error('Backend resolver URL is not configured');
@@ -570,6 +765,7 @@ async function resolveStreamViaBackend(
       body: JSON.stringify({
         videoId,
         excludeClients: backendExcludeClients,
+        quality,
       }),
       signal: controller.signal,
     });
@@ -583,11 +779,16 @@ async function resolveStreamViaBackend(
 
     if (!response.ok || payload?.ok === false) {
       const reason = toPlainText(payload?.error) || `HTTP ${response.status}`;
-      throw new Error(reason);
+      throw toStreamError(new Error(reason));
     }
 
     const streamPayload = payload?.stream ?? payload;
     return normalizeStreamInfoFromBackend(streamPayload);
+  } catch (err: any) {
+    if (err?.name === 'AbortError') {
+      throw new StreamResolutionError('timeout', 'Backend resolver timed out');
+    }
+    throw err;
   } finally {
     clearTimeout(timeoutHandle);
   }
@@ -606,6 +807,7 @@ async function resolveStreamViaBackend(
 async function tryHLS(
   streamingData: any,
   client: string,
+  quality: StreamQuality,
 ): Promise<AudioStreamInfo | null> {
   if (!streamingData.hls_manifest_url) return null;
 
@@ -621,16 +823,16 @@ async function tryHLS(
 
     if (resp.ok) {
       const manifest = await resp.text();
-      const audioOnlyUrl = pickBestAudioRendition(manifest, hlsUrl);
+      const rendition = pickBestAudioRendition(manifest, hlsUrl, quality);
 
-      if (audioOnlyUrl) {
+      if (rendition) {
         console.log(
-          `[YT] ${client}: HLS audio-only rendition found`,
+          `[YT] ${client}: HLS audio-only rendition found (~${Math.round(rendition.bandwidth / 1000)}kbps)`,
         );
         return {
-          url: audioOnlyUrl,
+          url: rendition.url,
           mimeType: 'application/x-mpegURL',
-          bitrate: 256000, // audio-only HLS is typically ~256kbps AAC
+          bitrate: rendition.bandwidth,
           durationMs: 0,
           expiresAt: Date.now() + 5 * 60 * 60 * 1000,
           isHLS: true,
@@ -649,8 +851,10 @@ async function tryHLS(
   const hlsAudioFormats = (streamingData.adaptive_formats ?? []).filter(
     (f: any) => f.has_audio && !f.has_video,
   );
-  const bestHlsAudio = hlsAudioFormats.sort(
-    (a: any, b: any) => (b.bitrate ?? 0) - (a.bitrate ?? 0),
+  const bestHlsAudio = orderByQuality(
+    hlsAudioFormats,
+    (f: any) => f.bitrate ?? 0,
+    quality,
   )[0];
 
   console.log(
@@ -674,18 +878,21 @@ async function tryHLS(
  * YouTube master manifests use two patterns for audio:
  *
  * 1. `#EXT-X-MEDIA:TYPE=AUDIO,...,URI="<url>"`
- *    These are explicit audio renditions. Pick the highest bandwidth one.
+ *    These are explicit audio renditions, listed in ascending quality. Pick
+ *    the lowest for the Low quality setting, the highest otherwise.
  *
  * 2. `#EXT-X-STREAM-INF:...,CODECS="mp4a.40.2",...` (audio-only codec, no video codec)
  *    followed by the stream URL on the next line.
- *    These are audio-only variant streams. Pick the highest BANDWIDTH.
+ *    These are audio-only variant streams. Pick the best BANDWIDTH for the
+ *    quality setting.
  *
- * Returns the URL of the best audio-only stream, or null if none found.
+ * Returns the chosen audio-only stream, or null if none found.
  */
 function pickBestAudioRendition(
   manifest: string,
   baseUrl: string,
-): string | null {
+  quality: StreamQuality,
+): { url: string; bandwidth: number } | null {
   const lines = manifest.split('\n');
 
   // ── Strategy 1: #EXT-X-MEDIA:TYPE=AUDIO with URI ──────────────────
@@ -694,13 +901,17 @@ function pickBestAudioRendition(
   );
 
   if (mediaAudioLines.length > 0) {
-    // Pick the one with the highest GROUP-ID or just the last one
-    // (YouTube typically lists them in ascending quality order)
-    const lastMedia = mediaAudioLines[mediaAudioLines.length - 1];
-    const uriMatch = lastMedia.match(/URI="([^"]+)"/);
+    // These carry no bandwidth, but YouTube lists them in ascending quality
+    // order: typically ~64kbps up to ~256kbps AAC
+    const pickLowest = quality === 'low' && mediaAudioLines.length > 1;
+    const media = pickLowest ? mediaAudioLines[0] : mediaAudioLines[mediaAudioLines.length - 1];
+    const uriMatch = media.match(/URI="([^"]+)"/);
     if (uriMatch?.[1]) {
       const uri = uriMatch[1];
-      return resolveHlsUrl(uri, baseUrl);
+      return {
+        url: resolveHlsUrl(uri, baseUrl),
+        bandwidth: pickLowest ? 64000 : 256000,
+      };
     }
   }
 
@@ -741,13 +952,12 @@ function pickBestAudioRendition(
   }
 
   if (audioOnlyVariants.length > 0) {
-    // Sort by bandwidth descending, pick the best
-    audioOnlyVariants.sort((a, b) => b.bandwidth - a.bandwidth);
-    const best = audioOnlyVariants[0];
+    // Pick the best bandwidth the quality setting allows
+    const best = orderByQuality(audioOnlyVariants, (v) => v.bandwidth, quality)[0];
     console.log(
       `[YT] HLS audio-only variant: ${Math.round(best.bandwidth / 1000)}kbps`,
     );
-    return best.url;
+    return best;
   }
 
   return null;
@@ -777,9 +987,10 @@ async function tryDirectAudio(
   client: string,
   options?: {
     allowWithoutPreflight?: boolean;
+    quality?: StreamQuality;
   },
 ): Promise<AudioStreamInfo | null> {
-  const audioFormats = (streamingData.adaptive_formats ?? []).filter(
+  let audioFormats = (streamingData.adaptive_formats ?? []).filter(
     (f: any) => f.has_audio && !f.has_video,
   );
 
@@ -798,6 +1009,16 @@ async function tryDirectAudio(
     const qualB = AUDIO_QUALITY_RANK[b.audio_quality ?? ''] ?? 0;
     return qualB - qualA;
   });
+  // Then cap by the quality setting. Formats under the ceiling keep that
+  // order; above it the lowest bitrate comes first (a stable sort, so ties
+  // keep their rank)
+  const { within, above } = partitionByQuality(
+    audioFormats,
+    (f: any) => f.average_bitrate ?? f.bitrate ?? 0,
+    options?.quality ?? 'max',
+  );
+  above.sort((a: any, b: any) => (a.bitrate ?? 0) - (b.bitrate ?? 0));
+  audioFormats = [...within, ...above];
   const ua = clientUserAgents[client] || clientUserAgents.WEB;
   const allowWithoutPreflight = !!options?.allowWithoutPreflight;
   let fallbackWithoutPreflight: AudioStreamInfo | null = null;
@@ -881,6 +1102,7 @@ async function tryDirectAudio(
             'User-Agent': ua,
           },
           clientUsed: client,
+          loudnessDb: readFormatLoudnessDb(format),
         };
         break;
       }
@@ -899,6 +1121,7 @@ async function tryDirectAudio(
           'User-Agent': ua,
         },
         clientUsed: client,
+        loudnessDb: readFormatLoudnessDb(format),
       };
     } catch (err: any) {
       console.warn(
@@ -922,10 +1145,16 @@ async function tryDirectAudio(
  * Resolve a videoId to a playable audio stream URL.
  *
  * Strategy:
- *   1. Try IOS client first — its HLS manifests work reliably with ExoPlayer.
- *      Within the IOS client, direct audio is tried before HLS when available.
- *   2. Fall back through ANDROID, YTMUSIC_ANDROID, WEB, YTMUSIC, TV_EMBEDDED.
- *   3. Each client tries direct adaptive audio first (higher quality), then HLS.
+ *   1. By default try IOS client first — its HLS manifests work reliably with
+ *      ExoPlayer — then the JioSaavn fallback, then the other clients.
+ *   2. clientStats reorders that list by each source's recent success rate
+ *      and latency, and every attempt feeds back into it.
+ *   3. Each client tries direct adaptive audio first (higher quality), then HLS
+ *      (IOS prefers HLS).
+ *   4. The resolver backend, if configured, is the last resort.
+ *   5. Every source picks its stream for the current streamQuality setting.
+ *   6. If everything fails, throws the most telling StreamResolutionError of
+ *      all sources (see streamErrors).
  *
  * @param excludeClients - Clients that already failed for this video (e.g.
  *   after a PlaybackError). These are skipped so we try a different client.
@@ -941,7 +1170,8 @@ export async function resolveStreamUrl(
   const excluded = new Set(excludeClients?.map((c) => c.toUpperCase()) ?? []);
 
   const yt = await getInnertube();
-  const clientOrder = getClientOrder();
+  const quality = streamQuality.getCurrentQuality();
+  const errors: StreamResolutionError[] = [];
 
   const getVideoMetaForFallback = async (): Promise<FallbackMeta | null> => {
     const cached = fallbackMetaCache.get(videoId);
@@ -967,70 +1197,86 @@ export async function resolveStreamUrl(
     return null;
   };
 
-  const tryClient = async (client: InnerTubeClient): Promise<AudioStreamInfo | null> => {
-    if (excluded.has(client)) return null;
-    try {
-      return await tryClientForStream(yt, videoId, client);
-    } catch (err: any) {
-      console.warn(`[YT] Client ${client} failed for ${videoId}:`, err?.message ?? err);
-      return null;
+  // JioSaavn stands in for YouTube by matching title, artist and duration
+  const tryJioSaavn = async (): Promise<AudioStreamInfo | null> => {
+    const meta = await getVideoMetaForFallback();
+    if (!meta) {
+      console.log(`[YT] JioSaavn fallback skipped for ${videoId}: no metadata`);
+      throw new Error('No metadata to match on');
     }
+    console.log(
+      `[YT] Trying JioSaavn fallback for ${videoId} using "${meta.title}"`,
+    );
+    const saavnResult = await resolveJioSaavnFallback({
+      title: meta.title,
+      artist: meta.artist,
+      durationSeconds: meta.durationSeconds,
+      quality,
+    });
+    if (saavnResult) {
+      console.log(`[YT] JioSaavn fallback selected for ${videoId}`);
+    } else {
+      console.log(`[YT] JioSaavn fallback had no match for ${videoId}`);
+    }
+    return saavnResult;
   };
 
-  // Priority order requested:
-  //   1) IOS
-  //   2) JioSaavn fallback
-  //   3) Remaining YouTube clients
-  const iosResult = await tryClient('IOS');
-  if (iosResult) return iosResult;
-
-  if (!excluded.has('JIOSAAVN')) {
+  const trySource = async (source: StreamSource): Promise<AudioStreamInfo | null> => {
+    if (excluded.has(source)) return null;
+    const startedAt = Date.now();
     try {
-      const meta = await getVideoMetaForFallback();
-      if (meta) {
-        console.log(
-          `[YT] Trying JioSaavn fallback for ${videoId} using "${meta.title}"`,
-        );
-        const saavnResult = await resolveJioSaavnFallback({
-          title: meta.title,
-          artist: meta.artist,
-          durationSeconds: meta.durationSeconds,
-        });
-        if (saavnResult) {
-          console.log(`[YT] JioSaavn fallback selected for ${videoId}`);
-          return saavnResult;
-        }
-        console.log(`[YT] JioSaavn fallback had no match for ${videoId}`);
-      } else {
-        console.log(`[YT] JioSaavn fallback skipped for ${videoId}: no metadata`);
+      const result =
+        source === 'JIOSAAVN'
+          ? await tryJioSaavn()
+          : await tryClientForStream(yt, videoId, source, quality);
+      if (result) {
+        clientStats.recordSuccess(source, Date.now() - startedAt);
       }
+      // No match (JioSaavn) says nothing about how well the source works
+      return result;
     } catch (err: any) {
-      console.warn(`[YT] JioSaavn fallback failed for ${videoId}:`, err?.message ?? err);
+      console.warn(`[YT] ${source} failed for ${videoId}:`, err?.message ?? err);
+      const error = toStreamError(err);
+      // A removed or blocked video fails on every source; don't rank this one down
+      if (!isVideoKind(error.kind)) {
+        clientStats.recordFailure(source, error.message);
+      }
+      errors.push(error);
+      return null;
     }
-  }
+  };
 
-  for (const client of clientOrder) {
-    if (client === 'IOS') continue;
-    const result = await tryClient(client);
+  // The default order, reranked by how well each source has done lately
+  const sourceOrder = clientStats.rankClients(getDefaultSourceOrder());
+
+  for (const source of sourceOrder) {
+    const result = await trySource(source);
     if (result) return result;
   }
 
   if (BACKEND_RESOLVER_URL) {
+    const startedAt = Date.now();
     try {
-      const backendStream = await resolveStreamViaBackend(videoId, excludeClients);
+      const backendStream = await resolveStreamViaBackend(videoId, excludeClients, quality);
       console.log(
         `[YT] Backend resolver selected ${backendStream.clientUsed ?? 'unknown'} for ${videoId}`,
       );
+      clientStats.recordSuccess(BACKEND_STATS_KEY, Date.now() - startedAt);
       return backendStream;
     } catch (err: any) {
       console.warn(
         `[YT] Backend resolver failed for ${videoId}:`,
         err?.message ?? err,
       );
+      const error = toStreamError(err);
+      if (!isVideoKind(error.kind)) {
+        clientStats.recordFailure(BACKEND_STATS_KEY, error.message);
+      }
+      errors.push(error);
     }
   }
 
-  throw new Error(`All clients failed to resolve stream URL for ${videoId}`);
+  throw summarizeStreamErrors(videoId, errors);
 }
 
 // ── Conversion helpers ───────────────────────────────────────────────────────
@@ -1060,52 +1306,399 @@ export function ytResultToTrack(result: YTSearchResult): Track {
     duration: result.duration,
     isYT: true,
     source: 'youtube',
+    chapters: chapterCache.get(result.videoId),
   };
 }
 
+// ── Chapters ─────────────────────────────────────────────────────────────────
+
+// Shorter videos aren't worth an extra getInfo() call
+export const MIN_CHAPTERED_DURATION_SECONDS = 10 * 60;
+
+const chapterCache = new Map<string, TrackChapter[]>();
+
+// "1:02:03", "12:34" or "0:00"
+const TIMESTAMP_PATTERN = '(?:\\d{1,2}:)?\\d{1,2}:\\d{2}';
+// "00:00 Intro", "[1:02:03] - Title", "1. 12:34 Title"
+const LEADING_TIMESTAMP_REGEX = new RegExp(
+  `^\\s*(?:\\d+[.)]\\s*)?[([]?(${TIMESTAMP_PATTERN})[)\\]]?\\s*[-–—:|]?\\s*(.+?)\\s*$`,
+);
+// "Title - 12:34"
+const TRAILING_TIMESTAMP_REGEX = new RegExp(
+  `^\\s*(.+?)\\s*[-–—:|]?\\s*[([]?(${TIMESTAMP_PATTERN})[)\\]]?\\s*$`,
+);
+
+function parseTimestamp(value: string): number {
+  return value.split(':').reduce((total, part) => total * 60 + Number(part), 0);
+}
+
+/**
+ * Chapters from timestamp lines in a video description. Like YouTube itself,
+ * this needs the first chapter at 0:00 and at least two chapters in order.
+ */
+export function parseChaptersFromDescription(
+  description: string,
+  durationSeconds = 0,
+): TrackChapter[] {
+  const chapters: TrackChapter[] = [];
+  for (const line of description.split('\n')) {
+    const leading = line.match(LEADING_TIMESTAMP_REGEX);
+    const trailing = leading ? null : line.match(TRAILING_TIMESTAMP_REGEX);
+    const timestamp = leading?.[1] ?? trailing?.[2];
+    const title = leading?.[2] ?? trailing?.[1];
+    if (!timestamp || !title) continue;
+
+    const start = parseTimestamp(timestamp);
+    if (durationSeconds > 0 && start >= durationSeconds) continue;
+    // A timestamp that goes backwards starts an unrelated list (e.g. credits)
+    if (chapters.length > 0 && start <= chapters[chapters.length - 1].start) {
+      if (chapters.length >= 2) break;
+      chapters.length = 0;
+    }
+    if (chapters.length === 0 && start !== 0) continue;
+    chapters.push({ title: title.replace(/^[-–—:|\s]+/, ''), start });
+  }
+  return chapters.length >= 2 ? chapters : [];
+}
+
+/** Chapters from the player bar's markers ("Chapters" on the seek bar). */
+function chaptersFromPlayerMarkers(info: any): TrackChapter[] {
+  const markers = info?.player_overlays?.decorated_player_bar?.player_bar?.markers_map ?? [];
+  for (const marker of markers) {
+    const chapters = marker?.value?.chapters;
+    if (!chapters?.length) continue;
+    return chapters
+      .map((chapter: any) => ({
+        title: toPlainText(chapter?.title),
+        start: Math.round((chapter?.time_range_start_millis ?? 0) / 1000),
+      }))
+      .filter((chapter: TrackChapter) => chapter.title);
+  }
+  return [];
+}
+
+/** Chapters from the "In this video" engagement panel (macro markers). */
+function chaptersFromMacroMarkers(info: any): TrackChapter[] {
+  const panels = info?.page?.[1]?.engagement_panels ?? [];
+  for (const panel of panels) {
+    const items = (panel?.content?.contents ?? []).filter(
+      (item: any) => item?.type === 'MacroMarkersListItem',
+    );
+    if (items.length < 2) continue;
+    return items
+      .map((item: any) => ({
+        title: toPlainText(item?.title),
+        start: parseTimestamp(toPlainText(item?.time_description)),
+      }))
+      .filter((chapter: TrackChapter) => chapter.title && Number.isFinite(chapter.start));
+  }
+  return [];
+}
+
+/**
+ * Chapters of a YouTube video, from its player markers, its macro markers or
+ * timestamps in its description, in that order. Returns an empty list when
+ * the video has none; results are cached so later Tracks carry them.
+ */
+export async function getChapters(videoId: string): Promise<TrackChapter[]> {
+  const cached = chapterCache.get(videoId);
+  if (cached) return cached;
+  if (!isLikelyVideoId(videoId)) return [];
+
+  const yt = await getInnertube();
+  const info = await yt.getInfo(videoId);
+  const duration = parseDurationSeconds((info as any)?.basic_info?.duration);
+
+  let chapters = chaptersFromPlayerMarkers(info);
+  if (chapters.length < 2) chapters = chaptersFromMacroMarkers(info);
+  if (chapters.length < 2) {
+    chapters = parseChaptersFromDescription(
+      toPlainText((info as any)?.basic_info?.short_description),
+      duration,
+    );
+  }
+  chapters = chapters.length >= 2 ? chapters.sort((a, b) => a.start - b.start) : [];
+
+  chapterCache.set(videoId, chapters);
+  return chapters;
+}
+
+/** Index of the chapter playing at `position`, or -1. */
+export function findChapterIndex(chapters: TrackChapter[], position: number): number {
+  for (let i = chapters.length - 1; i >= 0; i--) {
+    if (position >= chapters[i].start) return i;
+  }
+  return -1;
+}
+
 // ── Up Next / Recommendations ────────────────────────────────────────────────
 
+/**
+ * Fetch the lyrics shown in YouTube Music's "Lyrics" tab.
+ * These are plain text (no timestamps). Returns null when the track has none.
+ */
+export async function getYTMusicLyrics(videoId: string): Promise<string | null> {
+  if (!isLikelyVideoId(videoId)) return null;
+  try {
+    const yt = await getInnertube();
+    const shelf = await yt.music.getLyrics(videoId);
+    const text = toPlainText((shelf as any)?.description);
+    return text || null;
+  } catch (err) {
+    // "Lyrics not available" surfaces as an InnertubeError; anything else
+    // (offline, timeouts) is thrown so it isn't mistaken for no lyrics
+    if (err instanceof Utils.InnertubeError) return null;
+    throw err;
+  }
+}
+
 /**
  * Get "Up Next" recommendations for a given video.
  * Returns a list of tracks that would auto-play after the current one.
+ * Throws when the request fails, so callers can tell that from no results.
  */
 export async function getUpNext(videoId: string): Promise<YTSearchResult[]> {
-  try {
-    const yt = await getInnertube();
-    const upNext = await yt.music.getUpNext(videoId, true);
-
-    const tracks: YTSearchResult[] = [];
-
-    for (const item of upNext.contents) {
-      if (item.type === 'PlaylistPanelVideo') {
-        const vid = toPlainText((item as any).video_id);
-        if (!vid || vid === videoId) continue; // skip the current track
-        if (!isLikelyVideoId(vid)) continue;
-
-        const thumbnails = (item as any).thumbnail ?? [];
-        const thumb = bestThumbnail(thumbnails);
-
-        tracks.push({
-          videoId: vid,
-          title: (item as any).title?.toString?.() ?? 'Unknown',
-          artist: (item as any).author ?? 'Unknown Artist',
-          album:
-            (item as any).album?.name ?? '',
-          duration: (item as any).duration?.seconds ?? 0,
-          artwork: thumb,
-          entityType: 'song',
-        });
-      }
+  const yt = await getInnertube();
+  const upNext = await yt.music.getUpNext(videoId, true);
+  return playlistPanelToResults(upNext.contents, videoId);
+}
+
+/** Map PlaylistPanelVideo items (up next / radio queues) to search results. */
+function playlistPanelToResults(contents: any[], skipVideoId?: string): YTSearchResult[] {
+  const tracks: YTSearchResult[] = [];
+
+  for (const item of contents ?? []) {
+    if (item.type === 'PlaylistPanelVideo') {
+      const vid = toPlainText((item as any).video_id);
+      if (!vid || vid === skipVideoId) continue; // skip the current track
+      if (!isLikelyVideoId(vid)) continue;
+
+      const thumbnails = (item as any).thumbnail ?? [];
+      const thumb = bestThumbnail(thumbnails);
+
+      tracks.push({
+        videoId: vid,
+        title: (item as any).title?.toString?.() ?? 'Unknown',
+        artist: (item as any).author ?? 'Unknown Artist',
+        album:
+          (item as any).album?.name ?? '',
+        duration: (item as any).duration?.seconds ?? 0,
+        artwork: thumb,
+        entityType: 'song',
+      });
     }
+  }
 
-    return tracks;
-  } catch {
-    return [];
+  return tracks;
+}
+
+// ── Radio ────────────────────────────────────────────────────────────────────
+
+/** What a radio station is built from. */
+export type YTRadioSeed =
+  | { type: 'track'; videoId: string }
+  | { type: 'album' | 'playlist'; id: string }
+  | { type: 'artist'; name: string };
+
+export interface YTRadioPage {
+  tracks: YTSearchResult[];
+  continuation?: string; // pass to getRadioContinuation for more tracks
+}
+
+/** Fetch the watch-next queue for a radio playlist (RDAMVM…, RDAMPL…, RDEM…). */
+async function fetchRadioPanel(
+  yt: Innertube,
+  endpoint: { playlistId: string; videoId?: string; params?: string },
+): Promise<YTRadioPage> {
+  const response = await yt.actions.execute('/next', {
+    ...endpoint,
+    client: 'YTMUSIC',
+    parse: true,
+  });
+  const panel = response.contents_memo?.getType(YTNodes.PlaylistPanel)?.[0];
+  if (!panel) throw new Error('Radio queue not found');
+
+  return {
+    tracks: playlistPanelToResults(panel.contents),
+    continuation: panel.continuation || undefined,
+  };
+}
+
+/** The radio endpoint on an artist page (its "Radio" button). */
+async function getArtistRadioEndpoint(
+  yt: Innertube,
+  name: string,
+): Promise<{ playlistId: string; videoId?: string; params?: string } | null> {
+  const search = await yt.music.search(name, { type: 'artist' });
+  const items = ((search as any).contents ?? []).flatMap((shelf: any) => shelf.contents ?? []);
+  const artistId = items
+    .map((item: any) => item?.id ?? extractBrowseId(item))
+    .find((id: string | undefined) => !!id && id.startsWith('UC'));
+  if (!artistId) return null;
+
+  const artist = await yt.music.getArtist(artistId);
+  const payload = (artist.header as any)?.start_radio_button?.endpoint?.payload;
+  if (!payload?.playlistId) return null;
+  return { playlistId: payload.playlistId, videoId: payload.videoId, params: payload.params };
+}
+
+/**
+ * Start an endless radio station. Track radios use the automix queue from
+ * getUpNext; albums and playlists use their RDAMPL radio playlist, and
+ * artists the radio behind the artist page's "Radio" button.
+ */
+export async function getRadio(seed: YTRadioSeed): Promise<YTRadioPage> {
+  const yt = await getInnertube();
+
+  if (seed.type === 'track') {
+    const upNext = await yt.music.getUpNext(seed.videoId, true);
+    return {
+      tracks: playlistPanelToResults(upNext.contents, seed.videoId),
+      continuation: upNext.continuation || undefined,
+    };
   }
+
+  if (seed.type === 'artist') {
+    const endpoint = await getArtistRadioEndpoint(yt, seed.name);
+    if (!endpoint) throw new Error(`No radio found for ${seed.name}`);
+    return fetchRadioPanel(yt, endpoint);
+  }
+
+  let listId = seed.id.replace(/^VL/, '');
+  if (seed.type === 'album') {
+    // Albums are browsed by MPREb_ id; the radio needs the OLAK5uy_ playlist
+    const album = await yt.music.getAlbum(seed.id);
+    const canonical = album.url ?? '';
+    listId = canonical.match(/[?&]list=([^&]+)/)?.[1] ?? '';
+    if (!listId) throw new Error('Album playlist not found');
+  }
+  return fetchRadioPanel(yt, { playlistId: `RDAMPL${listId}` });
+}
+
+/** Next page of a radio station. */
+export async function getRadioContinuation(continuation: string): Promise<YTRadioPage> {
+  const yt = await getInnertube();
+  const response = await yt.actions.execute('/next', {
+    continuation,
+    client: 'YTMUSIC',
+    parse: true,
+  });
+  const page = response.continuation_contents as any;
+  return {
+    tracks: playlistPanelToResults(page?.contents ?? []),
+    continuation: page?.continuation || undefined,
+  };
 }
 
 // ── Home Feed / Trending ─────────────────────────────────────────────────────
 
+function parseShelfItem(item: any): YTSearchResult | null {
+  if (item.type === 'MusicTwoRowItem') {
+    // These can be songs, albums, or playlists.
+    const playableVideoId = extractVideoId(item);
+    const browseId = extractBrowseId(item);
+    const pageType = getPageType(item);
+    const isPlayable = !!playableVideoId;
+
+    if (!isPlayable && !browseId) return null;
+
+    let entityType: YTSearchResult['entityType'] = 'song';
+    if (!isPlayable) {
+      if (pageType.includes('ALBUM')) {
+        entityType = 'album';
+      } else if (pageType.includes('PLAYLIST')) {
+        entityType = 'playlist';
+      } else {
+        entityType = 'playlist';
+      }
+    }
+
+    const thumbnails = asThumbnailList((item as any).thumbnail);
+    const thumb = bestThumbnail(thumbnails);
+
+    return {
+      videoId: playableVideoId || browseId,
+      title: (item as any).title?.toString?.() ?? '',
+      artist: (item as any).subtitle?.toString?.() ?? '',
+      album: '',
+      duration: isPlayable ? ((item as any).duration?.seconds ?? 0) : 0,
+      artwork: thumb,
+      browseId: browseId || undefined,
+      entityType,
+    };
+  }
+
+  if (item.type === 'MusicResponsiveListItem') {
+    const playableVideoId = extractVideoId(item);
+    const browseId = extractBrowseId(item);
+    const itemType = toPlainText((item as any).item_type).toLowerCase();
+    const isPlayable = !!playableVideoId;
+    if (!isPlayable && !browseId) return null;
+
+    const thumbnails = asThumbnailList((item as any).thumbnails);
+    const thumb = bestThumbnail(thumbnails);
+
+    let entityType: YTSearchResult['entityType'] = 'song';
+    if (!isPlayable) {
+      entityType =
+        itemType === 'album'
+          ? 'album'
+          : itemType === 'playlist'
+            ? 'playlist'
+            : 'playlist';
+    }
+
+    return {
+      videoId: playableVideoId || browseId,
+      title: (item as any).title ?? '',
+      artist:
+        (item as any).artists?.map((a: any) => a.name).join(', ') ?? '',
+      album: (item as any).album?.name ?? '',
+      duration: isPlayable ? ((item as any).duration?.seconds ?? 0) : 0,
+      artwork: thumb,
+      browseId: browseId || undefined,
+      entityType,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Carousels (and playlist grids) of a browse page as sections. Shared by the
+ * home feed and the Moods & genres pages.
+ */
+function parseShelfSections(shelves: any[], fallbackTitle: string): YTHomeSection[] {
+  const sections: YTHomeSection[] = [];
+
+  for (const section of shelves ?? []) {
+    const type = (section as any).type;
+    if (type !== 'MusicCarouselShelf' && type !== 'Grid') continue;
+
+    const title =
+      (section as any).header?.title?.toString?.() || fallbackTitle;
+
+    const items: YTSearchResult[] = [];
+    for (const item of (section as any).contents ?? []) {
+      const parsed = parseShelfItem(item);
+      if (parsed) items.push(parsed);
+    }
+
+    if (items.length > 0) {
+      sections.push({ title, items });
+    }
+  }
+
+  return sections;
+}
+
+/** Sections of the selected tab of a parsed YTMUSIC /browse response. */
+function browseTabContents(response: any): any[] {
+  const tabs = response?.contents?.item?.()?.tabs ?? [];
+  const tab = tabs.find((t: any) => t.selected) ?? tabs[0];
+  return tab?.content?.contents ?? [];
+}
+
 /**
  * Get the YouTube Music home feed (trending / personalized sections).
  */
@@ -1113,97 +1706,63 @@ export async function getHomeFeed(): Promise<YTHomeSection[]> {
   try {
     const yt = await getInnertube();
     const home = await yt.music.getHomeFeed();
-
-    const sections: YTHomeSection[] = [];
-
-    for (const section of home.sections ?? []) {
-      if ((section as any).type !== 'MusicCarouselShelf') continue;
-
-      const title =
-        (section as any).header?.title?.toString?.() ?? 'Trending';
-
-      const items: YTSearchResult[] = [];
-
-      for (const item of (section as any).contents ?? []) {
-        if (item.type === 'MusicTwoRowItem') {
-          // These can be songs, albums, or playlists.
-          const playableVideoId = extractVideoId(item);
-          const browseId = extractBrowseId(item);
-          const pageType = getPageType(item);
-          const isPlayable = !!playableVideoId;
-
-          if (!isPlayable && !browseId) continue;
-
-          let entityType: YTSearchResult['entityType'] = 'song';
-          if (!isPlayable) {
-            if (pageType.includes('ALBUM')) {
-              entityType = 'album';
-            } else if (pageType.includes('PLAYLIST')) {
-              entityType = 'playlist';
-            } else {
-              entityType = 'playlist';
-            }
-          }
-
-          const thumbnails = asThumbnailList((item as any).thumbnail);
-          const thumb = bestThumbnail(thumbnails);
-
-          items.push({
-            videoId: playableVideoId || browseId,
-            title: (item as any).title?.toString?.() ?? '',
-            artist: (item as any).subtitle?.toString?.() ?? '',
-            album: '',
-            duration: isPlayable ? ((item as any).duration?.seconds ?? 0) : 0,
-            artwork: thumb,
-            browseId: browseId || undefined,
-            entityType,
-          });
-        } else if (item.type === 'MusicResponsiveListItem') {
-          const playableVideoId = extractVideoId(item);
-          const browseId = extractBrowseId(item);
-          const itemType = toPlainText((item as any).item_type).toLowerCase();
-          const isPlayable = !!playableVideoId;
-          if (!isPlayable && !browseId) continue;
-
-          const thumbnails = asThumbnailList((item as any).thumbnails);
-          const thumb = bestThumbnail(thumbnails);
-
-          let entityType: YTSearchResult['entityType'] = 'song';
-          if (!isPlayable) {
-            entityType =
-              itemType === 'album'
-                ? 'album'
-                : itemType === 'playlist'
-                  ? 'playlist'
-                  : 'playlist';
-          }
-
-          items.push({
-            videoId: playableVideoId || browseId,
-            title: (item as any).title ?? '',
-            artist:
-              (item as any).artists?.map((a: any) => a.name).join(', ') ?? '',
-            album: (item as any).album?.name ?? '',
-            duration: isPlayable ? ((item as any).duration?.seconds ?? 0) : 0,
-            artwork: thumb,
-            browseId: browseId || undefined,
-            entityType,
-          });
-        }
-      }
-
-      if (items.length > 0) {
-        sections.push({ title, items });
-      }
-    }
-
-    return sections;
+    return parseShelfSections((home.sections ?? []) as any[], 'Trending');
   } catch (e) {
     console.warn('[YT] Failed to fetch home feed:', e);
     return [];
   }
 }
 
+// ── Moods & Genres ───────────────────────────────────────────────────────────
+
+const MOODS_AND_GENRES_BROWSE_ID = 'FEmusic_moods_and_genres';
+const MOOD_CATEGORY_BROWSE_ID = 'FEmusic_moods_and_genres_category';
+
+export interface YTMoodCategory {
+  title: string;
+  group: string; // e.g. "Moods & moments", "Genres"
+  params: string; // browse params of the category page
+}
+
+/**
+ * The categories of YouTube Music's "Moods & genres" page, in its order.
+ * Throws on failure so callers can keep showing a cached list.
+ */
+export async function getMoodCategories(): Promise<YTMoodCategory[]> {
+  const yt = await getInnertube();
+  const response = await yt.actions.execute('/browse', {
+    browseId: MOODS_AND_GENRES_BROWSE_ID,
+    client: 'YTMUSIC',
+    parse: true,
+  });
+
+  const categories: YTMoodCategory[] = [];
+  for (const grid of browseTabContents(response)) {
+    if ((grid as any).type !== 'Grid') continue;
+    const group = toPlainText((grid as any).header?.title);
+
+    for (const button of (grid as any).items ?? []) {
+      if (button.type !== 'MusicNavigationButton') continue;
+      const params = toPlainText(button.endpoint?.payload?.params);
+      const title = toPlainText(button.button_text);
+      if (params && title) categories.push({ title, group, params });
+    }
+  }
+  return categories;
+}
+
+/** Carousels of playlists and songs on one "Moods & genres" category page. */
+export async function getMoodPage(params: string): Promise<YTHomeSection[]> {
+  const yt = await getInnertube();
+  const response = await yt.actions.execute('/browse', {
+    browseId: MOOD_CATEGORY_BROWSE_ID,
+    params,
+    client: 'YTMUSIC',
+    parse: true,
+  });
+  return parseShelfSections(browseTabContents(response), 'Featured');
+}
+
 export async function getCollectionDetails(
   id: string,
   entityType: 'album' | 'playlist',
@@ -0,0 +1,125 @@
+import { create } from 'zustand';
+import { Track, DownloadItem } from '../types';
+
+const DOWNLOADS_KEY = 'downloads';
+
+// Lazy-init MMKV so it doesn't crash when native module isn't loaded yet
+let _storage: any = null;
+function getStorage() {
+  if (!_storage) {
+    try {
+      const { createMMKV } = require('react-native-mmkv');
+      _storage = createMMKV({ id: 'downloads' });
+    } catch {
+      // MMKV unavailable (e.g. Expo Go) – fall back to in-memory only
+      _storage = {
+        set: () => {},
+        getString: () => undefined,
+      };
+    }
+  }
+  return _storage;
+}
+
+function persistDownloads(downloads: DownloadItem[]) {
+  try {
+    getStorage().set(DOWNLOADS_KEY, JSON.stringify(downloads));
+  } catch {
+    // Silently fail on storage errors
+  }
+}
+
+/**
+ * Offline download state. Transfers themselves are driven by
+ * `downloadManager`; this store only records what the UI needs to show.
+ */
+interface DownloadState {
+  downloads: DownloadItem[];
+
+  loadDownloads: () => void;
+  /** Queue tracks that aren't downloaded yet; failed ones are re-queued. */
+  enqueueDownloads: (tracks: Track[]) => void;
+  updateDownload: (trackId: string, patch: Partial<DownloadItem>) => void;
+  /** High-frequency progress update — kept in memory only. */
+  setDownloadProgress: (trackId: string, bytesWritten: number, totalBytes: number) => void;
+  removeDownload: (trackId: string) => void;
+}
+
+const useDownloadStore = create<DownloadState>()((set, get) => ({
+  downloads: [],
+
+  loadDownloads: () => {
+    try {
+      const raw = getStorage().getString(DOWNLOADS_KEY);
+      if (raw) {
+        set({ downloads: JSON.parse(raw) });
+      }
+    } catch {
+      // Silently fail on parse/storage errors
+    }
+  },
+
+  enqueueDownloads: (tracks: Track[]) => {
+    const { downloads } = get();
+    const byId = new Map(downloads.map((d) => [d.track.id, d]));
+    const now = Date.now();
+    let changed = false;
+
+    for (const track of tracks) {
+      const existing = byId.get(track.id);
+      if (!existing) {
+        byId.set(track.id, {
+          track,
+          status: 'queued',
+          progress: 0,
+          bytesWritten: 0,
+          totalBytes: 0,
+          attempts: 0,
+          addedAt: now,
+        });
+        changed = true;
+      } else if (existing.status === 'failed') {
+        byId.set(track.id, { ...existing, status: 'queued', attempts: 0, error: undefined });
+        changed = true;
+      }
+    }
+
+    if (!changed) return;
+    const updated = Array.from(byId.values());
+    set({ downloads: updated });
+    persistDownloads(updated);
+  },
+
+  updateDownload: (trackId: string, patch: Partial<DownloadItem>) => {
+    const { downloads } = get();
+    if (!downloads.some((d) => d.track.id === trackId)) return;
+    const updated = downloads.map((d) =>
+      d.track.id === trackId ? { ...d, ...patch } : d,
+    );
+    set({ downloads: updated });
+    persistDownloads(updated);
+  },
+
+  setDownloadProgress: (trackId: string, bytesWritten: number, totalBytes: number) => {
+    set((state) => ({
+      downloads: state.downloads.map((d) =>
+        d.track.id === trackId
+          ? {
+            ...d,
+            bytesWritten,
+            totalBytes,
+            progress: totalBytes > 0 ? Math.min(1, bytesWritten / totalBytes) : d.progress,
+          }
+          : d,
+      ),
+    }));
+  },
+
+  removeDownload: (trackId: string) => {
+    const updated = get().downloads.filter((d) => d.track.id !== trackId);
+    set({ downloads: updated });
+    persistDownloads(updated);
+  },
+}));
+
+export default useDownloadStore;
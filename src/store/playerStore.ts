@@ -1,9 +1,23 @@
 import { create } from 'zustand';
-import { Track, RepeatMode } from '../types';
+import {
+  Track,
+  RepeatMode,
+  Playlist,
+  LyricLine,
+  QueueContext,
+  SleepTimer,
+  TrackChapter,
+  TrackError,
+} from '../types';
 
 const RECENTLY_PLAYED_KEY = 'recentlyPlayed';
 const LIKED_SONGS_KEY = 'likedSongs';
+const PLAYLISTS_KEY = 'playlists';
+const PLAYBACK_SESSION_KEY = 'playbackSession';
+const AUTOPLAY_KEY = 'autoplay';
 const MAX_RECENTLY_PLAYED = 30;
+// Position is persisted at most this often while playing
+const SESSION_POSITION_SAVE_INTERVAL_MS = 5000;
 
 // Lazy-init MMKV so it doesn't crash when native module isn't loaded yet
 let _storage: any = null;
@@ -17,6 +31,7 @@ function getStorage() {
       _storage = {
         set: () => {},
         getString: () => undefined,
+        remove: () => false,
       };
     }
   }
@@ -33,6 +48,30 @@ function shuffleArray<T>(array: T[]): T[] {
   return shuffled;
 }
 
+function createPlaylistId(): string {
+  return `pl_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function persistPlaylists(playlists: Playlist[]) {
+  try {
+    getStorage().set(PLAYLISTS_KEY, JSON.stringify(playlists));
+  } catch {
+    // Silently fail on storage errors
+  }
+}
+
+/** Snapshot of the queue written to MMKV so it survives app restarts. */
+interface PlaybackSession {
+  queue: Track[];
+  originalQueue: Track[];
+  currentIndex: number;
+  userQueueCount: number;
+  isShuffled: boolean;
+  repeatMode: RepeatMode;
+  position: number;
+  queueContext?: QueueContext | null;
+}
+
 interface PlayerState {
   // State
   currentTrack: Track | null;
@@ -40,6 +79,7 @@ interface PlayerState {
   originalQueue: Track[];
   currentIndex: number;
   userQueueCount: number; // Number of user-added tracks right after currentIndex
+  queueContext: QueueContext | null; // e.g. the radio station the queue plays
   playbackState: 'idle' | 'loading' | 'playing' | 'paused' | 'stopped';
   position: number;
   duration: number;
@@ -48,11 +88,25 @@ interface PlayerState {
   isShuffled: boolean;
   recentlyPlayed: Track[];
   likedSongs: Track[];
+  playlists: Playlist[];
   isPlayerReady: boolean;
+  // True after a cold-start restore, until TrackPlayer's queue is rebuilt
+  hasPendingRestore: boolean;
+  // Keep playing recommendations when the queue runs out
+  autoplayEnabled: boolean;
+  sleepTimer: SleepTimer | null; // driven by the sleepTimer service
+  playbackRate: number; // rate TrackPlayer is currently playing at
+  trackErrors: Record<string, TrackError>; // why a track's stream won't resolve
+  errorNotice: { track: Track; error: TrackError } | null; // toast for a skipped track
 
   // Actions
   setCurrentTrack: (track: Track) => void;
-  setQueue: (tracks: Track[], startIndex?: number) => void;
+  /** Attach fetched lyrics to the current track (ignored if it changed). */
+  setTrackLyrics: (trackId: string, lyrics: LyricLine[], synced: boolean) => void;
+  setTrackChapters: (trackId: string, chapters: TrackChapter[]) => void;
+  setQueue: (tracks: Track[], startIndex?: number, context?: QueueContext | null) => void;
+  setQueueContext: (context: QueueContext | null) => void;
+  setShuffledQueue: (tracks: Track[], startIndex?: number) => Track[];
   setPlaybackState: (state: PlayerState['playbackState']) => void;
   setProgress: (position: number, duration: number, buffered: number) => void;
   syncCurrentIndex: (trackId: string) => void;
@@ -70,6 +124,26 @@ interface PlayerState {
   toggleLike: (track: Track) => void;
   isLiked: (trackId: string) => boolean;
   loadLikedSongs: () => void;
+  createPlaylist: (name: string, tracks?: Track[]) => Playlist;
+  renamePlaylist: (playlistId: string, name: string) => void;
+  deletePlaylist: (playlistId: string) => void;
+  addToPlaylist: (playlistId: string, track: Track) => void;
+  removeFromPlaylist: (playlistId: string, index: number) => void;
+  reorderPlaylist: (playlistId: string, fromIndex: number, toIndex: number) => void;
+  loadPlaylists: () => void;
+  loadPlaybackSession: () => void;
+  markSessionRestored: () => void;
+  setAutoplayEnabled: (enabled: boolean) => void;
+  loadAutoplaySetting: () => void;
+  setSleepTimer: (timer: SleepTimer | null) => void;
+  setPlaybackRate: (rate: number) => void;
+  /** Record (or with null, clear) why a track's stream won't resolve. */
+  setTrackError: (trackId: string, error: TrackError | null) => void;
+  /** Record the error and show a toast for a queued track that was skipped. */
+  reportSkippedTrack: (trackId: string, error: TrackError) => void;
+  dismissErrorNotice: () => void;
+  /** Swap the track at `index`, e.g. for another upload of the same song. */
+  replaceInQueue: (index: number, track: Track) => void;
   clearQueue: () => void;
 }
 
@@ -80,6 +154,7 @@ const usePlayerStore = create<PlayerState>()((set, get) => ({
   originalQueue: [],
   currentIndex: -1,
   userQueueCount: 0,
+  queueContext: null,
   playbackState: 'idle',
   position: 0,
   duration: 0,
@@ -88,20 +163,73 @@ const usePlayerStore = create<PlayerState>()((set, get) => ({
   isShuffled: false,
   recentlyPlayed: [],
   likedSongs: [],
+  playlists: [],
   isPlayerReady: false,
+  hasPendingRestore: false,
+  autoplayEnabled: true,
+  sleepTimer: null,
+  playbackRate: 1,
+  trackErrors: {},
+  errorNotice: null,
 
   setCurrentTrack: (track: Track) => {
     set({ currentTrack: track });
   },
 
-  setQueue: (tracks: Track[], startIndex: number = 0) => {
+  setTrackLyrics: (trackId: string, lyrics: LyricLine[], synced: boolean) => {
+    const { currentTrack } = get();
+    if (!currentTrack || currentTrack.id !== trackId) return;
+    set({ currentTrack: { ...currentTrack, lyrics, lyricsSynced: synced } });
+  },
+
+  setTrackChapters: (trackId: string, chapters: TrackChapter[]) => {
+    const { currentTrack } = get();
+    if (!currentTrack || currentTrack.id !== trackId) return;
+    set({ currentTrack: { ...currentTrack, chapters } });
+  },
+
+  setQueue: (tracks: Track[], startIndex: number = 0, context: QueueContext | null = null) => {
     set({
       queue: [...tracks],
       originalQueue: [...tracks],
       currentIndex: startIndex,
       currentTrack: tracks[startIndex] ?? null,
       userQueueCount: 0,
+      queueContext: context,
+      hasPendingRestore: false,
+    });
+  },
+
+  /**
+   * Replace the queue with a shuffled copy of `tracks`. The track at
+   * `startIndex` is moved to the front; the unshuffled order is kept in
+   * originalQueue so toggling shuffle off restores it. Returns the new queue
+   * so callers can hand the same order to TrackPlayer.
+   */
+  setShuffledQueue: (tracks: Track[], startIndex?: number) => {
+    const start =
+      startIndex ?? Math.floor(Math.random() * Math.max(tracks.length, 1));
+    const startTrack = tracks[start];
+    const rest = tracks.filter((_, i) => i !== start);
+    const shuffled = startTrack
+      ? [startTrack, ...shuffleArray(rest)]
+      : shuffleArray(rest);
+
+    set({
+      queue: shuffled,
+      originalQueue: [...tracks],
+      currentIndex: shuffled.length > 0 ? 0 : -1,
+      currentTrack: shuffled[0] ?? null,
+      userQueueCount: 0,
+      queueContext: null,
+      isShuffled: true,
+      hasPendingRestore: false,
     });
+    return shuffled;
+  },
+
+  setQueueContext: (context: QueueContext | null) => {
+    set({ queueContext: context });
   },
 
   setPlaybackState: (state: PlayerState['playbackState']) => {
@@ -448,6 +576,218 @@ const usePlayerStore = create<PlayerState>()((set, get) => ({
     }
   },
 
+  createPlaylist: (name: string, tracks: Track[] = []) => {
+    const now = Date.now();
+    const playlist: Playlist = {
+      id: createPlaylistId(),
+      name: name.trim() || 'My Playlist',
+      tracks: [...tracks],
+      createdAt: now,
+      updatedAt: now,
+    };
+    set((state) => {
+      const updated = [playlist, ...state.playlists];
+      persistPlaylists(updated);
+      return { playlists: updated };
+    });
+    return playlist;
+  },
+
+  renamePlaylist: (playlistId: string, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    set((state) => {
+      const updated = state.playlists.map((p) =>
+        p.id === playlistId ? { ...p, name: trimmed, updatedAt: Date.now() } : p,
+      );
+      persistPlaylists(updated);
+      return { playlists: updated };
+    });
+  },
+
+  deletePlaylist: (playlistId: string) => {
+    set((state) => {
+      const updated = state.playlists.filter((p) => p.id !== playlistId);
+      persistPlaylists(updated);
+      return { playlists: updated };
+    });
+  },
+
+  // Append a track to a playlist (duplicates are ignored)
+  addToPlaylist: (playlistId: string, track: Track) => {
+    set((state) => {
+      const updated = state.playlists.map((p) => {
+        if (p.id !== playlistId) return p;
+        if (p.tracks.some((t) => t.id === track.id)) return p;
+        return { ...p, tracks: [...p.tracks, track], updatedAt: Date.now() };
+      });
+      persistPlaylists(updated);
+      return { playlists: updated };
+    });
+  },
+
+  removeFromPlaylist: (playlistId: string, index: number) => {
+    set((state) => {
+      const updated = state.playlists.map((p) => {
+        if (p.id !== playlistId) return p;
+        if (index < 0 || index >= p.tracks.length) return p;
+        return {
+          ...p,
+          tracks: p.tracks.filter((_, i) => i !== index),
+          updatedAt: Date.now(),
+        };
+      });
+      persistPlaylists(updated);
+      return { playlists: updated };
+    });
+  },
+
+  reorderPlaylist: (playlistId: string, fromIndex: number, toIndex: number) => {
+    set((state) => {
+      const updated = state.playlists.map((p) => {
+        if (p.id !== playlistId) return p;
+        if (
+          fromIndex === toIndex ||
+          fromIndex < 0 ||
+          fromIndex >= p.tracks.length ||
+          toIndex < 0 ||
+          toIndex >= p.tracks.length
+        ) {
+          return p;
+        }
+        const tracks = [...p.tracks];
+        const [moved] = tracks.splice(fromIndex, 1);
+        tracks.splice(toIndex, 0, moved);
+        return { ...p, tracks, updatedAt: Date.now() };
+      });
+      persistPlaylists(updated);
+      return { playlists: updated };
+    });
+  },
+
+  loadPlaylists: () => {
+    try {
+      const raw = getStorage().getString(PLAYLISTS_KEY);
+      if (raw) {
+        const parsed: Playlist[] = JSON.parse(raw);
+        set({ playlists: parsed });
+      }
+    } catch {
+      // Silently fail
+    }
+  },
+
+  /**
+   * Restore the last queue from MMKV on cold start. The MiniPlayer shows the
+   * saved track paused at the saved position; TrackPlayer's own queue stays
+   * empty until playback is resumed (see usePlayer).
+   */
+  loadPlaybackSession: () => {
+    try {
+      const raw = getStorage().getString(PLAYBACK_SESSION_KEY);
+      if (!raw) return;
+      const session: PlaybackSession = JSON.parse(raw);
+      const track = session.queue?.[session.currentIndex];
+      if (!track) return;
+
+      set({
+        queue: session.queue,
+        originalQueue: session.originalQueue ?? session.queue,
+        currentIndex: session.currentIndex,
+        currentTrack: track,
+        userQueueCount: session.userQueueCount ?? 0,
+        queueContext: session.queueContext ?? null,
+        isShuffled: !!session.isShuffled,
+        repeatMode: session.repeatMode ?? 'off',
+        position: session.position ?? 0,
+        duration: track.duration ?? 0,
+        buffered: 0,
+        playbackState: 'paused',
+        hasPendingRestore: true,
+      });
+    } catch {
+      // Silently fail on parse/storage errors
+    }
+  },
+
+  markSessionRestored: () => {
+    set({ hasPendingRestore: false });
+  },
+
+  setAutoplayEnabled: (enabled: boolean) => {
+    set({ autoplayEnabled: enabled });
+    try {
+      getStorage().set(AUTOPLAY_KEY, JSON.stringify(enabled));
+    } catch {
+      // Silently fail on storage errors
+    }
+  },
+
+  loadAutoplaySetting: () => {
+    try {
+      const raw = getStorage().getString(AUTOPLAY_KEY);
+      if (raw) {
+        set({ autoplayEnabled: JSON.parse(raw) === true });
+      }
+    } catch {
+      // Silently fail on parse/storage errors
+    }
+  },
+
+  setSleepTimer: (timer: SleepTimer | null) => {
+    set({ sleepTimer: timer });
+  },
+
+  setPlaybackRate: (rate: number) => {
+    set({ playbackRate: rate });
+  },
+
+  setTrackError: (trackId: string, error: TrackError | null) => {
+    const { trackErrors, errorNotice } = get();
+    if (!error) {
+      if (!trackErrors[trackId]) return;
+      const { [trackId]: _removed, ...rest } = trackErrors;
+      set({
+        trackErrors: rest,
+        errorNotice: errorNotice?.track.id === trackId ? null : errorNotice,
+      });
+      return;
+    }
+    set({ trackErrors: { ...trackErrors, [trackId]: error } });
+  },
+
+  reportSkippedTrack: (trackId: string, error: TrackError) => {
+    const { trackErrors, queue } = get();
+    const track = queue.find((t) => t.id === trackId);
+    set({
+      trackErrors: { ...trackErrors, [trackId]: error },
+      ...(track ? { errorNotice: { track, error } } : {}),
+    });
+  },
+
+  dismissErrorNotice: () => {
+    set({ errorNotice: null });
+  },
+
+  replaceInQueue: (index: number, track: Track) => {
+    set((state) => {
+      const previous = state.queue[index];
+      if (!previous) return state;
+
+      const queue = [...state.queue];
+      queue[index] = track;
+      const originalQueue = state.originalQueue.map((t) =>
+        t.id === previous.id ? track : t,
+      );
+      return {
+        queue,
+        originalQueue,
+        currentTrack: index === state.currentIndex ? track : state.currentTrack,
+        errorNotice: state.errorNotice?.track.id === previous.id ? null : state.errorNotice,
+      };
+    });
+  },
+
   clearQueue: () => {
     set({
       queue: [],
@@ -459,8 +799,59 @@ const usePlayerStore = create<PlayerState>()((set, get) => ({
       duration: 0,
       buffered: 0,
       userQueueCount: 0,
+      queueContext: null,
+      hasPendingRestore: false,
+      errorNotice: null,
     });
   },
 }));
 
+// ── Session persistence ──────────────────────────────────────────────────────
+// Queue changes are written immediately; position is throttled while playing
+// and flushed whenever the playback state changes (e.g. on pause).
+
+let lastSessionWriteAt = 0;
+
+function persistPlaybackSession(state: PlayerState) {
+  lastSessionWriteAt = Date.now();
+  try {
+    if (state.queue.length === 0 || state.currentIndex < 0) {
+      getStorage().remove(PLAYBACK_SESSION_KEY);
+      return;
+    }
+    const session: PlaybackSession = {
+      queue: state.queue,
+      originalQueue: state.originalQueue,
+      currentIndex: state.currentIndex,
+      userQueueCount: state.userQueueCount,
+      isShuffled: state.isShuffled,
+      repeatMode: state.repeatMode,
+      position: state.position,
+      queueContext: state.queueContext,
+    };
+    getStorage().set(PLAYBACK_SESSION_KEY, JSON.stringify(session));
+  } catch {
+    // Silently fail on storage errors
+  }
+}
+
+usePlayerStore.subscribe((state, prev) => {
+  const queueChanged =
+    state.queue !== prev.queue ||
+    state.originalQueue !== prev.originalQueue ||
+    state.currentIndex !== prev.currentIndex ||
+    state.userQueueCount !== prev.userQueueCount ||
+    state.queueContext !== prev.queueContext ||
+    state.isShuffled !== prev.isShuffled ||
+    state.repeatMode !== prev.repeatMode ||
+    state.playbackState !== prev.playbackState;
+  const positionDue =
+    state.position !== prev.position &&
+    Date.now() - lastSessionWriteAt >= SESSION_POSITION_SAVE_INTERVAL_MS;
+
+  if (queueChanged || positionDue) {
+    persistPlaybackSession(state);
+  }
+});
+
 export default usePlayerStore;
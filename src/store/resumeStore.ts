@@ -0,0 +1,149 @@
+import { create } from 'zustand';
+import { Track } from '../types';
+
+const POSITIONS_KEY = 'positions';
+const PLAYED_KEY = 'played';
+const THRESHOLD_KEY = 'thresholdMinutes';
+const DEFAULT_THRESHOLD_MINUTES = 20;
+// Stopping this close to the end counts as finished
+const FINISHED_MARGIN_SECONDS = 30;
+// Positions this close to the start aren't worth resuming
+const MIN_RESUME_SECONDS = 15;
+const MAX_SAVED_POSITIONS = 200;
+const MAX_PLAYED = 1000;
+
+// Lazy-init MMKV so it doesn't crash when native module isn't loaded yet
+let _storage: any = null;
+function getStorage() {
+  if (!_storage) {
+    try {
+      const { createMMKV } = require('react-native-mmkv');
+      _storage = createMMKV({ id: 'resume-positions' });
+    } catch {
+      // MMKV unavailable (e.g. Expo Go) – fall back to in-memory only
+      _storage = {
+        set: () => {},
+        getString: () => undefined,
+      };
+    }
+  }
+  return _storage;
+}
+
+function persist(key: string, value: unknown) {
+  try {
+    getStorage().set(key, JSON.stringify(value));
+  } catch {
+    // Silently fail on storage errors
+  }
+}
+
+/** Drop the oldest entries; insertion order doubles as recency. */
+function trimOldest<T>(record: Record<string, T>, max: number): Record<string, T> {
+  const ids = Object.keys(record);
+  if (ids.length <= max) return record;
+  const trimmed = { ...record };
+  for (const id of ids.slice(0, ids.length - max)) {
+    delete trimmed[id];
+  }
+  return trimmed;
+}
+
+export interface ResumePosition {
+  position: number; // seconds
+  duration: number; // seconds
+  updatedAt: number;
+}
+
+/**
+ * Where long tracks (mixes, podcasts) were left off. Positions are saved by
+ * useTrackProgress while playing and applied by PlaybackService when the
+ * track becomes active again.
+ */
+interface ResumeState {
+  positions: Record<string, ResumePosition>;
+  played: Record<string, number>; // trackId → when it was finished
+  thresholdMinutes: number; // only tracks longer than this are remembered
+
+  loadPositions: () => void;
+  /** Whether `track` is long enough to have its position remembered. */
+  isResumable: (track: Pick<Track, 'duration'>) => boolean;
+  /** Position to resume `trackId` from, or null to start from the beginning. */
+  getResumePosition: (trackId: string) => number | null;
+  savePosition: (track: Pick<Track, 'id' | 'duration'>, position: number) => void;
+  markPlayed: (trackId: string) => void;
+  clearPosition: (trackId: string) => void;
+  setThresholdMinutes: (minutes: number) => void;
+}
+
+const useResumeStore = create<ResumeState>()((set, get) => ({
+  positions: {},
+  played: {},
+  thresholdMinutes: DEFAULT_THRESHOLD_MINUTES,
+
+  loadPositions: () => {
+    try {
+      const positions = getStorage().getString(POSITIONS_KEY);
+      const played = getStorage().getString(PLAYED_KEY);
+      const threshold = getStorage().getString(THRESHOLD_KEY);
+      set({
+        ...(positions ? { positions: JSON.parse(positions) } : {}),
+        ...(played ? { played: JSON.parse(played) } : {}),
+        ...(threshold ? { thresholdMinutes: JSON.parse(threshold) } : {}),
+      });
+    } catch {
+      // Silently fail on parse/storage errors
+    }
+  },
+
+  isResumable: (track) => track.duration > get().thresholdMinutes * 60,
+
+  getResumePosition: (trackId: string) => {
+    const saved = get().positions[trackId];
+    return saved ? saved.position : null;
+  },
+
+  savePosition: (track, position: number) => {
+    if (!get().isResumable(track)) return;
+
+    if (position >= track.duration - FINISHED_MARGIN_SECONDS) {
+      const { positions, played } = get();
+      if (played[track.id] && !positions[track.id]) return;
+      get().markPlayed(track.id);
+      return;
+    }
+    if (position < MIN_RESUME_SECONDS) return;
+
+    const { [track.id]: _previous, ...rest } = get().positions;
+    const positions = trimOldest(
+      { ...rest, [track.id]: { position, duration: track.duration, updatedAt: Date.now() } },
+      MAX_SAVED_POSITIONS,
+    );
+    set({ positions });
+    persist(POSITIONS_KEY, positions);
+  },
+
+  markPlayed: (trackId: string) => {
+    const { [trackId]: _removed, ...positions } = get().positions;
+    const { [trackId]: _previous, ...rest } = get().played;
+    const played = trimOldest({ ...rest, [trackId]: Date.now() }, MAX_PLAYED);
+    set({ positions, played });
+    persist(POSITIONS_KEY, positions);
+    persist(PLAYED_KEY, played);
+  },
+
+  clearPosition: (trackId: string) => {
+    const { [trackId]: _removed, ...positions } = get().positions;
+    const { [trackId]: _played, ...played } = get().played;
+    set({ positions, played });
+    persist(POSITIONS_KEY, positions);
+    persist(PLAYED_KEY, played);
+  },
+
+  setThresholdMinutes: (minutes: number) => {
+    set({ thresholdMinutes: minutes });
+    persist(THRESHOLD_KEY, minutes);
+  },
+}));
+
+export default useResumeStore;
@@ -0,0 +1,146 @@
+import { create } from 'zustand';
+import { RecentSearchResult } from '../types';
+
+const QUERIES_KEY = 'queries';
+const RESULTS_KEY = 'results';
+const MAX_QUERIES = 20;
+const MAX_RESULTS = 20;
+
+// Lazy-init MMKV so it doesn't crash when native module isn't loaded yet
+let _storage: any = null;
+function getStorage() {
+  if (!_storage) {
+    try {
+      const { createMMKV } = require('react-native-mmkv');
+      _storage = createMMKV({ id: 'search-history' });
+    } catch {
+      // MMKV unavailable (e.g. Expo Go) – fall back to in-memory only
+      _storage = {
+        set: () => {},
+        getString: () => undefined,
+      };
+    }
+  }
+  return _storage;
+}
+
+function persist(key: string, value: unknown) {
+  try {
+    getStorage().set(key, JSON.stringify(value));
+  } catch {
+    // Silently fail on storage errors
+  }
+}
+
+/** Identifies a result across searches, e.g. "song:dQw4w9WgXcQ". */
+export function recentResultKey(result: RecentSearchResult): string {
+  switch (result.kind) {
+    case 'song':
+    case 'video':
+      return `${result.kind}:${result.track.id}`;
+    case 'album':
+    case 'playlist':
+      return `${result.kind}:${result.source}:${result.id}`;
+    case 'artist':
+      return `artist:${result.name.toLowerCase()}`;
+  }
+}
+
+export interface SearchHistoryQuery {
+  query: string;
+  searchedAt: number; // ms timestamp
+}
+
+export interface SearchHistoryResult {
+  key: string; // recentResultKey
+  result: RecentSearchResult;
+  openedAt: number; // ms timestamp
+}
+
+/**
+ * Recent searches and the results opened from them, newest first. Shown by
+ * SearchScreen while the search bar is focused and empty, and matched
+ * against the typed text for suggestions.
+ */
+interface SearchHistoryState {
+  queries: SearchHistoryQuery[];
+  results: SearchHistoryResult[];
+
+  loadSearchHistory: () => void;
+  addQuery: (query: string) => void;
+  addResult: (result: RecentSearchResult) => void;
+  removeQuery: (query: string) => void;
+  removeResult: (key: string) => void;
+  clearHistory: () => void;
+  /** Past queries containing `text`, newest first; not `text` itself. */
+  findQueries: (text: string, limit: number) => string[];
+}
+
+const useSearchHistoryStore = create<SearchHistoryState>()((set, get) => ({
+  queries: [],
+  results: [],
+
+  loadSearchHistory: () => {
+    try {
+      const queries = getStorage().getString(QUERIES_KEY);
+      const results = getStorage().getString(RESULTS_KEY);
+      set({
+        ...(queries ? { queries: JSON.parse(queries) } : {}),
+        ...(results ? { results: JSON.parse(results) } : {}),
+      });
+    } catch {
+      // Silently fail on parse/storage errors
+    }
+  },
+
+  addQuery: (query: string) => {
+    const trimmed = query.trim();
+    if (!trimmed) return;
+    const lower = trimmed.toLowerCase();
+    const queries = [
+      { query: trimmed, searchedAt: Date.now() },
+      ...get().queries.filter((q) => q.query.toLowerCase() !== lower),
+    ].slice(0, MAX_QUERIES);
+    set({ queries });
+    persist(QUERIES_KEY, queries);
+  },
+
+  addResult: (result: RecentSearchResult) => {
+    const key = recentResultKey(result);
+    const results = [
+      { key, result, openedAt: Date.now() },
+      ...get().results.filter((r) => r.key !== key),
+    ].slice(0, MAX_RESULTS);
+    set({ results });
+    persist(RESULTS_KEY, results);
+  },
+
+  removeQuery: (query: string) => {
+    const queries = get().queries.filter((q) => q.query !== query);
+    set({ queries });
+    persist(QUERIES_KEY, queries);
+  },
+
+  removeResult: (key: string) => {
+    const results = get().results.filter((r) => r.key !== key);
+    set({ results });
+    persist(RESULTS_KEY, results);
+  },
+
+  clearHistory: () => {
+    set({ queries: [], results: [] });
+    persist(QUERIES_KEY, []);
+    persist(RESULTS_KEY, []);
+  },
+
+  findQueries: (text: string, limit: number) => {
+    const needle = text.trim().toLowerCase();
+    if (!needle) return [];
+    return get()
+      .queries.map((q) => q.query)
+      .filter((q) => q.toLowerCase() !== needle && q.toLowerCase().includes(needle))
+      .slice(0, limit);
+  },
+}));
+
+export default useSearchHistoryStore;
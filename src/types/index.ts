@@ -7,15 +7,149 @@ export interface Track {
   url: any; // require() for local, string URL for remote (resolved lazily for YT)
   duration: number; // seconds
   lyrics?: LyricLine[];
+  lyricsSynced?: boolean; // false when lyrics are plain text without timestamps
   isYT?: boolean; // true if this track streams from YouTube
   source?: 'youtube' | 'jiosaavn' | 'local';
+  chapters?: TrackChapter[]; // empty when the video has none; undefined until fetched
+}
+
+/** A chapter of a long YouTube video, e.g. one song of a DJ set. */
+export interface TrackChapter {
+  title: string;
+  start: number; // seconds
 }
 
 export interface LyricLine {
   time: number; // seconds
   text: string;
+  words?: LyricWord[]; // per-word timings from enhanced LRC, when available
+}
+
+export interface LyricWord {
+  time: number; // seconds
+  text: string; // includes trailing whitespace so words can be rendered inline
+}
+
+export interface Playlist {
+  id: string;
+  name: string;
+  tracks: Track[];
+  createdAt: number; // ms timestamp
+  updatedAt: number; // ms timestamp
 }
 
 export type RepeatMode = 'off' | 'track' | 'queue';
 
+/** What a "Start radio" station is built from. */
+export type RadioSeed =
+  | { type: 'track'; track: Track }
+  | { type: 'artist'; name: string }
+  | { type: 'album' | 'playlist'; id: string; title: string; tracks: Track[] };
+
+/** Where the current queue came from, shown as the queue's label. */
+export interface QueueContext {
+  type: 'radio';
+  label: string; // e.g. "Blinding Lights Radio"
+  continuation?: string; // token for the station's next page
+}
+
+/** When the sleep timer pauses playback. */
+export type SleepTimerOption =
+  | { type: 'duration'; minutes: number }
+  | { type: 'endOfTrack' }
+  | { type: 'endOfQueue' };
+
+export interface SleepTimer {
+  option: SleepTimerOption;
+  endsAt: number | null; // timestamp for fixed durations
+  remainingSeconds: number | null; // null until the end is known
+}
+
 export type ShuffleMode = boolean;
+
+/** Why a track's stream couldn't be resolved (see services/streamErrors). */
+export type StreamErrorKind =
+  | 'age-restricted'
+  | 'region-blocked'
+  | 'removed'
+  | 'login-required'
+  | 'po-token-required'
+  | 'network'
+  | 'timeout'
+  | 'all-clients-exhausted';
+
+/** The last resolution failure of a track, kept in playerStore for the UI. */
+export interface TrackError {
+  kind: StreamErrorKind;
+  message: string;
+  at: number; // ms timestamp
+}
+
+export type DownloadStatus = 'queued' | 'downloading' | 'paused' | 'completed' | 'failed';
+
+export interface DownloadItem {
+  track: Track;
+  status: DownloadStatus;
+  progress: number; // 0–1
+  bytesWritten: number;
+  totalBytes: number;
+  attempts: number; // failed attempts since the last manual retry
+  error?: string;
+  addedAt: number; // ms timestamp
+}
+
+/** One play of a track, recorded when it stops being the active track. */
+export interface ListenEvent {
+  trackId: string;
+  source?: Track['source'];
+  startedAt: number; // ms timestamp
+  listenedSeconds: number; // time actually spent playing, excluding pauses
+  skipped: boolean; // left before reaching the end
+  completed: boolean; // played through to the end
+}
+
+/** Track metadata kept alongside listen events so stats survive queue changes. */
+export interface HistoryTrack {
+  id: string;
+  title: string;
+  artist: string;
+  album: string;
+  artwork: any;
+  duration: number; // seconds
+}
+
+export type StatsRange = 'week' | 'month' | 'year' | 'all';
+
+export interface ListeningStats {
+  range: StatsRange;
+  totalSeconds: number;
+  playCount: number;
+  topTracks: { track: HistoryTrack; plays: number; seconds: number }[];
+  topArtists: { name: string; artwork: any; plays: number; seconds: number }[];
+  topAlbums: { name: string; artist: string; artwork: any; plays: number; seconds: number }[];
+  secondsByHour: number[]; // 24 buckets, local time
+}
+
+/** An album or playlist found in search, from either source. */
+export interface SearchCollection {
+  kind: 'album' | 'playlist';
+  source: 'youtube' | 'jiosaavn';
+  id: string;
+  title: string;
+  subtitle: string;
+  artwork: string;
+}
+
+/** An artist found in search. */
+export interface SearchArtist {
+  kind: 'artist';
+  name: string;
+  subtitle: string;
+  artwork: string;
+}
+
+/** A search result the user opened, kept in the search history. */
+export type RecentSearchResult =
+  | { kind: 'song' | 'video'; track: Track }
+  | SearchCollection
+  | SearchArtist;